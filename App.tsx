@@ -2,10 +2,22 @@ import { DarkTheme, DefaultTheme, NavigationContainer } from "@react-navigation/
 import AuthFlow from "./src/AuthFlow";
 
 import { DIProvider } from "./src/core/di/DIProvider";
+import { DeepLinkGate } from "./src/core/navigation/deepLinks";
+import { createAppLinking } from "./src/core/navigation/linking";
+import { RobleEnvironmentRegistry } from "./src/core/environment/RobleEnvironmentRegistry";
+import { useRobleEnvironment } from "./src/core/environment/useRobleEnvironment";
+import { LocalPreferencesAsyncStorage } from "./src/core/LocalPreferencesAsyncStorage";
 import { AuthProvider } from "./src/features/auth/presentation/context/authContext";
+import { SessionLockProvider } from "./src/features/auth/presentation/context/sessionLockContext";
 import { ProductProvider } from "./src/features/products/presentation/context/productContext";
 import { ThemeProvider, useThemeMode } from "./src/theme/ThemeProvider";
 
+const environmentRegistry = new RobleEnvironmentRegistry({
+  preferences: LocalPreferencesAsyncStorage.getInstance(),
+});
+const deepLinkGate = new DeepLinkGate();
+const linking = createAppLinking(deepLinkGate);
+
 export default function App() {
   return (
     <ThemeProvider>
@@ -16,6 +28,7 @@ export default function App() {
 
 function AppContent() {
   const { theme, isDarkMode } = useThemeMode();
+  const environment = useRobleEnvironment(environmentRegistry);
 
   const navigationTheme = {
     ...(isDarkMode ? DarkTheme : DefaultTheme),
@@ -30,14 +43,21 @@ function AppContent() {
     },
   };
 
+  // Hasta leer el perfil guardado no se sabe contra qué servidor armar el contenedor.
+  if (!environment.isLoaded) {
+    return null;
+  }
+
   return (
-    <DIProvider>
+    <DIProvider key={environment.current.id} environmentRegistry={environmentRegistry}>
       <AuthProvider>
-        <ProductProvider>
-          <NavigationContainer theme={navigationTheme}>
-            <AuthFlow />
-          </NavigationContainer>
-        </ProductProvider>
+        <SessionLockProvider>
+          <ProductProvider>
+            <NavigationContainer theme={navigationTheme} linking={linking}>
+              <AuthFlow deepLinkGate={deepLinkGate} />
+            </NavigationContainer>
+          </ProductProvider>
+        </SessionLockProvider>
       </AuthProvider>
     </DIProvider>
   );
@@ -3,15 +3,24 @@ import React from "react";
 import { View } from "react-native";
 import { ActivityIndicator } from "react-native-paper";
 
+import { DeepLinkGate } from "./core/navigation/deepLinks";
+import { useDeferredDeepLinks } from "./core/navigation/useDeferredDeepLinks";
+import { useOutboxReplay } from "./data/outbox/hooks/useOutboxReplay";
 import AccountScreen from "./features/account/presentation/screens/AccountScreen";
+import ChangePasswordScreen from "./features/account/presentation/screens/ChangePasswordScreen";
+import DeleteAccountScreen from "./features/account/presentation/screens/DeleteAccountScreen";
+import EditProfileScreen from "./features/account/presentation/screens/EditProfileScreen";
 import { CreateActivityScreen } from "./features/activity/presentation/screens/CreateActivityScreen";
 import { EditActivityScreen } from "./features/activity/presentation/screens/EditActivityScreen";
 import { useAuth } from "./features/auth/presentation/context/authContext";
+import { useSessionLock } from "./features/auth/presentation/context/sessionLockContext";
+import AppLockScreen from "./features/auth/presentation/screens/AppLockScreen";
 import EmailVerificationScreen from "./features/auth/presentation/screens/EmailVerificationScreen";
 import ForgotPasswordScreen from "./features/auth/presentation/screens/ForgotPasswordScreen";
 import LoginScreen from "./features/auth/presentation/screens/LoginScreen";
 import PasswordResetSuccessScreen from "./features/auth/presentation/screens/PasswordResetSuccessScreen";
 import ResetPasswordScreen from "./features/auth/presentation/screens/ResetPasswordScreen";
+import SessionSecurityScreen from "./features/auth/presentation/screens/SessionSecurityScreen";
 import SignupScreen from "./features/auth/presentation/screens/SignupScreen";
 import CalendarScreen from "./features/calendar/presentation/screens/CalendarScreen";
 import CreateCategoryScreen from "./features/category/presentation/screens/CreateCategoryScreen";
@@ -22,6 +31,8 @@ import CourseCategoriesScreen from "./features/course/presentation/screens/Cours
 import CourseDetailScreen from "./features/course/presentation/screens/CourseDetailScreen";
 import CourseGroupsScreen from "./features/course/presentation/screens/CourseGroupsScreen";
 import CourseStudentsScreen from "./features/course/presentation/screens/CourseStudentsScreen";
+import CourseHistoryScreen from "./features/audit/presentation/screens/CourseHistoryScreen";
+import CourseStaffScreen from "./features/staff/presentation/screens/CourseStaffScreen";
 import CreateCourseScreen from "./features/course/presentation/screens/CreateCourseScreen";
 import CreateOptionsScreen from "./features/create/presentation/screens/CreateOptionsScreen";
 import JoinCourseScreen from "./features/enrollment/presentation/screens/JoinCourseScreen";
@@ -41,14 +52,23 @@ import EditGroupScreen from "./features/group/presentation/screens/EditGroupScre
 import AddProductScreen from "./features/products/presentation/screens/AddProductScreen";
 import UpdateProductScreen from "./features/products/presentation/screens/UpdateProductScreen";
 import SettingScreen from "./features/settings/SettingScreen";
+import DeveloperScreen from "./features/developer/presentation/screens/DeveloperScreen";
+import NetworkInspectorScreen from "./features/developer/presentation/screens/NetworkInspectorScreen";
 import { AvailableCoursesScreen } from "./features/student/presentation/screens/AvailableCoursesScreen";
 import { StudentDashboardScreen } from "./features/student/presentation/screens/StudentDashboardScreen";
 
 
 const Stack = createStackNavigator();
 
-export default function AuthFlow() {
-  const { status } = useAuth();
+type AuthFlowProps = {
+  deepLinkGate: DeepLinkGate;
+};
+
+export default function AuthFlow({ deepLinkGate }: AuthFlowProps) {
+  const { status, user } = useAuth();
+  const { locked } = useSessionLock();
+  useOutboxReplay(status === "authenticated");
+  useDeferredDeepLinks(deepLinkGate, status === "authenticated");
 
   if (status === "checking") {
     return (
@@ -61,239 +81,301 @@ export default function AuthFlow() {
   const initialRouteName = status === "authenticated" ? "Home" : "Login";
 
   return (
-    <Stack.Navigator screenOptions={{ headerShown: false }} initialRouteName={initialRouteName}>
-      {status === "authenticated" ? (
-        <>
-          <Stack.Screen name="Home" component={HomeScreen} />
-          <Stack.Screen name="Calendar" component={CalendarScreen} />
-          <Stack.Screen name="Notifications" component={NotificationsScreen} />
-          <Stack.Screen name="Account" component={AccountScreen} />
-          <Stack.Screen name="Settings" component={SettingScreen} />
+    <View style={{ flex: 1 }}>
+      {/* Cambiar de cuenta vuelve a montar las pantallas para que no muestren datos de la anterior. */}
+      <Stack.Navigator
+        key={status === "authenticated" ? user?.id : "guest"}
+        screenOptions={{ headerShown: false }}
+        initialRouteName={initialRouteName}
+      >
+        {status === "authenticated" ? (
+          <>
+            <Stack.Screen name="Home" component={HomeScreen} />
+            <Stack.Screen name="Calendar" component={CalendarScreen} />
+            <Stack.Screen name="Notifications" component={NotificationsScreen} />
+            <Stack.Screen name="Account" component={AccountScreen} />
+            <Stack.Screen name="Settings" component={SettingScreen} />
+            <Stack.Screen name="Developer" component={DeveloperScreen} />
+            <Stack.Screen name="NetworkInspector" component={NetworkInspectorScreen} />
+            <Stack.Screen
+              name="CreateOptions"
+              component={CreateOptionsScreen}
+              options={{
+                headerShown: false,
+                presentation: "modal",
+              }}
+            />
+            <Stack.Screen
+              name="CreateCategory"
+              component={CreateCategoryScreen}
+              options={{
+                title: "Nueva categoría",
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="CreateCourse"
+              component={CreateCourseScreen}
+              options={{
+                title: "Nuevo curso",
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="CreateGroup"
+              component={CreateGroupScreen}
+              options={{
+                title: "Nuevo grupo",
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="AllCourses"
+              component={AllCoursesScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseDetail"
+              component={CourseDetailScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseActivities"
+              component={CourseActivitiesScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseCategories"
+              component={CourseCategoriesScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseGroups"
+              component={CourseGroupsScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseStudents"
+              component={CourseStudentsScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseHistory"
+              component={CourseHistoryScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="CourseStaff"
+              component={CourseStaffScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="JoinCourse"
+              component={JoinCourseScreen}
+              options={{
+                title: "Unirme a un curso",
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="JoinGroup"
+              component={JoinGroupScreen}
+              options={{
+                title: "Unirme a un grupo",
+                headerShown: false,
+                presentation: "modal",
+              }}
+            />
+            <Stack.Screen
+              name="ActivityDetail"
+              component={ActivityDetailScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewCalificar"
+              component={PeerReviewCalificarScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewEvaluate"
+              component={PeerReviewEvaluateScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewMisResultados"
+              component={PeerReviewMisResultadosScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="AddProductScreen"
+              component={AddProductScreen}
+              options={{
+                title: "Add Product",
+                headerShown: true,
+                presentation: 'modal' // Optional: makes it slide up from bottom
+              }}
+            />
+            <Stack.Screen
+              name="UpdateProductScreen"
+              component={UpdateProductScreen}
+              options={{
+                title: "Update Product",
+                headerShown: true,
+                presentation: 'modal' // Optional: makes it slide up from bottom
+              }}
+            />
           <Stack.Screen
-            name="CreateOptions"
-            component={CreateOptionsScreen}
+            name="EditCourse"
+            component={EditCourseScreen}
             options={{
+              title: "Editar curso",
               headerShown: false,
               presentation: "modal",
             }}
           />
           <Stack.Screen
-            name="CreateCategory"
-            component={CreateCategoryScreen}
-            options={{
-              title: "Nueva categoría",
-              headerShown: true,
-            }}
-          />
-          <Stack.Screen
-            name="CreateCourse"
-            component={CreateCourseScreen}
-            options={{
-              title: "Nuevo curso",
-              headerShown: true,
-            }}
-          />
-          <Stack.Screen
-            name="CreateGroup"
-            component={CreateGroupScreen}
-            options={{
-              title: "Nuevo grupo",
-              headerShown: true,
-            }}
-          />
-          <Stack.Screen
-            name="AllCourses"
-            component={AllCoursesScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="CourseDetail"
-            component={CourseDetailScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="CourseActivities"
-            component={CourseActivitiesScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="CourseCategories"
-            component={CourseCategoriesScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="CourseGroups"
-            component={CourseGroupsScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="CourseStudents"
-            component={CourseStudentsScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="JoinCourse"
-            component={JoinCourseScreen}
-            options={{
-              title: "Unirme a un curso",
-              headerShown: true,
-            }}
-          />
-          <Stack.Screen
-            name="JoinGroup"
-            component={JoinGroupScreen}
+            name="EditProfile"
+            component={EditProfileScreen}
             options={{
-              title: "Unirme a un grupo",
+              title: "Editar perfil",
               headerShown: false,
               presentation: "modal",
             }}
           />
           <Stack.Screen
-            name="ActivityDetail"
-            component={ActivityDetailScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="PeerReviewCalificar"
-            component={PeerReviewCalificarScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="PeerReviewEvaluate"
-            component={PeerReviewEvaluateScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="PeerReviewMisResultados"
-            component={PeerReviewMisResultadosScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="AddProductScreen"
-            component={AddProductScreen}
-            options={{
-              title: "Add Product",
-              headerShown: true,
-              presentation: 'modal' // Optional: makes it slide up from bottom
-            }}
-          />
-          <Stack.Screen
-            name="UpdateProductScreen"
-            component={UpdateProductScreen}
-            options={{
-              title: "Update Product",
-              headerShown: true,
-              presentation: 'modal' // Optional: makes it slide up from bottom
-            }}
-          />
-        <Stack.Screen
-          name="EditCourse"
-          component={EditCourseScreen}
-          options={{
-            title: "Editar curso",
-            headerShown: false,
-            presentation: "modal",
-          }}
-        />
-        <Stack.Screen
-          name="EditGroup"
-          component={EditGroupScreen}
-          options={{
-            title: "Editar grupo",
-            headerShown: false,
-            presentation: "modal",
-          }}
-        />
-          <Stack.Screen
-            name="CreateActivity"
-            component={CreateActivityScreen}
+            name="ChangePassword"
+            component={ChangePasswordScreen}
             options={{
+              title: "Cambiar contraseña",
               headerShown: false,
               presentation: "modal",
             }}
           />
           <Stack.Screen
-            name="EditActivity"
-            component={EditActivityScreen}
+            name="DeleteAccount"
+            component={DeleteAccountScreen}
             options={{
+              title: "Eliminar cuenta",
               headerShown: false,
               presentation: "modal",
             }}
           />
           <Stack.Screen
-            name="StudentDashboard"
-            component={StudentDashboardScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="AvailableCourses"
-            component={AvailableCoursesScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="EditCategory"
-            component={EditCategoryScreen}
+            name="SessionSecurity"
+            component={SessionSecurityScreen}
             options={{
+              title: "Seguridad de la sesión",
               headerShown: false,
               presentation: "modal",
             }}
           />
           <Stack.Screen
-            name="PeerReviewCourseSummary"
-            component={CoursePeerReviewSummaryScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="PeerReviewSelectGroup"
-            component={PeerReviewSelectGroupScreen}
-            options={{
-              headerShown: false,
-            }}
-          />
-          <Stack.Screen
-            name="PeerReviewGroupSummary"
-            component={PeerReviewGroupSummaryScreen}
+            name="EditGroup"
+            component={EditGroupScreen}
             options={{
+              title: "Editar grupo",
               headerShown: false,
+              presentation: "modal",
             }}
           />
-        </>
-      ) : (
-        <>
-          <Stack.Screen name="Login" component={LoginScreen} />
-          <Stack.Screen name="Signup" component={SignupScreen} />
-          <Stack.Screen name="EmailVerification" component={EmailVerificationScreen} />
-          <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
-          <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
-          <Stack.Screen name="PasswordResetSuccess" component={PasswordResetSuccessScreen} />
-        </>
-      )}
-    </Stack.Navigator>
+            <Stack.Screen
+              name="CreateActivity"
+              component={CreateActivityScreen}
+              options={{
+                headerShown: false,
+                presentation: "modal",
+              }}
+            />
+            <Stack.Screen
+              name="EditActivity"
+              component={EditActivityScreen}
+              options={{
+                headerShown: false,
+                presentation: "modal",
+              }}
+            />
+            <Stack.Screen
+              name="StudentDashboard"
+              component={StudentDashboardScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="AvailableCourses"
+              component={AvailableCoursesScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="EditCategory"
+              component={EditCategoryScreen}
+              options={{
+                headerShown: false,
+                presentation: "modal",
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewCourseSummary"
+              component={CoursePeerReviewSummaryScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewSelectGroup"
+              component={PeerReviewSelectGroupScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+            <Stack.Screen
+              name="PeerReviewGroupSummary"
+              component={PeerReviewGroupSummaryScreen}
+              options={{
+                headerShown: false,
+              }}
+            />
+          </>
+        ) : (
+          <>
+            <Stack.Screen name="Login" component={LoginScreen} />
+            <Stack.Screen name="Signup" component={SignupScreen} />
+            <Stack.Screen name="EmailVerification" component={EmailVerificationScreen} />
+            <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+            <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
+            <Stack.Screen name="PasswordResetSuccess" component={PasswordResetSuccessScreen} />
+            <Stack.Screen name="Developer" component={DeveloperScreen} />
+            <Stack.Screen name="NetworkInspector" component={NetworkInspectorScreen} />
+          </>
+        )}
+      </Stack.Navigator>
+      {status === "authenticated" && locked ? <AppLockScreen /> : null}
+    </View>
   );
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { Alert } from "react-native";
+
+import { mergeConcurrentEdits } from "@/src/core/utils/mergeConcurrentEdits";
+
+type ConflictPrompt<T extends object> = {
+  entityLabel: string;
+  // Copia con la que se abrió el formulario, edición local y versión guardada más reciente.
+  base: T;
+  local: T;
+  latest: T;
+  fieldLabels: Partial<Record<keyof T, string>>;
+  onReload: (latest: T) => void;
+  onMerge: (merged: T) => void;
+};
+
+/**
+ * Avisa que otra persona guardó cambios mientras se editaba y deja elegir entre recargar la versión
+ * guardada o combinarla con los campos editados aquí.
+ */
+export const promptConflictResolution = <T extends object>({
+  entityLabel,
+  base,
+  local,
+  latest,
+  fieldLabels,
+  onReload,
+  onMerge,
+}: ConflictPrompt<T>) => {
+  const fields = Object.keys(fieldLabels) as (keyof T)[];
+  const { merged, overlapping } = mergeConcurrentEdits(base, local, latest, fields);
+  const detail = overlapping.length
+    ? `Ambos cambiaron: ${overlapping.map((field) => fieldLabels[field]).join(", ")}. Si combinas, se conserva lo que escribiste aquí.`
+    : "Sus cambios no tocan los campos que editaste, así que puedes combinarlos.";
+
+  Alert.alert(
+    "Cambios en conflicto",
+    `Alguien más guardó cambios en ${entityLabel} mientras editabas. ${detail}`,
+    [
+      { text: "Cancelar", style: "cancel" },
+      { text: "Recargar", onPress: () => onReload(latest) },
+      { text: "Combinar y guardar", onPress: () => onMerge(merged) },
+    ],
+  );
+};
@@ -0,0 +1,45 @@
+import { ILocalPreferences } from './iLocalPreferences';
+
+/**
+ * Preferencias en memoria para pruebas. Guarda cada valor serializado, como AsyncStorage, así que
+ * cada lectura devuelve una copia y nadie comparte referencias con lo guardado.
+ */
+export class InMemoryLocalPreferences implements ILocalPreferences {
+
+    private readonly store = new Map<string, string>();
+
+    constructor(initial: Record<string, unknown> = {}) {
+        for (const [key, value] of Object.entries(initial)) {
+            this.store.set(key, JSON.stringify(value));
+        }
+    }
+
+    has(key: string): boolean {
+        return this.store.has(key);
+    }
+
+    async storeData<T>(key: string, value: T): Promise<void> {
+        this.store.set(key, JSON.stringify(value));
+    }
+    async retrieveData<T>(key: string): Promise<T | null> {
+        const jsonValue = this.store.get(key);
+        return jsonValue ? JSON.parse(jsonValue) : null;
+    }
+    async removeData(key: string): Promise<void> {
+        this.store.delete(key);
+    }
+    async storeEntry<T>(key: string, entry: T): Promise<void> {
+        const entries = await this.getAllEntries<T>(key);
+        this.store.set(key, JSON.stringify([...entries, entry]));
+    }
+    async getAllEntries<T>(key: string): Promise<T[]> {
+        const jsonValue = this.store.get(key);
+        return jsonValue ? JSON.parse(jsonValue) : [];
+    }
+    async replaceEntries<T>(key: string, entries: T[]): Promise<void> {
+        this.store.set(key, JSON.stringify(entries));
+    }
+    async clearAll(): Promise<void> {
+        this.store.clear();
+    }
+}
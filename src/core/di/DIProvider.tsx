@@ -3,43 +3,99 @@ import { createContext, useContext, useMemo } from "react";
 import { Container } from "./container";
 import { TOKENS } from "./tokens";
 
+import { RobleEnvironmentRegistry } from "@/src/core/environment/RobleEnvironmentRegistry";
+import { RobleEnvironmentProfile } from "@/src/core/environment/robleEnvironments";
 import { AppEventBus } from "@/src/core/events/AppEventBus";
+import { LocalPreferencesAsyncStorage } from "@/src/core/LocalPreferencesAsyncStorage";
 import { RefreshManager } from "@/src/core/utils/RefreshManager";
+import {
+    auditActivityRepository,
+    auditCategoryRepository,
+    auditCourseRepository,
+    auditCourseStaffRepository,
+    auditEnrollmentRepository,
+    auditGroupRepository,
+    auditMembershipRepository,
+} from "@/src/data/audit/auditedRepositories";
+import { AuditTrail } from "@/src/data/audit/AuditTrail";
+import { createOutboxHandlers } from "@/src/data/outbox/outboxHandlers";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { WriteOutbox } from "@/src/data/outbox/WriteOutbox";
+import { AuditLogRepositoryImpl } from "@/src/data/repositories/AuditLogRepositoryImpl";
 import { CategoryRepositoryImpl } from "@/src/data/repositories/CategoryRepositoryImpl";
 import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
 import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
 import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
 import { GroupRepositoryImpl } from "@/src/data/repositories/GroupRepositoryImpl";
 import { MembershipRepositoryImpl } from "@/src/data/repositories/MembershipRepositoryImpl";
 import { UserRepositoryImpl } from "@/src/data/repositories/UserRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleReadCache } from "@/src/data/services/RobleReadCache";
+import { RobleRequestLog } from "@/src/data/services/RobleRequestLog";
 import { RobleService } from "@/src/data/services/RobleService";
+import { FetchRobleTransport, RobleTransport } from "@/src/data/services/RobleTransport";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { JoinCodeService } from "@/src/domain/services/JoinCodeService";
+import { RandomGroupAssigner } from "@/src/domain/services/RandomGroupAssigner";
+import { ArchiveActivityUseCase } from "@/src/domain/usecases/activity/ArchiveActivityUseCase";
+import { CreateActivityUseCase } from "@/src/domain/usecases/activity/CreateActivityUseCase";
 import { GetCourseActivitiesForStudentUseCase } from "@/src/domain/usecases/activity/GetCourseActivitiesForStudentUseCase";
+import { UpdateActivityUseCase } from "@/src/domain/usecases/activity/UpdateActivityUseCase";
+import { ArchiveCategoryUseCase } from "@/src/domain/usecases/category/ArchiveCategoryUseCase";
 import { CreateCategoryUseCase } from "@/src/domain/usecases/category/CreateCategoryUseCase";
+import { UpdateCategoryUseCase } from "@/src/domain/usecases/category/UpdateCategoryUseCase";
+import { ArchiveCourseUseCase } from "@/src/domain/usecases/course/ArchiveCourseUseCase";
 import { CreateCourseUseCase } from "@/src/domain/usecases/course/CreateCourseUseCase";
+import { RegenerateJoinCodeUseCase } from "@/src/domain/usecases/course/RegenerateJoinCodeUseCase";
+import { UpdateJoinCodeSettingsUseCase } from "@/src/domain/usecases/course/UpdateJoinCodeSettingsUseCase";
 import { EnrollToCourseUseCase } from "@/src/domain/usecases/enrollment/EnrollToCourseUseCase";
 import { GetMyEnrollmentsUseCase } from "@/src/domain/usecases/enrollment/GetMyEnrollmentsUseCase";
+import { ReviewEnrollmentRequestsUseCase } from "@/src/domain/usecases/enrollment/ReviewEnrollmentRequestsUseCase";
+import { ArchiveGroupUseCase } from "@/src/domain/usecases/group/ArchiveGroupUseCase";
 import { CreateGroupUseCase } from "@/src/domain/usecases/group/CreateGroupUseCase";
+import { UpdateGroupUseCase } from "@/src/domain/usecases/group/UpdateGroupUseCase";
 import { JoinGroupUseCase } from "@/src/domain/usecases/membership/JoinGroupUseCase";
+import { InviteCourseStaffUseCase } from "@/src/domain/usecases/staff/InviteCourseStaffUseCase";
+import { UpdateCourseStaffUseCase } from "@/src/domain/usecases/staff/UpdateCourseStaffUseCase";
+import { DeleteAccountUseCase } from "@/src/features/account/domain/usecases/DeleteAccountUseCase";
+import { ExportAccountDataUseCase } from "@/src/features/account/domain/usecases/ExportAccountDataUseCase";
+import { UpdateProfileUseCase } from "@/src/features/account/domain/usecases/UpdateProfileUseCase";
 import { ActivityController } from "@/src/features/activity/controllers/ActivityController";
+import { AccessTokenProvider } from "@/src/features/auth/data/AccessTokenProvider";
+import { AuditLogController } from "@/src/features/audit/controllers/AuditLogController";
 import { AuthLocalDataSourceImpl } from "@/src/features/auth/data/datasources/AuthLocalDataSource";
 import { AuthRemoteDataSourceImpl } from "@/src/features/auth/data/datasources/AuthRemoteDataSourceImp";
 import { AuthRepositoryImpl } from "@/src/features/auth/data/repositories/AuthRepositoryImpl";
+import { SessionPolicyRepositoryImpl } from "@/src/features/auth/data/repositories/SessionPolicyRepositoryImpl";
+import { ChangePasswordUseCase } from "@/src/features/auth/domain/usecases/ChangePasswordUseCase";
 import { CheckEmailAvailabilityUseCase } from "@/src/features/auth/domain/usecases/CheckEmailAvailabilityUseCase";
 import { CheckUsernameAvailabilityUseCase } from "@/src/features/auth/domain/usecases/CheckUsernameAvailabilityUseCase";
 import { ExtractResetTokenUseCase } from "@/src/features/auth/domain/usecases/ExtractResetTokenUseCase";
 import { GetCurrentUserUseCase } from "@/src/features/auth/domain/usecases/GetCurrentUserUseCase";
+import { GetSessionPolicyUseCase } from "@/src/features/auth/domain/usecases/GetSessionPolicyUseCase";
+import { ListSavedAccountsUseCase } from "@/src/features/auth/domain/usecases/ListSavedAccountsUseCase";
 import { LoginUseCase } from "@/src/features/auth/domain/usecases/LoginUseCase";
 import { LogoutUseCase } from "@/src/features/auth/domain/usecases/LogoutUseCase";
+import { RemoveAppPinUseCase } from "@/src/features/auth/domain/usecases/RemoveAppPinUseCase";
+import { RemoveSavedAccountUseCase } from "@/src/features/auth/domain/usecases/RemoveSavedAccountUseCase";
 import { RequestPasswordResetUseCase } from "@/src/features/auth/domain/usecases/RequestPasswordResetUseCase";
 import { ResetPasswordUseCase } from "@/src/features/auth/domain/usecases/ResetPasswordUseCase";
+import { SetAppPinUseCase } from "@/src/features/auth/domain/usecases/SetAppPinUseCase";
 import { SignupUseCase } from "@/src/features/auth/domain/usecases/SignupUseCase";
+import { SwitchAccountUseCase } from "@/src/features/auth/domain/usecases/SwitchAccountUseCase";
+import { UnlockAppUseCase } from "@/src/features/auth/domain/usecases/UnlockAppUseCase";
+import { UpdateSessionPolicyUseCase } from "@/src/features/auth/domain/usecases/UpdateSessionPolicyUseCase";
 import { ValidateResetTokenUseCase } from "@/src/features/auth/domain/usecases/ValidateResetTokenUseCase";
+import { ValidateSessionUseCase } from "@/src/features/auth/domain/usecases/ValidateSessionUseCase";
 import { VerifyEmailUseCase } from "@/src/features/auth/domain/usecases/VerifyEmailUseCase";
 import { CategoryController } from "@/src/features/category/controllers/CategoryController";
 import { CourseController } from "@/src/features/course/controllers/CourseController";
+import { SwitchRobleEnvironmentUseCase } from "@/src/features/developer/domain/usecases/SwitchRobleEnvironmentUseCase";
 import { EnrollmentController } from "@/src/features/enrollment/controllers/EnrollmentController";
 import { GroupController } from "@/src/features/group/controllers/GroupController";
 import { MembershipController } from "@/src/features/membership/controllers/MembershipController";
+import { CourseStaffController } from "@/src/features/staff/controllers/CourseStaffController";
 import { ProductRemoteDataSourceImp } from "@/src/features/products/data/datasources/ProductRemoteDataSourceImp";
 import { ProductRepositoryImpl } from "@/src/features/products/data/repositories/ProductRepositoryImpl";
 import { AddProductUseCase } from "@/src/features/products/domain/usecases/AddProductUseCase";
@@ -50,75 +106,228 @@ import { UpdateProductUseCase } from "@/src/features/products/domain/usecases/Up
 import AssessmentRepositoryImpl from "@/src/features/peerReview/data/AssessmentRepositoryImpl";
 import ComputeCourseSummaryUseCase from "@/src/features/peerReview/domain/usecases/ComputeCourseSummaryUseCase";
 import ComputeActivitySummaryUseCase from "@/src/features/peerReview/domain/usecases/ComputeActivitySummaryUseCase";
+import { CreateAssessmentUseCase } from "@/src/features/peerReview/domain/usecases/CreateAssessmentUseCase";
 
 const DIContext = createContext<Container | null>(null);
 
-export function DIProvider({ children }: { children: React.ReactNode }) {
+const createRobleTransport = (environment: RobleEnvironmentProfile): RobleTransport =>
+    environment.transport === "memory" ? new InMemoryRobleTransport() : new FetchRobleTransport();
+
+// El contenedor se arma para el perfil activo; al cambiar de perfil `App` lo vuelve a montar.
+export function DIProvider({
+    children,
+    environmentRegistry,
+    robleTransport,
+}: {
+    children: React.ReactNode;
+    environmentRegistry: RobleEnvironmentRegistry;
+    robleTransport?: RobleTransport;
+}) {
     const container = useMemo(() => {
         const c = new Container();
+        const environment = environmentRegistry.current;
+        const robleConfig = {
+            authBaseUrl: environment.authBaseUrl,
+            databaseBaseUrl: environment.databaseBaseUrl,
+            databaseName: environment.databaseName,
+            readonlyEmail: environment.readonlyEmail,
+            readonlyPassword: environment.readonlyPassword,
+        };
 
-        const authRemoteDS = new AuthRemoteDataSourceImpl();
+        // Registro acotado de peticiones para el inspector de red de la pantalla de desarrollo.
+        const robleRequestLog = new RobleRequestLog();
+
+        const authRemoteDS = new AuthRemoteDataSourceImpl(robleConfig, robleRequestLog);
         const authLocalDS = new AuthLocalDataSourceImpl();
-        const authRepo = new AuthRepositoryImpl(authRemoteDS, authLocalDS);
+        const sessionPolicyRepo = new SessionPolicyRepositoryImpl(LocalPreferencesAsyncStorage.getInstance());
+        const authRepo = new AuthRepositoryImpl(authRemoteDS, authLocalDS, sessionPolicyRepo);
 
-        const robleService = new RobleService();
         const refreshManager = new RefreshManager();
         const appEventBus = new AppEventBus();
 
-        const getAccessToken = async () => {
-            const stored = await authLocalDS.getSession();
-            return stored?.session.tokens.accessToken ?? null;
-        };
+        const accessTokenProvider = new AccessTokenProvider({
+            local: authLocalDS,
+            remote: authRemoteDS,
+            onSessionExpired: () => appEventBus.publish({ type: "SessionExpiredEvent" }),
+        });
+        const getAccessToken = () => accessTokenProvider.getAccessToken();
 
         const getCurrentUserId = async () => {
             const stored = await authLocalDS.getSession();
             return stored?.session.user.id ?? null;
         };
 
-        const courseRepository = new CourseRepositoryImpl(robleService, { getAccessToken });
-        const enrollmentRepository = new EnrollmentRepositoryImpl(robleService, { getAccessToken });
-        const userRepository = new UserRepositoryImpl(robleService, { getAccessToken });
-        const categoryRepository = new CategoryRepositoryImpl(robleService, { getAccessToken });
-        const groupRepository = new GroupRepositoryImpl(robleService, { getAccessToken });
-        const membershipRepository = new MembershipRepositoryImpl(robleService, { getAccessToken });
-        const activityRepository = new CourseActivityRepositoryImpl(robleService, { getAccessToken });
+        const robleReadCache = new RobleReadCache({
+            preferences: LocalPreferencesAsyncStorage.getInstance(),
+            refreshManager,
+            getUserId: getCurrentUserId,
+            onRevalidated: (table, syncedAt) =>
+                appEventBus.publish({ type: "DataRevalidatedEvent", table, syncedAt }),
+        });
+
+        const robleService = new RobleService(
+            robleConfig,
+            robleTransport ?? createRobleTransport(environment),
+            (rejectedToken) => accessTokenProvider.refreshAccessToken(rejectedToken),
+            robleReadCache,
+            robleRequestLog,
+        );
+
+        // Las filas que no cumplen el esquema de su tabla se descartan en vez de mostrarse en blanco.
+        const recordDecodeReport = new RecordDecodeReport();
+        const repositoryDeps = {
+            getAccessToken,
+            decodeMode: "strict" as const,
+            decodeReport: recordDecodeReport,
+        };
+
+        const auditLogRepository = new AuditLogRepositoryImpl(robleService, repositoryDeps);
+        const auditTrail = new AuditTrail({ auditLogRepository, getCurrentUserId });
+
+        // Todas las escrituras pasan por estos repositorios, así que cada cambio queda en el historial.
+        const groupRepositoryImpl = new GroupRepositoryImpl(robleService, repositoryDeps);
+        const courseRepository = auditCourseRepository(
+            new CourseRepositoryImpl(robleService, repositoryDeps),
+            auditTrail,
+        );
+        const enrollmentRepository = auditEnrollmentRepository(
+            new EnrollmentRepositoryImpl(robleService, repositoryDeps),
+            auditTrail,
+        );
+        const userRepository = new UserRepositoryImpl(robleService, repositoryDeps);
+        const categoryRepository = auditCategoryRepository(
+            new CategoryRepositoryImpl(robleService, repositoryDeps),
+            auditTrail,
+        );
+        const groupRepository = auditGroupRepository(groupRepositoryImpl, auditTrail);
+        const membershipRepository = auditMembershipRepository(
+            new MembershipRepositoryImpl(robleService, repositoryDeps),
+            groupRepositoryImpl,
+            auditTrail,
+        );
+        const activityRepository = auditActivityRepository(
+            new CourseActivityRepositoryImpl(robleService, repositoryDeps),
+            auditTrail,
+        );
+
+        const courseStaffRepository = auditCourseStaffRepository(
+            new CourseStaffRepositoryImpl(robleService, repositoryDeps),
+            auditTrail,
+        );
 
-        const createCourseUseCase = new CreateCourseUseCase(courseRepository);
-        const createCategoryUseCase = new CreateCategoryUseCase(categoryRepository);
+        const courseAccessGuard = new CourseAccessGuard(courseRepository, enrollmentRepository, courseStaffRepository);
+        const joinCodeService = new JoinCodeService(courseRepository, enrollmentRepository);
+        const createCourseUseCase = new CreateCourseUseCase(courseRepository, joinCodeService);
+        const regenerateJoinCodeUseCase = new RegenerateJoinCodeUseCase(
+            courseRepository,
+            joinCodeService,
+            courseAccessGuard,
+        );
+        const updateJoinCodeSettingsUseCase = new UpdateJoinCodeSettingsUseCase(courseRepository, courseAccessGuard);
+        const assessmentRepository = new AssessmentRepositoryImpl(robleService, repositoryDeps);
+        const archiveCourseUseCase = new ArchiveCourseUseCase({
+            courseRepository,
+            categoryRepository,
+            groupRepository,
+            membershipRepository,
+            activityRepository,
+            enrollmentRepository,
+            assessmentRepository,
+            accessGuard: courseAccessGuard,
+        });
+        const createCategoryUseCase = new CreateCategoryUseCase(categoryRepository, courseAccessGuard);
+        const updateCategoryUseCase = new UpdateCategoryUseCase(categoryRepository, courseAccessGuard);
+        const archiveCategoryUseCase = new ArchiveCategoryUseCase(categoryRepository, courseAccessGuard);
         const createGroupUseCase = new CreateGroupUseCase(
             groupRepository,
             categoryRepository,
             enrollmentRepository,
             membershipRepository,
+            courseAccessGuard,
         );
+        const updateGroupUseCase = new UpdateGroupUseCase(groupRepository, courseAccessGuard);
+        const archiveGroupUseCase = new ArchiveGroupUseCase(groupRepository, courseAccessGuard);
         const getMyEnrollmentsUseCase = new GetMyEnrollmentsUseCase(enrollmentRepository);
+        const randomGroupAssigner = new RandomGroupAssigner(categoryRepository, groupRepository, membershipRepository);
         const enrollToCourseUseCase = new EnrollToCourseUseCase(
             enrollmentRepository,
             courseRepository,
-            categoryRepository,
-            groupRepository,
+            courseAccessGuard,
+            joinCodeService,
+            randomGroupAssigner,
+        );
+        const reviewEnrollmentRequestsUseCase = new ReviewEnrollmentRequestsUseCase(
+            enrollmentRepository,
+            courseAccessGuard,
+            randomGroupAssigner,
+        );
+        const joinGroupUseCase = new JoinGroupUseCase(
             membershipRepository,
+            groupRepository,
+            categoryRepository,
+            courseAccessGuard,
         );
-        const joinGroupUseCase = new JoinGroupUseCase(membershipRepository, groupRepository, categoryRepository);
         const getCourseActivitiesForStudentUseCase = new GetCourseActivitiesForStudentUseCase(
             activityRepository,
             membershipRepository,
             groupRepository,
         );
+        const createActivityUseCase = new CreateActivityUseCase(activityRepository, courseAccessGuard);
+        const updateActivityUseCase = new UpdateActivityUseCase(activityRepository, courseAccessGuard);
+        const archiveActivityUseCase = new ArchiveActivityUseCase(activityRepository, courseAccessGuard);
+        const createAssessmentUseCase = new CreateAssessmentUseCase(
+            assessmentRepository,
+            activityRepository,
+            courseAccessGuard,
+        );
+        const inviteCourseStaffUseCase = new InviteCourseStaffUseCase(
+            courseStaffRepository,
+            userRepository,
+            enrollmentRepository,
+            courseAccessGuard,
+        );
+        const updateCourseStaffUseCase = new UpdateCourseStaffUseCase(courseStaffRepository, courseAccessGuard);
+
+        const writeOutbox = new WriteOutbox({
+            preferences: LocalPreferencesAsyncStorage.getInstance(),
+            getUserId: getCurrentUserId,
+            handlers: createOutboxHandlers({
+                assessmentRepository,
+                membershipRepository,
+                enrollmentRepository,
+                courseRepository,
+                activityRepository,
+                createAssessmentUseCase,
+                joinGroupUseCase,
+                enrollToCourseUseCase,
+                updateActivityUseCase,
+            }),
+            onReplayed: ({ sent, failed, remaining }) => {
+                if (sent > 0 || failed > 0) {
+                    appEventBus.publish({ type: "OutboxReplayedEvent", sent, failed, remaining });
+                }
+            },
+        });
 
         const enrollmentController = new EnrollmentController({
-            enrollToCourseUseCase,
             getMyEnrollmentsUseCase,
+            reviewEnrollmentRequestsUseCase,
             enrollmentRepository,
             courseRepository,
             userRepository,
             appEventBus,
+            outbox: writeOutbox,
             getCurrentUserId,
         });
 
         const courseController = new CourseController({
             createCourseUseCase,
+            archiveCourseUseCase,
+            regenerateJoinCodeUseCase,
+            updateJoinCodeSettingsUseCase,
+            joinCodeService,
             courseRepository,
+            courseStaffRepository,
             getCurrentUserId,
             enrollmentController,
         });
@@ -126,50 +335,136 @@ export function DIProvider({ children }: { children: React.ReactNode }) {
         const categoryController = new CategoryController({
             categoryRepository,
             createCategoryUseCase,
+            updateCategoryUseCase,
+            archiveCategoryUseCase,
             getCurrentUserId,
         });
 
         const groupController = new GroupController({
             groupRepository,
             createGroupUseCase,
+            updateGroupUseCase,
+            archiveGroupUseCase,
             getCurrentUserId,
         });
 
         const membershipController = new MembershipController({
-            joinGroupUseCase,
             membershipRepository,
             groupRepository,
             appEventBus,
+            outbox: writeOutbox,
             getCurrentUserId,
         });
 
         const activityController = new ActivityController({
             activityRepository,
             getCourseActivitiesForStudentUseCase,
+            createActivityUseCase,
+            archiveActivityUseCase,
             appEventBus,
             refreshManager,
+            outbox: writeOutbox,
             getCurrentUserId,
         });
 
-        const assessmentRepository = new AssessmentRepositoryImpl(robleService, { getAccessToken });
+        const auditLogController = new AuditLogController({
+            auditLogRepository,
+            userRepository,
+        });
+
+        const courseStaffController = new CourseStaffController({
+            courseStaffRepository,
+            inviteCourseStaffUseCase,
+            updateCourseStaffUseCase,
+            getCurrentUserId,
+        });
+
+        const switchRobleEnvironmentUseCase = new SwitchRobleEnvironmentUseCase({
+            environmentRegistry,
+            authLocal: authLocalDS,
+            readCache: robleReadCache,
+        });
+
+        // Lo cargado en memoria es de la cuenta anterior; las copias persistidas ya van por usuario.
+        appEventBus.subscribe((event) => {
+            if (event.type !== "ActiveAccountChangedEvent") return;
+            refreshManager.clear();
+            robleReadCache.forgetStaleness();
+            for (const controller of [
+                enrollmentController,
+                courseController,
+                categoryController,
+                groupController,
+                membershipController,
+                activityController,
+                auditLogController,
+                courseStaffController,
+            ]) {
+                controller.reset();
+            }
+            void writeOutbox.load();
+        });
+
+        const checkUsernameAvailabilityUseCase = new CheckUsernameAvailabilityUseCase(authRepo);
+        const updateProfileUseCase = new UpdateProfileUseCase(
+            userRepository,
+            checkUsernameAvailabilityUseCase,
+            authRepo,
+        );
+        const accountDataDeps = {
+            userRepository,
+            enrollmentRepository,
+            membershipRepository,
+            assessmentRepository,
+            courseRepository,
+            courseStaffRepository,
+        };
+        const exportAccountDataUseCase = new ExportAccountDataUseCase(accountDataDeps);
+        const deleteAccountUseCase = new DeleteAccountUseCase({
+            ...accountDataDeps,
+            authRepository: authRepo,
+            forgetLocalData: (userId) => robleReadCache.clearUser(userId),
+        });
+
         const computeCourseSummaryUC = new ComputeCourseSummaryUseCase(assessmentRepository as any);
         const computeActivitySummaryUC = new ComputeActivitySummaryUseCase(assessmentRepository as any);
 
         c.register(TOKENS.AuthRemoteDS, authRemoteDS)
             .register(TOKENS.AuthLocalDS, authLocalDS)
             .register(TOKENS.AuthRepo, authRepo)
+            .register(TOKENS.AccessTokenProvider, accessTokenProvider)
             .register(TOKENS.LoginUC, new LoginUseCase(authRepo))
             .register(TOKENS.SignupUC, new SignupUseCase(authRepo))
             .register(TOKENS.VerifyEmailUC, new VerifyEmailUseCase(authRemoteDS, authLocalDS))
             .register(TOKENS.LogoutUC, new LogoutUseCase(authRepo))
             .register(TOKENS.GetCurrentUserUC, new GetCurrentUserUseCase(authRepo))
+            .register(TOKENS.ValidateSessionUC, new ValidateSessionUseCase(authRepo))
+            .register(TOKENS.ListSavedAccountsUC, new ListSavedAccountsUseCase(authRepo))
+            .register(TOKENS.SwitchAccountUC, new SwitchAccountUseCase(authRepo))
+            .register(TOKENS.RemoveSavedAccountUC, new RemoveSavedAccountUseCase(authRepo))
+            .register(TOKENS.SessionPolicyRepo, sessionPolicyRepo)
+            .register(TOKENS.GetSessionPolicyUC, new GetSessionPolicyUseCase(sessionPolicyRepo))
+            .register(TOKENS.UpdateSessionPolicyUC, new UpdateSessionPolicyUseCase(sessionPolicyRepo))
+            .register(TOKENS.SetAppPinUC, new SetAppPinUseCase(sessionPolicyRepo))
+            .register(TOKENS.RemoveAppPinUC, new RemoveAppPinUseCase(sessionPolicyRepo))
+            .register(TOKENS.UnlockAppUC, new UnlockAppUseCase(sessionPolicyRepo))
             .register(TOKENS.RequestPasswordResetUC, new RequestPasswordResetUseCase(authRepo))
             .register(TOKENS.ResetPasswordUC, new ResetPasswordUseCase(authRepo))
             .register(TOKENS.ValidateResetTokenUC, new ValidateResetTokenUseCase(authRepo))
             .register(TOKENS.CheckEmailAvailabilityUC, new CheckEmailAvailabilityUseCase(authRepo))
-            .register(TOKENS.CheckUsernameAvailabilityUC, new CheckUsernameAvailabilityUseCase(authRepo))
+            .register(TOKENS.CheckUsernameAvailabilityUC, checkUsernameAvailabilityUseCase)
             .register(TOKENS.ExtractResetTokenUC, new ExtractResetTokenUseCase(authRepo))
+            .register(TOKENS.ChangePasswordUC, new ChangePasswordUseCase(authRepo))
+            .register(TOKENS.UpdateProfileUC, updateProfileUseCase)
+            .register(TOKENS.ExportAccountDataUC, exportAccountDataUseCase)
+            .register(TOKENS.DeleteAccountUC, deleteAccountUseCase)
+            .register(TOKENS.RobleEnvironmentRegistry, environmentRegistry)
+            .register(TOKENS.SwitchRobleEnvironmentUC, switchRobleEnvironmentUseCase)
             .register(TOKENS.RobleService, robleService)
+            .register(TOKENS.RobleReadCache, robleReadCache)
+            .register(TOKENS.RobleRequestLog, robleRequestLog)
+            .register(TOKENS.RecordDecodeReport, recordDecodeReport)
+            .register(TOKENS.WriteOutbox, writeOutbox)
             .register(TOKENS.RefreshManager, refreshManager)
             .register(TOKENS.AppEventBus, appEventBus)
             .register(TOKENS.CourseRepository, courseRepository)
@@ -180,23 +475,39 @@ export function DIProvider({ children }: { children: React.ReactNode }) {
             .register(TOKENS.MembershipRepository, membershipRepository)
             .register(TOKENS.CourseActivityRepository, activityRepository)
             .register(TOKENS.AssessmentRepository, assessmentRepository)
+            .register(TOKENS.AuditLogRepository, auditLogRepository)
+            .register(TOKENS.AuditTrail, auditTrail)
+            .register(TOKENS.CourseStaffRepository, courseStaffRepository)
             .register(TOKENS.ComputeCourseSummaryUC, computeCourseSummaryUC)
             .register(TOKENS.ComputeActivitySummaryUC, computeActivitySummaryUC)
             .register(TOKENS.CreateCourseUC, createCourseUseCase)
+            .register(TOKENS.ArchiveCourseUC, archiveCourseUseCase)
             .register(TOKENS.CreateCategoryUC, createCategoryUseCase)
+            .register(TOKENS.UpdateCategoryUC, updateCategoryUseCase)
+            .register(TOKENS.ArchiveCategoryUC, archiveCategoryUseCase)
             .register(TOKENS.CreateGroupUC, createGroupUseCase)
+            .register(TOKENS.UpdateGroupUC, updateGroupUseCase)
+            .register(TOKENS.ArchiveGroupUC, archiveGroupUseCase)
             .register(TOKENS.GetMyEnrollmentsUC, getMyEnrollmentsUseCase)
             .register(TOKENS.EnrollToCourseUC, enrollToCourseUseCase)
             .register(TOKENS.JoinGroupUC, joinGroupUseCase)
             .register(TOKENS.GetCourseActivitiesForStudentUC, getCourseActivitiesForStudentUseCase)
+            .register(TOKENS.CreateActivityUC, createActivityUseCase)
+            .register(TOKENS.UpdateActivityUC, updateActivityUseCase)
+            .register(TOKENS.ArchiveActivityUC, archiveActivityUseCase)
+            .register(TOKENS.CourseAccessGuard, courseAccessGuard)
+            .register(TOKENS.InviteCourseStaffUC, inviteCourseStaffUseCase)
+            .register(TOKENS.UpdateCourseStaffUC, updateCourseStaffUseCase)
             .register(TOKENS.EnrollmentController, enrollmentController)
             .register(TOKENS.CourseController, courseController)
             .register(TOKENS.CategoryController, categoryController)
             .register(TOKENS.GroupController, groupController)
             .register(TOKENS.MembershipController, membershipController)
-            .register(TOKENS.ActivityController, activityController);
+            .register(TOKENS.ActivityController, activityController)
+            .register(TOKENS.AuditLogController, auditLogController)
+            .register(TOKENS.CourseStaffController, courseStaffController);
 
-        const productRemoteDS = new ProductRemoteDataSourceImp(authRemoteDS);
+        const productRemoteDS = new ProductRemoteDataSourceImp(accessTokenProvider, environment);
         const productRepo = new ProductRepositoryImpl(productRemoteDS);
 
         c.register(TOKENS.ProductRemoteDS, productRemoteDS)
@@ -208,7 +519,7 @@ export function DIProvider({ children }: { children: React.ReactNode }) {
             .register(TOKENS.GetProductByIdUC, new GetProductByIdUseCase(productRepo));
 
         return c;
-    }, []);
+    }, [environmentRegistry, robleTransport]);
 
     return <DIContext.Provider value={container}>{children}</DIContext.Provider>;
 }
@@ -2,10 +2,21 @@ export const TOKENS = {
   AuthRemoteDS: Symbol("AuthRemoteDS"),
   AuthLocalDS: Symbol("AuthLocalDS"),
   AuthRepo: Symbol("AuthRepo"),
+  AccessTokenProvider: Symbol("AccessTokenProvider"),
   LoginUC: Symbol("LoginUC"),
   SignupUC: Symbol("SignupUC"),
   LogoutUC: Symbol("LogoutUC"),
   GetCurrentUserUC: Symbol("GetCurrentUserUC"),
+  ValidateSessionUC: Symbol("ValidateSessionUC"),
+  ListSavedAccountsUC: Symbol("ListSavedAccountsUC"),
+  SwitchAccountUC: Symbol("SwitchAccountUC"),
+  RemoveSavedAccountUC: Symbol("RemoveSavedAccountUC"),
+  SessionPolicyRepo: Symbol("SessionPolicyRepo"),
+  GetSessionPolicyUC: Symbol("GetSessionPolicyUC"),
+  UpdateSessionPolicyUC: Symbol("UpdateSessionPolicyUC"),
+  SetAppPinUC: Symbol("SetAppPinUC"),
+  RemoveAppPinUC: Symbol("RemoveAppPinUC"),
+  UnlockAppUC: Symbol("UnlockAppUC"),
   VerifyEmailUC: Symbol("VerifyEmailUC"),
   RequestPasswordResetUC: Symbol("RequestPasswordResetUC"),
   ResetPasswordUC: Symbol("ResetPasswordUC"),
@@ -13,6 +24,10 @@ export const TOKENS = {
   CheckEmailAvailabilityUC: Symbol("CheckEmailAvailabilityUC"),
   CheckUsernameAvailabilityUC: Symbol("CheckUsernameAvailabilityUC"),
   ExtractResetTokenUC: Symbol("ExtractResetTokenUC"),
+  ChangePasswordUC: Symbol("ChangePasswordUC"),
+  UpdateProfileUC: Symbol("UpdateProfileUC"),
+  ExportAccountDataUC: Symbol("ExportAccountDataUC"),
+  DeleteAccountUC: Symbol("DeleteAccountUC"),
   ProductRemoteDS: Symbol("ProductRemoteDS"),
   ProductRepo: Symbol("ProductRepo"),
   AddProductUC: Symbol("AddProductUC"),
@@ -21,7 +36,13 @@ export const TOKENS = {
   GetProductsUC: Symbol("GetProductsUC"),
   GetProductByIdUC: Symbol("GetProductByIdUC"),
   HttpClient: Symbol("HttpClient"),
+  RobleEnvironmentRegistry: Symbol("RobleEnvironmentRegistry"),
+  SwitchRobleEnvironmentUC: Symbol("SwitchRobleEnvironmentUC"),
   RobleService: Symbol("RobleService"),
+  RobleReadCache: Symbol("RobleReadCache"),
+  RobleRequestLog: Symbol("RobleRequestLog"),
+  RecordDecodeReport: Symbol("RecordDecodeReport"),
+  WriteOutbox: Symbol("WriteOutbox"),
   RefreshManager: Symbol("RefreshManager"),
   AppEventBus: Symbol("AppEventBus"),
   AuthController: Symbol("AuthController"),
@@ -33,21 +54,37 @@ export const TOKENS = {
   MembershipRepository: Symbol("MembershipRepository"),
   CourseActivityRepository: Symbol("CourseActivityRepository"),
   AssessmentRepository: Symbol("AssessmentRepository"),
+  AuditLogRepository: Symbol("AuditLogRepository"),
+  AuditTrail: Symbol("AuditTrail"),
+  CourseStaffRepository: Symbol("CourseStaffRepository"),
   ComputeCourseSummaryUC: Symbol("ComputeCourseSummaryUC"),
   ComputeActivitySummaryUC: Symbol("ComputeActivitySummaryUC"),
   CreateCourseUC: Symbol("CreateCourseUC"),
+  ArchiveCourseUC: Symbol("ArchiveCourseUC"),
   CreateCategoryUC: Symbol("CreateCategoryUC"),
+  UpdateCategoryUC: Symbol("UpdateCategoryUC"),
+  ArchiveCategoryUC: Symbol("ArchiveCategoryUC"),
   CreateGroupUC: Symbol("CreateGroupUC"),
+  UpdateGroupUC: Symbol("UpdateGroupUC"),
+  ArchiveGroupUC: Symbol("ArchiveGroupUC"),
   GetMyEnrollmentsUC: Symbol("GetMyEnrollmentsUC"),
   EnrollToCourseUC: Symbol("EnrollToCourseUC"),
   JoinGroupUC: Symbol("JoinGroupUC"),
   GetCourseActivitiesForStudentUC: Symbol("GetCourseActivitiesForStudentUC"),
+  CreateActivityUC: Symbol("CreateActivityUC"),
+  UpdateActivityUC: Symbol("UpdateActivityUC"),
+  ArchiveActivityUC: Symbol("ArchiveActivityUC"),
+  CourseAccessGuard: Symbol("CourseAccessGuard"),
+  InviteCourseStaffUC: Symbol("InviteCourseStaffUC"),
+  UpdateCourseStaffUC: Symbol("UpdateCourseStaffUC"),
   CourseController: Symbol("CourseController"),
   CategoryController: Symbol("CategoryController"),
   GroupController: Symbol("GroupController"),
   EnrollmentController: Symbol("EnrollmentController"),
   MembershipController: Symbol("MembershipController"),
   ActivityController: Symbol("ActivityController"),
+  AuditLogController: Symbol("AuditLogController"),
+  CourseStaffController: Symbol("CourseStaffController"),
   PeerReviewController: Symbol("PeerReviewController"),
   ThemeController: Symbol("ThemeController"),
 } as const;
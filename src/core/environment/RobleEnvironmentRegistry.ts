@@ -0,0 +1,97 @@
+import { ILocalPreferences } from "@/src/core/iLocalPreferences";
+import {
+  buildRobleEnvironments,
+  defaultRobleEnvironmentId,
+  RobleEnvironmentProfile,
+} from "./robleEnvironments";
+
+export type RobleEnvironmentState = {
+  profiles: RobleEnvironmentProfile[];
+  current: RobleEnvironmentProfile;
+  isLoaded: boolean;
+};
+
+type Dependencies = {
+  preferences: ILocalPreferences;
+  profiles?: RobleEnvironmentProfile[];
+  defaultId?: string;
+};
+
+const SELECTED_KEY = "roble-environment:selected";
+
+/**
+ * Perfil ROBLE activo (URLs de autenticación y base de datos, nombre de la base y transporte).
+ * La elección del desarrollador se guarda en el dispositivo y tiene prioridad sobre la variable
+ * `EXPO_PUBLIC_ROBLE_ENV`.
+ */
+export class RobleEnvironmentRegistry {
+  private state: RobleEnvironmentState;
+  private readonly listeners = new Set<() => void>();
+  private readonly preferences: ILocalPreferences;
+  private readonly profiles: RobleEnvironmentProfile[];
+
+  constructor({ preferences, profiles = buildRobleEnvironments(), defaultId }: Dependencies) {
+    if (!profiles.length) {
+      throw new Error("No hay perfiles de entorno ROBLE configurados");
+    }
+    this.preferences = preferences;
+    this.profiles = profiles;
+    this.state = {
+      profiles,
+      current: this.profileFor(defaultId ?? defaultRobleEnvironmentId(profiles)) ?? profiles[0],
+      isLoaded: false,
+    };
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): RobleEnvironmentState {
+    return this.state;
+  }
+
+  get current(): RobleEnvironmentProfile {
+    return this.state.current;
+  }
+
+  async load(): Promise<RobleEnvironmentProfile> {
+    if (this.state.isLoaded) {
+      return this.state.current;
+    }
+    const storedId = await this.preferences.retrieveData<string>(SELECTED_KEY);
+    const stored = storedId ? this.profileFor(storedId) : undefined;
+    this.setState((prev) => ({ ...prev, current: stored ?? prev.current, isLoaded: true }));
+    return this.state.current;
+  }
+
+  async select(profileId: string): Promise<RobleEnvironmentProfile> {
+    const profile = this.profileFor(profileId);
+    if (!profile) {
+      throw new Error(`No existe el perfil de entorno "${profileId}"`);
+    }
+    await this.preferences.storeData(SELECTED_KEY, profile.id);
+    this.setState((prev) => ({ ...prev, current: profile, isLoaded: true }));
+    return profile;
+  }
+
+  private profileFor(profileId: string) {
+    return this.profiles.find((profile) => profile.id === profileId);
+  }
+
+  private setState(updater: (prev: RobleEnvironmentState) => RobleEnvironmentState) {
+    this.state = updater(this.state);
+    this.notify();
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("RobleEnvironmentRegistry listener error", error);
+      }
+    }
+  }
+}
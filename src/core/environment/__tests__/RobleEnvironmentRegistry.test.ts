@@ -0,0 +1,41 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { RobleEnvironmentRegistry } from "../RobleEnvironmentRegistry";
+import { buildRobleEnvironments, defaultRobleEnvironmentId } from "../robleEnvironments";
+
+describe("Roble environment profiles", () => {
+  it("builds staging only when configured and keeps the memory flag as a shortcut to local", () => {
+    const withoutStaging = buildRobleEnvironments({ databaseName: "prod_db" });
+    expect(withoutStaging.map((profile) => profile.id)).toEqual(["production", "local"]);
+    expect(withoutStaging[1]).toMatchObject({ databaseName: "prod_db", transport: "memory" });
+
+    const profiles = buildRobleEnvironments({
+      databaseName: "prod_db",
+      stagingDatabaseName: "staging_db",
+      stagingDatabaseBaseUrl: "https://staging.test/database",
+    });
+    expect(profiles.find((profile) => profile.id === "staging")).toMatchObject({
+      databaseName: "staging_db",
+      databaseBaseUrl: "https://staging.test/database",
+      authBaseUrl: profiles[0].authBaseUrl,
+    });
+
+    expect(defaultRobleEnvironmentId(profiles, { transport: "memory" })).toBe("local");
+    expect(defaultRobleEnvironmentId(profiles, { environment: "staging", transport: "memory" })).toBe("staging");
+    expect(defaultRobleEnvironmentId(withoutStaging, { environment: "staging" })).toBe("production");
+  });
+
+  it("restores the persisted selection over the default", async () => {
+    const preferences = new InMemoryLocalPreferences();
+    const profiles = buildRobleEnvironments({ stagingDatabaseName: "staging_db" });
+
+    const first = new RobleEnvironmentRegistry({ preferences, profiles, defaultId: "production" });
+    await first.load();
+    await first.select("staging");
+    await expect(first.select("missing")).rejects.toThrow("missing");
+
+    const restarted = new RobleEnvironmentRegistry({ preferences, profiles, defaultId: "production" });
+    expect(restarted.current.id).toBe("production");
+    await restarted.load();
+    expect(restarted.getSnapshot()).toMatchObject({ isLoaded: true, current: { id: "staging" } });
+  });
+});
@@ -0,0 +1,113 @@
+export type RobleTransportKind = "fetch" | "memory";
+
+export type RobleEnvironmentProfile = {
+  id: string;
+  label: string;
+  description: string;
+  authBaseUrl: string;
+  databaseBaseUrl: string;
+  databaseName: string;
+  readonlyEmail?: string;
+  readonlyPassword?: string;
+  transport: RobleTransportKind;
+};
+
+export type RobleEnvironmentVariables = {
+  authBaseUrl?: string;
+  databaseBaseUrl?: string;
+  databaseName?: string;
+  readonlyEmail?: string;
+  readonlyPassword?: string;
+  stagingAuthBaseUrl?: string;
+  stagingDatabaseBaseUrl?: string;
+  stagingDatabaseName?: string;
+  stagingReadonlyEmail?: string;
+  stagingReadonlyPassword?: string;
+  environment?: string;
+  transport?: string;
+};
+
+export const PRODUCTION_ROBLE_DEFAULTS = {
+  authBaseUrl: "https://roble-api.openlab.uninorte.edu.co/auth",
+  databaseBaseUrl: "https://roble-api.openlab.uninorte.edu.co/database",
+  databaseName: "courseven_66a52df881",
+} as const;
+
+export const PRODUCTION_ENVIRONMENT_ID = "production";
+export const STAGING_ENVIRONMENT_ID = "staging";
+export const LOCAL_ENVIRONMENT_ID = "local";
+
+// Expo solo incrusta las variables EXPO_PUBLIC_* cuando se leen con acceso estático, por eso se
+// enumeran una a una en vez de recorrer `process.env`.
+export const readRobleEnvironmentVariables = (): RobleEnvironmentVariables => ({
+  authBaseUrl: process.env.EXPO_PUBLIC_ROBLE_AUTH_BASE_URL,
+  databaseBaseUrl: process.env.EXPO_PUBLIC_ROBLE_DB_BASE_URL,
+  databaseName: process.env.EXPO_PUBLIC_ROBLE_DB_NAME ?? process.env.EXPO_PUBLIC_ROBLE_PROJECT_ID,
+  readonlyEmail: process.env.EXPO_PUBLIC_ROBLE_READONLY_EMAIL,
+  readonlyPassword: process.env.EXPO_PUBLIC_ROBLE_READONLY_PASSWORD,
+  stagingAuthBaseUrl: process.env.EXPO_PUBLIC_ROBLE_STAGING_AUTH_BASE_URL,
+  stagingDatabaseBaseUrl: process.env.EXPO_PUBLIC_ROBLE_STAGING_DB_BASE_URL,
+  stagingDatabaseName: process.env.EXPO_PUBLIC_ROBLE_STAGING_DB_NAME,
+  stagingReadonlyEmail: process.env.EXPO_PUBLIC_ROBLE_STAGING_READONLY_EMAIL,
+  stagingReadonlyPassword: process.env.EXPO_PUBLIC_ROBLE_STAGING_READONLY_PASSWORD,
+  environment: process.env.EXPO_PUBLIC_ROBLE_ENV,
+  transport: process.env.EXPO_PUBLIC_ROBLE_TRANSPORT,
+});
+
+/**
+ * Perfiles disponibles. Staging solo aparece si se configuró su base de datos; el perfil local
+ * usa el transporte en memoria para la base de datos y el servidor de producción para la
+ * autenticación.
+ */
+export const buildRobleEnvironments = (
+  vars: RobleEnvironmentVariables = readRobleEnvironmentVariables(),
+): RobleEnvironmentProfile[] => {
+  const production: RobleEnvironmentProfile = {
+    id: PRODUCTION_ENVIRONMENT_ID,
+    label: "Producción",
+    description: "Servidor ROBLE de la universidad",
+    authBaseUrl: vars.authBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.authBaseUrl,
+    databaseBaseUrl: vars.databaseBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.databaseBaseUrl,
+    databaseName: vars.databaseName ?? PRODUCTION_ROBLE_DEFAULTS.databaseName,
+    readonlyEmail: vars.readonlyEmail,
+    readonlyPassword: vars.readonlyPassword,
+    transport: "fetch",
+  };
+
+  const profiles = [production];
+
+  if (vars.stagingDatabaseName) {
+    profiles.push({
+      id: STAGING_ENVIRONMENT_ID,
+      label: "Staging",
+      description: "Base de datos de pruebas",
+      authBaseUrl: vars.stagingAuthBaseUrl ?? production.authBaseUrl,
+      databaseBaseUrl: vars.stagingDatabaseBaseUrl ?? production.databaseBaseUrl,
+      databaseName: vars.stagingDatabaseName,
+      readonlyEmail: vars.stagingReadonlyEmail,
+      readonlyPassword: vars.stagingReadonlyPassword,
+      transport: "fetch",
+    });
+  }
+
+  profiles.push({
+    ...production,
+    id: LOCAL_ENVIRONMENT_ID,
+    label: "Local",
+    description: "Datos en memoria que se pierden al cerrar la app",
+    transport: "memory",
+  });
+
+  return profiles;
+};
+
+// `EXPO_PUBLIC_ROBLE_TRANSPORT=memory` se mantiene como atajo para arrancar en el perfil local.
+export const defaultRobleEnvironmentId = (
+  profiles: RobleEnvironmentProfile[],
+  vars: RobleEnvironmentVariables = readRobleEnvironmentVariables(),
+): string => {
+  const requested = vars.environment ?? (vars.transport === "memory" ? LOCAL_ENVIRONMENT_ID : undefined);
+  return requested && profiles.some((profile) => profile.id === requested)
+    ? requested
+    : PRODUCTION_ENVIRONMENT_ID;
+};
@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { RobleEnvironmentRegistry, RobleEnvironmentState } from "./RobleEnvironmentRegistry";
+
+export function useRobleEnvironment(registry: RobleEnvironmentRegistry): RobleEnvironmentState {
+  const state = useSyncExternalStore(
+    registry.subscribe.bind(registry),
+    registry.getSnapshot.bind(registry),
+  );
+
+  useEffect(() => {
+    void registry.load();
+  }, [registry]);
+
+  return state;
+}
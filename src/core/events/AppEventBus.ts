@@ -14,7 +14,39 @@ export type ActivityChangedEvent = {
   courseId: string;
 };
 
-export type AppEvent = MembershipJoinedEvent | EnrollmentJoinedEvent | ActivityChangedEvent;
+export type SessionExpiredEvent = {
+  type: "SessionExpiredEvent";
+  // `revoked`: ROBLE rechazó el token al volver a la app; sin motivo, la renovación falló o caducó.
+  reason?: "expired" | "revoked";
+};
+
+// Cambió la cuenta con la que trabaja la app (otra cuenta guardada, un nuevo inicio o el cierre de sesión).
+export type ActiveAccountChangedEvent = {
+  type: "ActiveAccountChangedEvent";
+  userId: string | null;
+};
+
+export type DataRevalidatedEvent = {
+  type: "DataRevalidatedEvent";
+  table: string;
+  syncedAt: number;
+};
+
+export type OutboxReplayedEvent = {
+  type: "OutboxReplayedEvent";
+  sent: number;
+  failed: number;
+  remaining: number;
+};
+
+export type AppEvent =
+  | MembershipJoinedEvent
+  | EnrollmentJoinedEvent
+  | ActivityChangedEvent
+  | SessionExpiredEvent
+  | ActiveAccountChangedEvent
+  | DataRevalidatedEvent
+  | OutboxReplayedEvent;
 
 type Listener = (event: AppEvent) => void;
 
@@ -0,0 +1,25 @@
+import { DeepLinkGate, normalizeDeepLinkPath } from "../deepLinks";
+
+describe("deep links", () => {
+  it("strips ROBLE prefixes in front of reset-password and keeps the query", () => {
+    expect(normalizeDeepLinkPath("/courseven_db/reset-password?token=abc")).toBe("reset-password?token=abc");
+    expect(normalizeDeepLinkPath("reset-password?token=abc")).toBe("reset-password?token=abc");
+    expect(normalizeDeepLinkPath("/courses/c1/activities/a1")).toBe("courses/c1/activities/a1");
+  });
+
+  it("defers authenticated routes until login and drops guest routes once logged in", () => {
+    const gate = new DeepLinkGate();
+
+    expect(gate.decide("/reset-password?token=abc", "ResetPassword")).toBe("open");
+    expect(gate.decide("/join/ABCD", "JoinCourse")).toBe("defer");
+    expect(gate.decide("/courses/c1", "CourseDetail")).toBe("defer");
+    expect(gate.hasPending()).toBe(true);
+
+    gate.setAuthenticated(true);
+    expect(gate.takePending()).toBe("/courses/c1");
+    expect(gate.takePending()).toBeNull();
+    expect(gate.decide("/courses/c1", "CourseDetail")).toBe("open");
+    expect(gate.decide("/verify-email?code=123456", "EmailVerification")).toBe("ignore");
+    expect(gate.hasPending()).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+export const APP_LINK_SCHEME = "courseven";
+// Los correos de restablecimiento de ROBLE enlazan a este dominio.
+export const ROBLE_WEB_ORIGIN = "https://roble.openlab.uninorte.edu.co";
+
+export type DeepLinkParamList = {
+  ResetPassword: { token?: string } | undefined;
+  EmailVerification: { email?: string; code?: string } | undefined;
+  JoinCourse: { code?: string } | undefined;
+  CourseDetail: { courseId: string };
+  ActivityDetail: { courseId: string; activityId: string };
+  PeerReviewCalificar: { courseId: string; activityId: string };
+  PeerReviewMisResultados: { courseId: string; activityId: string };
+  PeerReviewCourseSummary: { courseId: string };
+};
+
+export type DeepLinkRoute = keyof DeepLinkParamList;
+
+export const DEEP_LINK_PATHS: Record<DeepLinkRoute, string> = {
+  ResetPassword: "reset-password",
+  EmailVerification: "verify-email",
+  JoinCourse: "join/:code?",
+  CourseDetail: "courses/:courseId",
+  ActivityDetail: "courses/:courseId/activities/:activityId",
+  PeerReviewCalificar: "courses/:courseId/activities/:activityId/peer-review",
+  PeerReviewMisResultados: "courses/:courseId/activities/:activityId/results",
+  PeerReviewCourseSummary: "courses/:courseId/peer-review",
+};
+
+// Solo existen en el stack de invitado; con sesión abierta no hay pantalla a la cual llevarlas.
+const GUEST_ROUTES = new Set<string>(["ResetPassword", "EmailVerification"]);
+
+/**
+ * ROBLE antepone segmentos propios (p. ej. el nombre de la base) a `reset-password`;
+ * se descartan para que el enlace del correo coincida con la ruta configurada.
+ */
+export const normalizeDeepLinkPath = (path: string): string => {
+  const trimmed = path.replace(/^\/+/, "");
+  const queryStart = trimmed.indexOf("?");
+  const pathname = queryStart >= 0 ? trimmed.slice(0, queryStart) : trimmed;
+  const query = queryStart >= 0 ? trimmed.slice(queryStart) : "";
+  const segments = pathname.split("/");
+  const resetIndex = segments.indexOf(DEEP_LINK_PATHS.ResetPassword);
+  if (resetIndex <= 0) {
+    return trimmed;
+  }
+  return `${segments.slice(resetIndex).join("/")}${query}`;
+};
+
+export type DeepLinkDecision = "open" | "defer" | "ignore";
+
+/**
+ * Decide qué hacer con un enlace según haya sesión: los que apuntan a pantallas
+ * autenticadas se guardan hasta que el usuario inicie sesión y entonces se abren.
+ */
+export class DeepLinkGate {
+  private authenticated = false;
+  private pendingPath: string | null = null;
+
+  setAuthenticated(authenticated: boolean): void {
+    this.authenticated = authenticated;
+  }
+
+  decide(path: string, routeName: string): DeepLinkDecision {
+    if (GUEST_ROUTES.has(routeName)) {
+      return this.authenticated ? "ignore" : "open";
+    }
+    if (this.authenticated) {
+      return "open";
+    }
+    // Solo se conserva el último: es el que el usuario acaba de tocar.
+    this.pendingPath = path;
+    return "defer";
+  }
+
+  hasPending(): boolean {
+    return this.pendingPath !== null;
+  }
+
+  takePending(): string | null {
+    const path = this.pendingPath;
+    this.pendingPath = null;
+    return path;
+  }
+}
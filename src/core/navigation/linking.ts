@@ -0,0 +1,33 @@
+import { getStateFromPath, LinkingOptions } from "@react-navigation/native";
+import * as Linking from "expo-linking";
+
+import {
+  APP_LINK_SCHEME,
+  DEEP_LINK_PATHS,
+  DeepLinkGate,
+  DeepLinkParamList,
+  normalizeDeepLinkPath,
+  ROBLE_WEB_ORIGIN,
+} from "./deepLinks";
+
+export function createAppLinking(gate: DeepLinkGate): LinkingOptions<DeepLinkParamList> {
+  return {
+    // El origen web solo llega a la app si el sistema la asocia al dominio: `intentFilters` (Android, con
+    // verificación) y `associatedDomains` (iOS) en app.json se limitan a las rutas de DEEP_LINK_PATHS,
+    // para que el resto del sitio de ROBLE siga abriéndose en el navegador.
+    prefixes: [Linking.createURL("/"), `${APP_LINK_SCHEME}://`, ROBLE_WEB_ORIGIN],
+    config: {
+      screens: DEEP_LINK_PATHS,
+    },
+    getStateFromPath(path, options) {
+      const normalized = normalizeDeepLinkPath(path);
+      const state = getStateFromPath(normalized, options);
+      const routeName = state?.routes[state.routes.length - 1]?.name;
+      if (!state || !routeName) {
+        return undefined;
+      }
+      // Sin estado no se navega: los enlaces diferidos los abre `useDeferredDeepLinks` al iniciar sesión.
+      return gate.decide(`/${normalized}`, routeName) === "open" ? state : undefined;
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { useLinkTo } from "@react-navigation/native";
+import { useEffect } from "react";
+
+import { DeepLinkGate } from "./deepLinks";
+
+export function useDeferredDeepLinks(gate: DeepLinkGate, isAuthenticated: boolean) {
+  const linkTo = useLinkTo();
+
+  useEffect(() => {
+    gate.setAuthenticated(isAuthenticated);
+    if (!isAuthenticated) return;
+
+    const path = gate.takePending();
+    if (!path) return;
+    try {
+      linkTo(path);
+    } catch (error) {
+      console.warn("[DeepLinks] No se pudo abrir el enlace pendiente", error);
+    }
+  }, [gate, isAuthenticated, linkTo]);
+}
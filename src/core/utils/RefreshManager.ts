@@ -37,6 +37,10 @@ export class RefreshManager {
     this.lastRun.delete(key);
   }
 
+  clear() {
+    this.lastRun.clear();
+  }
+
   invalidatePrefix(prefix: string) {
     for (const key of Array.from(this.lastRun.keys())) {
       if (key.startsWith(prefix)) {
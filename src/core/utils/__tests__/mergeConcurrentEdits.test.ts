@@ -0,0 +1,31 @@
+import { mergeConcurrentEdits } from "../mergeConcurrentEdits";
+
+type Draft = { name: string; description: string | null; updatedAt: string | null };
+
+describe("mergeConcurrentEdits", () => {
+  const base: Draft = { name: "Algoritmos", description: "Intro", updatedAt: null };
+
+  it("keeps the other editor's changes and applies only the fields edited locally", () => {
+    const local = { ...base, name: "Algoritmos II" };
+    const latest = { ...base, description: "Grafos y árboles", updatedAt: "2024-05-01T10:00:00.000Z" };
+
+    const { merged, overlapping } = mergeConcurrentEdits(base, local, latest, ["name", "description"]);
+
+    expect(merged).toEqual({
+      name: "Algoritmos II",
+      description: "Grafos y árboles",
+      updatedAt: "2024-05-01T10:00:00.000Z",
+    });
+    expect(overlapping).toEqual([]);
+  });
+
+  it("reports fields both editors changed to different values", () => {
+    const local = { ...base, name: "Algoritmos II" };
+    const latest = { ...base, name: "Estructuras", updatedAt: "2024-05-01T10:00:00.000Z" };
+
+    const { merged, overlapping } = mergeConcurrentEdits(base, local, latest, ["name", "description"]);
+
+    expect(overlapping).toEqual(["name"]);
+    expect(merged.name).toBe("Algoritmos II");
+  });
+});
@@ -0,0 +1,28 @@
+export type ConcurrentEditMerge<T> = {
+  merged: T;
+  // Campos que ambos cambiaron con valores distintos; en `merged` queda el valor local.
+  overlapping: (keyof T)[];
+};
+
+/**
+ * Combina una edición local con la versión guardada más reciente: parte de `latest` (incluida su
+ * versión) y le aplica solo los campos de `fields` que el usuario cambió respecto a `base`, la
+ * copia con la que abrió el formulario.
+ */
+export const mergeConcurrentEdits = <T extends object>(
+  base: T,
+  local: T,
+  latest: T,
+  fields: readonly (keyof T)[],
+): ConcurrentEditMerge<T> => {
+  const merged = { ...latest };
+  const overlapping: (keyof T)[] = [];
+  for (const field of fields) {
+    if (local[field] === base[field]) continue;
+    if (latest[field] !== base[field] && latest[field] !== local[field]) {
+      overlapping.push(field);
+    }
+    merged[field] = local[field];
+  }
+  return { merged, overlapping };
+};
@@ -0,0 +1,52 @@
+import { AuditLogEntry, AuditLogRepository } from "@/src/domain/repositories/AuditLogRepository";
+
+export type AuditDraft = Omit<AuditLogEntry, "userId">;
+
+// Un borrador perezoso se resuelve después de la escritura, p. ej. para buscar el curso de un
+// registro archivado solo por id; si devuelve `null` no se registra nada.
+export type AuditDraftSource = AuditDraft | (() => Promise<AuditDraft | null>);
+
+type Dependencies = {
+  auditLogRepository: AuditLogRepository;
+  getCurrentUserId: () => Promise<string | null>;
+};
+
+/**
+ * Escribe el historial de cambios sin bloquear ni romper la operación que lo originó: los
+ * registros se envían en segundo plano y un fallo solo queda en el log de depuración.
+ */
+export class AuditTrail {
+  private readonly auditLogRepository: AuditLogRepository;
+  private readonly getCurrentUserId: () => Promise<string | null>;
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor({ auditLogRepository, getCurrentUserId }: Dependencies) {
+    this.auditLogRepository = auditLogRepository;
+    this.getCurrentUserId = getCurrentUserId;
+  }
+
+  record(source: AuditDraftSource): Promise<void> {
+    const task = this.write(source).finally(() => {
+      this.pending.delete(task);
+    });
+    this.pending.add(task);
+    return task;
+  }
+
+  /** Espera a que terminen los registros en curso. */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pending));
+  }
+
+  private async write(source: AuditDraftSource) {
+    try {
+      const draft = typeof source === "function" ? await source() : source;
+      if (!draft) return;
+      const userId = await this.getCurrentUserId();
+      if (!userId) return;
+      await this.auditLogRepository.record({ ...draft, userId });
+    } catch (error) {
+      console.debug("[AUDIT] No se pudo registrar el cambio en el historial", error);
+    }
+  }
+}
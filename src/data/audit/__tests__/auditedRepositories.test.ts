@@ -0,0 +1,118 @@
+import { AuditLogRepositoryImpl } from "@/src/data/repositories/AuditLogRepositoryImpl";
+import { CategoryRepositoryImpl } from "@/src/data/repositories/CategoryRepositoryImpl";
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { GroupRepositoryImpl } from "@/src/data/repositories/GroupRepositoryImpl";
+import { MembershipRepositoryImpl } from "@/src/data/repositories/MembershipRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { AuditLogRepository } from "@/src/domain/repositories/AuditLogRepository";
+import {
+  auditActivityRepository,
+  auditCategoryRepository,
+  auditGroupRepository,
+  auditMembershipRepository,
+} from "../auditedRepositories";
+import { AuditTrail } from "../AuditTrail";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+const setup = (auditLogOverride?: AuditLogRepository) => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("categories", [
+    { _id: "cat1", name: "Proyecto", course_id: "k1", teacher_id: "t1", grouping_method: "manual", is_active: true },
+  ]);
+  transport.seed("groups", [
+    { _id: "g1", name: "Grupo 1", category_id: "cat1", course_id: "k1", teacher_id: "t1", is_active: true },
+  ]);
+  transport.seed("memberships", [{ _id: "m1", user_id: "s1", group_id: "g1", is_active: true }]);
+  transport.seed("activities", [
+    { _id: "act1", title: "Entrega 1", category_id: "cat1", course_id: "k1", is_active: true },
+  ]);
+  const service = new RobleService(config, transport);
+  const deps = { getAccessToken: async () => "token" };
+  const auditLog = new AuditLogRepositoryImpl(service, deps);
+  const trail = new AuditTrail({
+    auditLogRepository: auditLogOverride ?? auditLog,
+    getCurrentUserId: async () => "t1",
+  });
+  const groups = new GroupRepositoryImpl(service, deps);
+  return {
+    auditLog,
+    trail,
+    categories: auditCategoryRepository(new CategoryRepositoryImpl(service, deps), trail),
+    groups: auditGroupRepository(groups, trail),
+    memberships: auditMembershipRepository(new MembershipRepositoryImpl(service, deps), groups, trail),
+    activities: auditActivityRepository(new CourseActivityRepositoryImpl(service, deps), trail),
+  };
+};
+
+describe("audited repositories", () => {
+  it("records writes in the course history and leaves reads untouched", async () => {
+    const { auditLog, trail, categories, memberships } = setup();
+
+    const category = await categories.getCategoryById("cat1");
+    await categories.updateCategory({ ...category!, name: "Proyecto final" });
+    await categories.archiveCategory("cat1");
+    await memberships.createMembership({
+      id: "",
+      userId: "s1",
+      groupId: "g1",
+      joinedAt: new Date().toISOString(),
+      isActive: true,
+    });
+    await trail.flush();
+
+    const history = await auditLog.getCourseHistory("k1");
+    expect(history.map(({ action, entityType, details }) => ({ action, entityType, details }))).toEqual(
+      expect.arrayContaining([
+        { action: "update", entityType: "category", details: "Proyecto final" },
+        { action: "archive", entityType: "category", details: "Proyecto final" },
+        { action: "create", entityType: "membership", details: "Grupo 1" },
+      ]),
+    );
+    expect(history).toHaveLength(3);
+    expect(history.every((entry) => entry.userId === "t1")).toBe(true);
+
+    const membershipEntries = await auditLog.getCourseHistory("k1", { entityType: "membership" });
+    expect(membershipEntries).toHaveLength(1);
+  });
+
+  it("records archives of groups, activities and the memberships of an archived group", async () => {
+    const { auditLog, trail, groups, memberships, activities } = setup();
+
+    // Como en el archivado de un curso: la membresía, luego su grupo; los borradores se resuelven al final.
+    await memberships.archiveMembership("m1");
+    await groups.archiveGroup("g1");
+    await activities.archiveActivity("act1");
+    await trail.flush();
+
+    const history = await auditLog.getCourseHistory("k1");
+    const entries = history.map(({ action, entityType, entityId, details }) => ({ action, entityType, entityId, details }));
+    expect(entries).toEqual(
+      expect.arrayContaining([
+        { action: "archive", entityType: "membership", entityId: "m1", details: "Grupo 1" },
+        { action: "archive", entityType: "group", entityId: "g1", details: "Grupo 1" },
+        { action: "archive", entityType: "activity", entityId: "act1", details: "Entrega 1" },
+      ]),
+    );
+    expect(history).toHaveLength(3);
+  });
+
+  it("does not fail the write when the history cannot be saved", async () => {
+    const failing = {
+      record: jest.fn().mockRejectedValue(new Error("sin conexión")),
+      getCourseHistory: jest.fn(),
+    };
+    const { trail, categories } = setup(failing);
+    const debug = jest.spyOn(console, "debug").mockImplementation(() => undefined);
+
+    await expect(categories.archiveCategory("cat1")).resolves.toBe(true);
+    await trail.flush();
+
+    expect(failing.record).toHaveBeenCalledTimes(1);
+    debug.mockRestore();
+  });
+});
@@ -0,0 +1,149 @@
+import { AuditAction, AuditEntityType } from "@/src/domain/models/Activity";
+import { COURSE_STAFF_ROLE_LABELS, CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { AuditDraft, AuditDraftSource, AuditTrail } from "./AuditTrail";
+
+type AuditRules<R> = {
+  [K in keyof R]?: R[K] extends (...args: infer A) => Promise<infer T>
+    ? (args: A, result: T) => AuditDraftSource | null
+    : never;
+};
+
+type AuditRule = (args: unknown[], result: unknown) => AuditDraftSource | null;
+
+const draft = (
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: string,
+  courseId: string | null,
+  details: string | null = null,
+): AuditDraft => ({ action, entityType, entityId, courseId, details });
+
+const activeAction = (isActive: boolean): AuditAction => (isActive ? "update" : "archive");
+
+// Los borradores de archivado se resuelven después de la escritura, cuando la fila ya está
+// inactiva: por eso sus lecturas incluyen las inactivas.
+const INCLUDE_INACTIVE = { includeInactive: true };
+
+/**
+ * Envuelve un repositorio para que los métodos listados en `rules` registren un cambio en el
+ * historial cuando terminan bien. El resto de métodos se delega sin tocar.
+ */
+export const withAuditTrail = <R extends object>(repository: R, trail: AuditTrail, rules: AuditRules<R>): R =>
+  new Proxy(repository, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== "function") {
+        return value;
+      }
+      const rule = rules[property as keyof R] as AuditRule | undefined;
+      if (!rule) {
+        return value.bind(target);
+      }
+      return async (...args: unknown[]) => {
+        const result = await value.apply(target, args);
+        const source = rule(args, result);
+        if (source) {
+          void trail.record(source);
+        }
+        return result;
+      };
+    },
+  });
+
+export const auditCourseRepository = (repository: CourseRepository, trail: AuditTrail) =>
+  withAuditTrail(repository, trail, {
+    createCourse: (_, course) => draft("create", "course", course.id, course.id, course.name),
+    updateCourse: (_, course) => draft("update", "course", course.id, course.id, course.name),
+    setCourseActive: ([courseId, active], course) =>
+      draft(active ? "restore" : "archive", "course", courseId, courseId, course.name),
+    updateJoinCode: (_, course) => draft("update", "course", course.id, course.id, course.name),
+    archiveCourse: ([courseId]) => async () => {
+      const course = await repository.getCourseById(courseId);
+      return draft("archive", "course", courseId, courseId, course?.name ?? null);
+    },
+  });
+
+export const auditCategoryRepository = (repository: CategoryRepository, trail: AuditTrail) =>
+  withAuditTrail(repository, trail, {
+    createCategory: (_, category) => draft("create", "category", category.id, category.courseId, category.name),
+    updateCategory: (_, category) =>
+      draft(activeAction(category.isActive), "category", category.id, category.courseId, category.name),
+    archiveCategory: ([categoryId]) => async () => {
+      const category = await repository.getCategoryById(categoryId);
+      return category ? draft("archive", "category", categoryId, category.courseId, category.name) : null;
+    },
+  });
+
+export const auditGroupRepository = (repository: GroupRepository, trail: AuditTrail) =>
+  withAuditTrail(repository, trail, {
+    createGroup: (_, group) => draft("create", "group", group.id, group.courseId, group.name),
+    updateGroup: (_, group) => draft(activeAction(group.isActive), "group", group.id, group.courseId, group.name),
+    archiveGroup: ([groupId]) => async () => {
+      const group = await repository.getGroupById(groupId, INCLUDE_INACTIVE);
+      return group ? draft("archive", "group", groupId, group.courseId, group.name) : null;
+    },
+  });
+
+// Las membresías no guardan el curso; se obtiene (junto con el nombre) desde su grupo, que en un
+// archivado en cascada puede haberse archivado antes de que se resuelva el borrador.
+export const auditMembershipRepository = (
+  repository: MembershipRepository,
+  groupRepository: GroupRepository,
+  trail: AuditTrail,
+) => {
+  const describe = (action: AuditAction, membershipId: string, groupId: string) => async () => {
+    const group = await groupRepository.getGroupById(groupId, INCLUDE_INACTIVE);
+    return group ? draft(action, "membership", membershipId, group.courseId, group.name) : null;
+  };
+  return withAuditTrail(repository, trail, {
+    createMembership: (_, membership) => describe("create", membership.id, membership.groupId),
+    updateMembership: (_, membership) =>
+      describe(activeAction(membership.isActive), membership.id, membership.groupId),
+    archiveMembership: ([membershipId]) => async () => {
+      const membership = await repository.getMembershipById(membershipId);
+      return membership ? describe("archive", membershipId, membership.groupId)() : null;
+    },
+  });
+};
+
+export const auditEnrollmentRepository = (repository: EnrollmentRepository, trail: AuditTrail) =>
+  withAuditTrail(repository, trail, {
+    createEnrollment: (_, enrollment) => draft("create", "enrollment", enrollment.id, enrollment.courseId),
+    updateEnrollment: (_, enrollment) =>
+      draft(activeAction(enrollment.isActive), "enrollment", enrollment.id, enrollment.courseId),
+    archiveEnrollment: ([enrollmentId]) => async () => {
+      const enrollment = await repository.getEnrollmentById(enrollmentId);
+      return enrollment ? draft("archive", "enrollment", enrollmentId, enrollment.courseId) : null;
+    },
+  });
+
+export const auditActivityRepository = (repository: CourseActivityRepository, trail: AuditTrail) =>
+  withAuditTrail(repository, trail, {
+    createActivity: (_, activity) => draft("create", "activity", activity.id, activity.courseId, activity.title),
+    updateActivity: (_, activity) =>
+      draft(activeAction(activity.isActive), "activity", activity.id, activity.courseId, activity.title),
+    archiveActivity: ([activityId]) => async () => {
+      const activity = await repository.getActivityById(activityId, INCLUDE_INACTIVE);
+      return activity ? draft("archive", "activity", activityId, activity.courseId, activity.title) : null;
+    },
+  });
+
+export const auditCourseStaffRepository = (repository: CourseStaffRepository, trail: AuditTrail) => {
+  const describe = (action: AuditAction, member: CourseStaffMember) =>
+    draft(action, "staff", member.id, member.courseId, COURSE_STAFF_ROLE_LABELS[member.role]);
+  return withAuditTrail(repository, trail, {
+    addStaffMember: (_, member) => describe("create", member),
+    updateStaffRole: (_, member) => describe("update", member),
+    archiveStaffMember: ([memberId]) => async () => {
+      const member = await repository.getStaffMemberById(memberId);
+      return member ? describe("archive", member) : null;
+    },
+  });
+};
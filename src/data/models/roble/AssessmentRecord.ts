@@ -0,0 +1,68 @@
+import { Assessment } from "@/src/domain/models/Assessment";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
+
+// La tabla se llama así en la base de datos (con la errata incluida).
+export const ASSESSMENTS_TABLE = "assestments";
+
+export type AssessmentRecord = {
+  _id: string;
+  activity_id: string;
+  group_id: string;
+  reviewer: string;
+  reviewed: string;
+  punctuality_score: number | null;
+  contributions_score: number | null;
+  commitment_score: number | null;
+  attitude_score: number | null;
+  overall_score: number | null; // Guardado multiplicado por 10
+  created_at?: string;
+  updated_at: string | null;
+};
+
+export const assessmentRecordSchema = defineRecordSchema<AssessmentRecord>({
+  table: ASSESSMENTS_TABLE,
+  fields: {
+    _id: field.string({ required: true, aliases: ["id"] }),
+    activity_id: field.string({ required: true }),
+    group_id: field.string(),
+    reviewer: field.string({ required: true }),
+    reviewed: field.string({ required: true }),
+    punctuality_score: field.nullableNumber(),
+    contributions_score: field.nullableNumber(),
+    commitment_score: field.nullableNumber(),
+    attitude_score: field.nullableNumber(),
+    overall_score: field.nullableNumber(),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    updated_at: field.nullableString(),
+  },
+});
+
+export const toAssessmentRecord = (raw: Record<string, unknown>): AssessmentRecord =>
+  decodeRecord(assessmentRecordSchema, raw).record;
+
+export const mapAssessmentRecordToEntity = (record: AssessmentRecord): Assessment => {
+  const punctualityScore = record.punctuality_score ?? 0;
+  const contributionsScore = record.contributions_score ?? 0;
+  const commitmentScore = record.commitment_score ?? 0;
+  const attitudeScore = record.attitude_score ?? 0;
+  // Sin overall_score se usa el promedio de los cuatro puntajes.
+  const overallScore =
+    record.overall_score != null
+      ? record.overall_score / 10
+      : (punctualityScore + contributionsScore + commitmentScore + attitudeScore) / 4.0;
+
+  return {
+    id: record._id,
+    activityId: record.activity_id,
+    studentId: record.reviewed,
+    groupId: record.group_id,
+    reviewerId: record.reviewer,
+    punctualityScore,
+    contributionsScore,
+    commitmentScore,
+    attitudeScore,
+    overallScorePersisted: overallScore,
+    createdAt: record.created_at ?? "",
+    updatedAt: record.updated_at,
+  };
+};
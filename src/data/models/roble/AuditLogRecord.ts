@@ -0,0 +1,52 @@
+import { Activity } from "@/src/domain/models/Activity";
+import { AuditLogEntry } from "@/src/domain/repositories/AuditLogRepository";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
+
+export type AuditLogRecord = {
+  _id: string;
+  user_id: string;
+  action: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  course_id: string | null;
+  details: string | null;
+  created_at?: string;
+};
+
+export const auditLogRecordSchema = defineRecordSchema<AuditLogRecord>({
+  table: "audit_log",
+  fields: {
+    _id: field.string({ required: true }),
+    user_id: field.string({ required: true }),
+    action: field.string({ required: true }),
+    entity_type: field.nullableString({ blankAsNull: true }),
+    entity_id: field.nullableString({ blankAsNull: true }),
+    course_id: field.nullableString({ blankAsNull: true }),
+    details: field.nullableString(),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+  },
+});
+
+export const toAuditLogRecord = (raw: Record<string, unknown>): AuditLogRecord =>
+  decodeRecord(auditLogRecordSchema, raw).record;
+
+export const mapAuditLogRecordToEntity = (record: AuditLogRecord): Activity => ({
+  id: record._id ?? "",
+  userId: record.user_id ?? "",
+  action: record.action ?? "",
+  entityType: record.entity_type ?? null,
+  entityId: record.entity_id ?? null,
+  courseId: record.course_id ?? null,
+  details: record.details ?? null,
+  createdAt: record.created_at ?? new Date().toISOString(),
+});
+
+export const mapAuditLogEntryToRecord = (entry: AuditLogEntry): Omit<AuditLogRecord, "_id"> => ({
+  user_id: entry.userId,
+  action: entry.action,
+  entity_type: entry.entityType,
+  entity_id: entry.entityId,
+  course_id: entry.courseId,
+  details: entry.details,
+  created_at: new Date().toISOString(),
+});
@@ -1,4 +1,5 @@
 import { Category } from "@/src/domain/models/Category";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type CategoryRecord = {
   _id: string;
@@ -9,6 +10,7 @@ export type CategoryRecord = {
   grouping_method: string;
   max_members_per_group?: number | null;
   created_at?: string;
+  updated_at?: string;
   is_active?: boolean;
 };
 
@@ -24,39 +26,25 @@ const toBoolean = (value: unknown, fallback: boolean): boolean => {
   return fallback;
 };
 
-const toNullableNumber = (value: unknown): number | null => {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === "string" && value.trim().length > 0) {
-    const parsed = Number(value);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
-export const toCategoryRecord = (raw: Record<string, unknown>): CategoryRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  name: typeof raw.name === "string" ? raw.name : "",
-  description:
-    typeof raw.description === "string"
-      ? raw.description
-      : typeof raw.description === "object" && raw.description !== null
-        ? String(raw.description)
-        : null,
-  course_id: typeof raw.course_id === "string" ? raw.course_id : "",
-  teacher_id: typeof raw.teacher_id === "string" ? raw.teacher_id : "",
-  grouping_method: typeof raw.grouping_method === "string" ? raw.grouping_method : "manual",
-  max_members_per_group: toNullableNumber(raw.max_members_per_group),
-  created_at:
-    typeof raw.created_at === "string"
-      ? raw.created_at
-      : typeof raw.createdAt === "string"
-        ? raw.createdAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
+export const categoryRecordSchema = defineRecordSchema<CategoryRecord>({
+  table: "categories",
+  fields: {
+    _id: field.string({ required: true }),
+    name: field.string({ required: true }),
+    description: field.nullableString(),
+    course_id: field.string({ required: true }),
+    teacher_id: field.string(),
+    grouping_method: field.string({ fallback: "manual" }),
+    max_members_per_group: field.nullableNumber(),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    updated_at: field.optionalString({ aliases: ["updatedAt"] }),
+    is_active: field.boolean(true),
+  },
 });
 
+export const toCategoryRecord = (raw: Record<string, unknown>): CategoryRecord =>
+  decodeRecord(categoryRecordSchema, raw).record;
+
 export const mapCategoryRecordToEntity = (record: CategoryRecord): Category => ({
   id: record._id ?? "",
   name: record.name ?? "",
@@ -66,6 +54,7 @@ export const mapCategoryRecordToEntity = (record: CategoryRecord): Category => (
   groupingMethod: record.grouping_method ?? "manual",
   maxMembersPerGroup: record.max_members_per_group ?? null,
   createdAt: record.created_at ?? new Date().toISOString(),
+  updatedAt: record.updated_at ?? null,
   isActive: toBoolean(record.is_active, true),
 });
 
@@ -1,4 +1,5 @@
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type CourseActivityRecord = {
   _id: string;
@@ -9,6 +10,7 @@ export type CourseActivityRecord = {
   created_by: string;
   due_date?: string | null;
   created_at?: string;
+  updated_at?: string;
   is_active?: boolean;
   reviewing?: boolean;
   private_review?: boolean;
@@ -26,33 +28,27 @@ const toBoolean = (value: unknown, fallback: boolean): boolean => {
   return fallback;
 };
 
-const toNullableString = (value: unknown): string | null => {
-  if (typeof value === "string" && value.trim().length > 0) {
-    return value;
-  }
-  return null;
-};
+export const courseActivityRecordSchema = defineRecordSchema<CourseActivityRecord>({
+  table: "activities",
+  fields: {
+    _id: field.string({ required: true }),
+    title: field.string({ required: true }),
+    description: field.nullableString({ blankAsNull: true }),
+    category_id: field.string({ required: true }),
+    course_id: field.string({ required: true }),
+    created_by: field.string(),
+    due_date: field.nullableString({ blankAsNull: true }),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    updated_at: field.optionalString({ aliases: ["updatedAt"] }),
+    is_active: field.boolean(true),
+    reviewing: field.boolean(false),
+    private_review: field.boolean(false),
+  },
+});
 
 export const toCourseActivityRecord = (
   raw: Record<string, unknown>,
-): CourseActivityRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  title: typeof raw.title === "string" ? raw.title : "",
-  description: toNullableString(raw.description),
-  category_id: typeof raw.category_id === "string" ? raw.category_id : "",
-  course_id: typeof raw.course_id === "string" ? raw.course_id : "",
-  created_by: typeof raw.created_by === "string" ? raw.created_by : "",
-  due_date: toNullableString(raw.due_date),
-  created_at:
-    typeof raw.created_at === "string"
-      ? raw.created_at
-      : typeof raw.createdAt === "string"
-        ? raw.createdAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
-  reviewing: toBoolean(raw.reviewing, false),
-  private_review: toBoolean(raw.private_review, false),
-});
+): CourseActivityRecord => decodeRecord(courseActivityRecordSchema, raw).record;
 
 export const mapCourseActivityRecordToEntity = (
   record: CourseActivityRecord,
@@ -65,6 +61,7 @@ export const mapCourseActivityRecordToEntity = (
   createdBy: record.created_by ?? "",
   dueDate: record.due_date ?? null,
   createdAt: record.created_at ?? new Date().toISOString(),
+  updatedAt: record.updated_at ?? null,
   isActive: toBoolean(record.is_active, true),
   reviewing: toBoolean(record.reviewing, false),
   privateReview: toBoolean(record.private_review, false),
@@ -1,4 +1,5 @@
 import { Course } from "@/src/domain/models/Course";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type CourseRecord = {
   _id: string;
@@ -7,7 +8,13 @@ export type CourseRecord = {
   join_code?: string;
   teacher_id: string;
   created_at?: string;
+  updated_at?: string;
   is_active?: boolean;
+  join_code_enabled?: boolean;
+  join_code_issued_at?: string | null;
+  join_code_expires_at?: string | null;
+  join_code_max_uses?: number | null;
+  requires_approval?: boolean;
 };
 
 const toBoolean = (value: unknown, fallback: boolean) => {
@@ -25,21 +32,28 @@ const toBoolean = (value: unknown, fallback: boolean) => {
   return fallback;
 };
 
-export const toCourseRecord = (raw: Record<string, unknown>): CourseRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  name: typeof raw.name === "string" ? raw.name : "",
-  description: typeof raw.description === "string" ? raw.description : "",
-  join_code: typeof raw.join_code === "string" ? raw.join_code : undefined,
-  teacher_id: typeof raw.teacher_id === "string" ? raw.teacher_id : "",
-  created_at:
-    typeof raw.created_at === "string"
-      ? raw.created_at
-      : typeof raw.createdAt === "string"
-        ? raw.createdAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
+export const courseRecordSchema = defineRecordSchema<CourseRecord>({
+  table: "courses",
+  fields: {
+    _id: field.string({ required: true }),
+    name: field.string({ required: true }),
+    description: field.string(),
+    join_code: field.optionalString(),
+    teacher_id: field.string({ required: true }),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    updated_at: field.optionalString({ aliases: ["updatedAt"] }),
+    is_active: field.boolean(true),
+    join_code_enabled: field.boolean(true),
+    join_code_issued_at: field.nullableString({ blankAsNull: true }),
+    join_code_expires_at: field.nullableString({ blankAsNull: true }),
+    join_code_max_uses: field.nullableNumber(),
+    requires_approval: field.boolean(false),
+  },
 });
 
+export const toCourseRecord = (raw: Record<string, unknown>): CourseRecord =>
+  decodeRecord(courseRecordSchema, raw).record;
+
 export const mapCourseRecordToEntity = (record: CourseRecord): Course => ({
   id: record._id ?? "",
   name: record.name ?? "",
@@ -47,7 +61,13 @@ export const mapCourseRecordToEntity = (record: CourseRecord): Course => ({
   joinCode: record.join_code ?? "",
   teacherId: record.teacher_id ?? "",
   createdAt: record.created_at ?? new Date().toISOString(),
+  updatedAt: record.updated_at ?? null,
   isActive: toBoolean(record.is_active, true),
+  joinCodeEnabled: toBoolean(record.join_code_enabled, true),
+  joinCodeIssuedAt: record.join_code_issued_at ?? null,
+  joinCodeExpiresAt: record.join_code_expires_at ?? null,
+  joinCodeMaxUses: record.join_code_max_uses ?? null,
+  requiresApproval: toBoolean(record.requires_approval, false),
 });
 
 export const mapCourseEntityToRecord = (course: Course): CourseRecord => ({
@@ -58,4 +78,9 @@ export const mapCourseEntityToRecord = (course: Course): CourseRecord => ({
   teacher_id: course.teacherId,
   created_at: course.createdAt ?? new Date().toISOString(),
   is_active: course.isActive,
+  join_code_enabled: course.joinCodeEnabled ?? true,
+  join_code_issued_at: course.joinCodeIssuedAt ?? null,
+  join_code_expires_at: course.joinCodeExpiresAt ?? null,
+  join_code_max_uses: course.joinCodeMaxUses ?? null,
+  requires_approval: course.requiresApproval ?? false,
 });
@@ -0,0 +1,55 @@
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
+
+export type CourseStaffRecord = {
+  _id: string;
+  course_id: string;
+  user_id: string;
+  role: string;
+  invited_by: string | null;
+  created_at?: string;
+  is_active?: boolean;
+};
+
+const STAFF_ROLES = ["coteacher", "assistant"];
+
+export const courseStaffRecordSchema = defineRecordSchema<CourseStaffRecord>({
+  table: "course_staff",
+  fields: {
+    _id: field.string({ required: true }),
+    course_id: field.string({ required: true }),
+    user_id: field.string({ required: true }),
+    role: field.string({ required: true }),
+    invited_by: field.nullableString({ blankAsNull: true }),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    is_active: field.boolean(true),
+  },
+  // Un rol desconocido no debe convertirse en permisos: la fila se descarta.
+  validate: (record) =>
+    STAFF_ROLES.includes(record.role)
+      ? []
+      : [{ field: "role", message: "rol de equipo docente desconocido", value: record.role, severity: "error" }],
+});
+
+export const toCourseStaffRecord = (raw: Record<string, unknown>): CourseStaffRecord =>
+  decodeRecord(courseStaffRecordSchema, raw).record;
+
+export const mapCourseStaffRecordToEntity = (record: CourseStaffRecord): CourseStaffMember => ({
+  id: record._id ?? "",
+  courseId: record.course_id ?? "",
+  userId: record.user_id ?? "",
+  role: record.role === "coteacher" ? "coteacher" : "assistant",
+  invitedBy: record.invited_by ?? "",
+  createdAt: record.created_at ?? new Date().toISOString(),
+  isActive: record.is_active ?? true,
+});
+
+export const mapCourseStaffEntityToRecord = (member: CourseStaffMember): CourseStaffRecord => ({
+  _id: member.id,
+  course_id: member.courseId,
+  user_id: member.userId,
+  role: member.role,
+  invited_by: member.invitedBy || null,
+  created_at: member.createdAt,
+  is_active: member.isActive,
+});
@@ -1,4 +1,5 @@
-import { Enrollment } from "@/src/domain/models/Enrollment";
+import { Enrollment, EnrollmentStatus } from "@/src/domain/models/Enrollment";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type EnrollmentRecord = {
   _id: string;
@@ -25,22 +26,27 @@ const toBoolean = (value: unknown, fallback: boolean) => {
   return fallback;
 };
 
+export const enrollmentRecordSchema = defineRecordSchema<EnrollmentRecord>({
+  table: "enrollments",
+  fields: {
+    _id: field.string({ required: true }),
+    user_id: field.optionalString(),
+    student_id: field.optionalString(),
+    course_id: field.string({ required: true }),
+    enrolled_at: field.optionalString({ aliases: ["enrolledAt"] }),
+    is_active: field.boolean(true),
+    status: field.optionalString(),
+  },
+  // Las inscripciones antiguas guardan al estudiante en `student_id` en vez de `user_id`.
+  validate: (record) =>
+    record.user_id || record.student_id
+      ? []
+      : [{ field: "user_id", message: "es obligatorio", value: undefined, severity: "error" }],
+});
+
 export const toEnrollmentRecord = (
   raw: Record<string, unknown>,
-): EnrollmentRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  user_id: typeof raw.user_id === "string" ? raw.user_id : undefined,
-  student_id: typeof raw.student_id === "string" ? raw.student_id : undefined,
-  course_id: typeof raw.course_id === "string" ? raw.course_id : "",
-  enrolled_at:
-    typeof raw.enrolled_at === "string"
-      ? raw.enrolled_at
-      : typeof raw.enrolledAt === "string"
-        ? raw.enrolledAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
-  status: typeof raw.status === "string" ? raw.status : undefined,
-});
+): EnrollmentRecord => decodeRecord(enrollmentRecordSchema, raw).record;
 
 const resolveStudentId = (record: EnrollmentRecord): string => {
   if (record.user_id && record.user_id.length > 0) {
@@ -52,6 +58,11 @@ const resolveStudentId = (record: EnrollmentRecord): string => {
   return "";
 };
 
+const ENROLLMENT_STATUSES: EnrollmentStatus[] = ["active", "pending", "rejected"];
+
+const toStatus = (value: string | undefined): EnrollmentStatus =>
+  ENROLLMENT_STATUSES.find((status) => status === value?.toLowerCase()) ?? "active";
+
 export const mapEnrollmentRecordToEntity = (
   record: EnrollmentRecord,
 ): Enrollment => ({
@@ -60,6 +71,7 @@ export const mapEnrollmentRecordToEntity = (
   courseId: record.course_id ?? "",
   enrolledAt: record.enrolled_at ?? new Date().toISOString(),
   isActive: toBoolean(record.is_active, true),
+  status: toStatus(record.status),
 });
 
 export const mapEnrollmentEntityToRecord = (
@@ -70,4 +82,5 @@ export const mapEnrollmentEntityToRecord = (
   course_id: enrollment.courseId,
   enrolled_at: enrollment.enrolledAt ?? new Date().toISOString(),
   is_active: enrollment.isActive,
+  status: enrollment.status,
 });
@@ -1,4 +1,5 @@
 import { Group } from "@/src/domain/models/Group";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type GroupRecord = {
   _id: string;
@@ -7,6 +8,7 @@ export type GroupRecord = {
   course_id: string;
   teacher_id: string;
   created_at?: string;
+  updated_at?: string;
   is_active?: boolean;
 };
 
@@ -22,21 +24,23 @@ const toBoolean = (value: unknown, fallback: boolean): boolean => {
   return fallback;
 };
 
-export const toGroupRecord = (raw: Record<string, unknown>): GroupRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  name: typeof raw.name === "string" ? raw.name : "",
-  category_id: typeof raw.category_id === "string" ? raw.category_id : "",
-  course_id: typeof raw.course_id === "string" ? raw.course_id : "",
-  teacher_id: typeof raw.teacher_id === "string" ? raw.teacher_id : "",
-  created_at:
-    typeof raw.created_at === "string"
-      ? raw.created_at
-      : typeof raw.createdAt === "string"
-        ? raw.createdAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
+export const groupRecordSchema = defineRecordSchema<GroupRecord>({
+  table: "groups",
+  fields: {
+    _id: field.string({ required: true }),
+    name: field.string({ required: true }),
+    category_id: field.string({ required: true }),
+    course_id: field.string({ required: true }),
+    teacher_id: field.string(),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    updated_at: field.optionalString({ aliases: ["updatedAt"] }),
+    is_active: field.boolean(true),
+  },
 });
 
+export const toGroupRecord = (raw: Record<string, unknown>): GroupRecord =>
+  decodeRecord(groupRecordSchema, raw).record;
+
 export const mapGroupRecordToEntity = (record: GroupRecord): Group => ({
   id: record._id ?? "",
   name: record.name ?? "",
@@ -44,6 +48,7 @@ export const mapGroupRecordToEntity = (record: GroupRecord): Group => ({
   courseId: record.course_id ?? "",
   teacherId: record.teacher_id ?? "",
   createdAt: record.created_at ?? new Date().toISOString(),
+  updatedAt: record.updated_at ?? null,
   isActive: toBoolean(record.is_active, true),
 });
 
@@ -1,4 +1,5 @@
 import { Membership } from "@/src/domain/models/Membership";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type MembershipRecord = {
   _id: string;
@@ -21,27 +22,21 @@ const toBoolean = (value: unknown, fallback: boolean): boolean => {
   return fallback;
 };
 
-export const toMembershipRecord = (raw: Record<string, unknown>): MembershipRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  user_id: typeof raw.user_id === "string" ? raw.user_id : "",
-  group_id: typeof raw.group_id === "string" ? raw.group_id : "",
-  joined_at:
-    typeof raw.joined_at === "string"
-      ? raw.joined_at
-      : typeof raw.joinedAt === "string"
-        ? raw.joinedAt
-        : undefined,
-  joinet_at:
-    typeof raw.joinet_at === "string"
-      ? raw.joinet_at
-      : typeof raw.joined_at === "string"
-        ? raw.joined_at
-        : typeof raw.joinedAt === "string"
-          ? raw.joinedAt
-          : undefined,
-  is_active: toBoolean(raw.is_active, true),
+export const membershipRecordSchema = defineRecordSchema<MembershipRecord>({
+  table: "memberships",
+  fields: {
+    _id: field.string({ required: true }),
+    user_id: field.string({ required: true }),
+    group_id: field.string({ required: true }),
+    joined_at: field.optionalString({ aliases: ["joinedAt"] }),
+    joinet_at: field.optionalString({ aliases: ["joined_at", "joinedAt"] }),
+    is_active: field.boolean(true),
+  },
 });
 
+export const toMembershipRecord = (raw: Record<string, unknown>): MembershipRecord =>
+  decodeRecord(membershipRecordSchema, raw).record;
+
 export const mapMembershipRecordToEntity = (
   record: MembershipRecord,
 ): Membership => ({
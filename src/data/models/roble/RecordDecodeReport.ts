@@ -0,0 +1,69 @@
+import { RecordDecodeIssue } from "@/src/data/services/RobleErrors";
+
+export type DecodedRowSample = {
+  table: string;
+  rowId: string | null;
+  issues: RecordDecodeIssue[];
+  rejected: boolean;
+  at: number;
+};
+
+export type TableDecodeStats = {
+  table: string;
+  decoded: number;
+  withIssues: number;
+  rejected: number;
+};
+
+export type RecordDecodeSummary = {
+  tables: TableDecodeStats[];
+  // Filas con problemas más recientes primero, para depurar qué columnas vienen mal.
+  samples: DecodedRowSample[];
+};
+
+const MAX_SAMPLES = 20;
+
+/** Cuenta por tabla las filas decodificadas, las que traían problemas y las descartadas. */
+export class RecordDecodeReport {
+  private readonly stats = new Map<string, TableDecodeStats>();
+  private samples: DecodedRowSample[] = [];
+
+  constructor(private readonly maxSamples = MAX_SAMPLES) {}
+
+  record(table: string, raw: Record<string, unknown>, issues: RecordDecodeIssue[], rejected: boolean) {
+    const current = this.stats.get(table) ?? { table, decoded: 0, withIssues: 0, rejected: 0 };
+    current.decoded += 1;
+    if (!issues.length) {
+      this.stats.set(table, current);
+      return;
+    }
+    if (rejected) {
+      current.rejected += 1;
+    } else {
+      current.withIssues += 1;
+    }
+    this.stats.set(table, current);
+
+    const rowId = typeof raw._id === "string" && raw._id.length > 0 ? raw._id : null;
+    this.samples = [{ table, rowId, issues, rejected, at: Date.now() }, ...this.samples].slice(
+      0,
+      this.maxSamples,
+    );
+    if (rejected) {
+      const fields = issues.map((issue) => `${issue.field} ${issue.message}`).join(", ");
+      console.debug(`[ROBLE_DECODE] Fila ${rowId ?? "sin _id"} de ${table} descartada: ${fields}`);
+    }
+  }
+
+  summary(): RecordDecodeSummary {
+    return {
+      tables: Array.from(this.stats.values(), (entry) => ({ ...entry })),
+      samples: [...this.samples],
+    };
+  }
+
+  clear() {
+    this.stats.clear();
+    this.samples = [];
+  }
+}
@@ -0,0 +1,65 @@
+import { RecordDecodeError } from "@/src/data/services/RobleErrors";
+import { RecordDecodeReport } from "./RecordDecodeReport";
+import { decodeRecord, RecordSchema } from "./RecordSchema";
+
+/**
+ * `lenient` conserva las filas inválidas con valores por defecto (el comportamiento histórico);
+ * `strict` las descarta de los listados y lanza `RecordDecodeError` al leer una sola.
+ */
+export type RecordDecodeMode = "strict" | "lenient";
+
+export type RecordDecoderOptions = {
+  mode?: RecordDecodeMode;
+  report?: RecordDecodeReport;
+};
+
+export class RecordDecoder<T> {
+  private readonly mode: RecordDecodeMode;
+  private readonly report?: RecordDecodeReport;
+
+  constructor(private readonly schema: RecordSchema<T>, { mode = "lenient", report }: RecordDecoderOptions = {}) {
+    this.mode = mode;
+    this.report = report;
+  }
+
+  one(raw: Record<string, unknown>): T {
+    const { record, issues, valid } = decodeRecord(this.schema, raw);
+    const rejected = this.mode === "strict" && !valid;
+    this.report?.record(this.schema.table, raw, issues, rejected);
+    if (rejected) {
+      const fields = issues
+        .filter((issue) => issue.severity === "error")
+        .map((issue) => issue.field)
+        .join(", ");
+      throw new RecordDecodeError(`Registro inválido en ${this.schema.table} (${fields})`, {
+        table: this.schema.table,
+        payload: raw,
+        issues,
+      });
+    }
+    return record;
+  }
+
+  /**
+   * Fila devuelta por una escritura. Roble a veces responde solo con las columnas que cambiaron,
+   * así que aquí nunca se descarta aunque el modo sea `strict`: los problemas quedan en el reporte.
+   */
+  written(raw: Record<string, unknown>): T {
+    const { record, issues } = decodeRecord(this.schema, raw);
+    this.report?.record(this.schema.table, raw, issues, false);
+    return record;
+  }
+
+  many(rows: Record<string, unknown>[]): T[] {
+    const records: T[] = [];
+    for (const raw of rows) {
+      const { record, issues, valid } = decodeRecord(this.schema, raw);
+      const rejected = this.mode === "strict" && !valid;
+      this.report?.record(this.schema.table, raw, issues, rejected);
+      if (!rejected) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+}
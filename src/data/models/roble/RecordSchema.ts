@@ -0,0 +1,161 @@
+import { RecordDecodeIssue } from "@/src/data/services/RobleErrors";
+
+type Row = Record<string, unknown>;
+
+type FieldResult<T> = {
+  value: T;
+  issue?: Omit<RecordDecodeIssue, "field">;
+};
+
+export type FieldDecoder<T> = {
+  decode(raw: Row, name: string): FieldResult<T>;
+};
+
+export type RecordSchema<T> = {
+  table: string;
+  fields: { [K in keyof T]-?: FieldDecoder<T[K]> };
+  // Reglas que involucran varias columnas, p. ej. "al menos una de estas debe venir".
+  validate?: (record: T) => RecordDecodeIssue[];
+};
+
+export type RecordDecodeResult<T> = {
+  record: T;
+  issues: RecordDecodeIssue[];
+  valid: boolean;
+};
+
+type StringOptions = {
+  aliases?: string[];
+};
+
+type RequiredStringOptions = StringOptions & {
+  // Sin `required` la columna puede faltar y se usa `fallback` sin reportarlo.
+  required?: boolean;
+  fallback?: string;
+};
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const candidates = (raw: Row, name: string, aliases: string[] = []) =>
+  [name, ...aliases].map((key) => raw[key]);
+
+const present = (values: unknown[]) => values.find((value) => !isMissing(value));
+
+const string = ({ aliases, required = false, fallback = "" }: RequiredStringOptions = {}): FieldDecoder<string> => ({
+  decode(raw, name) {
+    const values = candidates(raw, name, aliases);
+    const found = values.find((value): value is string => typeof value === "string");
+    if (found !== undefined) {
+      if (required && found.trim().length === 0) {
+        return { value: found, issue: { message: "no puede estar vacío", value: found, severity: "error" } };
+      }
+      return { value: found };
+    }
+    const other = present(values);
+    if (other === undefined) {
+      return required
+        ? { value: fallback, issue: { message: "es obligatorio", value: undefined, severity: "error" } }
+        : { value: fallback };
+    }
+    return {
+      value: fallback,
+      issue: { message: "se esperaba texto", value: other, severity: required ? "error" : "warning" },
+    };
+  },
+});
+
+const optionalString = ({ aliases }: StringOptions = {}): FieldDecoder<string | undefined> => ({
+  decode(raw, name) {
+    const values = candidates(raw, name, aliases);
+    const found = values.find((value): value is string => typeof value === "string");
+    if (found !== undefined) {
+      return { value: found };
+    }
+    const other = present(values);
+    return other === undefined
+      ? { value: undefined }
+      : { value: undefined, issue: { message: "se esperaba texto", value: other, severity: "warning" } };
+  },
+});
+
+const nullableString = ({ blankAsNull = false }: { blankAsNull?: boolean } = {}): FieldDecoder<string | null> => ({
+  decode(raw, name) {
+    const value = raw[name];
+    if (typeof value === "string") {
+      return { value: blankAsNull && value.trim().length === 0 ? null : value };
+    }
+    if (isMissing(value)) {
+      return { value: null };
+    }
+    return { value: null, issue: { message: "se esperaba texto", value, severity: "warning" } };
+  },
+});
+
+const boolean = (fallback: boolean): FieldDecoder<boolean> => ({
+  decode(raw, name) {
+    const value = raw[name];
+    if (typeof value === "boolean") {
+      return { value };
+    }
+    if (typeof value === "string") {
+      const lower = value.toLowerCase();
+      if (lower === "true") return { value: true };
+      if (lower === "false") return { value: false };
+    }
+    if (isMissing(value)) {
+      return { value: fallback };
+    }
+    return { value: fallback, issue: { message: "se esperaba un booleano", value, severity: "warning" } };
+  },
+});
+
+const nullableNumber = (): FieldDecoder<number | null> => ({
+  decode(raw, name) {
+    const value = raw[name];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return { value };
+    }
+    if (typeof value === "string") {
+      if (value.trim().length === 0) {
+        return { value: null };
+      }
+      const parsed = Number(value);
+      if (Number.isFinite(parsed)) {
+        return { value: parsed };
+      }
+    }
+    if (isMissing(value)) {
+      return { value: null };
+    }
+    return { value: null, issue: { message: "se esperaba un número", value, severity: "warning" } };
+  },
+});
+
+export const field = {
+  string,
+  optionalString,
+  nullableString,
+  boolean,
+  nullableNumber,
+};
+
+export const defineRecordSchema = <T>(schema: RecordSchema<T>): RecordSchema<T> => schema;
+
+/**
+ * Decodifica una fila cruda con el esquema de su tabla. Siempre devuelve un registro (con los
+ * valores por defecto donde hizo falta) junto con los problemas encontrados; `valid` es falso si
+ * alguno de ellos es un error.
+ */
+export const decodeRecord = <T>(schema: RecordSchema<T>, raw: Row): RecordDecodeResult<T> => {
+  const record = {} as T;
+  const issues: RecordDecodeIssue[] = [];
+  for (const name of Object.keys(schema.fields) as (keyof T & string)[]) {
+    const { value, issue } = schema.fields[name].decode(raw, name);
+    record[name] = value;
+    if (issue) {
+      issues.push({ field: name, ...issue });
+    }
+  }
+  issues.push(...(schema.validate?.(record) ?? []));
+  return { record, issues, valid: !issues.some((issue) => issue.severity === "error") };
+};
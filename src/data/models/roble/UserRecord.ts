@@ -1,4 +1,5 @@
 import { User } from "@/src/domain/models/User";
+import { decodeRecord, defineRecordSchema, field } from "./RecordSchema";
 
 export type UserRecord = {
   _id: string;
@@ -23,27 +24,23 @@ const toBoolean = (value: unknown, fallback: boolean) => {
   return fallback;
 };
 
-export const toUserRecord = (raw: Record<string, unknown>): UserRecord => ({
-  _id: typeof raw._id === "string" ? raw._id : "",
-  student_id:
-    typeof raw.student_id === "string"
-      ? raw.student_id
-      : typeof raw.user_id === "string"
-        ? raw.user_id
-        : undefined,
-  email: typeof raw.email === "string" ? raw.email : undefined,
-  first_name: typeof raw.first_name === "string" ? raw.first_name : undefined,
-  last_name: typeof raw.last_name === "string" ? raw.last_name : undefined,
-  username: typeof raw.username === "string" ? raw.username : undefined,
-  created_at:
-    typeof raw.created_at === "string"
-      ? raw.created_at
-      : typeof raw.createdAt === "string"
-        ? raw.createdAt
-        : undefined,
-  is_active: toBoolean(raw.is_active, true),
+export const userRecordSchema = defineRecordSchema<UserRecord>({
+  table: "users",
+  fields: {
+    _id: field.string({ required: true }),
+    student_id: field.optionalString({ aliases: ["user_id"] }),
+    email: field.optionalString(),
+    first_name: field.optionalString(),
+    last_name: field.optionalString(),
+    username: field.optionalString(),
+    created_at: field.optionalString({ aliases: ["createdAt"] }),
+    is_active: field.boolean(true),
+  },
 });
 
+export const toUserRecord = (raw: Record<string, unknown>): UserRecord =>
+  decodeRecord(userRecordSchema, raw).record;
+
 export const mapUserRecordToEntity = (record: UserRecord): User => ({
   id: record._id ?? "",
   studentId: record.student_id ?? "",
@@ -0,0 +1,129 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RecordDecodeError } from "@/src/data/services/RobleErrors";
+import { RobleService } from "@/src/data/services/RobleService";
+import { mapAssessmentRecordToEntity, toAssessmentRecord } from "../AssessmentRecord";
+import { courseRecordSchema, toCourseRecord } from "../CourseRecord";
+import { RecordDecoder } from "../RecordDecoder";
+import { RecordDecodeReport } from "../RecordDecodeReport";
+import { decodeRecord } from "../RecordSchema";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+const setup = () => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("courses", [
+    { _id: "k1", name: "Algoritmos", description: "Intro", teacher_id: "t1", is_active: true },
+    { _id: "k2", name: 42, teacher_id: "t1", is_active: "quizás" },
+    { _id: "k3", name: "Redes", teacher_id: "t2", is_active: "false" },
+  ]);
+  transport.seed("enrollments", [
+    { _id: "e1", user_id: "u1", course_id: "k1" },
+    { _id: "e2", course_id: "k1" },
+  ]);
+  const service = new RobleService(config, transport);
+  return { service };
+};
+
+describe("Roble record schemas", () => {
+  it("collects field-level issues while keeping the lenient defaults", () => {
+    const raw = { _id: "k2", name: 42, teacher_id: "t1", is_active: "quizás", createdAt: "2024-01-01" };
+    const result = decodeRecord(courseRecordSchema, raw);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      { field: "name", message: "se esperaba texto", value: 42, severity: "error" },
+      { field: "is_active", message: "se esperaba un booleano", value: "quizás", severity: "warning" },
+    ]);
+    expect(toCourseRecord(raw)).toEqual({
+      _id: "k2",
+      name: "",
+      description: "",
+      join_code: undefined,
+      teacher_id: "t1",
+      created_at: "2024-01-01",
+      is_active: true,
+      join_code_enabled: true,
+      join_code_issued_at: null,
+      join_code_expires_at: null,
+      join_code_max_uses: null,
+      requires_approval: false,
+    });
+  });
+
+  it("drops invalid rows in strict mode and reports them", async () => {
+    const { service } = setup();
+    const report = new RecordDecodeReport();
+    const deps = { getAccessToken: async () => "token", decodeMode: "strict" as const, decodeReport: report };
+    const courses = new CourseRepositoryImpl(service, deps);
+    const enrollments = new EnrollmentRepositoryImpl(service, deps);
+
+    const teacherCourses = await courses.getCoursesByTeacher("t1");
+    const studentEnrollments = await enrollments.getEnrollmentsByCourse("k1");
+
+    expect(teacherCourses.map((course) => course.id)).toEqual(["k1"]);
+    expect(studentEnrollments.map((enrollment) => enrollment.id)).toEqual(["e1"]);
+    await expect(enrollments.getEnrollmentById("e2")).rejects.toBeInstanceOf(RecordDecodeError);
+
+    const summary = report.summary();
+    expect(summary.tables).toEqual([
+      { table: "courses", decoded: 2, withIssues: 0, rejected: 1 },
+      { table: "enrollments", decoded: 3, withIssues: 0, rejected: 2 },
+    ]);
+    expect(summary.samples[0]).toMatchObject({ table: "enrollments", rowId: "e2", rejected: true });
+  });
+
+  it("keeps invalid rows in lenient mode", async () => {
+    const { service } = setup();
+    const report = new RecordDecodeReport();
+    const courses = new CourseRepositoryImpl(service, {
+      getAccessToken: async () => "token",
+      decodeReport: report,
+    });
+
+    const teacherCourses = await courses.getCoursesByTeacher("t1");
+
+    expect(teacherCourses.map((course) => course.name)).toEqual(["Algoritmos", ""]);
+    expect(report.summary().tables).toEqual([{ table: "courses", decoded: 2, withIssues: 1, rejected: 0 }]);
+  });
+
+  it("never rejects partial write responses, even in strict mode", () => {
+    const report = new RecordDecodeReport();
+    const decoder = new RecordDecoder(courseRecordSchema, { mode: "strict", report });
+
+    const record = decoder.written({ _id: "k1", is_active: false });
+
+    expect(record).toMatchObject({ _id: "k1", is_active: false });
+    expect(() => decoder.one({ _id: "k1", is_active: false })).toThrow(RecordDecodeError);
+    expect(report.summary().tables).toEqual([{ table: "courses", decoded: 2, withIssues: 1, rejected: 1 }]);
+  });
+
+  it("decodes assessments with the stored overall score scaled by ten", () => {
+    const scored = toAssessmentRecord({
+      _id: "a1",
+      activity_id: "act1",
+      group_id: "g1",
+      reviewer: "u1",
+      reviewed: "u2",
+      punctuality_score: 4,
+      contributions_score: "5",
+      commitment_score: 3,
+      attitude_score: 4,
+      overall_score: 40,
+    });
+    const unscored = toAssessmentRecord({ ...scored, overall_score: null });
+
+    expect(mapAssessmentRecordToEntity(scored)).toMatchObject({
+      id: "a1",
+      studentId: "u2",
+      reviewerId: "u1",
+      contributionsScore: 5,
+      overallScorePersisted: 4,
+    });
+    expect(mapAssessmentRecordToEntity(unscored).overallScorePersisted).toBe(4);
+  });
+});
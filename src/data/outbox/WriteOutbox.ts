@@ -0,0 +1,262 @@
+import { ILocalPreferences } from "@/src/core/iLocalPreferences";
+import { describeError, isRetryableRobleError } from "@/src/data/services/RobleErrors";
+
+export type OutboxEntryStatus = "pending" | "failed";
+
+export type OutboxEntry = {
+  id: string;
+  kind: string;
+  payload: unknown;
+  label: string;
+  createdAt: string;
+  attempts: number;
+  status: OutboxEntryStatus;
+  lastError: string | null;
+};
+
+// Sin parámetro el payload queda como `unknown`: cada manejador registrado declara el suyo.
+export type OutboxHandler<P = unknown> = {
+  perform(payload: P): Promise<unknown>;
+  // Si la escritura ya llegó al servidor (p. ej. un reintento tras una respuesta perdida) se descarta.
+  isApplied?(payload: P): Promise<boolean>;
+  describe(payload: P): string;
+};
+
+export type OutboxSubmitResult<T> =
+  | { status: "sent"; result: T }
+  | { status: "queued"; entry: OutboxEntry };
+
+export type WriteOutboxState = {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+};
+
+export type OutboxReplayResult = {
+  sent: number;
+  skipped: number;
+  failed: number;
+  remaining: number;
+};
+
+type Dependencies = {
+  preferences: ILocalPreferences;
+  getUserId: () => Promise<string | null>;
+  handlers: Record<string, OutboxHandler>;
+  onReplayed?: (result: OutboxReplayResult) => void;
+};
+
+const KEY_PREFIX = "roble-outbox";
+
+const INITIAL_STATE: WriteOutboxState = {
+  entries: [],
+  isReplaying: false,
+};
+
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Cola persistente de escrituras que no pudieron llegar al servidor por falta de conexión. Las
+ * entradas se reenvían en el orden en que se crearon; un error de red detiene la reproducción
+ * para no adelantar escrituras posteriores, mientras que un rechazo del servidor marca la entrada
+ * como fallida y deja seguir con las demás.
+ */
+export class WriteOutbox {
+  private state: WriteOutboxState = INITIAL_STATE;
+  private readonly listeners = new Set<() => void>();
+  private readonly preferences: ILocalPreferences;
+  private readonly getUserId: () => Promise<string | null>;
+  private readonly handlers: Record<string, OutboxHandler>;
+  private readonly onReplayed?: (result: OutboxReplayResult) => void;
+  private loadedFor: string | null = null;
+  private pendingReplay: Promise<OutboxReplayResult> | null = null;
+
+  constructor({ preferences, getUserId, handlers, onReplayed }: Dependencies) {
+    this.preferences = preferences;
+    this.getUserId = getUserId;
+    this.handlers = handlers;
+    this.onReplayed = onReplayed;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): WriteOutboxState {
+    return this.state;
+  }
+
+  get entries(): OutboxEntry[] {
+    return this.state.entries;
+  }
+
+  async load(): Promise<OutboxEntry[]> {
+    const userId = await this.getUserId();
+    if (userId !== this.loadedFor) {
+      const entries = userId
+        ? await this.preferences.getAllEntries<OutboxEntry>(this.storageKey(userId))
+        : [];
+      this.loadedFor = userId;
+      this.setState((prev) => ({ ...prev, entries }));
+    }
+    return this.state.entries;
+  }
+
+  /**
+   * Intenta la escritura de inmediato y solo la encola si falla por red, tiempo de espera o un
+   * error transitorio del servidor. Cualquier otro error se propaga al llamador. Si ya hay
+   * escrituras en espera, la nueva va detrás de ellas para respetar el orden.
+   */
+  async submit<T>(kind: string, payload: unknown): Promise<OutboxSubmitResult<T>> {
+    const handler = this.handlerFor(kind);
+    const queued = await this.load();
+    if (queued.some((entry) => entry.status === "pending")) {
+      const entry = await this.enqueue(kind, payload);
+      void this.replay();
+      return { status: "queued", entry };
+    }
+    try {
+      const result = (await handler.perform(payload)) as T;
+      return { status: "sent", result };
+    } catch (error) {
+      if (!isRetryableRobleError(error)) {
+        throw error;
+      }
+      console.debug(`[OUTBOX] ${kind} sin conexión, se guarda para reenviar`, error);
+      const entry = await this.enqueue(kind, payload, describeError(error));
+      return { status: "queued", entry };
+    }
+  }
+
+  async enqueue(kind: string, payload: unknown, lastError: string | null = null): Promise<OutboxEntry> {
+    const handler = this.handlerFor(kind);
+    await this.load();
+    const entry: OutboxEntry = {
+      id: createEntryId(),
+      kind,
+      payload,
+      label: handler.describe(payload),
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      status: "pending",
+      lastError,
+    };
+    await this.update((entries) => [...entries, entry]);
+    return entry;
+  }
+
+  replay(): Promise<OutboxReplayResult> {
+    if (!this.pendingReplay) {
+      this.pendingReplay = this.runReplay().finally(() => {
+        this.pendingReplay = null;
+        this.setState((prev) => ({ ...prev, isReplaying: false }));
+      });
+    }
+    return this.pendingReplay;
+  }
+
+  /** Vuelve a poner en cola una entrada fallida y la reenvía junto con las demás. */
+  async retry(entryId: string): Promise<OutboxReplayResult> {
+    await this.load();
+    await this.update((entries) =>
+      entries.map((entry) =>
+        entry.id === entryId ? { ...entry, status: "pending", lastError: null } : entry,
+      ),
+    );
+    return this.replay();
+  }
+
+  async discard(entryId: string): Promise<void> {
+    await this.load();
+    await this.update((entries) => entries.filter((entry) => entry.id !== entryId));
+  }
+
+  private async runReplay(): Promise<OutboxReplayResult> {
+    const result: OutboxReplayResult = { sent: 0, skipped: 0, failed: 0, remaining: 0 };
+    const entries = await this.load();
+    if (!entries.some((entry) => entry.status === "pending")) {
+      result.remaining = entries.length;
+      return result;
+    }
+
+    this.setState((prev) => ({ ...prev, isReplaying: true }));
+
+    for (const entry of entries) {
+      if (entry.status !== "pending") continue;
+
+      const handler = this.handlers[entry.kind];
+      if (!handler) {
+        await this.update((current) =>
+          this.replaceEntry(current, { ...entry, status: "failed", lastError: "Operación desconocida" }),
+        );
+        result.failed += 1;
+        continue;
+      }
+
+      try {
+        if (handler.isApplied && (await handler.isApplied(entry.payload))) {
+          result.skipped += 1;
+        } else {
+          await handler.perform(entry.payload);
+          result.sent += 1;
+        }
+        await this.update((current) => current.filter((item) => item.id !== entry.id));
+      } catch (error) {
+        const attempted = { ...entry, attempts: entry.attempts + 1, lastError: describeError(error) };
+        if (isRetryableRobleError(error)) {
+          await this.update((current) => this.replaceEntry(current, attempted));
+          break;
+        }
+        await this.update((current) => this.replaceEntry(current, { ...attempted, status: "failed" }));
+        result.failed += 1;
+      }
+    }
+
+    result.remaining = this.state.entries.length;
+    if (result.sent > 0 || result.skipped > 0) {
+      console.debug(`[OUTBOX] Reenviadas ${result.sent}, ya aplicadas ${result.skipped}, pendientes ${result.remaining}`);
+    }
+    this.onReplayed?.(result);
+    return result;
+  }
+
+  private replaceEntry(queue: OutboxEntry[], updated: OutboxEntry) {
+    return queue.map((entry) => (entry.id === updated.id ? updated : entry));
+  }
+
+  private handlerFor(kind: string): OutboxHandler {
+    const handler = this.handlers[kind];
+    if (!handler) {
+      throw new Error(`No hay un manejador registrado para "${kind}"`);
+    }
+    return handler;
+  }
+
+  // Siempre parte del estado más reciente para no pisar entradas encoladas durante un reenvío.
+  private async update(mutate: (entries: OutboxEntry[]) => OutboxEntry[]) {
+    const entries = mutate(this.state.entries);
+    this.setState((prev) => ({ ...prev, entries }));
+    if (this.loadedFor) {
+      await this.preferences.replaceEntries(this.storageKey(this.loadedFor), entries);
+    }
+  }
+
+  private storageKey(userId: string) {
+    return `${KEY_PREFIX}:${userId}`;
+  }
+
+  private setState(updater: (prev: WriteOutboxState) => WriteOutboxState) {
+    this.state = updater(this.state);
+    this.notify();
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("WriteOutbox listener error", error);
+      }
+    }
+  }
+}
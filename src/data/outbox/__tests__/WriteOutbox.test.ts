@@ -0,0 +1,91 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { ILocalPreferences } from "@/src/core/iLocalPreferences";
+import { RobleNetworkError, RobleValidationError } from "@/src/data/services/RobleErrors";
+import { OutboxHandler, WriteOutbox } from "../WriteOutbox";
+
+type Note = { id: string };
+
+// Servidor simulado: guarda las notas recibidas y puede quedarse sin red o rechazar algunas.
+const createServer = () => {
+  const received: string[] = [];
+  let online = false;
+  const rejected = new Set<string>();
+  const handler: OutboxHandler<Note> = {
+    perform: async ({ id }) => {
+      if (!online) throw new RobleNetworkError("sin red");
+      if (rejected.has(id)) throw new RobleValidationError(`Nota ${id} inválida`);
+      received.push(id);
+      return id;
+    },
+    isApplied: async ({ id }) => online && received.includes(id),
+    describe: ({ id }) => `Nota ${id}`,
+  };
+  return {
+    handler,
+    received,
+    reject: (id: string) => rejected.add(id),
+    setOnline: (value: boolean) => {
+      online = value;
+    },
+  };
+};
+
+const createOutbox = (preferences: ILocalPreferences, handler: OutboxHandler<Note>) =>
+  new WriteOutbox({ preferences, getUserId: async () => "u1", handlers: { note: handler } });
+
+describe("WriteOutbox", () => {
+  it("queues writes while offline and replays them in order after a restart", async () => {
+    const preferences = new InMemoryLocalPreferences();
+    const server = createServer();
+    const outbox = createOutbox(preferences, server.handler);
+
+    expect((await outbox.submit("note", { id: "a" })).status).toBe("queued");
+    expect((await outbox.submit("note", { id: "b" })).status).toBe("queued");
+    expect(outbox.entries.map((entry) => entry.label)).toEqual(["Nota a", "Nota b"]);
+    await outbox.replay();
+
+    server.setOnline(true);
+    const restarted = createOutbox(preferences, server.handler);
+    const result = await restarted.replay();
+
+    expect(server.received).toEqual(["a", "b"]);
+    expect(result).toEqual({ sent: 2, skipped: 0, failed: 0, remaining: 0 });
+    expect(await preferences.getAllEntries("roble-outbox:u1")).toEqual([]);
+  });
+
+  it("skips writes that already reached the server and keeps rejected ones as failed", async () => {
+    const server = createServer();
+    const outbox = createOutbox(new InMemoryLocalPreferences(), server.handler);
+    await outbox.enqueue("note", { id: "a" });
+    await outbox.enqueue("note", { id: "b" });
+    await outbox.enqueue("note", { id: "c" });
+
+    server.setOnline(true);
+    server.received.push("a");
+    server.reject("b");
+    const result = await outbox.replay();
+
+    expect(result).toEqual({ sent: 1, skipped: 1, failed: 1, remaining: 1 });
+    expect(server.received).toEqual(["a", "c"]);
+    expect(outbox.entries).toEqual([
+      expect.objectContaining({ label: "Nota b", status: "failed", lastError: "Nota b inválida", attempts: 1 }),
+    ]);
+  });
+
+  it("stops at the first connectivity error so later writes are not sent out of order", async () => {
+    const server = createServer();
+    const outbox = createOutbox(new InMemoryLocalPreferences(), server.handler);
+    await outbox.enqueue("note", { id: "a" });
+    await outbox.enqueue("note", { id: "b" });
+
+    const result = await outbox.replay();
+
+    expect(result.remaining).toBe(2);
+    expect(outbox.entries.map((entry) => entry.attempts)).toEqual([1, 0]);
+
+    server.setOnline(true);
+    expect((await outbox.submit("note", { id: "c" })).status).toBe("queued");
+    await outbox.replay();
+    expect(server.received).toEqual(["a", "b", "c"]);
+  });
+});
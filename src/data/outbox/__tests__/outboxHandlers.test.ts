@@ -0,0 +1,75 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { UpdateActivityUseCase } from "@/src/domain/usecases/activity/UpdateActivityUseCase";
+import { createOutboxHandlers, OUTBOX_KINDS, UpdateActivityPayload } from "../outboxHandlers";
+import { WriteOutbox } from "../WriteOutbox";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport
+    .seed("courses", [{ _id: "k1", name: "Algoritmos", teacher_id: "t1", is_active: true }])
+    .seed("activities", [
+      { _id: "a1", title: "Entrega", course_id: "k1", category_id: "c1", is_active: true },
+      { _id: "a2", title: "Taller", course_id: "k1", category_id: "c1", is_active: true },
+      { _id: "a3", title: "Quiz", course_id: "k1", category_id: "c1", is_active: true },
+    ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const courseRepository = new CourseRepositoryImpl(service, deps);
+  const enrollmentRepository = new EnrollmentRepositoryImpl(service, deps);
+  const activityRepository = new CourseActivityRepositoryImpl(service, deps);
+  const guard = new CourseAccessGuard(
+    courseRepository,
+    enrollmentRepository,
+    new CourseStaffRepositoryImpl(service, deps),
+  );
+  // Las demás escrituras no intervienen en estas pruebas.
+  const unused: any = {};
+  const outbox = new WriteOutbox({
+    preferences: new InMemoryLocalPreferences(),
+    getUserId: async () => "t1",
+    handlers: createOutboxHandlers({
+      assessmentRepository: unused,
+      membershipRepository: unused,
+      enrollmentRepository,
+      courseRepository,
+      activityRepository,
+      createAssessmentUseCase: unused,
+      joinGroupUseCase: unused,
+      enrollToCourseUseCase: unused,
+      updateActivityUseCase: new UpdateActivityUseCase(activityRepository, guard),
+    }),
+  });
+  return { transport, activityRepository, outbox };
+};
+
+describe("outbox handlers", () => {
+  it("replays queued activity edits without overwriting newer changes", async () => {
+    const { transport, activityRepository, outbox } = build();
+    const [sent, applied, stale] = await Promise.all(
+      ["a1", "a2", "a3"].map(async (id) => (await activityRepository.getActivityById(id))!),
+    );
+    const edit = (payload: UpdateActivityPayload) => outbox.enqueue(OUTBOX_KINDS.updateActivity, payload);
+    await edit({ userId: "t1", activity: { ...sent, title: "Entrega final" } });
+    await edit({ userId: "t1", activity: { ...applied, title: "Taller 2" } });
+    await edit({ userId: "t1", activity: { ...stale, title: "Quiz corto" } });
+
+    // a2 ya llegó antes de perderse la respuesta; a3 lo cambió otra persona mientras tanto.
+    await activityRepository.updateActivity({ ...applied, title: "Taller 2" });
+    await activityRepository.updateActivity({ ...stale, title: "Quiz final" });
+    const result = await outbox.replay();
+
+    expect(result).toEqual({ sent: 1, skipped: 1, failed: 1, remaining: 1 });
+    expect(transport.rows("activities").map((row) => row.title)).toEqual(["Entrega final", "Taller 2", "Quiz final"]);
+    expect(outbox.entries).toEqual([expect.objectContaining({ label: "Cambios en Quiz corto", status: "failed" })]);
+  });
+});
@@ -0,0 +1,50 @@
+import { useEffect, useMemo } from "react";
+import { AppState } from "react-native";
+
+import { useDI } from "@/src/core/di/DIProvider";
+import { TOKENS } from "@/src/core/di/tokens";
+import { AppEvent, AppEventBus } from "@/src/core/events/AppEventBus";
+import { WriteOutbox } from "@/src/data/outbox/WriteOutbox";
+
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * Reenvía la cola de escrituras al iniciar sesión, al volver la app a primer plano, cada cierto
+ * tiempo mientras haya pendientes y cuando otra lectura confirma que el servidor responde.
+ */
+export function useOutboxReplay(enabled: boolean) {
+  const di = useDI();
+
+  const outbox = useMemo(() => di.resolve<WriteOutbox>(TOKENS.WriteOutbox), [di]);
+  const eventBus = useMemo(() => di.resolve<AppEventBus>(TOKENS.AppEventBus), [di]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const replay = () => {
+      void outbox.replay().catch((error) => {
+        console.debug("[OUTBOX] Reenvío interrumpido", error);
+      });
+    };
+
+    replay();
+
+    const appStateSubscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") replay();
+    });
+
+    const interval = setInterval(() => {
+      if (outbox.entries.some((entry) => entry.status === "pending")) replay();
+    }, RETRY_INTERVAL_MS);
+
+    const unsubscribe = eventBus.subscribe((event: AppEvent) => {
+      if (event.type === "DataRevalidatedEvent") replay();
+    });
+
+    return () => {
+      appStateSubscription.remove();
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [enabled, outbox, eventBus]);
+}
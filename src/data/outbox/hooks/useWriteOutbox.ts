@@ -0,0 +1,7 @@
+import { TOKENS } from "@/src/core/di/tokens";
+import { useController } from "@/src/core/hooks/useController";
+import { WriteOutbox, WriteOutboxState } from "@/src/data/outbox/WriteOutbox";
+
+export function useWriteOutbox() {
+  return useController<WriteOutbox, WriteOutboxState>(TOKENS.WriteOutbox);
+}
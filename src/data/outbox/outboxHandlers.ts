@@ -0,0 +1,125 @@
+import { Assessment } from "@/src/domain/models/Assessment";
+import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { enrollmentStatusOf } from "@/src/domain/models/Enrollment";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { normalizeJoinCode } from "@/src/domain/services/JoinCodeService";
+import { EnrollToCourseUseCase } from "@/src/domain/usecases/enrollment/EnrollToCourseUseCase";
+import { UpdateActivityUseCase } from "@/src/domain/usecases/activity/UpdateActivityUseCase";
+import { JoinGroupUseCase } from "@/src/domain/usecases/membership/JoinGroupUseCase";
+import { AssessmentRepository } from "@/src/features/peerReview/domain/repositories/AssessmentRepository";
+import { CreateAssessmentUseCase } from "@/src/features/peerReview/domain/usecases/CreateAssessmentUseCase";
+import { OutboxHandler } from "./WriteOutbox";
+
+export const OUTBOX_KINDS = {
+  createAssessment: "assessment.create",
+  joinGroup: "membership.join",
+  joinCourse: "enrollment.join",
+  updateActivity: "activity.update",
+} as const;
+
+export type JoinGroupPayload = {
+  userId: string;
+  groupId: string;
+  groupName?: string;
+};
+
+export type JoinCoursePayload = {
+  userId: string;
+  joinCode: string;
+};
+
+export type UpdateActivityPayload = {
+  userId: string | null;
+  activity: CourseActivity;
+  force?: boolean;
+};
+
+// Campos que edita un docente; si los guardados ya coinciden, el cambio llegó aunque no la respuesta.
+const EDITABLE_ACTIVITY_FIELDS = [
+  "title",
+  "description",
+  "categoryId",
+  "dueDate",
+  "isActive",
+  "reviewing",
+  "privateReview",
+] as const satisfies readonly (keyof CourseActivity)[];
+
+type Dependencies = {
+  assessmentRepository: AssessmentRepository;
+  membershipRepository: MembershipRepository;
+  enrollmentRepository: EnrollmentRepository;
+  courseRepository: CourseRepository;
+  activityRepository: CourseActivityRepository;
+  createAssessmentUseCase: CreateAssessmentUseCase;
+  joinGroupUseCase: JoinGroupUseCase;
+  enrollToCourseUseCase: EnrollToCourseUseCase;
+  updateActivityUseCase: UpdateActivityUseCase;
+};
+
+// Las escrituras se reenvían a través de sus casos de uso para que las reglas (permisos, cupos,
+// método de agrupación, código vigente) se validen de nuevo con los datos del momento.
+export const createOutboxHandlers = ({
+  assessmentRepository,
+  membershipRepository,
+  enrollmentRepository,
+  courseRepository,
+  activityRepository,
+  createAssessmentUseCase,
+  joinGroupUseCase,
+  enrollToCourseUseCase,
+  updateActivityUseCase,
+}: Dependencies): Record<string, OutboxHandler> => {
+  const createAssessment: OutboxHandler<Assessment> = {
+    perform: (assessment) => createAssessmentUseCase.execute(assessment),
+    isApplied: (assessment) =>
+      assessmentRepository.existsAssessment({
+        activityId: assessment.activityId,
+        reviewerId: assessment.reviewerId,
+        studentId: assessment.studentId,
+      }),
+    describe: () => "Evaluación de compañero",
+  };
+
+  const joinGroup: OutboxHandler<JoinGroupPayload> = {
+    perform: ({ userId, groupId }) => joinGroupUseCase.execute({ userId, groupId }),
+    isApplied: ({ userId, groupId }) => membershipRepository.isUserMemberOfGroup(userId, groupId),
+    describe: ({ groupName }) => (groupName ? `Unirse a ${groupName}` : "Unirse a un grupo"),
+  };
+
+  const joinCourse: OutboxHandler<JoinCoursePayload> = {
+    perform: ({ userId, joinCode }) => enrollToCourseUseCase.execute({ userId, joinCode }),
+    isApplied: async ({ userId, joinCode }) => {
+      const course = await courseRepository.getCourseByJoinCode(normalizeJoinCode(joinCode));
+      if (!course) return false;
+      const enrollments = await enrollmentRepository.getEnrollmentsByStudent(userId);
+      return enrollments.some(
+        (enrollment) =>
+          enrollment.courseId === course.id &&
+          (enrollment.isActive || enrollmentStatusOf(enrollment) === "pending"),
+      );
+    },
+    describe: ({ joinCode }) => `Inscripción con el código ${joinCode.trim()}`,
+  };
+
+  // Sin `force` el reenvío conserva la versión con la que se editó: si alguien cambió la actividad
+  // mientras tanto, el conflicto deja la entrada como fallida en vez de pisar esos cambios.
+  const updateActivity: OutboxHandler<UpdateActivityPayload> = {
+    perform: (payload) => updateActivityUseCase.execute(payload),
+    isApplied: async ({ activity }) => {
+      const stored = await activityRepository.getActivityById(activity.id);
+      return stored !== null && EDITABLE_ACTIVITY_FIELDS.every((field) => stored[field] === activity[field]);
+    },
+    describe: ({ activity }) => `Cambios en ${activity.title}`,
+  };
+
+  return {
+    [OUTBOX_KINDS.createAssessment]: createAssessment,
+    [OUTBOX_KINDS.joinGroup]: joinGroup,
+    [OUTBOX_KINDS.joinCourse]: joinCourse,
+    [OUTBOX_KINDS.updateActivity]: updateActivity,
+  };
+};
@@ -1,3 +1,4 @@
+import { RobleServerError } from "@/src/data/services/RobleErrors";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Assessment } from "@/src/domain/models/Assessment";
 import {
@@ -49,8 +50,7 @@ export class AssessmentRepository {
       });
       return rows.map((row: any) => this._fromMap(row));
     } catch (error) {
-      const message = String(error);
-      if (message.includes("DB read assessments failed: 500")) {
+      if (error instanceof RobleServerError && error.status === 500) {
         console.warn(`[ASSESSMENTS][READ] Backend devolvió 500 para query=${JSON.stringify(query)}, asumiendo lista vacía.`);
         return [];
       }
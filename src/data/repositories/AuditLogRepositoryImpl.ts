@@ -0,0 +1,82 @@
+import {
+  AuditLogRecord,
+  auditLogRecordSchema,
+  mapAuditLogEntryToRecord,
+  mapAuditLogRecordToEntity,
+} from "@/src/data/models/roble/AuditLogRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { robleQuery } from "@/src/data/services/RobleQuery";
+import { RobleService } from "@/src/data/services/RobleService";
+import { Activity } from "@/src/domain/models/Activity";
+import {
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogRepository,
+} from "@/src/domain/repositories/AuditLogRepository";
+import { ReadOptions } from "@/src/domain/repositories/ReadOptions";
+
+type AccessTokenProvider = () => Promise<string | null>;
+
+type Dependencies = {
+  getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
+};
+
+const DEFAULT_HISTORY_LIMIT = 200;
+
+export class AuditLogRepositoryImpl implements AuditLogRepository {
+  private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<AuditLogRecord>;
+
+  constructor(private readonly service: RobleService, deps: Dependencies = {}) {
+    this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(auditLogRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
+  }
+
+  async record(entry: AuditLogEntry): Promise<Activity> {
+    const token = await this.requireToken();
+    const response = await this.service.insertAuditLog({
+      accessToken: token,
+      record: mapAuditLogEntryToRecord(entry),
+    });
+    const inserted = Array.isArray(response.inserted) ? response.inserted : undefined;
+    if (!inserted || !inserted.length) {
+      throw new Error("La respuesta de inserción del historial no contiene registros");
+    }
+    return mapAuditLogRecordToEntity(this.records.written(inserted[0] as Record<string, unknown>));
+  }
+
+  async getCourseHistory(courseId: string, filters: AuditLogFilters & ReadOptions = {}): Promise<Activity[]> {
+    if (!courseId) return [];
+    const token = await this.requireToken();
+    let query = robleQuery().eq("course_id", courseId);
+    if (filters.entityType) {
+      query = query.eq("entity_type", filters.entityType);
+    }
+    if (filters.userId) {
+      query = query.eq("user_id", filters.userId);
+    }
+    const rows = await this.service.readAuditLog({
+      accessToken: token,
+      query: query.orderBy("created_at", "desc").limit(filters.limit ?? DEFAULT_HISTORY_LIMIT),
+      signal: filters.signal,
+    });
+    return this.records.many(rows).map(mapAuditLogRecordToEntity);
+  }
+
+  private async requireToken(): Promise<string> {
+    if (!this.getAccessToken) {
+      throw new Error("Access token no disponible");
+    }
+    const token = await this.getAccessToken();
+    if (!token) {
+      throw new Error("Access token no disponible");
+    }
+    return token;
+  }
+}
@@ -1,9 +1,12 @@
 import {
     CategoryRecord,
+    categoryRecordSchema,
     mapCategoryEntityToRecord,
     mapCategoryRecordToEntity,
-    toCategoryRecord,
 } from "@/src/data/models/roble/CategoryRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { containsPattern, robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Category } from "@/src/domain/models/Category";
 import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
@@ -12,16 +15,20 @@ type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureCategoryRecord = (raw: Record<string, unknown>): CategoryRecord =>
-  toCategoryRecord(raw);
-
 export class CategoryRepositoryImpl implements CategoryRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<CategoryRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(categoryRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   async getCategoryById(categoryId: string): Promise<Category | null> {
@@ -34,13 +41,13 @@ export class CategoryRepositoryImpl implements CategoryRepository {
     if (!rows.length) {
       return null;
     }
-    return mapCategoryRecordToEntity(ensureCategoryRecord(rows[0] as Record<string, unknown>));
+    return mapCategoryRecordToEntity(this.records.one(rows[0] as Record<string, unknown>));
   }
 
   async getAllCategories(): Promise<Category[]> {
     const token = await this.requireToken();
     const rows = await this.service.readCategories({ accessToken: token });
-    return rows.map((row) => mapCategoryRecordToEntity(ensureCategoryRecord(row)));
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
   async createCategory(category: Category): Promise<Category> {
@@ -60,17 +67,20 @@ export class CategoryRepositoryImpl implements CategoryRepository {
       throw new Error("La respuesta de inserción de categorías no contiene registros");
     }
     return mapCategoryRecordToEntity(
-      ensureCategoryRecord(inserted[0] as Record<string, unknown>),
+      this.records.written(inserted[0] as Record<string, unknown>),
     );
   }
 
-  async getCategoriesByCourse(courseId: string): Promise<Category[]> {
+  async getCategoriesByCourse(
+    courseId: string,
+    options: { includeInactive?: boolean } = {},
+  ): Promise<Category[]> {
     const token = await this.requireToken();
     const rows = await this.service.readCategories({
       accessToken: token,
-      query: { course_id: courseId, is_active: true },
+      query: options.includeInactive ? { course_id: courseId } : { course_id: courseId, is_active: true },
     });
-    return rows.map((row) => mapCategoryRecordToEntity(ensureCategoryRecord(row)));
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
   async getCategoriesByTeacher(teacherId: string): Promise<Category[]> {
@@ -79,14 +89,15 @@ export class CategoryRepositoryImpl implements CategoryRepository {
       accessToken: token,
       query: { teacher_id: teacherId, is_active: true },
     });
-    return rows.map((row) => mapCategoryRecordToEntity(ensureCategoryRecord(row)));
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
-  async updateCategory(category: Category): Promise<Category> {
+  async updateCategory(category: Category, options: { force?: boolean } = {}): Promise<Category> {
     const token = await this.requireToken();
     const response = await this.service.updateCategory({
       accessToken: token,
       id: category.id,
+      expectedVersion: options.force ? undefined : category.updatedAt,
       updates: {
         name: category.name,
         description: category.description,
@@ -100,7 +111,7 @@ export class CategoryRepositoryImpl implements CategoryRepository {
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapCategoryRecordToEntity(ensureCategoryRecord(updated));
+      return mapCategoryRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getCategoryById(category.id);
@@ -110,7 +121,7 @@ export class CategoryRepositoryImpl implements CategoryRepository {
     return refreshed;
   }
 
-  async deleteCategory(categoryId: string): Promise<boolean> {
+  async archiveCategory(categoryId: string): Promise<boolean> {
     const token = await this.requireToken();
     await this.service.updateCategory({
       accessToken: token,
@@ -120,13 +131,25 @@ export class CategoryRepositoryImpl implements CategoryRepository {
     return true;
   }
 
+  async purgeCategory(categoryId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteCategory({
+      accessToken: token,
+      id: categoryId,
+    });
+    return true;
+  }
+
   async searchCategoriesByName(name: string): Promise<Category[]> {
+    if (!name.trim()) {
+      return [];
+    }
     const token = await this.requireToken();
     const rows = await this.service.readCategories({
       accessToken: token,
-      query: { name, is_active: true },
+      query: robleQuery().eq("is_active", true).ilike("name", containsPattern(name)).orderBy("name"),
     });
-    return rows.map((row) => mapCategoryRecordToEntity(ensureCategoryRecord(row)));
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
   async getActiveCategories(): Promise<Category[]> {
@@ -135,12 +158,16 @@ export class CategoryRepositoryImpl implements CategoryRepository {
       accessToken: token,
       query: { is_active: true },
     });
-    return rows.map((row) => mapCategoryRecordToEntity(ensureCategoryRecord(row)));
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
   async getCategoriesOrdered(): Promise<Category[]> {
-    const list = await this.getActiveCategories();
-    return list.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const token = await this.requireToken();
+    const rows = await this.service.readCategories({
+      accessToken: token,
+      query: robleQuery().eq("is_active", true).orderBy("created_at"),
+    });
+    return this.records.many(rows).map(mapCategoryRecordToEntity);
   }
 
   async updateCategoriesOrder(categoryIds: string[]): Promise<boolean> {
@@ -156,6 +183,7 @@ export class CategoryRepositoryImpl implements CategoryRepository {
     const rows = await this.service.readCategories({
       accessToken: token,
       query: { name },
+      cache: false,
     });
     return rows.length === 0;
   }
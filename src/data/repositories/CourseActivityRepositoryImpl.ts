@@ -1,9 +1,11 @@
 import {
     CourseActivityRecord,
+    courseActivityRecordSchema,
     mapCourseActivityEntityToRecord,
     mapCourseActivityRecordToEntity,
-    toCourseActivityRecord,
 } from "@/src/data/models/roble/CourseActivityRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
 import { RobleService } from "@/src/data/services/RobleService";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
 import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
@@ -12,30 +14,37 @@ type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureActivityRecord = (raw: Record<string, unknown>): CourseActivityRecord =>
-  toCourseActivityRecord(raw);
-
 export class CourseActivityRepositoryImpl implements CourseActivityRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<CourseActivityRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(courseActivityRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
-  async getActivityById(activityId: string): Promise<CourseActivity | null> {
+  async getActivityById(
+    activityId: string,
+    options: { includeInactive?: boolean } = {},
+  ): Promise<CourseActivity | null> {
     if (!activityId) return null;
     const token = await this.requireToken();
     const rows = await this.service.readActivities({
       accessToken: token,
-      query: { _id: activityId, is_active: true },
+      query: options.includeInactive ? { _id: activityId } : { _id: activityId, is_active: true },
     });
     if (!rows.length) {
       return null;
     }
     return mapCourseActivityRecordToEntity(
-      ensureActivityRecord(rows[0] as Record<string, unknown>),
+      this.records.one(rows[0] as Record<string, unknown>),
     );
   }
 
@@ -45,7 +54,7 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
       accessToken: token,
       query: { course_id: courseId },
     });
-    return rows.map((row) => mapCourseActivityRecordToEntity(ensureActivityRecord(row)));
+    return this.records.many(rows).map(mapCourseActivityRecordToEntity);
   }
 
   async getActivitiesByCategory(categoryId: string): Promise<CourseActivity[]> {
@@ -54,7 +63,7 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
       accessToken: token,
       query: { category_id: categoryId, is_active: true },
     });
-    return rows.map((row) => mapCourseActivityRecordToEntity(ensureActivityRecord(row)));
+    return this.records.many(rows).map(mapCourseActivityRecordToEntity);
   }
 
   async createActivity(activity: CourseActivity): Promise<CourseActivity> {
@@ -74,15 +83,19 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
       throw new Error("La respuesta de inserción de actividades no contiene registros");
     }
     return mapCourseActivityRecordToEntity(
-      ensureActivityRecord(inserted[0] as Record<string, unknown>),
+      this.records.written(inserted[0] as Record<string, unknown>),
     );
   }
 
-  async updateActivity(activity: CourseActivity): Promise<CourseActivity> {
+  async updateActivity(
+    activity: CourseActivity,
+    options: { force?: boolean } = {},
+  ): Promise<CourseActivity> {
     const token = await this.requireToken();
     const response = await this.service.updateActivity({
       accessToken: token,
       id: activity.id,
+      expectedVersion: options.force ? undefined : activity.updatedAt,
       updates: {
         title: activity.title,
         description: activity.description,
@@ -98,7 +111,7 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapCourseActivityRecordToEntity(ensureActivityRecord(updated));
+      return mapCourseActivityRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getActivityById(activity.id);
@@ -108,7 +121,7 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
     return refreshed;
   }
 
-  async deleteActivity(activityId: string): Promise<boolean> {
+  async archiveActivity(activityId: string): Promise<boolean> {
     const token = await this.requireToken();
     await this.service.updateActivity({
       accessToken: token,
@@ -118,6 +131,15 @@ export class CourseActivityRepositoryImpl implements CourseActivityRepository {
     return true;
   }
 
+  async purgeActivity(activityId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteActivity({
+      accessToken: token,
+      id: activityId,
+    });
+    return true;
+  }
+
   private async requireToken(): Promise<string> {
     if (!this.getAccessToken) {
       throw new Error("Access token no disponible");
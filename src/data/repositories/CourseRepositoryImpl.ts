@@ -1,27 +1,40 @@
 import {
     CourseRecord,
+    courseRecordSchema,
     mapCourseEntityToRecord,
     mapCourseRecordToEntity,
-    toCourseRecord,
 } from "@/src/data/models/roble/CourseRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { containsPattern, RobleQuery, robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Course } from "@/src/domain/models/Course";
-import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import {
+    CourseRepository,
+    JoinCodeChanges,
+    PaginatedCourseParams,
+} from "@/src/domain/repositories/CourseRepository";
 
 type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureCourseRecord = (raw: Record<string, unknown>): CourseRecord =>
-  toCourseRecord(raw);
+const DEFAULT_PAGE_SIZE = 20;
 
 export class CourseRepositoryImpl implements CourseRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<CourseRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(courseRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   async getCourseById(courseId: string): Promise<Course | null> {
@@ -34,16 +47,20 @@ export class CourseRepositoryImpl implements CourseRepository {
       if (!rows.length) {
         return null;
       }
-      return mapCourseRecordToEntity(ensureCourseRecord(rows[0]));
+      return mapCourseRecordToEntity(this.records.one(rows[0]));
     } catch (error) {
       console.debug("[COURSE_REPO] getCourseById error", error);
       return null;
     }
   }
 
-  async getCoursesByCategory(): Promise<Course[]> {
-    console.debug("[COURSE_REPO] getCoursesByCategory not supported");
-    return [];
+  async getCoursesByCategory(categoryId: string): Promise<Course[]> {
+    const courseId = await this.resolveCourseIdOfCategory(categoryId);
+    if (!courseId) {
+      return [];
+    }
+    const course = await this.getCourseById(courseId);
+    return course && course.isActive ? [course] : [];
   }
 
   async getCoursesByTeacher(teacherId: string): Promise<Course[]> {
@@ -52,7 +69,7 @@ export class CourseRepositoryImpl implements CourseRepository {
       accessToken: token,
       teacherId,
     });
-    return rows.map((row) => mapCourseRecordToEntity(ensureCourseRecord(row)));
+    return this.records.many(rows).map(mapCourseRecordToEntity);
   }
 
   async createCourse(course: Course): Promise<Course> {
@@ -71,10 +88,13 @@ export class CourseRepositoryImpl implements CourseRepository {
     if (!inserted || !inserted.length) {
       throw new Error("La respuesta de inserción de cursos no contiene registros");
     }
-    return mapCourseRecordToEntity(ensureCourseRecord(inserted[0] as Record<string, unknown>));
+    return mapCourseRecordToEntity(this.records.written(inserted[0] as Record<string, unknown>));
   }
 
-  async updateCourse(course: Course, options?: { partial?: boolean }): Promise<Course> {
+  async updateCourse(
+    course: Course,
+    options?: { partial?: boolean; force?: boolean },
+  ): Promise<Course> {
     const token = await this.requireToken();
     const partial = options?.partial ?? true;
     const updates: Record<string, unknown> = {
@@ -90,11 +110,12 @@ export class CourseRepositoryImpl implements CourseRepository {
       accessToken: token,
       id: course.id,
       updates,
+      expectedVersion: options?.force ? undefined : course.updatedAt,
     });
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapCourseRecordToEntity(ensureCourseRecord(updated));
+      return mapCourseRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getCourseById(course.id);
@@ -114,7 +135,7 @@ export class CourseRepositoryImpl implements CourseRepository {
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapCourseRecordToEntity(ensureCourseRecord(updated));
+      return mapCourseRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getCourseById(courseId);
@@ -124,7 +145,35 @@ export class CourseRepositoryImpl implements CourseRepository {
     return refreshed;
   }
 
-  async deleteCourse(courseId: string): Promise<boolean> {
+  async updateJoinCode(courseId: string, changes: JoinCodeChanges): Promise<Course> {
+    const token = await this.requireToken();
+    const updates: Record<string, unknown> = {};
+    if (changes.joinCode !== undefined) updates.join_code = changes.joinCode;
+    if (changes.joinCodeEnabled !== undefined) updates.join_code_enabled = changes.joinCodeEnabled;
+    if (changes.joinCodeIssuedAt !== undefined) updates.join_code_issued_at = changes.joinCodeIssuedAt;
+    if (changes.joinCodeExpiresAt !== undefined) updates.join_code_expires_at = changes.joinCodeExpiresAt;
+    if (changes.joinCodeMaxUses !== undefined) updates.join_code_max_uses = changes.joinCodeMaxUses;
+    if (changes.requiresApproval !== undefined) updates.requires_approval = changes.requiresApproval;
+
+    const response = await this.service.updateCourse({
+      accessToken: token,
+      id: courseId,
+      updates,
+    });
+
+    const updated = this.extractUpdatedRecord(response);
+    if (updated) {
+      return mapCourseRecordToEntity(this.records.written(updated));
+    }
+
+    const refreshed = await this.getCourseById(courseId);
+    if (!refreshed) {
+      throw new Error("No se pudo actualizar el código de ingreso");
+    }
+    return refreshed;
+  }
+
+  async archiveCourse(courseId: string): Promise<boolean> {
     const token = await this.requireToken();
     await this.service.updateCourse({
       accessToken: token,
@@ -134,8 +183,22 @@ export class CourseRepositoryImpl implements CourseRepository {
     return true;
   }
 
-  async searchCoursesByTitle(): Promise<Course[]> {
-    return [];
+  async purgeCourse(courseId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteCourse({
+      accessToken: token,
+      id: courseId,
+    });
+    return true;
+  }
+
+  async searchCoursesByTitle(title: string): Promise<Course[]> {
+    if (!title.trim()) {
+      return [];
+    }
+    return this.readWith(
+      robleQuery().eq("is_active", true).ilike("name", containsPattern(title)).orderBy("name"),
+    );
   }
 
   async getCourseByJoinCode(joinCode: string): Promise<Course | null> {
@@ -143,33 +206,67 @@ export class CourseRepositoryImpl implements CourseRepository {
     const rows = await this.service.readCoursesByJoinCode({
       accessToken: token,
       joinCode,
+      cache: false,
     });
-    const active = rows.filter((row) => {
-      const record = ensureCourseRecord(row);
-      return record.is_active ?? true;
-    });
+    const active = this.records.many(rows).filter((record) => record.is_active ?? true);
     if (!active.length) {
       return null;
     }
-    return mapCourseRecordToEntity(ensureCourseRecord(active[0]));
+    return mapCourseRecordToEntity(active[0]);
   }
 
   async getActiveCourses(): Promise<Course[]> {
-    return [];
+    return this.readWith(robleQuery().eq("is_active", true));
   }
 
-  async getCoursesPaginated(): Promise<Course[]> {
-    return [];
+  async getCoursesPaginated(params: PaginatedCourseParams = {}): Promise<Course[]> {
+    let query = robleQuery().eq("is_active", true);
+    if (params.teacherId) {
+      query = query.eq("teacher_id", params.teacherId);
+    }
+    if (params.categoryId) {
+      const courseId = await this.resolveCourseIdOfCategory(params.categoryId);
+      if (!courseId) {
+        return [];
+      }
+      query = query.eq("_id", courseId);
+    }
+    return this.readWith(
+      query
+        .orderBy("created_at", "desc")
+        .page(params.page ?? 1, params.limit ?? DEFAULT_PAGE_SIZE),
+    );
   }
 
   async getCoursesOrdered(): Promise<Course[]> {
-    return [];
+    return this.readWith(robleQuery().eq("is_active", true).orderBy("created_at"));
   }
 
-  async updateCoursesOrder(): Promise<boolean> {
+  async updateCoursesOrder(courseIds: string[]): Promise<boolean> {
+    console.debug("[COURSE_REPO] updateCoursesOrder not supported for ids", courseIds);
     return false;
   }
 
+  private async readWith(query: RobleQuery): Promise<Course[]> {
+    const token = await this.requireToken();
+    const rows = await this.service.readCourses({ accessToken: token, query });
+    return this.records.many(rows).map(mapCourseRecordToEntity);
+  }
+
+  // Las categorías guardan el curso al que pertenecen; los cursos no referencian categorías.
+  private async resolveCourseIdOfCategory(categoryId: string): Promise<string | null> {
+    if (!categoryId) {
+      return null;
+    }
+    const token = await this.requireToken();
+    const rows = await this.service.readCategories({
+      accessToken: token,
+      query: { _id: categoryId },
+    });
+    const courseId = rows[0]?.course_id;
+    return typeof courseId === "string" && courseId.length > 0 ? courseId : null;
+  }
+
   private async requireToken(): Promise<string> {
     if (!this.getAccessToken) {
       throw new Error("Access token no disponible");
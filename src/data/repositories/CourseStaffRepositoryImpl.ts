@@ -0,0 +1,129 @@
+import {
+  CourseStaffRecord,
+  courseStaffRecordSchema,
+  mapCourseStaffEntityToRecord,
+  mapCourseStaffRecordToEntity,
+} from "@/src/data/models/roble/CourseStaffRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+
+type AccessTokenProvider = () => Promise<string | null>;
+
+type Dependencies = {
+  getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
+};
+
+export class CourseStaffRepositoryImpl implements CourseStaffRepository {
+  private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<CourseStaffRecord>;
+
+  constructor(private readonly service: RobleService, deps: Dependencies = {}) {
+    this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(courseStaffRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
+  }
+
+  async getStaffByCourse(courseId: string): Promise<CourseStaffMember[]> {
+    if (!courseId) return [];
+    const token = await this.requireToken();
+    const rows = await this.service.readCourseStaff({
+      accessToken: token,
+      query: { course_id: courseId, is_active: true },
+    });
+    return this.records.many(rows).map(mapCourseStaffRecordToEntity);
+  }
+
+  async getStaffByUser(userId: string): Promise<CourseStaffMember[]> {
+    if (!userId) return [];
+    const token = await this.requireToken();
+    const rows = await this.service.readCourseStaff({
+      accessToken: token,
+      query: { user_id: userId, is_active: true },
+    });
+    return this.records.many(rows).map(mapCourseStaffRecordToEntity);
+  }
+
+  async getStaffMemberById(memberId: string): Promise<CourseStaffMember | null> {
+    if (!memberId) return null;
+    const token = await this.requireToken();
+    const rows = await this.service.readCourseStaff({
+      accessToken: token,
+      query: { _id: memberId },
+      cache: false,
+    });
+    if (!rows.length) return null;
+    return mapCourseStaffRecordToEntity(this.records.one(rows[0] as Record<string, unknown>));
+  }
+
+  async getStaffMember(courseId: string, userId: string): Promise<CourseStaffMember | null> {
+    if (!courseId || !userId) return null;
+    const token = await this.requireToken();
+    // Decide permisos: se consulta siempre al servidor para no conservar un rol ya retirado.
+    const rows = await this.service.readCourseStaff({
+      accessToken: token,
+      query: { course_id: courseId, user_id: userId, is_active: true },
+      cache: false,
+    });
+    const [member] = this.records.many(rows).map(mapCourseStaffRecordToEntity);
+    return member ?? null;
+  }
+
+  async addStaffMember(member: CourseStaffMember): Promise<CourseStaffMember> {
+    const token = await this.requireToken();
+    const payload: Record<string, unknown> = { ...mapCourseStaffEntityToRecord(member) };
+    if (typeof payload._id !== "string" || payload._id.length === 0) {
+      delete payload._id;
+    }
+    const response = await this.service.insertCourseStaff({
+      accessToken: token,
+      record: payload,
+    });
+    const inserted = Array.isArray(response.inserted) ? response.inserted : undefined;
+    if (!inserted || !inserted.length) {
+      throw new Error("La respuesta del equipo docente no retornó registros");
+    }
+    return mapCourseStaffRecordToEntity(this.records.written(inserted[0] as Record<string, unknown>));
+  }
+
+  async updateStaffRole(memberId: string, role: CourseStaffMember["role"]): Promise<CourseStaffMember> {
+    const token = await this.requireToken();
+    await this.service.updateCourseStaff({
+      accessToken: token,
+      id: memberId,
+      updates: { role },
+    });
+    const updated = await this.getStaffMemberById(memberId);
+    if (!updated) {
+      throw new Error("No se pudo obtener el miembro del equipo actualizado");
+    }
+    return updated;
+  }
+
+  async archiveStaffMember(memberId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.updateCourseStaff({
+      accessToken: token,
+      id: memberId,
+      updates: { is_active: false },
+    });
+    return true;
+  }
+
+  private async requireToken(): Promise<string> {
+    if (!this.getAccessToken) {
+      throw new Error("Access token no disponible");
+    }
+    const token = await this.getAccessToken();
+    if (!token) {
+      throw new Error("Access token no disponible");
+    }
+    return token;
+  }
+}
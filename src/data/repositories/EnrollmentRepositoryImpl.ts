@@ -1,27 +1,40 @@
 import {
     EnrollmentRecord,
+    enrollmentRecordSchema,
     mapEnrollmentEntityToRecord,
     mapEnrollmentRecordToEntity,
-    toEnrollmentRecord,
 } from "@/src/data/models/roble/EnrollmentRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Enrollment } from "@/src/domain/models/Enrollment";
-import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import {
+    EnrollmentRepository,
+    PaginatedEnrollmentParams,
+} from "@/src/domain/repositories/EnrollmentRepository";
+import { ReadOptions } from "@/src/domain/repositories/ReadOptions";
 
 type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureEnrollmentRecord = (raw: Record<string, unknown>): EnrollmentRecord =>
-  toEnrollmentRecord(raw);
+const DEFAULT_PAGE_SIZE = 20;
 
 export class EnrollmentRepositoryImpl implements EnrollmentRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<EnrollmentRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(enrollmentRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   async createEnrollment(enrollment: Enrollment): Promise<Enrollment> {
@@ -44,7 +57,7 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
       throw new Error("La inserción de inscripciones no devolvió registros");
     }
     return mapEnrollmentRecordToEntity(
-      ensureEnrollmentRecord(inserted[0] as Record<string, unknown>),
+      this.records.written(inserted[0] as Record<string, unknown>),
     );
   }
 
@@ -57,7 +70,7 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
     if (!rows.length) {
       return null;
     }
-    return mapEnrollmentRecordToEntity(ensureEnrollmentRecord(rows[0]));
+    return mapEnrollmentRecordToEntity(this.records.one(rows[0]));
   }
 
   async getEnrollmentsByStudent(studentId: string): Promise<Enrollment[]> {
@@ -66,18 +79,23 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
       accessToken: token,
       query: { user_id: studentId },
     });
-    return rows.map((row) => mapEnrollmentRecordToEntity(ensureEnrollmentRecord(row)));
+    return this.records.many(rows).map(mapEnrollmentRecordToEntity);
   }
 
-  async getEnrollmentsByCourse(courseId: string): Promise<Enrollment[]> {
+  async getEnrollmentsByCourse(
+    courseId: string,
+    options: { includeInactive?: boolean } & ReadOptions = {},
+  ): Promise<Enrollment[]> {
     const token = await this.requireToken();
     const rows = await this.service.readEnrollments({
       accessToken: token,
       query: { course_id: courseId },
+      signal: options.signal,
     });
-    return rows
-      .map((row) => mapEnrollmentRecordToEntity(ensureEnrollmentRecord(row)))
-      .filter((enrollment) => enrollment.isActive);
+    return this.records
+      .many(rows)
+      .map(mapEnrollmentRecordToEntity)
+      .filter((enrollment) => options.includeInactive || enrollment.isActive);
   }
 
   async isStudentEnrolledInCourse(
@@ -88,16 +106,54 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
     return enrollments.some((enrollment) => enrollment.studentId === studentId);
   }
 
-  async deleteEnrollment(): Promise<boolean> {
-    throw new Error("deleteEnrollment no está implementado");
+  async archiveEnrollment(enrollmentId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.updateRow({
+      accessToken: token,
+      table: "enrollments",
+      id: enrollmentId,
+      updates: { is_active: false },
+    });
+    return true;
+  }
+
+  async purgeEnrollment(enrollmentId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteRow({
+      accessToken: token,
+      table: "enrollments",
+      id: enrollmentId,
+    });
+    return true;
   }
 
   async getActiveEnrollments(): Promise<Enrollment[]> {
-    return [];
+    const token = await this.requireToken();
+    const rows = await this.service.readEnrollments({ accessToken: token });
+    return this.records
+      .many(rows)
+      .map(mapEnrollmentRecordToEntity)
+      .filter((enrollment) => enrollment.isActive);
   }
 
-  async getEnrollmentsPaginated(): Promise<Enrollment[]> {
-    return [];
+  async getEnrollmentsPaginated(params: PaginatedEnrollmentParams = {}): Promise<Enrollment[]> {
+    const token = await this.requireToken();
+    // Hay inscripciones antiguas sin `is_active`; se filtran tras mapear y luego se pagina.
+    let query = robleQuery().orderBy("enrolled_at", "desc");
+    if (params.studentId) {
+      query = query.eq("student_id", params.studentId);
+    }
+    if (params.courseId) {
+      query = query.eq("course_id", params.courseId);
+    }
+    const rows = await this.service.readEnrollments({ accessToken: token, query });
+    const limit = params.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = (Math.max(1, params.page ?? 1) - 1) * limit;
+    return this.records
+      .many(rows)
+      .map(mapEnrollmentRecordToEntity)
+      .filter((enrollment) => enrollment.isActive)
+      .slice(offset, offset + limit);
   }
 
   async updateEnrollment(enrollment: Enrollment): Promise<Enrollment> {
@@ -111,6 +167,9 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
       enrolled_at: enrollment.enrolledAt,
       is_active: enrollment.isActive,
     };
+    if (enrollment.status) {
+      updates.status = enrollment.status;
+    }
     const response = await this.service.updateRow({
       accessToken: token,
       table: "enrollments",
@@ -125,7 +184,7 @@ export class EnrollmentRepositoryImpl implements EnrollmentRepository {
       }
       return refreshed;
     }
-    return mapEnrollmentRecordToEntity(ensureEnrollmentRecord(updated));
+    return mapEnrollmentRecordToEntity(this.records.written(updated));
   }
 
   async getEnrollmentCountByCourse(courseId: string): Promise<number> {
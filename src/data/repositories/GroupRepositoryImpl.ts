@@ -1,9 +1,12 @@
 import {
     GroupRecord,
+    groupRecordSchema,
     mapGroupEntityToRecord,
     mapGroupRecordToEntity,
-    toGroupRecord,
 } from "@/src/data/models/roble/GroupRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { containsPattern, robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Group } from "@/src/domain/models/Group";
 import {
@@ -15,37 +18,59 @@ type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureGroupRecord = (raw: Record<string, unknown>): GroupRecord => toGroupRecord(raw);
+const DEFAULT_PAGE_SIZE = 20;
 
 export class GroupRepositoryImpl implements GroupRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<GroupRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(groupRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
-  async getGroupById(groupId: string): Promise<Group | null> {
+  async getGroupById(groupId: string, options: { includeInactive?: boolean } = {}): Promise<Group | null> {
     if (!groupId) return null;
     const token = await this.requireToken();
-    const rows = await this.service.readGroups({
+    const rows = await this.service.readGroupsByIds({
       accessToken: token,
-      query: { _id: groupId, is_active: true },
+      ids: [groupId],
+      query: options.includeInactive ? {} : { is_active: true },
     });
-    if (!rows.length) {
-      return null;
-    }
-    return mapGroupRecordToEntity(ensureGroupRecord(rows[0] as Record<string, unknown>));
+    const [group] = this.records.many(rows).map(mapGroupRecordToEntity);
+    return group ?? null;
   }
 
-  async getGroupsByCourse(courseId: string): Promise<Group[]> {
+  async getGroupsByIds(groupIds: string[], options: { courseId?: string } = {}): Promise<Group[]> {
+    if (!groupIds.length) return [];
+    const token = await this.requireToken();
+    const rows = await this.service.readGroupsByIds({
+      accessToken: token,
+      ids: groupIds,
+      query: { is_active: true },
+      // Con el curso, los grupos de varias membresías salen de una sola lectura.
+      scope: options.courseId ? { course_id: options.courseId } : undefined,
+    });
+    return this.records.many(rows).map(mapGroupRecordToEntity);
+  }
+
+  async getGroupsByCourse(
+    courseId: string,
+    options: { includeInactive?: boolean } = {},
+  ): Promise<Group[]> {
     const token = await this.requireToken();
     const rows = await this.service.readGroups({
       accessToken: token,
-      query: { course_id: courseId, is_active: true },
+      query: options.includeInactive ? { course_id: courseId } : { course_id: courseId, is_active: true },
     });
-    return rows.map((row) => mapGroupRecordToEntity(ensureGroupRecord(row)));
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
   async createGroup(group: Group): Promise<Group> {
@@ -64,7 +89,7 @@ export class GroupRepositoryImpl implements GroupRepository {
     if (!inserted || !inserted.length) {
       throw new Error("La respuesta de inserción de grupos no contiene registros");
     }
-    return mapGroupRecordToEntity(ensureGroupRecord(inserted[0] as Record<string, unknown>));
+    return mapGroupRecordToEntity(this.records.written(inserted[0] as Record<string, unknown>));
   }
 
   async getGroupsByCategory(categoryId: string): Promise<Group[]> {
@@ -73,7 +98,7 @@ export class GroupRepositoryImpl implements GroupRepository {
       accessToken: token,
       query: { category_id: categoryId, is_active: true },
     });
-    return rows.map((row) => mapGroupRecordToEntity(ensureGroupRecord(row)));
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
   async getGroupsByTeacher(teacherId: string): Promise<Group[]> {
@@ -82,14 +107,15 @@ export class GroupRepositoryImpl implements GroupRepository {
       accessToken: token,
       query: { teacher_id: teacherId, is_active: true },
     });
-    return rows.map((row) => mapGroupRecordToEntity(ensureGroupRecord(row)));
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
-  async updateGroup(group: Group): Promise<Group> {
+  async updateGroup(group: Group, options: { force?: boolean } = {}): Promise<Group> {
     const token = await this.requireToken();
     const response = await this.service.updateGroup({
       accessToken: token,
       id: group.id,
+      expectedVersion: options.force ? undefined : group.updatedAt,
       updates: {
         name: group.name,
         category_id: group.categoryId,
@@ -101,7 +127,7 @@ export class GroupRepositoryImpl implements GroupRepository {
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapGroupRecordToEntity(ensureGroupRecord(updated));
+      return mapGroupRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getGroupById(group.id);
@@ -111,7 +137,7 @@ export class GroupRepositoryImpl implements GroupRepository {
     return refreshed;
   }
 
-  async deleteGroup(groupId: string): Promise<boolean> {
+  async archiveGroup(groupId: string): Promise<boolean> {
     const token = await this.requireToken();
     await this.service.updateGroup({
       accessToken: token,
@@ -121,13 +147,25 @@ export class GroupRepositoryImpl implements GroupRepository {
     return true;
   }
 
+  async purgeGroup(groupId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteGroup({
+      accessToken: token,
+      id: groupId,
+    });
+    return true;
+  }
+
   async searchGroupsByName(name: string): Promise<Group[]> {
+    if (!name.trim()) {
+      return [];
+    }
     const token = await this.requireToken();
     const rows = await this.service.readGroups({
       accessToken: token,
-      query: { name, is_active: true },
+      query: robleQuery().eq("is_active", true).ilike("name", containsPattern(name)).orderBy("name"),
     });
-    return rows.map((row) => mapGroupRecordToEntity(ensureGroupRecord(row)));
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
   async getActiveGroups(): Promise<Group[]> {
@@ -136,12 +174,20 @@ export class GroupRepositoryImpl implements GroupRepository {
       accessToken: token,
       query: { is_active: true },
     });
-    return rows.map((row) => mapGroupRecordToEntity(ensureGroupRecord(row)));
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
-  async getGroupsPaginated(_params?: PaginatedGroupParams): Promise<Group[]> {
-    console.debug("[GROUP_REPO] getGroupsPaginated not implemented");
-    return this.getActiveGroups();
+  async getGroupsPaginated(params: PaginatedGroupParams = {}): Promise<Group[]> {
+    const token = await this.requireToken();
+    let query = robleQuery().eq("is_active", true);
+    if (params.courseId) {
+      query = query.eq("course_id", params.courseId);
+    }
+    const rows = await this.service.readGroups({
+      accessToken: token,
+      query: query.orderBy("name").page(params.page ?? 1, params.limit ?? DEFAULT_PAGE_SIZE),
+    });
+    return this.records.many(rows).map(mapGroupRecordToEntity);
   }
 
   async isGroupNameAvailableInCourse(name: string, courseId: string): Promise<boolean> {
@@ -149,6 +195,7 @@ export class GroupRepositoryImpl implements GroupRepository {
     const rows = await this.service.readGroups({
       accessToken: token,
       query: { name, course_id: courseId, is_active: true },
+      cache: false,
     });
     return rows.length === 0;
   }
@@ -2,8 +2,11 @@ import {
     mapMembershipEntityToRecord,
     mapMembershipRecordToEntity,
     MembershipRecord,
-    toMembershipRecord,
+    membershipRecordSchema,
 } from "@/src/data/models/roble/MembershipRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { Membership } from "@/src/domain/models/Membership";
 import {
@@ -15,16 +18,22 @@ type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureMembershipRecord = (raw: Record<string, unknown>): MembershipRecord =>
-  toMembershipRecord(raw);
+const DEFAULT_PAGE_SIZE = 20;
 
 export class MembershipRepositoryImpl implements MembershipRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<MembershipRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(membershipRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   async getMembershipById(membershipId: string): Promise<Membership | null> {
@@ -37,7 +46,7 @@ export class MembershipRepositoryImpl implements MembershipRepository {
     if (!rows.length) {
       return null;
     }
-    return mapMembershipRecordToEntity(ensureMembershipRecord(rows[0] as Record<string, unknown>));
+    return mapMembershipRecordToEntity(this.records.one(rows[0] as Record<string, unknown>));
   }
 
   async getMembershipsByUserId(userId: string): Promise<Membership[]> {
@@ -46,16 +55,28 @@ export class MembershipRepositoryImpl implements MembershipRepository {
       accessToken: token,
       query: { user_id: userId, is_active: true },
     });
-    return rows.map((row) => mapMembershipRecordToEntity(ensureMembershipRecord(row)));
+    return this.records.many(rows).map(mapMembershipRecordToEntity);
   }
 
-  async getMembershipsByGroupId(groupId: string): Promise<Membership[]> {
+  async getMembershipsByGroupId(
+    groupId: string,
+    options: { includeInactive?: boolean } = {},
+  ): Promise<Membership[]> {
+    return this.getMembershipsByGroupIds([groupId], options);
+  }
+
+  async getMembershipsByGroupIds(
+    groupIds: string[],
+    options: { includeInactive?: boolean } = {},
+  ): Promise<Membership[]> {
+    if (!groupIds.length) return [];
     const token = await this.requireToken();
-    const rows = await this.service.readMemberships({
+    const rows = await this.service.readMembershipsByGroupIds({
       accessToken: token,
-      query: { group_id: groupId, is_active: true },
+      groupIds,
+      query: options.includeInactive ? {} : { is_active: true },
     });
-    return rows.map((row) => mapMembershipRecordToEntity(ensureMembershipRecord(row)));
+    return this.records.many(rows).map(mapMembershipRecordToEntity);
   }
 
   async createMembership(membership: Membership): Promise<Membership> {
@@ -85,7 +106,7 @@ export class MembershipRepositoryImpl implements MembershipRepository {
       throw new Error(reason || "La respuesta de membresías no retornó registros");
     }
     return mapMembershipRecordToEntity(
-      ensureMembershipRecord(inserted[0] as Record<string, unknown>),
+      this.records.written(inserted[0] as Record<string, unknown>),
     );
   }
 
@@ -104,7 +125,7 @@ export class MembershipRepositoryImpl implements MembershipRepository {
 
     const updated = this.extractUpdatedRecord(response);
     if (updated) {
-      return mapMembershipRecordToEntity(ensureMembershipRecord(updated));
+      return mapMembershipRecordToEntity(this.records.written(updated));
     }
 
     const refreshed = await this.getMembershipById(membership.id);
@@ -114,7 +135,7 @@ export class MembershipRepositoryImpl implements MembershipRepository {
     return refreshed;
   }
 
-  async deleteMembership(membershipId: string): Promise<boolean> {
+  async archiveMembership(membershipId: string): Promise<boolean> {
     const token = await this.requireToken();
     await this.service.updateMembership({
       accessToken: token,
@@ -124,11 +145,21 @@ export class MembershipRepositoryImpl implements MembershipRepository {
     return true;
   }
 
+  async purgeMembership(membershipId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteMembership({
+      accessToken: token,
+      id: membershipId,
+    });
+    return true;
+  }
+
   async isUserMemberOfGroup(userId: string, groupId: string): Promise<boolean> {
     const token = await this.requireToken();
     const rows = await this.service.readMemberships({
       accessToken: token,
       query: { user_id: userId, group_id: groupId, is_active: true },
+      cache: false,
     });
     return rows.length > 0;
   }
@@ -139,14 +170,21 @@ export class MembershipRepositoryImpl implements MembershipRepository {
       accessToken: token,
       query: { is_active: true },
     });
-    return rows.map((row) => mapMembershipRecordToEntity(ensureMembershipRecord(row)));
+    return this.records.many(rows).map(mapMembershipRecordToEntity);
   }
 
   async getMembershipsPaginated(
-    _params?: PaginatedMembershipParams,
+    params: PaginatedMembershipParams = {},
   ): Promise<Membership[]> {
-    console.debug("[MEMBERSHIP_REPO] getMembershipsPaginated not implemented");
-    return this.getActiveMemberships();
+    const token = await this.requireToken();
+    const rows = await this.service.readMemberships({
+      accessToken: token,
+      query: robleQuery()
+        .eq("is_active", true)
+        .orderBy("joinet_at", "desc")
+        .page(params.page ?? 1, params.limit ?? DEFAULT_PAGE_SIZE),
+    });
+    return this.records.many(rows).map(mapMembershipRecordToEntity);
   }
 
   private async requireToken(): Promise<string> {
@@ -1,25 +1,36 @@
 import {
     UserRecord,
+    userRecordSchema,
+    mapUserEntityToRecord,
     mapUserRecordToEntity,
-    toUserRecord,
 } from "@/src/data/models/roble/UserRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { containsPattern, robleQuery } from "@/src/data/services/RobleQuery";
 import { RobleService } from "@/src/data/services/RobleService";
 import { User } from "@/src/domain/models/User";
-import { UserRepository } from "@/src/domain/repositories/UserRepository";
+import { PaginatedUserParams, UserRepository } from "@/src/domain/repositories/UserRepository";
 
 type AccessTokenProvider = () => Promise<string | null>;
 
 type Dependencies = {
   getAccessToken?: AccessTokenProvider;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
 };
 
-const ensureUserRecord = (raw: Record<string, unknown>): UserRecord => toUserRecord(raw);
+const DEFAULT_PAGE_SIZE = 20;
 
 export class UserRepositoryImpl implements UserRepository {
   private readonly getAccessToken?: AccessTokenProvider;
+  private readonly records: RecordDecoder<UserRecord>;
 
   constructor(private readonly service: RobleService, deps: Dependencies = {}) {
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(userRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   async getUserById(userId: string): Promise<User | null> {
@@ -31,7 +42,7 @@ export class UserRepositoryImpl implements UserRepository {
     if (!rows.length) {
       return null;
     }
-    return mapUserRecordToEntity(ensureUserRecord(rows[0]));
+    return mapUserRecordToEntity(this.records.one(rows[0]));
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
@@ -43,7 +54,7 @@ export class UserRepositoryImpl implements UserRepository {
     if (!rows.length) {
       return null;
     }
-    return mapUserRecordToEntity(ensureUserRecord(rows[0]));
+    return mapUserRecordToEntity(this.records.one(rows[0]));
   }
 
   async getUserByStudentId(studentId: string): Promise<User | null> {
@@ -55,7 +66,7 @@ export class UserRepositoryImpl implements UserRepository {
     if (!rows.length) {
       return null;
     }
-    return mapUserRecordToEntity(ensureUserRecord(rows[0]));
+    return mapUserRecordToEntity(this.records.one(rows[0]));
   }
 
   async getUserByUsername(username: string): Promise<User | null> {
@@ -67,27 +78,68 @@ export class UserRepositoryImpl implements UserRepository {
     if (!rows.length) {
       return null;
     }
-    return mapUserRecordToEntity(ensureUserRecord(rows[0]));
+    return mapUserRecordToEntity(this.records.one(rows[0]));
   }
 
   async createUser(): Promise<User> {
     throw new Error("createUser no está implementado");
   }
 
-  async updateUser(): Promise<User> {
-    throw new Error("updateUser no está implementado");
+  async updateUser(user: User): Promise<User> {
+    const token = await this.requireToken();
+    // El correo lo gestiona el servicio de autenticación, así que aquí solo se tocan datos de perfil.
+    const record = mapUserEntityToRecord(user);
+    await this.service.updateUser({
+      accessToken: token,
+      id: user.id,
+      updates: {
+        first_name: record.first_name,
+        last_name: record.last_name,
+        username: record.username,
+        student_id: record.student_id,
+      },
+    });
+    const rows = await this.service.readUsers({
+      accessToken: token,
+      query: { _id: user.id },
+      cache: false,
+    });
+    if (!rows.length) {
+      throw new Error("No se pudo obtener el usuario actualizado");
+    }
+    return mapUserRecordToEntity(this.records.one(rows[0]));
   }
 
-  async deleteUser(): Promise<boolean> {
-    throw new Error("deleteUser no está implementado");
+  async deleteUser(userId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.service.deleteUser({ accessToken: token, id: userId });
+    return true;
   }
 
-  async searchUsersByName(): Promise<User[]> {
-    return [];
+  async searchUsersByName(name: string): Promise<User[]> {
+    if (!name.trim()) {
+      return [];
+    }
+    const token = await this.requireToken();
+    const rows = await this.service.readUsers({
+      accessToken: token,
+      query: robleQuery()
+        .ilike(["first_name", "last_name", "username"], containsPattern(name))
+        .orderBy("first_name")
+        .orderBy("last_name"),
+    });
+    return this.records.many(rows).map(mapUserRecordToEntity);
   }
 
-  async getUsersPaginated(): Promise<User[]> {
-    return [];
+  async getUsersPaginated(params: PaginatedUserParams = {}): Promise<User[]> {
+    const token = await this.requireToken();
+    const rows = await this.service.readUsers({
+      accessToken: token,
+      query: robleQuery()
+        .orderBy("created_at", "desc")
+        .page(params.page ?? 1, params.limit ?? DEFAULT_PAGE_SIZE),
+    });
+    return this.records.many(rows).map(mapUserRecordToEntity);
   }
 
   async isEmailAvailable(): Promise<boolean> {
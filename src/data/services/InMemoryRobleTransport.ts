@@ -0,0 +1,263 @@
+import { RobleAbortError } from "./RobleErrors";
+import { RobleTransport, RobleTransportResponse } from "./RobleTransport";
+
+type Row = Record<string, unknown>;
+
+type InMemoryRobleTransportOptions = {
+  // Solo se atienden rutas con este prefijo; el resto responde 404 (permite probar el fallback).
+  servedPathPrefix?: string;
+  authorize?: (accessToken: string) => boolean;
+  generateId?: () => string;
+};
+
+const MODIFIER_PREFIX = "_";
+const ID_COLUMN = "_id";
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const randomId = () => {
+  let id = Date.now().toString(16);
+  while (id.length < 24) {
+    id += Math.floor(Math.random() * 16).toString(16);
+  }
+  return id.slice(0, 24);
+};
+
+const toComparable = (value: unknown): string | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? "true" : "false";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const readHeader = (init: RequestInit, name: string): string | null => {
+  const headers = init.headers;
+  if (!headers) {
+    return null;
+  }
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    return headers.get(name);
+  }
+  if (Array.isArray(headers)) {
+    const found = headers.find(([key]) => key.toLowerCase() === name.toLowerCase());
+    return found ? found[1] : null;
+  }
+  const record = headers as Record<string, string>;
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key ? record[key] : null;
+};
+
+const parseBody = (init: RequestInit): Record<string, unknown> => {
+  if (typeof init.body !== "string" || init.body.length === 0) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(init.body);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const respond = <T>(status: number, data: unknown): RobleTransportResponse<T> => ({
+  status,
+  data: clone(data) as T,
+});
+
+/**
+ * Sustituto en memoria del backend ROBLE. Implementa la misma forma de las rutas
+ * `/read`, `/insert`, `/update` y `/delete` para poder ejercitar los repositorios en Jest o sin red.
+ */
+export class InMemoryRobleTransport implements RobleTransport {
+  private readonly tables = new Map<string, Row[]>();
+  private readonly servedPathPrefix?: string;
+  private readonly authorize: (accessToken: string) => boolean;
+  private readonly generateId: () => string;
+
+  constructor(options: InMemoryRobleTransportOptions = {}) {
+    this.servedPathPrefix = options.servedPathPrefix;
+    this.authorize = options.authorize ?? ((token) => token.length > 0);
+    this.generateId = options.generateId ?? randomId;
+  }
+
+  seed(table: string, rows: Row[]): this {
+    const target = this.table(table);
+    for (const row of rows) {
+      target.push({ ...clone(row), [ID_COLUMN]: row[ID_COLUMN] ?? this.generateId() });
+    }
+    return this;
+  }
+
+  rows(table: string): Row[] {
+    return clone(this.tables.get(table) ?? []);
+  }
+
+  reset() {
+    this.tables.clear();
+  }
+
+  async send<T>(url: string, init: RequestInit): Promise<RobleTransportResponse<T>> {
+    if (init.signal?.aborted) {
+      throw new RobleAbortError("Solicitud cancelada");
+    }
+
+    const parsed = new URL(url);
+    const path = parsed.pathname.endsWith("/") ? parsed.pathname.slice(0, -1) : parsed.pathname;
+
+    if (this.servedPathPrefix && !path.startsWith(this.servedPathPrefix)) {
+      return respond(404, { message: "Not Found" });
+    }
+
+    const operation = path.slice(path.lastIndexOf("/") + 1);
+    const method = (init.method ?? "GET").toUpperCase();
+
+    if (operation === "login" && method === "POST") {
+      return this.handleLogin(init);
+    }
+
+    const authorization = readHeader(init, "Authorization") ?? "";
+    const token = authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : "";
+    if (!token || !this.authorize(token)) {
+      return respond(401, { message: "Unauthorized" });
+    }
+
+    if (operation === "read" && method === "GET") {
+      return this.handleRead(parsed.searchParams);
+    }
+    if (operation === "insert" && method === "POST") {
+      return this.handleInsert(parseBody(init));
+    }
+    if (operation === "update" && method === "PUT") {
+      return this.handleUpdate(parseBody(init));
+    }
+    if (operation === "delete" && method === "DELETE") {
+      return this.handleDelete(parseBody(init));
+    }
+
+    return respond(404, { message: `Cannot ${method} ${path}` });
+  }
+
+  private handleLogin<T>(init: RequestInit): RobleTransportResponse<T> {
+    const body = parseBody(init);
+    if (typeof body.email !== "string" || body.email.length === 0) {
+      return respond(400, { message: "email es requerido" });
+    }
+    return respond(201, {
+      accessToken: `memory-access-${this.generateId()}`,
+      refreshToken: `memory-refresh-${this.generateId()}`,
+    });
+  }
+
+  private handleRead<T>(params: URLSearchParams): RobleTransportResponse<T> {
+    const tableName = params.get("tableName");
+    if (!tableName) {
+      return respond(400, { message: "tableName es requerido" });
+    }
+
+    const filters: [string, string][] = [];
+    let limit: number | null = null;
+    let offset = 0;
+    params.forEach((value, key) => {
+      if (key === "tableName") {
+        return;
+      }
+      if (key.startsWith(MODIFIER_PREFIX) && key !== ID_COLUMN) {
+        if (key === "_limit") limit = Number(value);
+        if (key === "_offset") offset = Number(value);
+        return;
+      }
+      filters.push([key, value]);
+    });
+
+    const matches = (this.tables.get(tableName) ?? []).filter((row) =>
+      filters.every(([column, expected]) => toComparable(row[column]) === expected),
+    );
+    const start = Number.isFinite(offset) && offset > 0 ? offset : 0;
+    const end = limit !== null && Number.isFinite(limit) && limit >= 0 ? start + limit : undefined;
+    return respond(200, matches.slice(start, end));
+  }
+
+  private handleInsert<T>(body: Record<string, unknown>): RobleTransportResponse<T> {
+    const tableName = body.tableName;
+    const records = body.records;
+    if (typeof tableName !== "string" || !Array.isArray(records)) {
+      return respond(400, { message: "tableName y records son requeridos" });
+    }
+
+    const target = this.table(tableName);
+    const inserted: Row[] = [];
+    const skipped: { record: unknown; reason: string }[] = [];
+    for (const record of records) {
+      if (!record || typeof record !== "object") {
+        skipped.push({ record, reason: "Registro inválido" });
+        continue;
+      }
+      const candidate = { ...(record as Row) };
+      const providedId = candidate[ID_COLUMN];
+      if (typeof providedId === "string" && providedId.length > 0) {
+        if (target.some((row) => row[ID_COLUMN] === providedId)) {
+          skipped.push({ record, reason: `Ya existe un registro con _id ${providedId}` });
+          continue;
+        }
+      } else {
+        candidate[ID_COLUMN] = this.generateId();
+      }
+      target.push(candidate);
+      inserted.push(candidate);
+    }
+
+    return respond(201, { inserted, skipped });
+  }
+
+  private handleUpdate<T>(body: Record<string, unknown>): RobleTransportResponse<T> {
+    const { tableName, idColumn, idValue, updates } = body;
+    if (typeof tableName !== "string" || !updates || typeof updates !== "object") {
+      return respond(400, { message: "tableName y updates son requeridos" });
+    }
+
+    const column = typeof idColumn === "string" ? idColumn : ID_COLUMN;
+    const row = (this.tables.get(tableName) ?? []).find(
+      (candidate) => toComparable(candidate[column]) === toComparable(idValue),
+    );
+    if (!row) {
+      return respond(404, { message: `No existe ${tableName} con ${column}=${String(idValue)}` });
+    }
+
+    Object.assign(row, updates as Row, { [ID_COLUMN]: row[ID_COLUMN] });
+    return respond(200, { updated: [row] });
+  }
+
+  private handleDelete<T>(body: Record<string, unknown>): RobleTransportResponse<T> {
+    const { tableName, idColumn, idValue } = body;
+    if (typeof tableName !== "string") {
+      return respond(400, { message: "tableName es requerido" });
+    }
+
+    const column = typeof idColumn === "string" ? idColumn : ID_COLUMN;
+    const rows = this.tables.get(tableName) ?? [];
+    const index = rows.findIndex(
+      (candidate) => toComparable(candidate[column]) === toComparable(idValue),
+    );
+    if (index === -1) {
+      return respond(404, { message: `No existe ${tableName} con ${column}=${String(idValue)}` });
+    }
+
+    const [removed] = rows.splice(index, 1);
+    return respond(200, { deleted: [removed] });
+  }
+
+  private table(name: string): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+}
@@ -0,0 +1,160 @@
+type RobleErrorDetails = {
+  status?: number;
+  table?: string;
+  payload?: unknown;
+  cause?: unknown;
+};
+
+export class RobleError extends Error {
+  readonly status?: number;
+  readonly table?: string;
+  readonly payload?: unknown;
+
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = "RobleError";
+    this.status = details.status;
+    this.table = details.table;
+    this.payload = details.payload;
+  }
+}
+
+/** 401/403: token vencido, inválido o sin permisos sobre la tabla. */
+export class RobleAuthError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleAuthError";
+  }
+}
+
+export class RobleNotFoundError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleNotFoundError";
+  }
+}
+
+/** 400/409/422: el backend rechazó el payload o la consulta. */
+export class RobleValidationError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleValidationError";
+  }
+}
+
+export class RobleServerError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleServerError";
+  }
+}
+
+export class RobleTimeoutError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleTimeoutError";
+  }
+}
+
+/** La petición no llegó al servidor (sin conexión, DNS, TLS...). */
+export class RobleNetworkError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleNetworkError";
+  }
+}
+
+/** El llamador canceló la petición con su `AbortSignal` (p. ej. al desmontar una pantalla). */
+export class RobleAbortError extends RobleError {
+  constructor(message: string, details: RobleErrorDetails = {}) {
+    super(message, details);
+    this.name = "RobleAbortError";
+  }
+}
+
+/**
+ * La fila cambió en el servidor desde que el llamador la leyó: su `updated_at` ya no coincide con
+ * la versión esperada. `payload` trae la fila tal como está guardada ahora.
+ */
+export class ConflictError extends RobleError {
+  readonly expectedVersion: string | null;
+  readonly currentVersion: string | null;
+
+  constructor(
+    message: string,
+    details: RobleErrorDetails & { expectedVersion: string | null; currentVersion: string | null },
+  ) {
+    super(message, details);
+    this.name = "ConflictError";
+    this.expectedVersion = details.expectedVersion;
+    this.currentVersion = details.currentVersion;
+  }
+}
+
+export type RecordDecodeIssue = {
+  field: string;
+  message: string;
+  value: unknown;
+  // Un error invalida la fila; una advertencia solo indica que se usó el valor por defecto.
+  severity: "error" | "warning";
+};
+
+/** Una fila de ROBLE no cumple el esquema de su tabla y el repositorio la lee en modo estricto. */
+export class RecordDecodeError extends RobleError {
+  readonly issues: RecordDecodeIssue[];
+
+  constructor(message: string, details: RobleErrorDetails & { issues: RecordDecodeIssue[] }) {
+    super(message, details);
+    this.name = "RecordDecodeError";
+    this.issues = details.issues;
+  }
+}
+
+export const robleErrorForStatus = (message: string, details: RobleErrorDetails & { status: number }) => {
+  const { status } = details;
+  if (status === 401 || status === 403) return new RobleAuthError(message, details);
+  if (status === 404) return new RobleNotFoundError(message, details);
+  if (status === 400 || status === 409 || status === 422) return new RobleValidationError(message, details);
+  if (status >= 500) return new RobleServerError(message, details);
+  return new RobleError(message, details);
+};
+
+export const isRetryableRobleError = (error: unknown) =>
+  error instanceof RobleTimeoutError ||
+  error instanceof RobleNetworkError ||
+  error instanceof RobleServerError;
+
+/**
+ * Traduce un error a un mensaje para mostrar en pantalla. Los errores que no vienen de ROBLE
+ * conservan su mensaje original (suelen ser validaciones de los casos de uso).
+ */
+export const describeError = (error: unknown): string => {
+  if (error instanceof RobleAuthError) {
+    return "Tu sesión no tiene permisos o expiró. Vuelve a iniciar sesión.";
+  }
+  if (error instanceof RobleNotFoundError) {
+    return "No encontramos el registro solicitado. Es posible que se haya eliminado.";
+  }
+  if (error instanceof RobleValidationError) {
+    return error.message;
+  }
+  if (error instanceof ConflictError) {
+    return "Alguien más modificó este registro mientras lo editabas.";
+  }
+  if (error instanceof RobleTimeoutError) {
+    return "El servidor tardó demasiado en responder. Intenta de nuevo.";
+  }
+  if (error instanceof RobleNetworkError) {
+    return "No hay conexión con el servidor. Revisa tu red e intenta de nuevo.";
+  }
+  if (error instanceof RobleAbortError) {
+    return "La solicitud fue cancelada.";
+  }
+  if (error instanceof RobleServerError) {
+    return "El servidor tuvo un problema. Intenta de nuevo en unos minutos.";
+  }
+  if (error instanceof RecordDecodeError) {
+    return "Recibimos datos incompletos del servidor y no pudimos mostrarlos.";
+  }
+  return error instanceof Error ? error.message : String(error ?? "Error desconocido");
+};
@@ -0,0 +1,255 @@
+export type RobleQueryValue = string | number | boolean;
+
+export type RobleQueryOperator =
+  | "eq"
+  | "in"
+  | "like"
+  | "ilike"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "order"
+  | "limit"
+  | "offset";
+
+type Condition =
+  | { op: "eq"; column: string; value: RobleQueryValue }
+  | { op: "in"; column: string; values: RobleQueryValue[] }
+  | { op: "like" | "ilike"; columns: string[]; pattern: string }
+  | { op: "gt" | "gte" | "lt" | "lte"; column: string; value: RobleQueryValue };
+
+type Ordering = { column: string; direction: "asc" | "desc" };
+
+type Row = Record<string, unknown>;
+
+export type SerialisedRobleQuery = {
+  params: Record<string, RobleQueryValue>;
+  // Filtros, orden y paginación que el servidor no resolvió; se aplican sobre las filas recibidas.
+  applyClientSide: ((rows: Row[]) => Row[]) | null;
+};
+
+/** Operadores que ROBLE entiende como parámetros de `/read`. */
+export const ROBLE_SERVER_OPERATORS: readonly RobleQueryOperator[] = ["eq", "limit", "offset"];
+
+const toComparable = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return String(value);
+};
+
+const compare = (left: unknown, right: unknown): number => {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  const a = toComparable(left);
+  const b = toComparable(right);
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  const numericA = Number(a);
+  const numericB = Number(b);
+  if (a.trim() !== "" && b.trim() !== "" && !Number.isNaN(numericA) && !Number.isNaN(numericB)) {
+    return numericA - numericB;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const likeToRegExp = (pattern: string, caseInsensitive: boolean) => {
+  let source = "";
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === "\\" && index + 1 < pattern.length) {
+      index += 1;
+      source += pattern[index].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "%") {
+      source += ".*";
+    } else if (char === "_") {
+      source += ".";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, caseInsensitive ? "is" : "s");
+};
+
+/** Escapa `%`, `_` y `\` para buscar un texto literal dentro de un patrón `like`. */
+export const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+export const containsPattern = (value: string) => `%${escapeLike(value.trim())}%`;
+
+const matches = (row: Row, condition: Condition): boolean => {
+  switch (condition.op) {
+    case "eq":
+      return toComparable(row[condition.column]) === toComparable(condition.value);
+    case "in": {
+      const value = toComparable(row[condition.column]);
+      return condition.values.some((candidate) => toComparable(candidate) === value);
+    }
+    case "like":
+    case "ilike": {
+      const regexp = likeToRegExp(condition.pattern, condition.op === "ilike");
+      return condition.columns.some((column) => {
+        const value = toComparable(row[column]);
+        return value !== null && regexp.test(value);
+      });
+    }
+    case "gt":
+      return row[condition.column] != null && compare(row[condition.column], condition.value) > 0;
+    case "gte":
+      return row[condition.column] != null && compare(row[condition.column], condition.value) >= 0;
+    case "lt":
+      return row[condition.column] != null && compare(row[condition.column], condition.value) < 0;
+    case "lte":
+      return row[condition.column] != null && compare(row[condition.column], condition.value) <= 0;
+  }
+};
+
+/**
+ * Consulta tipada sobre una tabla ROBLE. Cada método devuelve una copia, así que una consulta base
+ * puede reutilizarse para construir variantes.
+ *
+ * ```ts
+ * robleQuery().eq("is_active", true).ilike("name", "%algo%").orderBy("created_at", "desc").limit(20)
+ * ```
+ */
+export class RobleQuery {
+  private constructor(
+    private readonly conditions: readonly Condition[] = [],
+    private readonly orderings: readonly Ordering[] = [],
+    private readonly limitValue: number | null = null,
+    private readonly offsetValue = 0,
+  ) {}
+
+  static create(): RobleQuery {
+    return new RobleQuery();
+  }
+
+  eq(column: string, value: RobleQueryValue): RobleQuery {
+    return this.with({ op: "eq", column, value });
+  }
+
+  in(column: string, values: RobleQueryValue[]): RobleQuery {
+    return this.with({ op: "in", column, values: [...values] });
+  }
+
+  /** Patrón estilo SQL: `%` cualquier secuencia, `_` un carácter, `\` escapa el siguiente. */
+  like(column: string, pattern: string): RobleQuery {
+    return this.with({ op: "like", columns: [column], pattern });
+  }
+
+  /** Como `like` pero sin distinguir mayúsculas; con varias columnas basta que coincida una. */
+  ilike(columns: string | string[], pattern: string): RobleQuery {
+    return this.with({ op: "ilike", columns: Array.isArray(columns) ? columns : [columns], pattern });
+  }
+
+  gt(column: string, value: RobleQueryValue): RobleQuery {
+    return this.with({ op: "gt", column, value });
+  }
+
+  gte(column: string, value: RobleQueryValue): RobleQuery {
+    return this.with({ op: "gte", column, value });
+  }
+
+  lt(column: string, value: RobleQueryValue): RobleQuery {
+    return this.with({ op: "lt", column, value });
+  }
+
+  lte(column: string, value: RobleQueryValue): RobleQuery {
+    return this.with({ op: "lte", column, value });
+  }
+
+  orderBy(column: string, direction: "asc" | "desc" = "asc"): RobleQuery {
+    return new RobleQuery(
+      this.conditions,
+      [...this.orderings, { column, direction }],
+      this.limitValue,
+      this.offsetValue,
+    );
+  }
+
+  limit(value: number): RobleQuery {
+    return new RobleQuery(this.conditions, this.orderings, Math.max(0, value), this.offsetValue);
+  }
+
+  offset(value: number): RobleQuery {
+    return new RobleQuery(this.conditions, this.orderings, this.limitValue, Math.max(0, value));
+  }
+
+  page(page: number, pageSize: number): RobleQuery {
+    const safePage = Math.max(1, Math.floor(page));
+    return this.limit(pageSize).offset((safePage - 1) * pageSize);
+  }
+
+  /**
+   * Separa la consulta en parámetros de servidor y un post-proceso local. Si algún filtro u orden
+   * se resuelve en cliente, la paginación también, para no paginar antes de filtrar.
+   */
+  serialise(serverOperators: readonly RobleQueryOperator[] = ROBLE_SERVER_OPERATORS): SerialisedRobleQuery {
+    const supported = new Set(serverOperators);
+    const params: Record<string, RobleQueryValue> = {};
+    const clientConditions: Condition[] = [];
+
+    for (const condition of this.conditions) {
+      if (condition.op === "eq" && supported.has("eq") && !(condition.column in params)) {
+        params[condition.column] = condition.value;
+      } else {
+        clientConditions.push(condition);
+      }
+    }
+
+    const clientOrder = this.orderings.length > 0 && !supported.has("order");
+    if (this.orderings.length > 0 && !clientOrder) {
+      params._order = this.orderings
+        .map(({ column, direction }) => (direction === "desc" ? `-${column}` : column))
+        .join(",");
+    }
+
+    const clientPaging =
+      clientConditions.length > 0 ||
+      clientOrder ||
+      (this.limitValue !== null && !supported.has("limit")) ||
+      (this.offsetValue > 0 && !supported.has("offset"));
+    if (!clientPaging) {
+      if (this.limitValue !== null) params._limit = this.limitValue;
+      if (this.offsetValue > 0) params._offset = this.offsetValue;
+    }
+
+    if (clientConditions.length === 0 && !clientOrder && !clientPaging) {
+      return { params, applyClientSide: null };
+    }
+
+    const orderings = clientOrder ? this.orderings : [];
+    const limit = clientPaging ? this.limitValue : null;
+    const offset = clientPaging ? this.offsetValue : 0;
+
+    return {
+      params,
+      applyClientSide: (rows) => {
+        let result = rows.filter((row) => clientConditions.every((condition) => matches(row, condition)));
+        if (orderings.length > 0) {
+          result = [...result].sort((left, right) => {
+            for (const { column, direction } of orderings) {
+              const diff = compare(left[column], right[column]);
+              if (diff !== 0) return direction === "desc" ? -diff : diff;
+            }
+            return 0;
+          });
+        }
+        const end = limit !== null ? offset + limit : undefined;
+        return offset > 0 || end !== undefined ? result.slice(offset, end) : result;
+      },
+    };
+  }
+
+  private with(condition: Condition): RobleQuery {
+    return new RobleQuery(
+      [...this.conditions, condition],
+      this.orderings,
+      this.limitValue,
+      this.offsetValue,
+    );
+  }
+}
+
+export const robleQuery = () => RobleQuery.create();
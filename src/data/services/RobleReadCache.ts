@@ -0,0 +1,195 @@
+import { ILocalPreferences } from "@/src/core/iLocalPreferences";
+import { RefreshManager } from "@/src/core/utils/RefreshManager";
+import { isRetryableRobleError } from "./RobleErrors";
+
+type Row = Record<string, unknown>;
+
+type CachedRows = {
+  rows: Row[];
+  storedAt: number;
+};
+
+type Dependencies = {
+  preferences: ILocalPreferences;
+  refreshManager: RefreshManager;
+  getUserId: () => Promise<string | null>;
+  ttlMs?: number;
+  tables?: readonly string[];
+  onRevalidated?: (table: string, syncedAt: number) => void;
+};
+
+export const CACHED_TABLES: readonly string[] = [
+  "courses",
+  "categories",
+  "groups",
+  "memberships",
+  "enrollments",
+  "activities",
+];
+
+const DEFAULT_TTL_MS = 45_000;
+const KEY_PREFIX = "roble-cache";
+
+/**
+ * Caché persistente de lecturas ROBLE por usuario. Devuelve de inmediato lo último guardado y,
+ * si ya venció, lo revalida en segundo plano; sin conexión sigue sirviendo la copia guardada.
+ */
+export class RobleReadCache {
+  private readonly preferences: ILocalPreferences;
+  private readonly refreshManager: RefreshManager;
+  private readonly getUserId: () => Promise<string | null>;
+  private readonly ttlMs: number;
+  private readonly tables: Set<string>;
+  private readonly onRevalidated?: (table: string, syncedAt: number) => void;
+  // Tablas cuyos datos en pantalla vienen de la caché y no de una lectura reciente.
+  private readonly staleTables = new Map<string, number>();
+  private expiredBefore = 0;
+  private indexWrites: Promise<void> = Promise.resolve();
+
+  constructor({
+    preferences,
+    refreshManager,
+    getUserId,
+    ttlMs = DEFAULT_TTL_MS,
+    tables = CACHED_TABLES,
+    onRevalidated,
+  }: Dependencies) {
+    this.preferences = preferences;
+    this.refreshManager = refreshManager;
+    this.getUserId = getUserId;
+    this.ttlMs = ttlMs;
+    this.tables = new Set(tables);
+    this.onRevalidated = onRevalidated;
+  }
+
+  handles(table: string): boolean {
+    return this.tables.has(table);
+  }
+
+  async read(table: string, requestKey: string, fetchRows: () => Promise<Row[]>): Promise<Row[]> {
+    const userId = this.handles(table) ? await this.getUserId() : null;
+    if (!userId) {
+      return fetchRows();
+    }
+
+    const key = this.entryKey(userId, table, requestKey);
+    const cached = await this.preferences.retrieveData<CachedRows>(key);
+    if (!cached) {
+      return this.fetchAndStore(userId, table, key, fetchRows);
+    }
+
+    if (cached.storedAt < this.expiredBefore) {
+      try {
+        return await this.fetchAndStore(userId, table, key, fetchRows);
+      } catch (error) {
+        if (!isRetryableRobleError(error)) {
+          throw error;
+        }
+        this.markStale(table, cached.storedAt);
+        return cached.rows;
+      }
+    }
+
+    if (Date.now() - cached.storedAt < this.ttlMs) {
+      return cached.rows;
+    }
+
+    this.markStale(table, cached.storedAt);
+    void this.refreshManager
+      .run({
+        key,
+        ttl: this.ttlMs,
+        action: async () => {
+          await this.fetchAndStore(userId, table, key, fetchRows);
+          this.onRevalidated?.(table, Date.now());
+        },
+      })
+      .catch((error) => {
+        console.debug(`[ROBLE_CACHE] No se pudo revalidar ${table}, se mantiene la copia local`, error);
+      });
+    return cached.rows;
+  }
+
+  /** Marca de tiempo de los datos más antiguos servidos desde la caché, o `null` si están al día. */
+  staleSince(tables: readonly string[] = CACHED_TABLES): number | null {
+    const stamps = tables
+      .map((table) => this.staleTables.get(table))
+      .filter((value): value is number => typeof value === "number");
+    return stamps.length ? Math.min(...stamps) : null;
+  }
+
+  /**
+   * Hace que lo guardado hasta ahora solo se use si el servidor no responde. Pensado para el
+   * "deslizar para actualizar", donde el usuario espera datos recién leídos.
+   */
+  expire() {
+    this.expiredBefore = Date.now() + 1;
+  }
+
+  /** Olvida qué tablas se sirvieron desde la caché; esas marcas eran de la cuenta anterior. */
+  forgetStaleness() {
+    this.staleTables.clear();
+  }
+
+  /** Descarta las lecturas guardadas de una tabla, p. ej. tras escribir en ella. */
+  async invalidate(table: string): Promise<void> {
+    const userId = this.handles(table) ? await this.getUserId() : null;
+    if (!userId) return;
+
+    const prefix = this.entryKey(userId, table, "");
+    await this.updateIndex(userId, async (keys) => {
+      const removed = keys.filter((key) => key.startsWith(prefix));
+      await Promise.all(removed.map((key) => this.preferences.removeData(key)));
+      return keys.filter((key) => !key.startsWith(prefix));
+    });
+    this.refreshManager.invalidatePrefix(prefix);
+  }
+
+  async clearUser(userId: string): Promise<void> {
+    await this.updateIndex(userId, async (keys) => {
+      await Promise.all(keys.map((key) => this.preferences.removeData(key)));
+      return [];
+    });
+    this.refreshManager.invalidatePrefix(`${KEY_PREFIX}:${userId}:`);
+    this.staleTables.clear();
+  }
+
+  private async fetchAndStore(
+    userId: string,
+    table: string,
+    key: string,
+    fetchRows: () => Promise<Row[]>,
+  ): Promise<Row[]> {
+    const rows = await fetchRows();
+    await this.preferences.storeData<CachedRows>(key, { rows, storedAt: Date.now() });
+    await this.updateIndex(userId, async (keys) => (keys.includes(key) ? keys : [...keys, key]));
+    this.staleTables.delete(table);
+    return rows;
+  }
+
+  // El índice de claves se reescribe completo; encadenar las escrituras evita perder entradas.
+  private updateIndex(userId: string, update: (keys: string[]) => Promise<string[]>) {
+    const indexKey = this.indexKey(userId);
+    const next = this.indexWrites.then(async () => {
+      const keys = await this.preferences.getAllEntries<string>(indexKey);
+      await this.preferences.replaceEntries(indexKey, await update(keys));
+    });
+    this.indexWrites = next.catch(() => undefined);
+    return next;
+  }
+
+  private markStale(table: string, storedAt: number) {
+    const current = this.staleTables.get(table);
+    if (current === undefined || storedAt < current) {
+      this.staleTables.set(table, storedAt);
+    }
+  }
+
+  private entryKey(userId: string, table: string, requestKey: string) {
+    return `${KEY_PREFIX}:${userId}:${table}:${requestKey}`;
+  }
+
+  private indexKey(userId: string) {
+    return `${KEY_PREFIX}:${userId}:index`;
+  }
+}
@@ -0,0 +1,70 @@
+type PendingBatch<T> = {
+  ids: Set<string>;
+  waiters: { ids: string[]; resolve: (rows: T[]) => void; reject: (error: unknown) => void }[];
+};
+
+/**
+ * Junta lecturas concurrentes: las peticiones idénticas en vuelo comparten la misma promesa y
+ * las lecturas por id que llegan en el mismo ciclo del event loop se resuelven con una sola.
+ */
+export class RobleRequestCoalescer {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+  private readonly batches = new Map<string, PendingBatch<unknown>>();
+
+  share<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+    const request = run().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Agrupa los ids pedidos bajo la misma clave y llama a `run` una vez con todos ellos. Cada
+   * llamador recibe solo las filas cuyo `idOf` está entre los ids que pidió.
+   */
+  batch<T>(
+    key: string,
+    ids: string[],
+    run: (ids: string[]) => Promise<T[]>,
+    idOf: (row: T) => string | undefined,
+  ): Promise<T[]> {
+    return new Promise<T[]>((resolve, reject) => {
+      let pending = this.batches.get(key) as PendingBatch<T> | undefined;
+      if (!pending) {
+        const created: PendingBatch<T> = { ids: new Set(), waiters: [] };
+        pending = created;
+        this.batches.set(key, created as PendingBatch<unknown>);
+        queueMicrotask(() => {
+          this.batches.delete(key);
+          void this.flush(created, run, idOf);
+        });
+      }
+      ids.forEach((id) => pending.ids.add(id));
+      pending.waiters.push({ ids, resolve, reject });
+    });
+  }
+
+  private async flush<T>(
+    pending: PendingBatch<T>,
+    run: (ids: string[]) => Promise<T[]>,
+    idOf: (row: T) => string | undefined,
+  ) {
+    try {
+      const rows = await run([...pending.ids]);
+      for (const waiter of pending.waiters) {
+        const wanted = new Set(waiter.ids);
+        waiter.resolve(rows.filter((row) => {
+          const id = idOf(row);
+          return id !== undefined && wanted.has(id);
+        }));
+      }
+    } catch (error) {
+      pending.waiters.forEach((waiter) => waiter.reject(error));
+    }
+  }
+}
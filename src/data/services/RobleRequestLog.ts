@@ -0,0 +1,227 @@
+export type RobleRequestSource = "database" | "auth";
+
+export type RobleRequestLogEntry = {
+  id: number;
+  source: RobleRequestSource;
+  method: string;
+  url: string;
+  operation: string;
+  table: string | null;
+  query: Record<string, string>;
+  status: number | null;
+  durationMs: number;
+  startedAt: string;
+  requestBody: unknown;
+  responseBody: unknown;
+  error: string | null;
+};
+
+export type RobleRequestLogState = {
+  entries: RobleRequestLogEntry[];
+};
+
+export type RobleRequestLogFilters = {
+  source?: RobleRequestSource | null;
+  onlyFailures?: boolean;
+  search?: string;
+};
+
+type TrackedRequest = {
+  source: RobleRequestSource;
+  url: string;
+  init: RequestInit;
+};
+
+type TrackedResponse = {
+  status: number;
+  body: unknown;
+};
+
+const DEFAULT_CAPACITY = 200;
+const REDACTED = "[redactado]";
+const SENSITIVE_KEY = /pass(word)?|token|secret|authorization|^code$/i;
+const MAX_ARRAY_ITEMS = 10;
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 6;
+
+/**
+ * Copia del cuerpo apta para mostrar y exportar: oculta contraseñas, tokens y códigos y recorta
+ * listas y textos largos para que el registro no crezca con cada lectura grande.
+ */
+export const redactPayload = (value: unknown, depth = 0): unknown => {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "…";
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redactPayload(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `… ${value.length - MAX_ARRAY_ITEMS} más`] : items;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactPayload(entry, depth + 1);
+  }
+  return result;
+};
+
+const parseBody = (body: RequestInit["body"]): unknown => {
+  if (typeof body !== "string" || body.length === 0) {
+    return null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+// Se analiza a mano: el `URL` de React Native no implementa por completo `searchParams`.
+const splitUrl = (url: string) => {
+  const [path, search = ""] = url.split("?");
+  const query: Record<string, string> = {};
+  for (const pair of search.split("&")) {
+    if (!pair) continue;
+    const [key, raw = ""] = pair.split("=");
+    query[decodeURIComponent(key)] = decodeURIComponent(raw.replace(/\+/g, " "));
+  }
+  const segments = path.split("/").filter(Boolean);
+  return { query, operation: segments[segments.length - 1] ?? "" };
+};
+
+const tableOf = (query: Record<string, string>, body: unknown): string | null => {
+  if (query.tableName) {
+    return query.tableName;
+  }
+  if (body && typeof body === "object" && "tableName" in body && typeof body.tableName === "string") {
+    return body.tableName;
+  }
+  return null;
+};
+
+export const filterRequestLog = (
+  entries: RobleRequestLogEntry[],
+  { source, onlyFailures = false, search = "" }: RobleRequestLogFilters = {},
+): RobleRequestLogEntry[] => {
+  const needle = search.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (source && entry.source !== source) return false;
+    if (onlyFailures && entry.error === null && entry.status !== null && entry.status < 400) return false;
+    if (!needle) return true;
+    return [entry.url, entry.table ?? "", entry.operation, entry.method, String(entry.status ?? "")].some(
+      (field) => field.toLowerCase().includes(needle),
+    );
+  });
+};
+
+export const exportRequestLog = (entries: RobleRequestLogEntry[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+
+/**
+ * Registro en memoria de las últimas peticiones a ROBLE para el inspector de red. Es un búfer
+ * circular: al llenarse, cada petición nueva reemplaza a la más antigua.
+ */
+export class RobleRequestLog {
+  private state: RobleRequestLogState = { entries: [] };
+  private readonly listeners = new Set<() => void>();
+  private readonly buffer: (RobleRequestLogEntry | undefined)[];
+  private nextSlot = 0;
+  private nextId = 1;
+
+  constructor(capacity: number = DEFAULT_CAPACITY) {
+    this.buffer = new Array(Math.max(1, capacity));
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Entradas de la más reciente a la más antigua. */
+  getSnapshot(): RobleRequestLogState {
+    return this.state;
+  }
+
+  async track<T>(
+    request: TrackedRequest,
+    run: () => Promise<T>,
+    describeResponse: (result: T) => TrackedResponse | Promise<TrackedResponse>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const requestBody = parseBody(request.init.body);
+    const { query, operation } = splitUrl(request.url);
+    const base = {
+      source: request.source,
+      method: request.init.method ?? "GET",
+      url: request.url,
+      operation,
+      table: tableOf(query, requestBody),
+      query: redactPayload(query) as Record<string, string>,
+      startedAt: new Date(startedAt).toISOString(),
+      requestBody: redactPayload(requestBody),
+    };
+
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      this.record({
+        ...base,
+        status: null,
+        durationMs: Date.now() - startedAt,
+        responseBody: null,
+        error: error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+      });
+      throw error;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    try {
+      const response = await describeResponse(result);
+      this.record({
+        ...base,
+        status: response.status,
+        durationMs,
+        responseBody: redactPayload(response.body),
+        error: null,
+      });
+    } catch (error) {
+      console.debug("[ROBLE_LOG] No se pudo registrar la respuesta", error);
+    }
+    return result;
+  }
+
+  clear() {
+    this.buffer.fill(undefined);
+    this.nextSlot = 0;
+    this.setEntries([]);
+  }
+
+  private record(entry: Omit<RobleRequestLogEntry, "id">) {
+    this.buffer[this.nextSlot] = { ...entry, id: this.nextId++ };
+    this.nextSlot = (this.nextSlot + 1) % this.buffer.length;
+
+    const ordered: RobleRequestLogEntry[] = [];
+    for (let offset = 1; offset <= this.buffer.length; offset += 1) {
+      const slot = (this.nextSlot - offset + this.buffer.length) % this.buffer.length;
+      const item = this.buffer[slot];
+      if (item) ordered.push(item);
+    }
+    this.setEntries(ordered);
+  }
+
+  private setEntries(entries: RobleRequestLogEntry[]) {
+    this.state = { entries };
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("RobleRequestLog listener error", error);
+      }
+    }
+  }
+}
@@ -1,27 +1,88 @@
+import { PRODUCTION_ROBLE_DEFAULTS } from "@/src/core/environment/robleEnvironments";
+import {
+  ConflictError,
+  isRetryableRobleError,
+  RobleAbortError,
+  RobleError,
+  robleErrorForStatus,
+  RobleNotFoundError,
+} from "./RobleErrors";
+import { RobleQuery, RobleQueryOperator, ROBLE_SERVER_OPERATORS } from "./RobleQuery";
+import { RobleReadCache } from "./RobleReadCache";
+import { RobleRequestCoalescer } from "./RobleRequestCoalescer";
+import { RobleRequestLog } from "./RobleRequestLog";
+import { FetchRobleTransport, RobleTransport, RobleTransportResponse } from "./RobleTransport";
+
 type QueryValue = string | number | boolean | undefined | null;
 
+export type RobleReadQuery = Record<string, QueryValue> | RobleQuery;
+
+export type RobleRetryPolicy = {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type RobleRequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // `false` desactiva los reintentos; un objeto parcial ajusta la política por defecto.
+  retry?: Partial<RobleRetryPolicy> | false;
+  // `false` lee siempre del servidor aunque la tabla use la caché persistente.
+  cache?: boolean;
+};
+
+export type RobleInsertOptions = RobleRequestOptions & {
+  idempotencyKey?: string;
+};
+
+type RobleWriteOptions = Pick<RobleRequestOptions, "signal" | "timeoutMs">;
+
+export type RobleUpdateOptions = RobleWriteOptions & {
+  // `updated_at` con el que se leyó la fila (`null` si nunca se había editado). Sin este valor la
+  // actualización no comprueba si alguien más la modificó antes.
+  expectedVersion?: string | null;
+};
+
 type RobleConfig = {
   authBaseUrl: string;
   databaseBaseUrl: string;
   databaseName: string;
   readonlyEmail?: string;
   readonlyPassword?: string;
+  retry: RobleRetryPolicy;
+  serverQueryOperators: readonly RobleQueryOperator[];
 };
 
 type InsertResponse = Record<string, unknown>;
 type UpdateResponse = Record<string, unknown>;
+type DeleteResponse = Record<string, unknown>;
 type RecordPayload = Record<string, unknown>;
 
+export type DeleteRecordsResult = {
+  deleted: string[];
+  failed: { id: string; error: Error }[];
+};
+
+type AccessTokenRefresher = (rejectedToken: string) => Promise<string | null>;
+
 type TokenCache = {
   token: string;
   expiresAt: number;
 };
 
-const DEFAULT_AUTH_URL = "https://roble-api.openlab.uninorte.edu.co/auth";
-const DEFAULT_DATABASE_URL = "https://roble-api.openlab.uninorte.edu.co/database";
-const DEFAULT_DB_NAME = "courseven_66a52df881";
 const TEMP_TOKEN_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY_POLICY: RobleRetryPolicy = { retries: 2, baseDelayMs: 300, maxDelayMs: 4000 };
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
 const DATABASE_SEGMENT = "/database";
+const VERSION_COLUMN = "updated_at";
+// Tablas que se editan desde formularios y llevan `updated_at` para detectar escrituras concurrentes.
+const VERSIONED_TABLES: readonly string[] = ["courses", "categories", "groups", "activities"];
+
+const readRowVersion = (row: Record<string, unknown>): string | null => {
+  const value = row[VERSION_COLUMN];
+  return typeof value === "string" && value.length > 0 ? value : null;
+};
 
 const ensureNoTrailingSlash = (value: string) =>
   value.endsWith("/") ? value.slice(0, -1) : value;
@@ -37,18 +98,6 @@ const normaliseDatabaseUrl = (value: string) => {
   return `${trimmed}${DATABASE_SEGMENT}`;
 };
 
-const parseJson = async <T>(response: Response): Promise<T> => {
-  const text = await response.text();
-  if (!text) {
-    return {} as T;
-  }
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    throw new Error("Respuesta inválida del servicio ROBLE");
-  }
-};
-
 const toQueryParamValue = (value: QueryValue): string | undefined => {
   if (value === undefined || value === null) {
     return undefined;
@@ -59,6 +108,27 @@ const toQueryParamValue = (value: QueryValue): string | undefined => {
   return String(value);
 };
 
+// "Full jitter": espera aleatoria entre 0 y el tope exponencial del intento.
+const backoffDelay = (policy: RobleRetryPolicy, attempt: number) =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const waitFor = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RobleAbortError("Solicitud cancelada"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RobleAbortError("Solicitud cancelada"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
 const buildQueryString = (input: Record<string, QueryValue> = {}) => {
   const params = new URLSearchParams();
   for (const [key, rawValue] of Object.entries(input)) {
@@ -76,23 +146,26 @@ export class RobleService {
   private readonly databaseFallbackBase: string;
   private tempTokenCache: TokenCache | null = null;
   private pendingTempToken?: Promise<string>;
-
-  constructor(config: Partial<RobleConfig> = {}) {
-    const envAuth = process.env.EXPO_PUBLIC_ROBLE_AUTH_BASE_URL;
-    const envDbUrl = process.env.EXPO_PUBLIC_ROBLE_DB_BASE_URL;
-    const envDbName =
-      process.env.EXPO_PUBLIC_ROBLE_DB_NAME ?? process.env.EXPO_PUBLIC_ROBLE_PROJECT_ID;
-    const envReadonlyEmail = process.env.EXPO_PUBLIC_ROBLE_READONLY_EMAIL;
-    const envReadonlyPassword = process.env.EXPO_PUBLIC_ROBLE_READONLY_PASSWORD;
-
+  private readonly coalescer = new RobleRequestCoalescer();
+
+  constructor(
+    config: Partial<Omit<RobleConfig, "retry">> & { retry?: Partial<RobleRetryPolicy> } = {},
+    private readonly transport: RobleTransport = new FetchRobleTransport(),
+    private readonly refreshAccessToken?: AccessTokenRefresher,
+    private readonly readCache?: RobleReadCache,
+    private readonly requestLog?: RobleRequestLog,
+  ) {
+    // La configuración llega del perfil de entorno activo; sin él se usa el servidor de producción.
     const merged: RobleConfig = {
-      authBaseUrl: ensureNoTrailingSlash(config.authBaseUrl ?? envAuth ?? DEFAULT_AUTH_URL),
+      authBaseUrl: ensureNoTrailingSlash(config.authBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.authBaseUrl),
       databaseBaseUrl: normaliseDatabaseUrl(
-        config.databaseBaseUrl ?? envDbUrl ?? DEFAULT_DATABASE_URL,
+        config.databaseBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.databaseBaseUrl,
       ),
-      databaseName: config.databaseName ?? envDbName ?? DEFAULT_DB_NAME,
-      readonlyEmail: config.readonlyEmail ?? envReadonlyEmail,
-      readonlyPassword: config.readonlyPassword ?? envReadonlyPassword,
+      databaseName: config.databaseName ?? PRODUCTION_ROBLE_DEFAULTS.databaseName,
+      readonlyEmail: config.readonlyEmail,
+      readonlyPassword: config.readonlyPassword,
+      retry: { ...DEFAULT_RETRY_POLICY, ...config.retry },
+      serverQueryOperators: config.serverQueryOperators ?? ROBLE_SERVER_OPERATORS,
     };
 
     if (!merged.databaseName) {
@@ -107,12 +180,11 @@ export class RobleService {
 
   async readCourses(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "courses",
-      query: params.query,
     });
   }
 
@@ -120,9 +192,12 @@ export class RobleService {
     accessToken: string;
     teacherId: string;
     limit?: number;
-  }): Promise<RecordPayload[]> {
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
       accessToken: params.accessToken,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+      retry: params.retry,
       table: "courses",
       query: {
         teacher_id: params.teacherId,
@@ -134,21 +209,23 @@ export class RobleService {
   async readCoursesByJoinCode(params: {
     accessToken: string;
     joinCode: string;
-  }): Promise<RecordPayload[]> {
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    const { joinCode, ...options } = params;
     return this.readCourses({
-      accessToken: params.accessToken,
-      query: { join_code: params.joinCode },
+      ...options,
+      query: { join_code: joinCode },
     });
   }
 
   async insertCourse(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "courses",
-      records: [params.record],
+      records: [record],
     });
   }
 
@@ -156,67 +233,87 @@ export class RobleService {
     accessToken: string;
     id: string;
     updates: RecordPayload;
-  }): Promise<UpdateResponse> {
-    return this.updateRow({
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    return this.updateRow({ ...params, table: "courses" });
+  }
+
+  async deleteCourse(params: {
+    accessToken: string;
+    id: string;
+  }): Promise<DeleteResponse> {
+    return this.deleteRow({
       accessToken: params.accessToken,
       table: "courses",
       id: params.id,
-      updates: params.updates,
     });
   }
 
   async readEnrollments(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "enrollments",
-      query: params.query,
     });
   }
 
   async readUsers(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "users",
-      query: params.query,
     });
   }
 
+  async updateUser(params: {
+    accessToken: string;
+    id: string;
+    updates: RecordPayload;
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    return this.updateRow({ ...params, table: "users" });
+  }
+
+  async deleteUser(params: {
+    accessToken: string;
+    id: string;
+  } & RobleWriteOptions): Promise<DeleteResponse> {
+    return this.deleteRow({ ...params, table: "users" });
+  }
+
   async insertEnrollment(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "enrollments",
-      records: [params.record],
+      records: [record],
     });
   }
 
   async readCategories(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "categories",
-      query: params.query,
     });
   }
 
   async insertCategory(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "categories",
-      records: [params.record],
+      records: [record],
     });
   }
 
@@ -224,34 +321,52 @@ export class RobleService {
     accessToken: string;
     id: string;
     updates: RecordPayload;
-  }): Promise<UpdateResponse> {
-    return this.updateRow({
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    return this.updateRow({ ...params, table: "categories" });
+  }
+
+  async deleteCategory(params: {
+    accessToken: string;
+    id: string;
+  }): Promise<DeleteResponse> {
+    return this.deleteRow({
       accessToken: params.accessToken,
       table: "categories",
       id: params.id,
-      updates: params.updates,
     });
   }
 
   async readGroups(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
+      table: "groups",
+    });
+  }
+
+  async readGroupsByIds(params: {
+    accessToken: string;
+    ids: string[];
+    query?: Record<string, QueryValue>;
+    scope?: Record<string, QueryValue>;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    return this.readRowsByIds({
+      ...params,
       table: "groups",
-      query: params.query,
     });
   }
 
   async insertGroup(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "groups",
-      records: [params.record],
+      records: [record],
     });
   }
 
@@ -259,34 +374,40 @@ export class RobleService {
     accessToken: string;
     id: string;
     updates: RecordPayload;
-  }): Promise<UpdateResponse> {
-    return this.updateRow({
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    return this.updateRow({ ...params, table: "groups" });
+  }
+
+  async deleteGroup(params: {
+    accessToken: string;
+    id: string;
+  }): Promise<DeleteResponse> {
+    return this.deleteRow({
       accessToken: params.accessToken,
       table: "groups",
       id: params.id,
-      updates: params.updates,
     });
   }
 
   async readActivities(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "activities",
-      query: params.query,
     });
   }
 
   async insertActivity(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "activities",
-      records: [params.record],
+      records: [record],
     });
   }
 
@@ -294,34 +415,54 @@ export class RobleService {
     accessToken: string;
     id: string;
     updates: RecordPayload;
-  }): Promise<UpdateResponse> {
-    return this.updateRow({
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    return this.updateRow({ ...params, table: "activities" });
+  }
+
+  async deleteActivity(params: {
+    accessToken: string;
+    id: string;
+  }): Promise<DeleteResponse> {
+    return this.deleteRow({
       accessToken: params.accessToken,
       table: "activities",
       id: params.id,
-      updates: params.updates,
     });
   }
 
   async readMemberships(params: {
     accessToken: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
     return this.readTable({
-      accessToken: params.accessToken,
+      ...params,
       table: "memberships",
-      query: params.query,
+    });
+  }
+
+  async readMembershipsByGroupIds(params: {
+    accessToken: string;
+    groupIds: string[];
+    query?: Record<string, QueryValue>;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    const { groupIds, ...options } = params;
+    return this.readRowsByIds({
+      ...options,
+      table: "memberships",
+      column: "group_id",
+      ids: groupIds,
     });
   }
 
   async insertMembership(params: {
     accessToken: string;
     record: RecordPayload;
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
     return this.insertRecords({
-      accessToken: params.accessToken,
+      ...options,
       table: "memberships",
-      records: [params.record],
+      records: [record],
     });
   }
 
@@ -338,90 +479,275 @@ export class RobleService {
     });
   }
 
-  async updateRow(params: {
+  async deleteMembership(params: {
+    accessToken: string;
+    id: string;
+  }): Promise<DeleteResponse> {
+    return this.deleteRow({
+      accessToken: params.accessToken,
+      table: "memberships",
+      id: params.id,
+    });
+  }
+
+  async readCourseStaff(params: {
+    accessToken: string;
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    return this.readTable({
+      ...params,
+      table: "course_staff",
+    });
+  }
+
+  async insertCourseStaff(params: {
+    accessToken: string;
+    record: RecordPayload;
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
+    return this.insertRecords({
+      ...options,
+      table: "course_staff",
+      records: [record],
+    });
+  }
+
+  async updateCourseStaff(params: {
     accessToken: string;
-    table: string;
     id: string;
     updates: RecordPayload;
   }): Promise<UpdateResponse> {
-    const payload = {
-      tableName: params.table,
-      idColumn: "_id",
-      idValue: params.id,
+    return this.updateRow({
+      accessToken: params.accessToken,
+      table: "course_staff",
+      id: params.id,
       updates: params.updates,
-    };
+    });
+  }
 
-    const primaryUrl = `${this.config.databaseBaseUrl}/${this.config.databaseName}/update`;
-    const fallbackUrl = `${this.databaseFallbackBase}/${this.config.databaseName}/update`;
+  async readAuditLog(params: {
+    accessToken: string;
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    return this.readTable({
+      ...params,
+      table: "audit_log",
+    });
+  }
 
-    const headers = this.authHeaders(params.accessToken);
-    const first = await this.fetchJson<UpdateResponse>(primaryUrl, {
-      method: "PUT",
-      headers,
-      body: JSON.stringify(payload),
+  async insertAuditLog(params: {
+    accessToken: string;
+    record: RecordPayload;
+  } & RobleInsertOptions): Promise<InsertResponse> {
+    const { record, ...options } = params;
+    return this.insertRecords({
+      ...options,
+      table: "audit_log",
+      records: [record],
     });
+  }
 
-    if (first.status === 200 || first.status === 201) {
-      return first.data;
+  /**
+   * En las tablas versionadas cada actualización renueva `updated_at`. Si se indica
+   * `expectedVersion`, antes de escribir se relee la fila y se lanza `ConflictError` si su versión
+   * ya no coincide. ROBLE no ofrece escrituras condicionales, así que la comprobación reduce la
+   * ventana de carrera pero no la elimina.
+   */
+  async updateRow(params: {
+    accessToken: string;
+    table: string;
+    id: string;
+    updates: RecordPayload;
+  } & RobleUpdateOptions): Promise<UpdateResponse> {
+    const versioned = VERSIONED_TABLES.includes(params.table);
+    if (versioned && params.expectedVersion !== undefined) {
+      await this.assertRowVersion(params);
     }
+    const updates = versioned
+      ? { ...params.updates, [VERSION_COLUMN]: new Date().toISOString() }
+      : params.updates;
+    return this.sendWithFallback<UpdateResponse>({
+      accessToken: params.accessToken,
+      table: params.table,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+      operation: "update",
+      method: "PUT",
+      payload: {
+        tableName: params.table,
+        idColumn: "_id",
+        idValue: params.id,
+        updates,
+      },
+    });
+  }
 
-    if (first.status === 404 && fallbackUrl !== primaryUrl) {
-      const retry = await this.fetchJson<UpdateResponse>(fallbackUrl, {
-        method: "PUT",
-        headers,
-        body: JSON.stringify(payload),
+  private async assertRowVersion(params: {
+    accessToken: string;
+    table: string;
+    id: string;
+    expectedVersion?: string | null;
+  } & RobleWriteOptions) {
+    const rows = await this.readTable({
+      accessToken: params.accessToken,
+      table: params.table,
+      query: { _id: params.id },
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+      cache: false,
+    });
+    const current = rows[0];
+    if (!current) {
+      throw new RobleNotFoundError(`El registro ${params.id} ya no existe en ${params.table}`, {
+        status: 404,
+        table: params.table,
       });
-      if (retry.status === 200 || retry.status === 201) {
-        return retry.data;
-      }
-      throw this.buildDbError(params.table, retry.status, retry.data);
     }
+    const currentVersion = readRowVersion(current);
+    const expectedVersion = params.expectedVersion ?? null;
+    if (currentVersion !== expectedVersion) {
+      // Lo guardado en la caché es anterior al cambio que provocó el conflicto.
+      await this.readCache?.invalidate(params.table);
+      throw new ConflictError(`El registro ${params.id} de ${params.table} cambió en el servidor`, {
+        status: 409,
+        table: params.table,
+        payload: current,
+        expectedVersion,
+        currentVersion,
+      });
+    }
+  }
 
-    throw this.buildDbError(params.table, first.status, first.data);
+  async deleteRow(params: {
+    accessToken: string;
+    table: string;
+    id: string;
+  } & RobleWriteOptions): Promise<DeleteResponse> {
+    return this.sendWithFallback<DeleteResponse>({
+      accessToken: params.accessToken,
+      table: params.table,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+      operation: "delete",
+      method: "DELETE",
+      payload: {
+        tableName: params.table,
+        idColumn: "_id",
+        idValue: params.id,
+      },
+    });
+  }
+
+  async deleteRecords(params: {
+    accessToken: string;
+    table: string;
+    ids: string[];
+  }): Promise<DeleteRecordsResult> {
+    const result: DeleteRecordsResult = { deleted: [], failed: [] };
+    for (const id of params.ids) {
+      try {
+        await this.deleteRow({ accessToken: params.accessToken, table: params.table, id });
+        result.deleted.push(id);
+      } catch (error) {
+        result.failed.push({
+          id,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+    return result;
   }
 
   async readTable(params: {
     accessToken: string;
     table: string;
-    query?: Record<string, QueryValue>;
-  }): Promise<RecordPayload[]> {
-    const query = buildQueryString({ tableName: params.table, ...params.query });
+    query?: RobleReadQuery;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    const { query: serverQuery, applyClientSide } = this.serialiseQuery(params.query);
+    const query = buildQueryString({ tableName: params.table, ...serverQuery });
     const url = `${this.config.databaseBaseUrl}/${this.config.databaseName}/read${query}`;
 
-    const response = await this.fetchJson<unknown>(url, {
-      method: "GET",
-      headers: this.authHeaders(params.accessToken),
-    });
+    // Una lectura cancelable no se comparte: abortarla no debe afectar a otros llamadores.
+    const load = () =>
+      params.signal
+        ? this.fetchRows(url, params)
+        : this.coalescer.share(`${params.accessToken} ${url}`, () => this.fetchRows(url, params));
+    const rows =
+      this.readCache && params.cache !== false
+        ? await this.readCache.read(params.table, query, load)
+        : await load();
+    return applyClientSide ? applyClientSide(rows) : [...rows];
+  }
+
+  /**
+   * Lee las filas cuyo `column` (por defecto `_id`) está en `ids`. Los ids pedidos en el mismo ciclo
+   * del event loop sobre la misma tabla, columna y filtros se juntan. ROBLE solo filtra por igualdad:
+   * con `scope` (el padre que contiene todas las filas, p. ej. `{ course_id }`) varios ids se
+   * resuelven con una sola lectura del padre; sin él, con una lectura por id.
+   */
+  async readRowsByIds(params: {
+    accessToken: string;
+    table: string;
+    ids: string[];
+    column?: string;
+    query?: Record<string, QueryValue>;
+    scope?: Record<string, QueryValue>;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    const { table, column = "_id", query = {}, scope, ids: requested, ...options } = params;
+    const ids = [...new Set(requested.filter((id) => id.length > 0))];
+    if (!ids.length) {
+      return [];
+    }
 
-    if (response.status === 200) {
-      const data = response.data;
-      if (Array.isArray(data)) {
-        return data as RecordPayload[];
+    const base = { ...query, ...scope };
+    const run = async (batchIds: string[]) => {
+      if (scope && batchIds.length > 1) {
+        const wanted = new Set(batchIds);
+        const rows = await this.readTable({ ...options, table, query: base });
+        return rows.filter((row) => wanted.has(toQueryParamValue(row[column] as QueryValue) ?? ""));
       }
-      return [];
+      const batches = await Promise.all(
+        batchIds.map((id) => this.readTable({ ...options, table, query: { ...base, [column]: id } })),
+      );
+      return batches.flat();
+    };
+    if (options.signal) {
+      return run(ids);
     }
 
-    throw this.buildDbError(params.table, response.status, response.data);
+    const key = JSON.stringify([options.accessToken, table, column, query, scope ?? null]);
+    return this.coalescer.batch(key, ids, run, (row) => toQueryParamValue(row[column] as QueryValue));
   }
 
   async insertRecords(params: {
     accessToken: string;
     table: string;
     records: RecordPayload[];
-  }): Promise<InsertResponse> {
+  } & RobleInsertOptions): Promise<InsertResponse> {
     const url = `${this.config.databaseBaseUrl}/${this.config.databaseName}/insert`;
     const payload = {
       tableName: params.table,
       records: params.records,
     };
 
-    const response = await this.fetchJson<InsertResponse>(url, {
-      method: "POST",
-      headers: this.authHeaders(params.accessToken),
-      body: JSON.stringify(payload),
-    });
+    // Un insert solo se reintenta si el llamador aporta una clave de idempotencia.
+    const headers: Record<string, string> = this.authHeaders(params.accessToken);
+    if (params.idempotencyKey) {
+      headers["Idempotency-Key"] = params.idempotencyKey;
+    }
+    const response = await this.sendWithRetry<InsertResponse>(
+      url,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify(payload),
+      },
+      params,
+      Boolean(params.idempotencyKey),
+    );
 
     if (response.status === 200 || response.status === 201) {
+      await this.readCache?.invalidate(params.table);
       return response.data;
     }
 
@@ -447,7 +773,10 @@ export class RobleService {
       return response.data ?? {};
     }
 
-    throw new Error(this.extractErrorMessage(response.data) ?? "Error en login auth");
+    throw robleErrorForStatus(this.extractErrorMessage(response.data) ?? "Error en login auth", {
+      status: response.status,
+      payload: response.data,
+    });
   }
 
   async getTempAccessToken(): Promise<string> {
@@ -462,7 +791,7 @@ export class RobleService {
 
     if (!this.config.readonlyEmail || !this.config.readonlyPassword) {
       throw new Error(
-        "Faltan credenciales de solo lectura (EXPO_PUBLIC_ROBLE_READONLY_EMAIL / PASSWORD)",
+        "Faltan credenciales de solo lectura en el perfil de entorno activo",
       );
     }
 
@@ -487,40 +816,170 @@ export class RobleService {
     return this.pendingTempToken;
   }
 
-  private authHeaders(accessToken: string) {
+  private async sendWithFallback<T>(params: {
+    accessToken: string;
+    table: string;
+    operation: "update" | "delete";
+    method: "PUT" | "DELETE";
+    payload: RecordPayload;
+  } & RobleWriteOptions): Promise<T> {
+    const primaryUrl = `${this.config.databaseBaseUrl}/${this.config.databaseName}/${params.operation}`;
+    const fallbackUrl = `${this.databaseFallbackBase}/${this.config.databaseName}/${params.operation}`;
+
+    const init: RequestInit = {
+      method: params.method,
+      headers: this.authHeaders(params.accessToken),
+      body: JSON.stringify(params.payload),
+      signal: params.signal,
+    };
+    const first = await this.fetchJson<T>(primaryUrl, init, params.timeoutMs);
+
+    if (first.status === 200 || first.status === 201) {
+      await this.readCache?.invalidate(params.table);
+      return first.data;
+    }
+
+    if (first.status === 404 && fallbackUrl !== primaryUrl) {
+      const retry = await this.fetchJson<T>(fallbackUrl, init, params.timeoutMs);
+      if (retry.status === 200 || retry.status === 201) {
+        await this.readCache?.invalidate(params.table);
+        return retry.data;
+      }
+      throw this.buildDbError(params.table, retry.status, retry.data);
+    }
+
+    throw this.buildDbError(params.table, first.status, first.data);
+  }
+
+  private async fetchRows(url: string, params: {
+    accessToken: string;
+    table: string;
+  } & RobleRequestOptions): Promise<RecordPayload[]> {
+    const response = await this.sendWithRetry<unknown>(
+      url,
+      {
+        method: "GET",
+        headers: this.authHeaders(params.accessToken),
+      },
+      params,
+      true,
+    );
+
+    if (response.status === 200) {
+      return Array.isArray(response.data) ? (response.data as RecordPayload[]) : [];
+    }
+
+    throw this.buildDbError(params.table, response.status, response.data);
+  }
+
+  private serialiseQuery(query: RobleReadQuery | undefined): {
+    query: Record<string, QueryValue>;
+    applyClientSide: ((rows: RecordPayload[]) => RecordPayload[]) | null;
+  } {
+    if (!(query instanceof RobleQuery)) {
+      return { query: query ?? {}, applyClientSide: null };
+    }
+    const serialised = query.serialise(this.config.serverQueryOperators);
+    return { query: serialised.params, applyClientSide: serialised.applyClientSide };
+  }
+
+  private authHeaders(accessToken: string): Record<string, string> {
     return {
       "Content-Type": "application/json",
       Authorization: `Bearer ${accessToken}`,
     };
   }
 
-  private async fetchJson<T>(url: string, init: RequestInit): Promise<{
-    status: number;
-    data: T;
-  }> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 20000);
+  private async sendWithRetry<T>(
+    url: string,
+    init: RequestInit,
+    options: RobleRequestOptions,
+    idempotent: boolean,
+  ): Promise<RobleTransportResponse<T>> {
+    const policy =
+      idempotent && options.retry !== false ? { ...this.config.retry, ...options.retry } : null;
+    const request = { ...init, signal: options.signal };
+
+    for (let attempt = 0; ; attempt += 1) {
+      const canRetry = policy !== null && attempt < policy.retries;
+      try {
+        const response = await this.fetchJson<T>(url, request, options.timeoutMs);
+        if (!canRetry || !RETRYABLE_STATUSES.has(response.status)) {
+          return response;
+        }
+        console.debug(`[ROBLE] ${init.method ?? "GET"} ${url} respondió ${response.status}, reintento ${attempt + 1}`);
+      } catch (error) {
+        if (!canRetry || !isRetryableRobleError(error)) {
+          throw error;
+        }
+        console.debug(`[ROBLE] ${init.method ?? "GET"} ${url} falló (${(error as Error).name}), reintento ${attempt + 1}`);
+      }
+      await waitFor(backoffDelay(policy, attempt), options.signal);
+    }
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    init: RequestInit,
+    timeoutMs?: number,
+  ): Promise<RobleTransportResponse<T>> {
+    const response = await this.send<T>(url, init, timeoutMs);
+    if (response.status !== 401 || !this.refreshAccessToken) {
+      return response;
+    }
+
+    // Solo se renueva el token de la sesión; el token temporal de solo lectura se gestiona aparte.
+    const rejected = this.bearerTokenOf(init);
+    if (!rejected || rejected === this.tempTokenCache?.token) {
+      return response;
+    }
+
+    const fresh = await this.refreshAccessToken(rejected);
+    if (!fresh || fresh === rejected) {
+      return response;
+    }
 
-    try {
-      const response = await fetch(url, {
+    console.debug(`[ROBLE] 401 en ${init.method ?? "GET"} ${url}, reintentando con token renovado`);
+    return this.send<T>(
+      url,
+      {
         ...init,
-        signal: controller.signal,
-      });
-      const data = await parseJson<T>(response);
-      return { status: response.status, data };
-    } finally {
-      clearTimeout(timeout);
+        headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${fresh}` },
+      },
+      timeoutMs,
+    );
+  }
+
+  private send<T>(url: string, init: RequestInit, timeoutMs?: number): Promise<RobleTransportResponse<T>> {
+    const run = () => this.transport.send<T>(url, init, { timeoutMs });
+    if (!this.requestLog) {
+      return run();
     }
+    const source = url.startsWith(this.config.authBaseUrl) ? "auth" : "database";
+    return this.requestLog.track({ source, url, init }, run, (response) => ({
+      status: response.status,
+      body: response.data,
+    }));
+  }
+
+  private bearerTokenOf(init: RequestInit): string | null {
+    const headers = init.headers as Record<string, string> | undefined;
+    const value = headers?.Authorization;
+    return value?.startsWith("Bearer ") ? value.slice("Bearer ".length) : null;
   }
 
   private buildDbError(
     table: string,
     status: number,
     data: unknown,
-  ): Error {
+  ): RobleError {
     const base = `Error en base de datos (${table}) - status ${status}`;
     const detail = this.extractErrorMessage(data);
-    return new Error(detail ? `${base}: ${detail}` : base);
+    return robleErrorForStatus(detail ? `${base}: ${detail}` : base, {
+      status,
+      table,
+      payload: data,
+    });
   }
 
   private extractErrorMessage(data: unknown): string | null {
@@ -0,0 +1,78 @@
+import { RobleAbortError, RobleNetworkError, RobleTimeoutError } from "./RobleErrors";
+
+export type RobleTransportResponse<T> = {
+  status: number;
+  data: T;
+};
+
+export type RobleTransportOptions = {
+  timeoutMs?: number;
+};
+
+export interface RobleTransport {
+  send<T>(url: string, init: RequestInit, options?: RobleTransportOptions): Promise<RobleTransportResponse<T>>;
+}
+
+const DEFAULT_TIMEOUT_MS = 20000;
+
+const parseJson = async <T>(response: Response): Promise<T> => {
+  const text = await response.text();
+  if (!text) {
+    return {} as T;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error("Respuesta inválida del servicio ROBLE");
+  }
+};
+
+export class FetchRobleTransport implements RobleTransport {
+  constructor(private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS) {}
+
+  async send<T>(
+    url: string,
+    init: RequestInit,
+    options: RobleTransportOptions = {},
+  ): Promise<RobleTransportResponse<T>> {
+    const external = init.signal ?? undefined;
+    if (external?.aborted) {
+      throw new RobleAbortError("Solicitud cancelada");
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onExternalAbort = () => controller.abort();
+    external?.addEventListener("abort", onExternalAbort, { once: true });
+
+    try {
+      const response = await fetch(url, {
+        ...init,
+        signal: controller.signal,
+      });
+      const data = await parseJson<T>(response);
+      return { status: response.status, data };
+    } catch (error) {
+      if (timedOut) {
+        throw new RobleTimeoutError(`Tiempo de espera agotado (${timeoutMs} ms) para ${url}`, {
+          cause: error,
+        });
+      }
+      if (external?.aborted) {
+        throw new RobleAbortError("Solicitud cancelada", { cause: error });
+      }
+      if (error instanceof TypeError) {
+        throw new RobleNetworkError(`No se pudo conectar con ROBLE: ${error.message}`, { cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      external?.removeEventListener("abort", onExternalAbort);
+    }
+  }
+}
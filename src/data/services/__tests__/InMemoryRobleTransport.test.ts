@@ -0,0 +1,90 @@
+import { CategoryRepositoryImpl } from "@/src/data/repositories/CategoryRepositoryImpl";
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { RobleService } from "../RobleService";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+describe("InMemoryRobleTransport", () => {
+  it("inserts, filters and updates courses through the repository", async () => {
+    const transport = new InMemoryRobleTransport();
+    const service = new RobleService(config, transport);
+    const repo = new CourseRepositoryImpl(service, { getAccessToken: async () => "token" });
+
+    const created = await repo.createCourse({
+      id: "",
+      name: "Algoritmos",
+      description: "Curso base",
+      joinCode: "ABC123",
+      teacherId: "t1",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      isActive: true,
+    });
+    expect(created.id).not.toHaveLength(0);
+
+    transport.seed("courses", [{ name: "Otro", teacher_id: "t2", is_active: true }]);
+    const mine = await repo.getCoursesByTeacher("t1");
+    expect(mine.map((course) => course.name)).toEqual(["Algoritmos"]);
+
+    const updated = await repo.setCourseActive(created.id, false);
+    expect(updated.isActive).toBe(false);
+    expect(await repo.getCourseByJoinCode("ABC123")).toBeNull();
+  });
+
+  it("falls back to the legacy update path when the primary one returns 404", async () => {
+    const transport = new InMemoryRobleTransport({ servedPathPrefix: "/testdb" });
+    transport.seed("groups", [{ _id: "g1", name: "Grupo 1", is_active: true }]);
+    const service = new RobleService(config, transport);
+
+    const response = await service.updateGroup({
+      accessToken: "token",
+      id: "g1",
+      updates: { name: "Grupo renombrado" },
+    });
+
+    expect(response.updated).toEqual([
+      { _id: "g1", name: "Grupo renombrado", is_active: true, updated_at: expect.any(String) },
+    ]);
+    expect(transport.rows("groups")[0].name).toBe("Grupo renombrado");
+  });
+
+  it("distinguishes archiving from purging a record", async () => {
+    const transport = new InMemoryRobleTransport();
+    transport.seed("categories", [
+      { _id: "c1", name: "Talleres", course_id: "k1", is_active: true },
+      { _id: "c2", name: "Proyectos", course_id: "k1", is_active: true },
+    ]);
+    const service = new RobleService(config, transport);
+    const repo = new CategoryRepositoryImpl(service, { getAccessToken: async () => "token" });
+
+    await repo.archiveCategory("c1");
+    await repo.purgeCategory("c2");
+
+    expect(transport.rows("categories")).toEqual([
+      { _id: "c1", name: "Talleres", course_id: "k1", is_active: false, updated_at: expect.any(String) },
+    ]);
+    const result = await service.deleteRecords({ accessToken: "token", table: "categories", ids: ["c1", "c2"] });
+    expect(result.deleted).toEqual(["c1"]);
+    expect(result.failed.map((entry) => entry.id)).toEqual(["c2"]);
+  });
+
+  it("rejects requests without an access token", async () => {
+    const service = new RobleService(config, new InMemoryRobleTransport());
+    await expect(service.readGroups({ accessToken: "" })).rejects.toThrow("status 401");
+  });
+
+  it("retries once with a refreshed token after a 401", async () => {
+    const transport = new InMemoryRobleTransport({ authorize: (token) => token === "fresh" });
+    transport.seed("groups", [{ _id: "g1", name: "Grupo 1", is_active: true }]);
+    const refresh = jest.fn(async () => "fresh");
+    const service = new RobleService(config, transport, refresh);
+
+    const rows = await service.readGroups({ accessToken: "expired" });
+
+    expect(rows).toHaveLength(1);
+    expect(refresh).toHaveBeenCalledWith("expired");
+  });
+});
@@ -0,0 +1,51 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { ConflictError } from "../RobleErrors";
+import { RobleService } from "../RobleService";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+const setup = () => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("courses", [
+    { _id: "k1", name: "Algoritmos", description: "Intro", teacher_id: "t1", is_active: true },
+  ]);
+  const service = new RobleService(config, transport);
+  const repository = new CourseRepositoryImpl(service, { getAccessToken: async () => "token" });
+  return { transport, repository };
+};
+
+describe("RobleService optimistic concurrency", () => {
+  it("rejects an update based on a version that another editor already replaced", async () => {
+    const { repository } = setup();
+    const first = await repository.getCourseById("k1");
+    const second = await repository.getCourseById("k1");
+    expect(first?.updatedAt).toBeNull();
+
+    const saved = await repository.updateCourse({ ...first!, name: "Algoritmos II" });
+    expect(saved.updatedAt).toEqual(expect.any(String));
+
+    const conflict = await repository
+      .updateCourse({ ...second!, description: "Grafos" })
+      .catch((error) => error);
+    expect(conflict).toBeInstanceOf(ConflictError);
+    expect(conflict.currentVersion).toBe(saved.updatedAt);
+    expect(conflict.payload).toMatchObject({ name: "Algoritmos II", description: "Intro" });
+  });
+
+  it("writes over a newer version when forced or when the version is unknown", async () => {
+    const { repository } = setup();
+    const stale = await repository.getCourseById("k1");
+    await repository.updateCourse({ ...stale!, name: "Algoritmos II" });
+
+    const forced = await repository.updateCourse({ ...stale!, description: "Grafos" }, { force: true });
+    const { updatedAt: _ignored, ...withoutVersion } = stale!;
+    const unchecked = await repository.updateCourse({ ...withoutVersion, name: "Algoritmos III" });
+
+    expect(forced.description).toBe("Grafos");
+    expect(unchecked.name).toBe("Algoritmos III");
+  });
+});
@@ -0,0 +1,45 @@
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import {
+  describeError,
+  RobleAuthError,
+  RobleNetworkError,
+  RobleNotFoundError,
+} from "../RobleErrors";
+import { RobleService } from "../RobleService";
+import { FetchRobleTransport } from "../RobleTransport";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+describe("RobleErrors", () => {
+  it("maps HTTP statuses to typed errors carrying the table and payload", async () => {
+    const service = new RobleService(config, new InMemoryRobleTransport());
+
+    const unauthorized = await service.readGroups({ accessToken: "" }).catch((error) => error);
+    expect(unauthorized).toBeInstanceOf(RobleAuthError);
+    expect(unauthorized).toMatchObject({ status: 401, table: "groups", payload: { message: "Unauthorized" } });
+
+    const missing = await service
+      .updateGroup({ accessToken: "token", id: "nope", updates: { name: "x" } })
+      .catch((error) => error);
+    expect(missing).toBeInstanceOf(RobleNotFoundError);
+    expect(missing.status).toBe(404);
+    expect(describeError(missing)).toMatch(/No encontramos/);
+  });
+
+  it("wraps fetch failures as network errors", async () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn(async () => {
+      throw new TypeError("Network request failed");
+    }) as unknown as typeof fetch;
+
+    try {
+      const error = await new FetchRobleTransport().send("https://roble.test/x", { method: "GET" }).catch((e) => e);
+      expect(error).toBeInstanceOf(RobleNetworkError);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
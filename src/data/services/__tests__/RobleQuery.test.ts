@@ -0,0 +1,61 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { containsPattern, robleQuery } from "../RobleQuery";
+import { RobleService } from "../RobleService";
+
+const rows = [
+  { _id: "1", name: "Álgebra lineal", credits: 3, created_at: "2024-03-01", is_active: true },
+  { _id: "2", name: "Algoritmos", credits: 4, created_at: "2024-01-15", is_active: true },
+  { _id: "3", name: "Física 100%", credits: 2, created_at: "2024-02-10", is_active: false },
+];
+
+describe("RobleQuery", () => {
+  it("sends equality and paging to the server when nothing else is needed", () => {
+    const { params, applyClientSide } = robleQuery().eq("is_active", true).limit(10).offset(20).serialise();
+
+    expect(params).toEqual({ is_active: true, _limit: 10, _offset: 20 });
+    expect(applyClientSide).toBeNull();
+  });
+
+  it("falls back to client-side filtering, ordering and paging for unsupported operators", () => {
+    const { params, applyClientSide } = robleQuery()
+      .eq("is_active", true)
+      .in("_id", ["1", "2", "3"])
+      .gte("credits", 3)
+      .orderBy("created_at", "desc")
+      .page(1, 1)
+      .serialise();
+
+    expect(params).toEqual({ is_active: true });
+    expect(applyClientSide?.(rows).map((row) => row._id)).toEqual(["1"]);
+  });
+
+  it("matches like patterns literally when the term is escaped", () => {
+    const literal = robleQuery().ilike("name", containsPattern("100%")).serialise();
+    const wildcard = robleQuery().like("name", "Al%").serialise();
+
+    expect(literal.applyClientSide?.(rows).map((row) => row._id)).toEqual(["3"]);
+    expect(wildcard.applyClientSide?.(rows).map((row) => row._id)).toEqual(["2"]);
+  });
+
+  it("backs the course search and pagination repository methods", async () => {
+    const transport = new InMemoryRobleTransport();
+    transport.seed("courses", [
+      ...rows.map(({ credits, ...row }) => ({ ...row, teacher_id: "t1" })),
+      { _id: "4", name: "Algoritmos II", teacher_id: "t2", created_at: "2024-04-01", is_active: true },
+    ]);
+    const service = new RobleService(
+      { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+      transport,
+    );
+    const repo = new CourseRepositoryImpl(service, { getAccessToken: async () => "token" });
+
+    const found = await repo.searchCoursesByTitle("algo");
+    expect(found.map((course) => course.id)).toEqual(["2", "4"]);
+
+    const firstPage = await repo.getCoursesPaginated({ teacherId: "t1", page: 1, limit: 1 });
+    const secondPage = await repo.getCoursesPaginated({ teacherId: "t1", page: 2, limit: 1 });
+    expect(firstPage.map((course) => course.id)).toEqual(["1"]);
+    expect(secondPage.map((course) => course.id)).toEqual(["2"]);
+  });
+});
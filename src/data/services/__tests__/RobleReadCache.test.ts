@@ -0,0 +1,77 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { RefreshManager } from "@/src/core/utils/RefreshManager";
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { RobleNetworkError } from "../RobleErrors";
+import { RobleReadCache } from "../RobleReadCache";
+import { RobleService } from "../RobleService";
+
+const setup = (ttlMs: number, onRevalidated?: (table: string) => void) => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("courses", [{ _id: "k1", name: "Algoritmos", teacher_id: "t1", is_active: true }]);
+  const preferences = new InMemoryLocalPreferences();
+  const cache = new RobleReadCache({
+    preferences,
+    refreshManager: new RefreshManager(),
+    getUserId: async () => "u1",
+    ttlMs,
+    onRevalidated,
+  });
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb", retry: { retries: 0 } },
+    transport,
+    undefined,
+    cache,
+  );
+  const send = jest.spyOn(transport, "send");
+  return { transport, cache, service, send, preferences };
+};
+
+const read = (service: RobleService) =>
+  service.readCourses({ accessToken: "token", query: { teacher_id: "t1" } });
+
+describe("RobleReadCache", () => {
+  it("serves fresh entries locally and drops them after a write to the table", async () => {
+    const { service, send, preferences } = setup(60_000);
+
+    await read(service);
+    const cached = await read(service);
+    expect(cached.map((row) => row._id)).toEqual(["k1"]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await preferences.getAllEntries("roble-cache:u1:index")).toHaveLength(1);
+
+    await service.updateCourse({ accessToken: "token", id: "k1", updates: { name: "Algoritmos II" } });
+    const reloaded = await read(service);
+    expect(reloaded[0].name).toBe("Algoritmos II");
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns stale rows immediately and revalidates them in the background", async () => {
+    let markRevalidated: (table: string) => void = () => undefined;
+    const revalidated = new Promise<string>((resolve) => {
+      markRevalidated = resolve;
+    });
+    const { service, transport, cache } = setup(0, (table) => markRevalidated(table));
+
+    await read(service);
+    transport.seed("courses", [{ _id: "k2", name: "Redes", teacher_id: "t1", is_active: true }]);
+
+    const stale = await read(service);
+    expect(stale.map((row) => row._id)).toEqual(["k1"]);
+    expect(cache.staleSince(["courses"])).not.toBeNull();
+
+    await expect(revalidated).resolves.toBe("courses");
+    expect(cache.staleSince(["courses"])).toBeNull();
+  });
+
+  it("falls back to the stored copy when a forced refresh cannot reach the server", async () => {
+    const { service, send, cache } = setup(60_000);
+    await read(service);
+
+    cache.expire();
+    send.mockRejectedValueOnce(new RobleNetworkError("sin red"));
+    const offline = await read(service);
+
+    expect(offline.map((row) => row._id)).toEqual(["k1"]);
+    expect(cache.staleSince(["courses"])).toEqual(expect.any(Number));
+  });
+});
@@ -0,0 +1,118 @@
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { GroupRepositoryImpl } from "@/src/data/repositories/GroupRepositoryImpl";
+import { MembershipRepositoryImpl } from "@/src/data/repositories/MembershipRepositoryImpl";
+import { GetCourseActivitiesForStudentUseCase } from "@/src/domain/usecases/activity/GetCourseActivitiesForStudentUseCase";
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { RobleService } from "../RobleService";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+const deps = { getAccessToken: async () => "token" };
+
+const seedTenCourses = (transport: InMemoryRobleTransport) => {
+  const courses = Array.from({ length: 10 }, (_, index) => `k${index}`);
+  transport.seed(
+    "groups",
+    courses.map((courseId, index) => ({
+      _id: `g${index}`,
+      name: `Grupo ${index}`,
+      course_id: courseId,
+      category_id: `c${index}`,
+      is_active: true,
+    })),
+  );
+  transport.seed(
+    "memberships",
+    courses.map((_, index) => ({ _id: `m${index}`, user_id: "u1", group_id: `g${index}`, is_active: true })),
+  );
+  transport.seed("activities", [
+    { _id: "a1", title: "Taller", course_id: "k3", category_id: "c3", is_active: true },
+    { _id: "a2", title: "Otro", course_id: "k3", category_id: "c9", is_active: true },
+  ]);
+};
+
+describe("RobleRequestCoalescer", () => {
+  it("reads unscoped ids one row at a time and merges concurrent lookups of the same id", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedTenCourses(transport);
+    const send = jest.spyOn(transport, "send");
+    const repo = new GroupRepositoryImpl(new RobleService(config, transport), deps);
+
+    const groups = await Promise.all(["g1", "g1", "g7", "missing"].map((id) => repo.getGroupById(id)));
+    const batch = await repo.getGroupsByIds(["g2", "g3"]);
+
+    expect(groups.map((group) => group?.id ?? null)).toEqual(["g1", "g1", "g7", null]);
+    expect(batch.map((group) => group.id)).toEqual(["g2", "g3"]);
+    expect(send).toHaveBeenCalledTimes(5);
+    // Ninguna lectura descarga la tabla completa para filtrarla en el dispositivo.
+    expect(send.mock.calls.every(([url]) => new URL(url).searchParams.has("_id"))).toBe(true);
+  });
+
+  it("shares identical reads that are already in flight", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedTenCourses(transport);
+    const send = jest.spyOn(transport, "send");
+    const service = new RobleService(config, transport);
+
+    const [first, second] = await Promise.all([
+      service.readGroups({ accessToken: "token", query: { course_id: "k1" } }),
+      service.readGroups({ accessToken: "token", query: { course_id: "k1" } }),
+    ]);
+
+    expect(first).toEqual(second);
+    expect(first).not.toBe(second);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("merges concurrent lookups within a course into one read of that course", async () => {
+    const transport = new InMemoryRobleTransport();
+    transport.seed(
+      "groups",
+      Array.from({ length: 6 }, (_, index) => ({
+        _id: `g${index}`,
+        name: `Grupo ${index}`,
+        course_id: index < 5 ? "k1" : "k2",
+        category_id: "c1",
+        is_active: true,
+      })),
+    );
+    const send = jest.spyOn(transport, "send");
+    const repo = new GroupRepositoryImpl(new RobleService(config, transport), deps);
+
+    const [first, second] = await Promise.all([
+      repo.getGroupsByIds(["g0", "g1", "g5"], { courseId: "k1" }),
+      repo.getGroupsByIds(["g3", "missing"], { courseId: "k1" }),
+    ]);
+
+    expect(first.map((group) => group.id)).toEqual(["g0", "g1"]);
+    expect(second.map((group) => group.id)).toEqual(["g3"]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(new URL(send.mock.calls[0][0]).searchParams.get("course_id")).toBe("k1");
+  });
+
+  it("loads a student's activities with a bounded number of reads", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedTenCourses(transport);
+    const send = jest.spyOn(transport, "send");
+    const service = new RobleService(config, transport);
+    const useCase = new GetCourseActivitiesForStudentUseCase(
+      new CourseActivityRepositoryImpl(service, deps),
+      new MembershipRepositoryImpl(service, deps),
+      new GroupRepositoryImpl(service, deps),
+    );
+
+    const activities = await useCase.execute({ courseId: "k3", userId: "u1" });
+
+    expect(activities.map((activity) => activity.id)).toEqual(["a1"]);
+    const groupReads = send.mock.calls
+      .map(([url]) => new URL(url).searchParams)
+      .filter((params) => params.get("tableName") === "groups");
+    // Las diez membresías se resuelven con una sola lectura de los grupos del curso.
+    expect(groupReads).toHaveLength(1);
+    expect(groupReads[0].get("course_id")).toBe("k3");
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,67 @@
+import { InMemoryRobleTransport } from "../InMemoryRobleTransport";
+import { filterRequestLog, redactPayload, RobleRequestLog } from "../RobleRequestLog";
+import { RobleService } from "../RobleService";
+
+const config = {
+  databaseBaseUrl: "https://roble.test/database",
+  databaseName: "testdb",
+};
+
+describe("RobleRequestLog", () => {
+  it("records service calls with table, query and redacted payloads, newest first", async () => {
+    const transport = new InMemoryRobleTransport();
+    transport.seed("courses", [{ _id: "c1", name: "Algoritmos", teacher_id: "t1", is_active: true }]);
+    const log = new RobleRequestLog();
+    const service = new RobleService(config, transport, undefined, undefined, log);
+
+    await service.readCoursesByTeacher({ accessToken: "token", teacherId: "t1" });
+    await service.insertCourse({
+      accessToken: "token",
+      record: { name: "Redes", teacher_id: "t1", join_code: "XYZ", secret_note: "no" },
+    });
+
+    const [insert, read] = log.getSnapshot().entries;
+    expect(read).toMatchObject({
+      source: "database",
+      method: "GET",
+      operation: "read",
+      table: "courses",
+      query: { teacher_id: "t1" },
+      status: 200,
+      error: null,
+    });
+    expect(read.responseBody).toEqual([expect.objectContaining({ name: "Algoritmos" })]);
+    expect(insert).toMatchObject({ method: "POST", operation: "insert", table: "courses" });
+    expect(JSON.stringify(insert.requestBody)).not.toContain('"no"');
+
+    expect(filterRequestLog(log.getSnapshot().entries, { search: "insert" })).toEqual([insert]);
+    expect(filterRequestLog(log.getSnapshot().entries, { onlyFailures: true })).toEqual([]);
+  });
+
+  it("keeps only the most recent entries and logs failures before rethrowing", async () => {
+    const log = new RobleRequestLog(2);
+    const request = (path: string) => ({
+      source: "auth" as const,
+      url: `https://roble.test/auth/${path}`,
+      init: { method: "POST", body: JSON.stringify({ email: "a@b.co", password: "secreto" }) },
+    });
+    const ok = async () => ({ status: 200, body: { accessToken: "abc", user: { id: "u1" } } });
+
+    await log.track(request("login"), ok, (response) => response);
+    await log.track(request("refresh-token"), ok, (response) => response);
+    await expect(
+      log.track(request("logout"), () => Promise.reject(new Error("sin red")), (response) => response),
+    ).rejects.toThrow("sin red");
+
+    const entries = log.getSnapshot().entries;
+    expect(entries.map((entry) => entry.operation)).toEqual(["logout", "refresh-token"]);
+    expect(entries[0]).toMatchObject({ status: null, error: "Error: sin red" });
+    expect(entries[1].requestBody).toEqual({ email: "a@b.co", password: "[redactado]" });
+    expect(entries[1].responseBody).toEqual({ accessToken: "[redactado]", user: { id: "u1" } });
+    expect(filterRequestLog(entries, { onlyFailures: true })).toHaveLength(1);
+
+    expect(redactPayload(Array.from({ length: 12 }, (_, index) => index))).toHaveLength(11);
+    log.clear();
+    expect(log.getSnapshot().entries).toEqual([]);
+  });
+});
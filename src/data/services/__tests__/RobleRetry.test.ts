@@ -0,0 +1,98 @@
+import { RobleAbortError, RobleServerError } from "../RobleErrors";
+import { RobleService } from "../RobleService";
+import { RobleTransport, RobleTransportResponse } from "../RobleTransport";
+
+type Call = { url: string; init: RequestInit; timeoutMs?: number };
+
+// Transporte con respuestas programadas: devuelve la siguiente de la cola en cada llamada.
+const createScriptedTransport = (responses: RobleTransportResponse<unknown>[]) => {
+  const calls: Call[] = [];
+  const transport: RobleTransport = {
+    send: async <T,>(url: string, init: RequestInit, options: { timeoutMs?: number } = {}) => {
+      calls.push({ url, init, timeoutMs: options.timeoutMs });
+      const next = responses.shift() ?? { status: 200, data: [] };
+      return next as RobleTransportResponse<T>;
+    },
+  };
+  return { transport, calls };
+};
+
+const createService = (transport: RobleTransport) =>
+  new RobleService(
+    {
+      databaseBaseUrl: "https://roble.test/database",
+      databaseName: "testdb",
+      retry: { baseDelayMs: 0, maxDelayMs: 0 },
+    },
+    transport,
+  );
+
+describe("RobleService retries", () => {
+  it("retries reads on transient server errors and honours per-call timeouts", async () => {
+    const { transport, calls } = createScriptedTransport([
+      { status: 503, data: {} },
+      { status: 502, data: {} },
+      { status: 200, data: [{ _id: "g1" }] },
+    ]);
+    const service = createService(transport);
+
+    const rows = await service.readGroups({ accessToken: "token", timeoutMs: 1500 });
+
+    expect(rows).toEqual([{ _id: "g1" }]);
+    expect(calls).toHaveLength(3);
+    expect(calls.every((call) => call.timeoutMs === 1500)).toBe(true);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const { transport, calls } = createScriptedTransport([
+      { status: 500, data: {} },
+      { status: 500, data: {} },
+    ]);
+    const service = createService(transport);
+
+    await expect(
+      service.readGroups({ accessToken: "token", retry: { retries: 1 } }),
+    ).rejects.toBeInstanceOf(RobleServerError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("only retries inserts that carry an idempotency key", async () => {
+    const plain = createScriptedTransport([{ status: 503, data: {} }]);
+    await expect(
+      createService(plain.transport).insertGroup({ accessToken: "token", record: { name: "G" } }),
+    ).rejects.toBeInstanceOf(RobleServerError);
+    expect(plain.calls).toHaveLength(1);
+    expect((plain.calls[0].init.headers as Record<string, string>)["Idempotency-Key"]).toBeUndefined();
+
+    const keyed = createScriptedTransport([
+      { status: 503, data: {} },
+      { status: 201, data: { inserted: [{ _id: "g1" }] } },
+    ]);
+    const response = await createService(keyed.transport).insertGroup({
+      accessToken: "token",
+      record: { name: "G" },
+      idempotencyKey: "join-g1",
+    });
+    expect(response).toEqual({ inserted: [{ _id: "g1" }] });
+    expect(keyed.calls).toHaveLength(2);
+    expect((keyed.calls[1].init.headers as Record<string, string>)["Idempotency-Key"]).toBe("join-g1");
+  });
+
+  it("stops retrying once the caller aborts", async () => {
+    const controller = new AbortController();
+    const { transport, calls } = createScriptedTransport([{ status: 503, data: {} }]);
+    const service = createService(transport);
+    const original = transport.send.bind(transport);
+    transport.send = async <T,>(url: string, init: RequestInit) => {
+      const response = await original<T>(url, init);
+      controller.abort();
+      return response;
+    };
+
+    await expect(
+      service.readGroups({ accessToken: "token", signal: controller.signal }),
+    ).rejects.toBeInstanceOf(RobleAbortError);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].init.signal).toBe(controller.signal);
+  });
+});
@@ -1,9 +1,22 @@
+export type AuditAction = "create" | "update" | "archive" | "restore" | "purge";
+
+export type AuditEntityType =
+  | "course"
+  | "category"
+  | "group"
+  | "membership"
+  | "enrollment"
+  | "activity"
+  | "staff";
+
+// Entrada del historial de cambios: quién (`userId`) hizo qué (`action`) sobre cuál registro.
 export interface Activity {
   id: string;
   userId: string;
   action: string;
   entityType: string | null;
   entityId: string | null;
+  courseId: string | null;
   details: string | null;
   createdAt: string;
 }
@@ -1,3 +1,6 @@
+// Sustituye al evaluador o evaluado cuando su cuenta se elimina; los puntajes siguen contando.
+export const ANONYMIZED_USER_ID = "usuario-eliminado";
+
 export interface Assessment {
   id: string;
   activityId: string;
@@ -7,5 +7,6 @@ export interface Category {
   groupingMethod: string;
   maxMembersPerGroup: number | null;
   createdAt: string;
+  updatedAt?: string | null;
   isActive: boolean;
 }
@@ -5,5 +5,22 @@ export interface Course {
   joinCode: string;
   teacherId: string;
   createdAt: string;
+  // Versión para detectar ediciones concurrentes: `null` si nunca se editó, ausente si se desconoce.
+  updatedAt?: string | null;
   isActive: boolean;
+  // Configuración del código de ingreso; ausente en cursos creados antes de que existiera.
+  joinCodeEnabled?: boolean;
+  // Desde cuándo rige el código actual; las inscripciones anteriores no cuentan para `joinCodeMaxUses`.
+  joinCodeIssuedAt?: string | null;
+  joinCodeExpiresAt?: string | null;
+  joinCodeMaxUses?: number | null;
+  // Si está activo, quien usa el código queda pendiente hasta que un docente lo apruebe.
+  requiresApproval?: boolean;
 }
+
+export type JoinCodeSettings = {
+  enabled: boolean;
+  expiresAt: string | null;
+  maxUses: number | null;
+  requiresApproval: boolean;
+};
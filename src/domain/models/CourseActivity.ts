@@ -7,6 +7,7 @@ export interface CourseActivity {
   createdBy: string;
   dueDate: string | null;
   createdAt: string;
+  updatedAt?: string | null;
   isActive: boolean;
   reviewing: boolean;
   privateReview: boolean;
@@ -0,0 +1,20 @@
+// El dueño sigue siendo `Course.teacherId`; en `course_staff` solo viven co-docentes y asistentes.
+export type CourseStaffRole = "owner" | "coteacher" | "assistant";
+
+export const COURSE_STAFF_ROLES: CourseStaffRole[] = ["owner", "coteacher", "assistant"];
+
+export const COURSE_STAFF_ROLE_LABELS: Record<CourseStaffRole, string> = {
+  owner: "Docente titular",
+  coteacher: "Co-docente",
+  assistant: "Asistente",
+};
+
+export interface CourseStaffMember {
+  id: string;
+  courseId: string;
+  userId: string;
+  role: Exclude<CourseStaffRole, "owner">;
+  invitedBy: string;
+  createdAt: string;
+  isActive: boolean;
+}
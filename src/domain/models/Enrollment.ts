@@ -1,7 +1,15 @@
+export type EnrollmentStatus = "active" | "pending" | "rejected";
+
 export interface Enrollment {
   id: string;
   studentId: string;
   courseId: string;
   enrolledAt: string;
+  // Las solicitudes pendientes o rechazadas quedan inactivas: no dan acceso al curso.
   isActive: boolean;
+  status?: EnrollmentStatus;
 }
+
+// Las inscripciones anteriores a la aprobación no guardan estado y cuentan como aceptadas.
+export const enrollmentStatusOf = (enrollment: Pick<Enrollment, "status">): EnrollmentStatus =>
+  enrollment.status ?? "active";
@@ -5,5 +5,6 @@ export interface Group {
   courseId: string;
   teacherId: string;
   createdAt: string;
+  updatedAt?: string | null;
   isActive: boolean;
 }
@@ -0,0 +1,116 @@
+import { Course } from "@/src/domain/models/Course";
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+
+export type PolicyAction =
+  | "course.view"
+  | "course.update"
+  | "course.archive"
+  | "course.purge"
+  | "course.viewHistory"
+  | "course.viewRoster"
+  | "course.viewStaff"
+  | "course.manageStaff"
+  | "category.create"
+  | "category.update"
+  | "category.archive"
+  | "group.create"
+  | "group.update"
+  | "group.archive"
+  | "group.join"
+  | "activity.create"
+  | "activity.update"
+  | "activity.archive"
+  | "activity.viewAll"
+  | "enrollment.join"
+  | "enrollment.review"
+  | "assessment.submit"
+  | "assessment.viewResults";
+
+export type CourseRole = "owner" | "coteacher" | "assistant" | "student" | "none";
+
+export type PolicyUser = { id: string } | null | undefined;
+
+export type PolicyResource = {
+  course: Pick<Course, "teacherId"> | null | undefined;
+  // Rol en `course_staff` de quien no es el dueño del curso.
+  staffRole?: CourseStaffMember["role"] | null;
+  // Solo hace falta para acciones de estudiante; si se omite, quien no es docente cuenta como ajeno.
+  isEnrolled?: boolean;
+};
+
+const OWNER: CourseRole[] = ["owner"];
+const TEACHERS: CourseRole[] = ["owner", "coteacher"];
+// Los asistentes solo gestionan grupos y revisan resultados; el contenido del curso es de los docentes.
+const STAFF: CourseRole[] = ["owner", "coteacher", "assistant"];
+
+const RULES: Record<PolicyAction, CourseRole[]> = {
+  "course.view": [...STAFF, "student"],
+  "course.update": TEACHERS,
+  "course.archive": OWNER,
+  "course.purge": OWNER,
+  "course.viewHistory": TEACHERS,
+  "course.viewRoster": STAFF,
+  "course.viewStaff": STAFF,
+  "course.manageStaff": OWNER,
+  "category.create": TEACHERS,
+  "category.update": TEACHERS,
+  "category.archive": TEACHERS,
+  "group.create": STAFF,
+  "group.update": STAFF,
+  "group.archive": STAFF,
+  "group.join": ["student"],
+  "activity.create": TEACHERS,
+  "activity.update": TEACHERS,
+  "activity.archive": TEACHERS,
+  "activity.viewAll": STAFF,
+  // Inscribirse es para quien aún no participa del curso, nunca para su docente.
+  "enrollment.join": ["none"],
+  "enrollment.review": TEACHERS,
+  "assessment.submit": ["student"],
+  "assessment.viewResults": STAFF,
+};
+
+const DENIED_MESSAGES: Partial<Record<PolicyAction, string>> = {
+  "enrollment.join": "No puedes inscribirte como estudiante en un curso que enseñas",
+  "group.join": "Debes estar inscrito en el curso para unirte a un grupo",
+  "assessment.submit": "Solo los estudiantes del curso pueden calificar",
+};
+
+export class ForbiddenError extends Error {
+  constructor(readonly action: PolicyAction, message?: string) {
+    super(message ?? DENIED_MESSAGES[action] ?? "No tienes permisos para realizar esta acción");
+    this.name = "ForbiddenError";
+  }
+}
+
+export const courseRoleOf = (user: PolicyUser, resource: PolicyResource): CourseRole => {
+  if (!user?.id || !resource.course) {
+    return "none";
+  }
+  if (resource.course.teacherId === user.id) {
+    return "owner";
+  }
+  if (resource.staffRole) {
+    return resource.staffRole;
+  }
+  return resource.isEnrolled ? "student" : "none";
+};
+
+export const isCourseStaffRole = (role: CourseRole): boolean => STAFF.includes(role);
+
+/**
+ * Punto único de decisión de permisos por curso. Las pantallas lo usan para mostrar u ocultar
+ * acciones y los casos de uso lo vuelven a comprobar con `authorize` antes de escribir.
+ */
+export const can = (user: PolicyUser, action: PolicyAction, resource: PolicyResource): boolean => {
+  if (!user?.id || !resource.course) {
+    return false;
+  }
+  return RULES[action].includes(courseRoleOf(user, resource));
+};
+
+export const authorize = (user: PolicyUser, action: PolicyAction, resource: PolicyResource): void => {
+  if (!can(user, action, resource)) {
+    throw new ForbiddenError(action);
+  }
+};
@@ -0,0 +1,39 @@
+import { Course } from "@/src/domain/models/Course";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { authorize, PolicyAction } from "./AccessPolicy";
+
+const STUDENT_ACTIONS = new Set<PolicyAction>(["course.view", "group.join", "assessment.submit"]);
+
+/**
+ * Carga lo que la política necesita (curso, rol en el equipo docente y, para acciones de
+ * estudiante, la inscripción) y lanza `ForbiddenError` si el usuario no puede realizar la acción.
+ */
+export class CourseAccessGuard {
+  constructor(
+    private readonly courseRepository: CourseRepository,
+    private readonly enrollmentRepository: EnrollmentRepository,
+    private readonly staffRepository: CourseStaffRepository,
+  ) {}
+
+  async authorize(userId: string | null | undefined, action: PolicyAction, courseId: string): Promise<Course> {
+    const course = await this.courseRepository.getCourseById(courseId);
+    if (!course) {
+      throw new Error("Curso no encontrado");
+    }
+    const user = userId ? { id: userId } : null;
+    if (!user || course.teacherId === user.id) {
+      authorize(user, action, { course });
+      return course;
+    }
+
+    const staff = await this.staffRepository.getStaffMember(courseId, user.id);
+    const isEnrolled =
+      !staff && STUDENT_ACTIONS.has(action)
+        ? await this.enrollmentRepository.isStudentEnrolledInCourse(user.id, courseId)
+        : false;
+    authorize(user, action, { course, staffRole: staff?.role ?? null, isEnrolled });
+    return course;
+  }
+}
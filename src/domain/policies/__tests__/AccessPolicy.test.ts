@@ -0,0 +1,115 @@
+import { CategoryRepositoryImpl } from "@/src/data/repositories/CategoryRepositoryImpl";
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { GroupRepositoryImpl } from "@/src/data/repositories/GroupRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { UpdateActivityUseCase } from "@/src/domain/usecases/activity/UpdateActivityUseCase";
+import { ArchiveCategoryUseCase } from "@/src/domain/usecases/category/ArchiveCategoryUseCase";
+import { UpdateCategoryUseCase } from "@/src/domain/usecases/category/UpdateCategoryUseCase";
+import { UpdateGroupUseCase } from "@/src/domain/usecases/group/UpdateGroupUseCase";
+import { can, courseRoleOf, ForbiddenError } from "../AccessPolicy";
+import { CourseAccessGuard } from "../CourseAccessGuard";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport
+    .seed("courses", [
+      { _id: "k1", name: "Algoritmos", teacher_id: "t1", is_active: true },
+      { _id: "k2", name: "Redes", teacher_id: "t2", is_active: true },
+    ])
+    .seed("enrollments", [{ _id: "e1", student_id: "s1", course_id: "k1", is_active: true }])
+    .seed("activities", [{ _id: "a1", title: "Entrega", course_id: "k1", category_id: "c1", is_active: true }])
+    .seed("categories", [
+      { _id: "c1", name: "Proyecto", course_id: "k1", grouping_method: "manual", is_active: true },
+      { _id: "c2", name: "Laboratorio", course_id: "k2", grouping_method: "manual", is_active: true },
+    ])
+    .seed("groups", [{ _id: "g2", name: "Grupo A", course_id: "k2", category_id: "c2", is_active: true }]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const guard = new CourseAccessGuard(
+    new CourseRepositoryImpl(service, deps),
+    new EnrollmentRepositoryImpl(service, deps),
+    new CourseStaffRepositoryImpl(service, deps),
+  );
+  return {
+    transport,
+    guard,
+    activityRepository: new CourseActivityRepositoryImpl(service, deps),
+    categoryRepository: new CategoryRepositoryImpl(service, deps),
+    groupRepository: new GroupRepositoryImpl(service, deps),
+  };
+};
+
+describe("AccessPolicy", () => {
+  const course = { teacherId: "t1" };
+
+  it("grants management to the course teacher and participation to enrolled students", () => {
+    expect(courseRoleOf({ id: "t1" }, { course })).toBe("owner");
+    expect(courseRoleOf({ id: "s1" }, { course, isEnrolled: true })).toBe("student");
+    expect(courseRoleOf({ id: "s1" }, { course })).toBe("none");
+
+    expect(can({ id: "t1" }, "activity.update", { course })).toBe(true);
+    expect(can({ id: "s1" }, "activity.update", { course, isEnrolled: true })).toBe(false);
+    expect(can({ id: "t1" }, "assessment.submit", { course })).toBe(false);
+    expect(can({ id: "s1" }, "assessment.submit", { course, isEnrolled: true })).toBe(true);
+    expect(can({ id: "s1" }, "group.join", { course })).toBe(false);
+    expect(can({ id: "s1" }, "enrollment.join", { course })).toBe(true);
+    expect(can({ id: "t1" }, "enrollment.join", { course })).toBe(false);
+    expect(can(null, "course.view", { course })).toBe(false);
+    expect(can({ id: "t1" }, "course.update", { course: null })).toBe(false);
+  });
+
+  it("rejects activity edits from users who do not teach the stored course", async () => {
+    const { transport, guard, activityRepository } = build();
+    const useCase = new UpdateActivityUseCase(activityRepository, guard);
+    const activity = await activityRepository.getActivityById("a1");
+    if (!activity) throw new Error("missing seed");
+
+    const denied = await useCase
+      .execute({ userId: "s1", activity: { ...activity, title: "Cambiada" } })
+      .catch((error) => error);
+    expect(denied).toBeInstanceOf(ForbiddenError);
+    expect(transport.rows("activities")[0].title).toBe("Entrega");
+
+    const moved = await useCase
+      .execute({ userId: "t1", activity: { ...activity, courseId: "k2", categoryId: "c9" } })
+      .catch((error) => error);
+    expect(moved).toBeInstanceOf(ForbiddenError);
+    expect(transport.rows("activities")[0]).toMatchObject({ course_id: "k1", category_id: "c1" });
+
+    const updated = await useCase.execute({ userId: "t1", activity: { ...activity, title: "Cambiada" } });
+    expect(updated.title).toBe("Cambiada");
+    await expect(guard.authorize("s1", "group.join", "k1")).resolves.toMatchObject({ id: "k1" });
+    await expect(guard.authorize("s2", "group.join", "k1")).rejects.toThrow("inscrito");
+  });
+
+  it("authorizes category and group edits against the stored course, not the draft", async () => {
+    const { transport, guard, categoryRepository, groupRepository } = build();
+    const updateCategory = new UpdateCategoryUseCase(categoryRepository, guard);
+    const archiveCategory = new ArchiveCategoryUseCase(categoryRepository, guard);
+    const updateGroup = new UpdateGroupUseCase(groupRepository, guard);
+    const foreignCategory = await categoryRepository.getCategoryById("c2");
+    const foreignGroup = await groupRepository.getGroupById("g2");
+    if (!foreignCategory || !foreignGroup) throw new Error("missing seed");
+
+    // t1 enseña k1, pero las filas son de k2: presentar k1 en el borrador no basta.
+    await expect(
+      updateCategory.execute({ userId: "t1", category: { ...foreignCategory, courseId: "k1", name: "Mía" } }),
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(
+      updateGroup.execute({ userId: "t1", group: { ...foreignGroup, courseId: "k1", name: "Mío" } }),
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(archiveCategory.execute({ userId: "t1", categoryId: "c2" })).rejects.toBeInstanceOf(ForbiddenError);
+    expect(transport.rows("categories")[1]).toMatchObject({ name: "Laboratorio", course_id: "k2", is_active: true });
+    expect(transport.rows("groups")[0]).toMatchObject({ name: "Grupo A", course_id: "k2" });
+
+    const renamed = await updateGroup.execute({ userId: "t2", group: { ...foreignGroup, name: "Grupo B" } });
+    expect(renamed.name).toBe("Grupo B");
+  });
+});
@@ -0,0 +1,15 @@
+import { Activity } from "../models/Activity";
+import { ReadOptions } from "./ReadOptions";
+
+export type AuditLogEntry = Omit<Activity, "id" | "createdAt">;
+
+export type AuditLogFilters = {
+  entityType?: string;
+  userId?: string;
+  limit?: number;
+};
+
+export interface AuditLogRepository {
+  record(entry: AuditLogEntry): Promise<Activity>;
+  getCourseHistory(courseId: string, filters?: AuditLogFilters & ReadOptions): Promise<Activity[]>;
+}
@@ -4,10 +4,11 @@ export interface CategoryRepository {
   getCategoryById(categoryId: string): Promise<Category | null>;
   getAllCategories(): Promise<Category[]>;
   createCategory(category: Category): Promise<Category>;
-  getCategoriesByCourse(courseId: string): Promise<Category[]>;
+  getCategoriesByCourse(courseId: string, options?: { includeInactive?: boolean }): Promise<Category[]>;
   getCategoriesByTeacher(teacherId: string): Promise<Category[]>;
-  updateCategory(category: Category): Promise<Category>;
-  deleteCategory(categoryId: string): Promise<boolean>;
+  updateCategory(category: Category, options?: { force?: boolean }): Promise<Category>;
+  archiveCategory(categoryId: string): Promise<boolean>;
+  purgeCategory(categoryId: string): Promise<boolean>;
   searchCategoriesByName(name: string): Promise<Category[]>;
   getActiveCategories(): Promise<Category[]>;
   getCategoriesOrdered(): Promise<Category[]>;
@@ -1,10 +1,11 @@
 import { CourseActivity } from "../models/CourseActivity";
 
 export interface CourseActivityRepository {
-  getActivityById(activityId: string): Promise<CourseActivity | null>;
+  getActivityById(activityId: string, options?: { includeInactive?: boolean }): Promise<CourseActivity | null>;
   getActivitiesByCourse(courseId: string): Promise<CourseActivity[]>;
   getActivitiesByCategory(categoryId: string): Promise<CourseActivity[]>;
   createActivity(activity: CourseActivity): Promise<CourseActivity>;
-  updateActivity(activity: CourseActivity): Promise<CourseActivity>;
-  deleteActivity(activityId: string): Promise<boolean>;
+  updateActivity(activity: CourseActivity, options?: { force?: boolean }): Promise<CourseActivity>;
+  archiveActivity(activityId: string): Promise<boolean>;
+  purgeActivity(activityId: string): Promise<boolean>;
 }
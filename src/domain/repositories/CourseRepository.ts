@@ -1,20 +1,29 @@
 import { Course } from "../models/Course";
 
-type PaginatedCourseParams = {
+export type PaginatedCourseParams = {
   page?: number;
   limit?: number;
   categoryId?: string;
   teacherId?: string;
 };
 
+export type JoinCodeChanges = Partial<
+  Pick<
+    Course,
+    "joinCode" | "joinCodeEnabled" | "joinCodeIssuedAt" | "joinCodeExpiresAt" | "joinCodeMaxUses" | "requiresApproval"
+  >
+>;
+
 export interface CourseRepository {
   getCourseById(courseId: string): Promise<Course | null>;
   getCoursesByCategory(categoryId: string): Promise<Course[]>;
   getCoursesByTeacher(teacherId: string): Promise<Course[]>;
   createCourse(course: Course): Promise<Course>;
-  updateCourse(course: Course, options?: { partial?: boolean }): Promise<Course>;
+  updateCourse(course: Course, options?: { partial?: boolean; force?: boolean }): Promise<Course>;
   setCourseActive(courseId: string, active: boolean): Promise<Course>;
-  deleteCourse(courseId: string): Promise<boolean>;
+  updateJoinCode(courseId: string, changes: JoinCodeChanges): Promise<Course>;
+  archiveCourse(courseId: string): Promise<boolean>;
+  purgeCourse(courseId: string): Promise<boolean>;
   searchCoursesByTitle(title: string): Promise<Course[]>;
   getCourseByJoinCode(joinCode: string): Promise<Course | null>;
   getActiveCourses(): Promise<Course[]>;
@@ -0,0 +1,11 @@
+import { CourseStaffMember } from "../models/CourseStaff";
+
+export interface CourseStaffRepository {
+  getStaffByCourse(courseId: string): Promise<CourseStaffMember[]>;
+  getStaffByUser(userId: string): Promise<CourseStaffMember[]>;
+  getStaffMemberById(memberId: string): Promise<CourseStaffMember | null>;
+  getStaffMember(courseId: string, userId: string): Promise<CourseStaffMember | null>;
+  addStaffMember(member: CourseStaffMember): Promise<CourseStaffMember>;
+  updateStaffRole(memberId: string, role: CourseStaffMember["role"]): Promise<CourseStaffMember>;
+  archiveStaffMember(memberId: string): Promise<boolean>;
+}
@@ -1,6 +1,7 @@
 import { Enrollment } from "../models/Enrollment";
+import { ReadOptions } from "./ReadOptions";
 
-type PaginatedEnrollmentParams = {
+export type PaginatedEnrollmentParams = {
   page?: number;
   limit?: number;
   studentId?: string;
@@ -10,10 +11,14 @@ type PaginatedEnrollmentParams = {
 export interface EnrollmentRepository {
   getEnrollmentById(enrollmentId: string): Promise<Enrollment | null>;
   getEnrollmentsByStudent(studentId: string): Promise<Enrollment[]>;
-  getEnrollmentsByCourse(courseId: string): Promise<Enrollment[]>;
+  getEnrollmentsByCourse(
+    courseId: string,
+    options?: { includeInactive?: boolean } & ReadOptions,
+  ): Promise<Enrollment[]>;
   createEnrollment(enrollment: Enrollment): Promise<Enrollment>;
   updateEnrollment(enrollment: Enrollment): Promise<Enrollment>;
-  deleteEnrollment(enrollmentId: string): Promise<boolean>;
+  archiveEnrollment(enrollmentId: string): Promise<boolean>;
+  purgeEnrollment(enrollmentId: string): Promise<boolean>;
   isStudentEnrolledInCourse(studentId: string, courseId: string): Promise<boolean>;
   getActiveEnrollments(): Promise<Enrollment[]>;
   getEnrollmentsPaginated(params?: PaginatedEnrollmentParams): Promise<Enrollment[]>;
@@ -7,13 +7,15 @@ export type PaginatedGroupParams = {
 };
 
 export interface GroupRepository {
-  getGroupById(groupId: string): Promise<Group | null>;
-  getGroupsByCourse(courseId: string): Promise<Group[]>;
+  getGroupById(groupId: string, options?: { includeInactive?: boolean }): Promise<Group | null>;
+  getGroupsByIds(groupIds: string[], options?: { courseId?: string }): Promise<Group[]>;
+  getGroupsByCourse(courseId: string, options?: { includeInactive?: boolean }): Promise<Group[]>;
   createGroup(group: Group): Promise<Group>;
   getGroupsByCategory(categoryId: string): Promise<Group[]>;
   getGroupsByTeacher(teacherId: string): Promise<Group[]>;
-  updateGroup(group: Group): Promise<Group>;
-  deleteGroup(groupId: string): Promise<boolean>;
+  updateGroup(group: Group, options?: { force?: boolean }): Promise<Group>;
+  archiveGroup(groupId: string): Promise<boolean>;
+  purgeGroup(groupId: string): Promise<boolean>;
   searchGroupsByName(name: string): Promise<Group[]>;
   getActiveGroups(): Promise<Group[]>;
   getGroupsPaginated(params?: PaginatedGroupParams): Promise<Group[]>;
@@ -8,10 +8,12 @@ export type PaginatedMembershipParams = {
 export interface MembershipRepository {
   getMembershipById(membershipId: string): Promise<Membership | null>;
   getMembershipsByUserId(userId: string): Promise<Membership[]>;
-  getMembershipsByGroupId(groupId: string): Promise<Membership[]>;
+  getMembershipsByGroupId(groupId: string, options?: { includeInactive?: boolean }): Promise<Membership[]>;
+  getMembershipsByGroupIds(groupIds: string[], options?: { includeInactive?: boolean }): Promise<Membership[]>;
   createMembership(membership: Membership): Promise<Membership>;
   updateMembership(membership: Membership): Promise<Membership>;
-  deleteMembership(membershipId: string): Promise<boolean>;
+  archiveMembership(membershipId: string): Promise<boolean>;
+  purgeMembership(membershipId: string): Promise<boolean>;
   isUserMemberOfGroup(userId: string, groupId: string): Promise<boolean>;
   getActiveMemberships(): Promise<Membership[]>;
   getMembershipsPaginated(params?: PaginatedMembershipParams): Promise<Membership[]>;
@@ -0,0 +1,4 @@
+/** Opciones de lectura compartidas; con `signal` una pantalla cancela la consulta al cerrarse. */
+export type ReadOptions = {
+  signal?: AbortSignal;
+};
@@ -1,6 +1,6 @@
 import { User } from "../models/User";
 
-type PaginatedUserParams = {
+export type PaginatedUserParams = {
   page?: number;
   limit?: number;
 };
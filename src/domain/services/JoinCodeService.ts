@@ -0,0 +1,69 @@
+import { Course } from "@/src/domain/models/Course";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+
+// Sin 0/O ni 1/I/L para que el código se pueda dictar en clase sin confusiones.
+export const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 6;
+const MAX_GENERATION_ATTEMPTS = 10;
+
+// Los códigos anteriores también eran mayúsculas, así que normalizar no rompe los ya repartidos.
+export const normalizeJoinCode = (value: string) => value.trim().toUpperCase();
+
+const secureRandom = (): number => {
+  const crypto = (globalThis as { crypto?: { getRandomValues?: (array: Uint32Array) => Uint32Array } }).crypto;
+  if (crypto?.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0] / 0x100000000;
+  }
+  return Math.random();
+};
+
+/**
+ * Genera códigos de ingreso y decide si uno todavía admite inscripciones. Los usos se cuentan
+ * como inscripciones al curso desde que se emitió el código, así que el estudiante nunca tiene
+ * que escribir en la fila del curso.
+ */
+export class JoinCodeService {
+  constructor(
+    private readonly courseRepository: CourseRepository,
+    private readonly enrollmentRepository: EnrollmentRepository,
+    private readonly random: () => number = secureRandom,
+  ) {}
+
+  async generate(): Promise<string> {
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+      const code = this.randomCode();
+      if (!(await this.courseRepository.getCourseByJoinCode(code))) {
+        return code;
+      }
+    }
+    throw new Error("No se pudo generar un código de ingreso único. Inténtalo de nuevo.");
+  }
+
+  async assertUsable(course: Course, now: Date = new Date()): Promise<void> {
+    if (course.joinCodeEnabled === false) {
+      throw new Error("El docente desactivó el código de ingreso de este curso");
+    }
+    if (course.joinCodeExpiresAt && new Date(course.joinCodeExpiresAt).getTime() <= now.getTime()) {
+      throw new Error("El código de ingreso expiró. Pide uno nuevo a tu docente.");
+    }
+    const maxUses = course.joinCodeMaxUses;
+    if (maxUses !== null && maxUses !== undefined && (await this.countUses(course)) >= maxUses) {
+      throw new Error("El código de ingreso alcanzó su límite de usos");
+    }
+  }
+
+  async countUses(course: Course): Promise<number> {
+    const since = new Date(course.joinCodeIssuedAt ?? course.createdAt).getTime();
+    const enrollments = await this.enrollmentRepository.getEnrollmentsByCourse(course.id, { includeInactive: true });
+    return enrollments.filter((enrollment) => new Date(enrollment.enrolledAt).getTime() >= since).length;
+  }
+
+  private randomCode(): string {
+    let code = "";
+    for (let index = 0; index < JOIN_CODE_LENGTH; index++) {
+      code += JOIN_CODE_ALPHABET[Math.floor(this.random() * JOIN_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+}
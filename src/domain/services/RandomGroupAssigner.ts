@@ -0,0 +1,80 @@
+import { Category } from "@/src/domain/models/Category";
+import { Group } from "@/src/domain/models/Group";
+import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+
+/**
+ * Ubica a un estudiante recién admitido en un grupo con cupo de cada categoría aleatoria del
+ * curso en la que todavía no tenga grupo.
+ */
+export class RandomGroupAssigner {
+  constructor(
+    private readonly categoryRepository: CategoryRepository,
+    private readonly groupRepository: GroupRepository,
+    private readonly membershipRepository: MembershipRepository,
+  ) {}
+
+  async assign(courseId: string, userId: string): Promise<void> {
+    const categories = await this.categoryRepository.getCategoriesByCourse(courseId);
+    const randomCategories = categories.filter(
+      (category) => category.groupingMethod.toLowerCase() === "random",
+    );
+    if (!randomCategories.length) {
+      return;
+    }
+
+    const assignedCategories = await this.collectAssignedCategoryIds(courseId, userId);
+
+    for (const category of randomCategories) {
+      if (assignedCategories.has(category.id)) {
+        continue;
+      }
+      const groups = await this.groupRepository.getGroupsByCategory(category.id);
+      const targetGroup = await this.findGroupWithCapacity(groups, category);
+      if (!targetGroup) {
+        continue;
+      }
+      await this.membershipRepository.createMembership({
+        id: "",
+        userId,
+        groupId: targetGroup.id,
+        joinedAt: new Date().toISOString(),
+        isActive: true,
+      });
+      assignedCategories.add(category.id);
+    }
+  }
+
+  private async collectAssignedCategoryIds(courseId: string, userId: string): Promise<Set<string>> {
+    const memberships = await this.membershipRepository.getMembershipsByUserId(userId);
+    const groups = await this.groupRepository.getGroupsByIds(
+      memberships.map((membership) => membership.groupId),
+      { courseId },
+    );
+    return new Set(groups.map((group) => group.categoryId));
+  }
+
+  private async findGroupWithCapacity(groups: Group[], category: Category): Promise<Group | null> {
+    const limit = this.getMaxMembersPerGroup(category);
+    if (limit === null) {
+      return groups[0] ?? null;
+    }
+    const members = await this.membershipRepository.getMembershipsByGroupIds(
+      groups.map((group) => group.id),
+    );
+    const counts = new Map<string, number>();
+    for (const member of members) {
+      counts.set(member.groupId, (counts.get(member.groupId) ?? 0) + 1);
+    }
+    return groups.find((group) => (counts.get(group.id) ?? 0) < limit) ?? null;
+  }
+
+  private getMaxMembersPerGroup(category: Category): number | null {
+    const value = category.maxMembersPerGroup;
+    if (typeof value === "number" && value > 0) {
+      return value;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,82 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { RegenerateJoinCodeUseCase } from "@/src/domain/usecases/course/RegenerateJoinCodeUseCase";
+import { JOIN_CODE_ALPHABET, JoinCodeService } from "../JoinCodeService";
+
+const build = (random?: () => number) => {
+  const transport = new InMemoryRobleTransport();
+  transport
+    .seed("courses", [
+      {
+        _id: "k1",
+        name: "Algoritmos",
+        teacher_id: "t1",
+        join_code: "AAAAAA",
+        join_code_issued_at: "2024-03-01T00:00:00.000Z",
+        join_code_max_uses: 2,
+        is_active: true,
+      },
+    ])
+    .seed("enrollments", [
+      { _id: "e1", student_id: "s1", course_id: "k1", enrolled_at: "2024-02-01T00:00:00.000Z", is_active: true },
+      { _id: "e2", student_id: "s2", course_id: "k1", enrolled_at: "2024-03-02T00:00:00.000Z", is_active: false },
+    ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const courseRepository = new CourseRepositoryImpl(service, deps);
+  const enrollmentRepository = new EnrollmentRepositoryImpl(service, deps);
+  const joinCodes = new JoinCodeService(courseRepository, enrollmentRepository, random);
+  const guard = new CourseAccessGuard(
+    courseRepository,
+    enrollmentRepository,
+    new CourseStaffRepositoryImpl(service, deps),
+  );
+  const regenerate = new RegenerateJoinCodeUseCase(courseRepository, joinCodes, guard);
+  return { transport, courseRepository, joinCodes, regenerate };
+};
+
+describe("JoinCodeService", () => {
+  it("skips codes already taken by another course", async () => {
+    // Los primeros seis valores producen "AAAAAA", que ya usa k1.
+    const values = [...Array(6).fill(0), ...Array(6).fill(0.99)];
+    const { joinCodes } = build(() => values.shift() ?? 0.5);
+
+    const code = await joinCodes.generate();
+
+    const last = JOIN_CODE_ALPHABET[JOIN_CODE_ALPHABET.length - 1];
+    expect(code).toBe(last.repeat(6));
+  });
+
+  it("counts uses since the code was issued and enforces expiry, limit and the enabled flag", async () => {
+    const { courseRepository, joinCodes } = build();
+    const course = await courseRepository.getCourseById("k1");
+    if (!course) throw new Error("missing seed");
+
+    expect(await joinCodes.countUses(course)).toBe(1);
+    await expect(joinCodes.assertUsable(course)).resolves.toBeUndefined();
+    await expect(joinCodes.assertUsable({ ...course, joinCodeMaxUses: 1 })).rejects.toThrow("límite de usos");
+    await expect(
+      joinCodes.assertUsable({ ...course, joinCodeExpiresAt: "2024-04-01T00:00:00.000Z" }, new Date("2024-04-02")),
+    ).rejects.toThrow("expiró");
+    await expect(joinCodes.assertUsable({ ...course, joinCodeEnabled: false })).rejects.toThrow("desactivó");
+  });
+
+  it("lets only teachers regenerate the code, which restarts the use count", async () => {
+    const { transport, regenerate, joinCodes } = build();
+
+    await expect(regenerate.execute({ userId: "s1", courseId: "k1" })).rejects.toThrow();
+    expect(transport.rows("courses")[0].join_code).toBe("AAAAAA");
+
+    const updated = await regenerate.execute({ userId: "t1", courseId: "k1" });
+    expect(updated.joinCode).not.toBe("AAAAAA");
+    expect(updated.joinCode).toMatch(new RegExp(`^[${JOIN_CODE_ALPHABET}]{6}$`));
+    expect(await joinCodes.countUses(updated)).toBe(0);
+  });
+});
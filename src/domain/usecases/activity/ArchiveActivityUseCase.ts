@@ -0,0 +1,23 @@
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+
+export type ArchiveActivityParams = {
+  userId: string | null;
+  activityId: string;
+};
+
+export class ArchiveActivityUseCase {
+  constructor(
+    private readonly repository: CourseActivityRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, activityId }: ArchiveActivityParams): Promise<boolean> {
+    const activity = await this.repository.getActivityById(activityId);
+    if (!activity) {
+      throw new Error("Actividad no encontrada");
+    }
+    await this.accessGuard.authorize(userId, "activity.archive", activity.courseId);
+    return this.repository.archiveActivity(activityId);
+  }
+}
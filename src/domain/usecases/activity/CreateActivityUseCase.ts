@@ -0,0 +1,42 @@
+import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+
+export type CreateActivityParams = {
+  title: string;
+  description?: string | null;
+  courseId: string;
+  categoryId: string;
+  createdBy: string;
+  dueDate?: string | null;
+  reviewing?: boolean;
+  privateReview?: boolean;
+};
+
+export class CreateActivityUseCase {
+  constructor(
+    private readonly repository: CourseActivityRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute(params: CreateActivityParams): Promise<CourseActivity> {
+    await this.accessGuard.authorize(params.createdBy, "activity.create", params.courseId);
+
+    const rawDescription = params.description ?? null;
+    const activity: CourseActivity = {
+      id: "",
+      title: params.title.trim(),
+      description: typeof rawDescription === "string" ? rawDescription.trim() : null,
+      courseId: params.courseId,
+      categoryId: params.categoryId,
+      createdBy: params.createdBy,
+      dueDate: params.dueDate ?? null,
+      createdAt: new Date().toISOString(),
+      isActive: true,
+      reviewing: params.reviewing ?? false,
+      privateReview: params.privateReview ?? false,
+    };
+
+    return this.repository.createActivity(activity);
+  }
+}
@@ -34,13 +34,15 @@ export class GetCourseActivitiesForStudentUseCase {
       return [];
     }
 
-    const categoryIds = new Set<string>();
-    for (const membership of memberships) {
-      const group = await this.groupRepository.getGroupById(membership.groupId);
-      if (group && group.courseId === params.courseId) {
-        categoryIds.add(group.categoryId);
-      }
-    }
+    const groups = await this.groupRepository.getGroupsByIds(
+      memberships.map((membership) => membership.groupId),
+      { courseId: params.courseId },
+    );
+    const categoryIds = new Set(
+      groups
+        .filter((group) => group.courseId === params.courseId)
+        .map((group) => group.categoryId),
+    );
 
     if (!categoryIds.size) {
       return [];
@@ -0,0 +1,31 @@
+import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { ForbiddenError } from "@/src/domain/policies/AccessPolicy";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+
+export type UpdateActivityParams = {
+  userId: string | null;
+  activity: CourseActivity;
+  force?: boolean;
+};
+
+export class UpdateActivityUseCase {
+  constructor(
+    private readonly repository: CourseActivityRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, activity, force }: UpdateActivityParams): Promise<CourseActivity> {
+    // El permiso se decide con el curso guardado, no con el que traiga el borrador.
+    const stored = await this.repository.getActivityById(activity.id);
+    if (!stored) {
+      throw new Error("Actividad no encontrada");
+    }
+    await this.accessGuard.authorize(userId, "activity.update", stored.courseId);
+    // El repositorio guarda el curso del borrador; moverla escaparía del permiso recién comprobado.
+    if (activity.courseId !== stored.courseId) {
+      throw new ForbiddenError("activity.update", "Una actividad no puede moverse a otro curso");
+    }
+    return this.repository.updateActivity(activity, { force });
+  }
+}
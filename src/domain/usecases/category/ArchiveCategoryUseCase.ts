@@ -0,0 +1,23 @@
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+
+export type ArchiveCategoryParams = {
+  userId: string | null;
+  categoryId: string;
+};
+
+export class ArchiveCategoryUseCase {
+  constructor(
+    private readonly repository: CategoryRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, categoryId }: ArchiveCategoryParams): Promise<boolean> {
+    const category = await this.repository.getCategoryById(categoryId);
+    if (!category) {
+      throw new Error("Categoría no encontrada");
+    }
+    await this.accessGuard.authorize(userId, "category.archive", category.courseId);
+    return this.repository.archiveCategory(categoryId);
+  }
+}
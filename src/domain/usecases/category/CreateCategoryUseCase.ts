@@ -1,4 +1,5 @@
 import { Category } from "@/src/domain/models/Category";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
 import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
 
 export type CreateCategoryParams = {
@@ -11,9 +12,14 @@ export type CreateCategoryParams = {
 };
 
 export class CreateCategoryUseCase {
-  constructor(private readonly repository: CategoryRepository) {}
+  constructor(
+    private readonly repository: CategoryRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
 
   async execute(params: CreateCategoryParams): Promise<Category> {
+    await this.accessGuard.authorize(params.teacherId, "category.create", params.courseId);
+
     const name = params.name.trim();
     const rawDescription = params.description ?? null;
     const description =
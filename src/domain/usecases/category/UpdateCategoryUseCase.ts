@@ -0,0 +1,30 @@
+import { Category } from "@/src/domain/models/Category";
+import { ForbiddenError } from "@/src/domain/policies/AccessPolicy";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+
+export type UpdateCategoryParams = {
+  userId: string | null;
+  category: Category;
+  force?: boolean;
+};
+
+export class UpdateCategoryUseCase {
+  constructor(
+    private readonly repository: CategoryRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, category, force }: UpdateCategoryParams): Promise<Category> {
+    // El permiso se decide con el curso guardado, no con el que traiga el borrador.
+    const stored = await this.repository.getCategoryById(category.id);
+    if (!stored) {
+      throw new Error("Categoría no encontrada");
+    }
+    await this.accessGuard.authorize(userId, "category.update", stored.courseId);
+    if (category.courseId !== stored.courseId) {
+      throw new ForbiddenError("category.update", "Una categoría no puede moverse a otro curso");
+    }
+    return this.repository.updateCategory(category, { force });
+  }
+}
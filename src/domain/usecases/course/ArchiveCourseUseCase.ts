@@ -0,0 +1,176 @@
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { AssessmentRepository } from "@/src/features/peerReview/domain/repositories/AssessmentRepository";
+
+export type ArchiveCourseMode = "archive" | "purge";
+
+export type ArchiveCourseEntity =
+  | "assessments"
+  | "memberships"
+  | "groups"
+  | "activities"
+  | "categories"
+  | "enrollments"
+  | "course";
+
+export type ArchiveCourseSummary = {
+  courseId: string;
+  mode: ArchiveCourseMode;
+  completed: boolean;
+  // Identificadores ya archivados/eliminados por entidad; sirve también como punto de reanudación.
+  changed: Record<ArchiveCourseEntity, string[]>;
+};
+
+export type ArchiveCourseParams = {
+  courseId: string;
+  userId: string;
+  mode?: ArchiveCourseMode;
+  resumeFrom?: ArchiveCourseSummary | null;
+};
+
+type Dependencies = {
+  courseRepository: CourseRepository;
+  categoryRepository: CategoryRepository;
+  groupRepository: GroupRepository;
+  membershipRepository: MembershipRepository;
+  activityRepository: CourseActivityRepository;
+  enrollmentRepository: EnrollmentRepository;
+  assessmentRepository: AssessmentRepository;
+  accessGuard: CourseAccessGuard;
+};
+
+export class ArchiveCourseInterruptedError extends Error {
+  constructor(
+    readonly summary: ArchiveCourseSummary,
+    readonly entity: ArchiveCourseEntity,
+    readonly entityId: string,
+    readonly reason: unknown,
+  ) {
+    const detail = reason instanceof Error ? reason.message : String(reason ?? "Error desconocido");
+    super(`No se pudo completar el ${summary.mode === "purge" ? "borrado" : "archivado"} del curso (${entity} ${entityId}): ${detail}`);
+    this.name = "ArchiveCourseInterruptedError";
+  }
+}
+
+const emptyChanges = (): Record<ArchiveCourseEntity, string[]> => ({
+  assessments: [],
+  memberships: [],
+  groups: [],
+  activities: [],
+  categories: [],
+  enrollments: [],
+  course: [],
+});
+
+const cloneChanges = (changes: Record<ArchiveCourseEntity, string[]>) => {
+  const copy = emptyChanges();
+  for (const entity of Object.keys(copy) as ArchiveCourseEntity[]) {
+    copy[entity] = [...(changes[entity] ?? [])];
+  }
+  return copy;
+};
+
+export class ArchiveCourseUseCase {
+  constructor(private readonly deps: Dependencies) {}
+
+  async execute({ courseId, userId, mode = "archive", resumeFrom }: ArchiveCourseParams): Promise<ArchiveCourseSummary> {
+    if (resumeFrom && (resumeFrom.courseId !== courseId || resumeFrom.mode !== mode)) {
+      throw new Error("El progreso a reanudar no corresponde a este curso u operación");
+    }
+
+    const summary: ArchiveCourseSummary = {
+      courseId,
+      mode,
+      completed: false,
+      changed: resumeFrom ? cloneChanges(resumeFrom.changed) : emptyChanges(),
+    };
+    const purge = mode === "purge";
+    // Al reanudar el curso puede estar ya archivado, pero su docente sigue siendo el mismo.
+    await this.deps.accessGuard.authorize(userId, purge ? "course.purge" : "course.archive", courseId);
+    // Al purgar se incluyen los registros ya archivados; al archivar basta con los activos.
+    const listOptions = { includeInactive: purge };
+
+    const step = async (entity: ArchiveCourseEntity, id: string, action: () => Promise<boolean>) => {
+      if (summary.changed[entity].includes(id)) return;
+      try {
+        await action();
+      } catch (error) {
+        throw new ArchiveCourseInterruptedError(
+          { ...summary, changed: cloneChanges(summary.changed) },
+          entity,
+          id,
+          error,
+        );
+      }
+      summary.changed[entity].push(id);
+    };
+
+    const {
+      courseRepository,
+      categoryRepository,
+      groupRepository,
+      membershipRepository,
+      activityRepository,
+      enrollmentRepository,
+      assessmentRepository,
+    } = this.deps;
+
+    const groups = await groupRepository.getGroupsByCourse(courseId, listOptions);
+    for (const group of groups) {
+      const memberships = await membershipRepository.getMembershipsByGroupId(group.id, listOptions);
+      for (const membership of memberships) {
+        await step("memberships", membership.id, () =>
+          purge
+            ? membershipRepository.purgeMembership(membership.id)
+            : membershipRepository.archiveMembership(membership.id),
+        );
+      }
+      await step("groups", group.id, () =>
+        purge ? groupRepository.purgeGroup(group.id) : groupRepository.archiveGroup(group.id),
+      );
+    }
+
+    const activities = await activityRepository.getActivitiesByCourse(courseId);
+    for (const activity of activities) {
+      // Las evaluaciones no tienen estado activo: se conservan al archivar y solo se borran al purgar.
+      if (purge) {
+        const assessments = await assessmentRepository.getAssessmentsByActivity(activity.id);
+        for (const assessment of assessments) {
+          await step("assessments", assessment.id, () => assessmentRepository.purgeAssessment(assessment.id));
+        }
+      }
+      if (!purge && !activity.isActive) continue;
+      await step("activities", activity.id, () =>
+        purge ? activityRepository.purgeActivity(activity.id) : activityRepository.archiveActivity(activity.id),
+      );
+    }
+
+    const categories = await categoryRepository.getCategoriesByCourse(courseId, listOptions);
+    for (const category of categories) {
+      await step("categories", category.id, () =>
+        purge ? categoryRepository.purgeCategory(category.id) : categoryRepository.archiveCategory(category.id),
+      );
+    }
+
+    const enrollments = await enrollmentRepository.getEnrollmentsByCourse(courseId, listOptions);
+    for (const enrollment of enrollments) {
+      await step("enrollments", enrollment.id, () =>
+        purge
+          ? enrollmentRepository.purgeEnrollment(enrollment.id)
+          : enrollmentRepository.archiveEnrollment(enrollment.id),
+      );
+    }
+
+    await step("course", courseId, () =>
+      purge ? courseRepository.purgeCourse(courseId) : courseRepository.archiveCourse(courseId),
+    );
+
+    summary.completed = true;
+    return summary;
+  }
+}
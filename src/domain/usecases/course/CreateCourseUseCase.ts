@@ -1,5 +1,6 @@
 import { Course } from "@/src/domain/models/Course";
 import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { JoinCodeService } from "@/src/domain/services/JoinCodeService";
 
 export type CreateCourseParams = {
   name: string;
@@ -7,19 +8,13 @@ export type CreateCourseParams = {
   teacherId: string;
 };
 
-const JOIN_CODE_LENGTH = 6;
-
-const padJoinCode = (value: string) => {
-  if (value.length >= JOIN_CODE_LENGTH) {
-    return value.slice(-JOIN_CODE_LENGTH);
-  }
-  return value.padStart(JOIN_CODE_LENGTH, "0");
-};
-
 export class CreateCourseUseCase {
   static readonly maxCoursesPerTeacher = 3;
 
-  constructor(private readonly repository: CourseRepository) {}
+  constructor(
+    private readonly repository: CourseRepository,
+    private readonly joinCodeService: JoinCodeService,
+  ) {}
 
   async execute(params: CreateCourseParams): Promise<Course> {
     const name = params.name.trim();
@@ -33,8 +28,8 @@ export class CreateCourseUseCase {
       );
     }
 
-    const now = Date.now().toString(36).toUpperCase();
-    const joinCode = padJoinCode(now);
+    const joinCode = await this.joinCodeService.generate();
+    const createdAt = new Date().toISOString();
 
     const newCourse: Course = {
       id: "",
@@ -42,8 +37,13 @@ export class CreateCourseUseCase {
       description,
       joinCode,
       teacherId,
-      createdAt: new Date().toISOString(),
+      createdAt,
       isActive: true,
+      joinCodeEnabled: true,
+      joinCodeIssuedAt: createdAt,
+      joinCodeExpiresAt: null,
+      joinCodeMaxUses: null,
+      requiresApproval: false,
     };
 
     return this.repository.createCourse(newCourse);
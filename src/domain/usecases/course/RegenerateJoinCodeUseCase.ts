@@ -0,0 +1,28 @@
+import { Course } from "@/src/domain/models/Course";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { JoinCodeService } from "@/src/domain/services/JoinCodeService";
+
+export type RegenerateJoinCodeParams = {
+  userId: string;
+  courseId: string;
+};
+
+// El código anterior deja de funcionar de inmediato y el contador de usos vuelve a cero.
+export class RegenerateJoinCodeUseCase {
+  constructor(
+    private readonly courseRepository: CourseRepository,
+    private readonly joinCodeService: JoinCodeService,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, courseId }: RegenerateJoinCodeParams): Promise<Course> {
+    await this.accessGuard.authorize(userId, "course.update", courseId);
+    const joinCode = await this.joinCodeService.generate();
+    return this.courseRepository.updateJoinCode(courseId, {
+      joinCode,
+      joinCodeEnabled: true,
+      joinCodeIssuedAt: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { Course, JoinCodeSettings } from "@/src/domain/models/Course";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+
+export type UpdateJoinCodeSettingsParams = {
+  userId: string;
+  courseId: string;
+  settings: JoinCodeSettings;
+};
+
+export class UpdateJoinCodeSettingsUseCase {
+  constructor(
+    private readonly courseRepository: CourseRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, courseId, settings }: UpdateJoinCodeSettingsParams): Promise<Course> {
+    const { enabled, expiresAt, maxUses, requiresApproval } = settings;
+    if (maxUses !== null && (!Number.isInteger(maxUses) || maxUses < 1)) {
+      throw new Error("El límite de usos debe ser un número entero mayor que cero");
+    }
+    if (expiresAt !== null) {
+      const time = new Date(expiresAt).getTime();
+      if (Number.isNaN(time)) {
+        throw new Error("La fecha de expiración no es válida");
+      }
+      if (time <= Date.now()) {
+        throw new Error("La fecha de expiración debe ser futura");
+      }
+    }
+
+    await this.accessGuard.authorize(userId, "course.update", courseId);
+    return this.courseRepository.updateJoinCode(courseId, {
+      joinCodeEnabled: enabled,
+      joinCodeExpiresAt: expiresAt,
+      joinCodeMaxUses: maxUses,
+      requiresApproval,
+    });
+  }
+}
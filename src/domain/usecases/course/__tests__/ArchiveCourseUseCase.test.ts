@@ -0,0 +1,136 @@
+import { CategoryRepositoryImpl } from "@/src/data/repositories/CategoryRepositoryImpl";
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { GroupRepositoryImpl } from "@/src/data/repositories/GroupRepositoryImpl";
+import { MembershipRepositoryImpl } from "@/src/data/repositories/MembershipRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { AssessmentRepository } from "@/src/features/peerReview/domain/repositories/AssessmentRepository";
+import { ArchiveCourseInterruptedError, ArchiveCourseUseCase } from "../ArchiveCourseUseCase";
+
+const seedCourseGraph = (transport: InMemoryRobleTransport) => {
+  transport
+    .seed("courses", [{ _id: "k1", name: "Algoritmos", teacher_id: "t1", join_code: "ABC123", is_active: true }])
+    .seed("categories", [{ _id: "c1", name: "Talleres", course_id: "k1", is_active: true }])
+    .seed("groups", [
+      { _id: "g1", name: "Grupo 1", course_id: "k1", category_id: "c1", is_active: true },
+      { _id: "g2", name: "Grupo 2", course_id: "k1", category_id: "c1", is_active: true },
+    ])
+    .seed("memberships", [
+      { _id: "m1", user_id: "s1", group_id: "g1", is_active: true },
+      { _id: "m2", user_id: "s2", group_id: "g2", is_active: true },
+    ])
+    .seed("activities", [{ _id: "a1", title: "Entrega", course_id: "k1", category_id: "c1", is_active: true }])
+    .seed("enrollments", [{ _id: "e1", student_id: "s1", course_id: "k1", is_active: true }])
+    .seed("courses", [{ _id: "k2", name: "Otro", teacher_id: "t1", is_active: true }])
+    .seed("groups", [{ _id: "g9", name: "Ajeno", course_id: "k2", is_active: true }]);
+};
+
+// Las evaluaciones se simulan aparte: solo importan la lectura por actividad y el borrado.
+const createAssessmentRepository = (rows: { id: string; activityId: string }[]) =>
+  ({
+    getAssessmentsByActivity: async (activityId: string) =>
+      rows.filter((row) => row.activityId === activityId),
+    purgeAssessment: async (assessmentId: string) => {
+      rows.splice(rows.findIndex((row) => row.id === assessmentId), 1);
+      return true;
+    },
+  }) as unknown as AssessmentRepository;
+
+const buildUseCase = (transport: InMemoryRobleTransport) => {
+  const assessments = [{ id: "r1", activityId: "a1" }];
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const groupRepository = new GroupRepositoryImpl(service, deps);
+  const courseRepository = new CourseRepositoryImpl(service, deps);
+  const enrollmentRepository = new EnrollmentRepositoryImpl(service, deps);
+  const useCase = new ArchiveCourseUseCase({
+    courseRepository,
+    categoryRepository: new CategoryRepositoryImpl(service, deps),
+    groupRepository,
+    membershipRepository: new MembershipRepositoryImpl(service, deps),
+    activityRepository: new CourseActivityRepositoryImpl(service, deps),
+    enrollmentRepository,
+    assessmentRepository: createAssessmentRepository(assessments),
+    accessGuard: new CourseAccessGuard(
+      courseRepository,
+      enrollmentRepository,
+      new CourseStaffRepositoryImpl(service, deps),
+    ),
+  });
+  return { useCase, groupRepository, assessments };
+};
+
+const isActive = (transport: InMemoryRobleTransport, table: string) =>
+  Object.fromEntries(transport.rows(table).map((row) => [row._id, row.is_active]));
+
+describe("ArchiveCourseUseCase", () => {
+  it("archives every dependent entity and keeps assessments", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedCourseGraph(transport);
+    const { useCase, assessments } = buildUseCase(transport);
+
+    const summary = await useCase.execute({ courseId: "k1", userId: "t1" });
+
+    expect(summary.completed).toBe(true);
+    expect(summary.changed).toEqual({
+      assessments: [],
+      memberships: ["m1", "m2"],
+      groups: ["g1", "g2"],
+      activities: ["a1"],
+      categories: ["c1"],
+      enrollments: ["e1"],
+      course: ["k1"],
+    });
+    expect(isActive(transport, "groups")).toEqual({ g1: false, g2: false, g9: true });
+    expect(isActive(transport, "courses")).toEqual({ k1: false, k2: true });
+    expect(assessments).toHaveLength(1);
+  });
+
+  it("purges records that were archived before", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedCourseGraph(transport);
+    const { useCase, assessments } = buildUseCase(transport);
+    await useCase.execute({ courseId: "k1", userId: "t1" });
+
+    const summary = await useCase.execute({ courseId: "k1", userId: "t1", mode: "purge" });
+
+    expect(summary.changed.assessments).toEqual(["r1"]);
+    expect(summary.changed.memberships).toEqual(["m1", "m2"]);
+    expect(assessments).toEqual([]);
+    expect(transport.rows("memberships")).toEqual([]);
+    expect(transport.rows("groups").map((row) => row._id)).toEqual(["g9"]);
+    expect(transport.rows("courses").map((row) => row._id)).toEqual(["k2"]);
+  });
+
+  it("resumes from the progress reported by a failed run", async () => {
+    const transport = new InMemoryRobleTransport();
+    seedCourseGraph(transport);
+    const { useCase, groupRepository } = buildUseCase(transport);
+    const purgeGroup = jest
+      .spyOn(groupRepository, "purgeGroup")
+      .mockRejectedValueOnce(new Error("status 500"));
+
+    const failure = await useCase.execute({ courseId: "k1", userId: "t1", mode: "purge" }).catch((error) => error);
+
+    expect(failure).toBeInstanceOf(ArchiveCourseInterruptedError);
+    const progress = (failure as ArchiveCourseInterruptedError).summary;
+    expect(progress.completed).toBe(false);
+    expect(progress.changed.memberships).toEqual(["m1"]);
+    expect(progress.changed.groups).toEqual([]);
+
+    purgeGroup.mockRestore();
+    const summary = await useCase.execute({ courseId: "k1", userId: "t1", mode: "purge", resumeFrom: progress });
+
+    expect(summary.completed).toBe(true);
+    expect(summary.changed.groups).toEqual(["g1", "g2"]);
+    expect(summary.changed.memberships).toEqual(["m1", "m2"]);
+    expect(transport.rows("courses").map((row) => row._id)).toEqual(["k2"]);
+  });
+});
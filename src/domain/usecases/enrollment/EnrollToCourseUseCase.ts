@@ -1,11 +1,9 @@
-import { Enrollment } from "@/src/domain/models/Enrollment";
-import { Category } from "@/src/domain/models/Category";
-import { Group } from "@/src/domain/models/Group";
+import { Enrollment, enrollmentStatusOf } from "@/src/domain/models/Enrollment";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
 import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
 import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
-import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
-import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
-import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { JoinCodeService, normalizeJoinCode } from "@/src/domain/services/JoinCodeService";
+import { RandomGroupAssigner } from "@/src/domain/services/RandomGroupAssigner";
 
 export type EnrollToCourseParams = {
   userId: string;
@@ -16,13 +14,13 @@ export class EnrollToCourseUseCase {
   constructor(
     private readonly enrollmentRepository: EnrollmentRepository,
     private readonly courseRepository: CourseRepository,
-    private readonly categoryRepository: CategoryRepository,
-    private readonly groupRepository: GroupRepository,
-    private readonly membershipRepository: MembershipRepository,
+    private readonly accessGuard: CourseAccessGuard,
+    private readonly joinCodeService: JoinCodeService,
+    private readonly groupAssigner: RandomGroupAssigner,
   ) {}
 
   async execute(params: EnrollToCourseParams): Promise<Enrollment> {
-    const joinCode = params.joinCode.trim();
+    const joinCode = normalizeJoinCode(params.joinCode);
     const userId = params.userId;
 
     const course = await this.courseRepository.getCourseByJoinCode(joinCode);
@@ -30,9 +28,7 @@ export class EnrollToCourseUseCase {
       throw new Error("Código de ingreso inválido");
     }
 
-    if (course.teacherId === userId) {
-      throw new Error("No puedes inscribirte como estudiante en tu propio curso");
-    }
+    await this.accessGuard.authorize(userId, "enrollment.join", course.id);
 
     const myEnrollments = await this.enrollmentRepository.getEnrollmentsByStudent(userId);
     const existing = myEnrollments.find((enrollment) => enrollment.courseId === course.id);
@@ -40,11 +36,21 @@ export class EnrollToCourseUseCase {
     if (existing && existing.isActive) {
       throw new Error("Ya estás inscrito en este curso");
     }
+    if (existing && enrollmentStatusOf(existing) === "pending") {
+      throw new Error("Tu solicitud para este curso está pendiente de aprobación");
+    }
+
+    await this.joinCodeService.assertUsable(course);
 
-    if (existing && !existing.isActive) {
+    // Con aprobación, la inscripción se guarda inactiva hasta que un docente la acepte.
+    const needsApproval = course.requiresApproval === true;
+    const status = needsApproval ? "pending" : "active";
+
+    if (existing) {
       const updated = await this.enrollmentRepository.updateEnrollment({
         ...existing,
-        isActive: true,
+        isActive: !needsApproval,
+        status,
         enrolledAt: new Date().toISOString(),
       });
       return updated;
@@ -55,78 +61,22 @@ export class EnrollToCourseUseCase {
       studentId: userId,
       courseId: course.id,
       enrolledAt: new Date().toISOString(),
-      isActive: true,
+      isActive: !needsApproval,
+      status,
     };
 
     const created = await this.enrollmentRepository.createEnrollment(newEnrollment);
-    try {
+    if (!needsApproval) {
       await this.assignToRandomGroups(course.id, userId);
-    } catch (error) {
-      console.warn("No se pudo asignar automáticamente a un grupo aleatorio", error);
     }
     return created;
   }
 
   private async assignToRandomGroups(courseId: string, userId: string) {
-    const categories = await this.categoryRepository.getCategoriesByCourse(courseId);
-    const randomCategories = categories.filter(
-      (category) => category.groupingMethod.toLowerCase() === "random",
-    );
-    if (!randomCategories.length) {
-      return;
-    }
-
-    const assignedCategories = await this.collectAssignedCategoryIds(userId);
-
-    for (const category of randomCategories) {
-      if (assignedCategories.has(category.id)) {
-        continue;
-      }
-      const groups = await this.groupRepository.getGroupsByCategory(category.id);
-      const targetGroup = await this.findGroupWithCapacity(groups, category);
-      if (!targetGroup) {
-        continue;
-      }
-      await this.membershipRepository.createMembership({
-        id: "",
-        userId,
-        groupId: targetGroup.id,
-        joinedAt: new Date().toISOString(),
-        isActive: true,
-      });
-      assignedCategories.add(category.id);
-    }
-  }
-
-  private async collectAssignedCategoryIds(userId: string): Promise<Set<string>> {
-    const assigned = new Set<string>();
-    const memberships = await this.membershipRepository.getMembershipsByUserId(userId);
-    for (const membership of memberships) {
-      const group = await this.groupRepository.getGroupById(membership.groupId);
-      if (group) {
-        assigned.add(group.categoryId);
-      }
-    }
-    return assigned;
-  }
-
-  private async findGroupWithCapacity(groups: Group[], category: Category): Promise<Group | null> {
-    const limit = this.getMaxMembersPerGroup(category);
-    for (const group of groups) {
-      const members = await this.membershipRepository.getMembershipsByGroupId(group.id);
-      if (limit !== null && members.length >= limit) {
-        continue;
-      }
-      return group;
-    }
-    return null;
-  }
-
-  private getMaxMembersPerGroup(category: Category): number | null {
-    const value = category.maxMembersPerGroup;
-    if (typeof value === "number" && value > 0) {
-      return value;
+    try {
+      await this.groupAssigner.assign(courseId, userId);
+    } catch (error) {
+      console.warn("No se pudo asignar automáticamente a un grupo aleatorio", error);
     }
-    return null;
   }
 }
@@ -0,0 +1,60 @@
+import { Enrollment, enrollmentStatusOf } from "@/src/domain/models/Enrollment";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { RandomGroupAssigner } from "@/src/domain/services/RandomGroupAssigner";
+
+export type EnrollmentDecision = "approve" | "reject";
+
+export type ReviewEnrollmentRequestsParams = {
+  userId: string;
+  courseId: string;
+  enrollmentIds: string[];
+  decision: EnrollmentDecision;
+};
+
+export type ReviewEnrollmentRequestsResult = {
+  reviewed: Enrollment[];
+  // Solicitudes que ya no estaban pendientes (otro docente las resolvió o el estudiante se fue).
+  skipped: string[];
+};
+
+export class ReviewEnrollmentRequestsUseCase {
+  constructor(
+    private readonly enrollmentRepository: EnrollmentRepository,
+    private readonly accessGuard: CourseAccessGuard,
+    private readonly groupAssigner: RandomGroupAssigner,
+  ) {}
+
+  async execute(params: ReviewEnrollmentRequestsParams): Promise<ReviewEnrollmentRequestsResult> {
+    const { userId, courseId, decision } = params;
+    if (params.enrollmentIds.length === 0) {
+      throw new Error("Selecciona al menos una solicitud");
+    }
+    await this.accessGuard.authorize(userId, "enrollment.review", courseId);
+
+    const requested = new Set(params.enrollmentIds);
+    const pending = (await this.enrollmentRepository.getEnrollmentsByCourse(courseId, { includeInactive: true }))
+      .filter((enrollment) => requested.has(enrollment.id) && enrollmentStatusOf(enrollment) === "pending");
+
+    const reviewed: Enrollment[] = [];
+    for (const enrollment of pending) {
+      const approve = decision === "approve";
+      const updated = await this.enrollmentRepository.updateEnrollment({
+        ...enrollment,
+        isActive: approve,
+        status: approve ? "active" : "rejected",
+        enrolledAt: approve ? new Date().toISOString() : enrollment.enrolledAt,
+      });
+      reviewed.push(updated);
+      if (approve) {
+        // Un fallo al asignar grupo no deshace la aprobación; el estudiante puede unirse después.
+        await this.groupAssigner.assign(courseId, enrollment.studentId).catch((error) => {
+          console.warn("No se pudo asignar automáticamente a un grupo aleatorio", error);
+        });
+      }
+    }
+
+    const done = new Set(reviewed.map((enrollment) => enrollment.id));
+    return { reviewed, skipped: params.enrollmentIds.filter((id) => !done.has(id)) };
+  }
+}
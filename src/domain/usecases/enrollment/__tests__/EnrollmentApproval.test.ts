@@ -0,0 +1,91 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { JoinCodeService } from "@/src/domain/services/JoinCodeService";
+import { EnrollToCourseUseCase } from "../EnrollToCourseUseCase";
+import { ReviewEnrollmentRequestsUseCase } from "../ReviewEnrollmentRequestsUseCase";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("courses", [
+    {
+      _id: "k1",
+      name: "Algoritmos",
+      teacher_id: "t1",
+      join_code: "ABCDEF",
+      join_code_issued_at: "2024-03-01T00:00:00.000Z",
+      requires_approval: true,
+      is_active: true,
+    },
+  ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const courseRepository = new CourseRepositoryImpl(service, deps);
+  const enrollmentRepository = new EnrollmentRepositoryImpl(service, deps);
+  const guard = new CourseAccessGuard(
+    courseRepository,
+    enrollmentRepository,
+    new CourseStaffRepositoryImpl(service, deps),
+  );
+  const assigner: any = { assign: jest.fn(async () => {}) };
+  const enroll = new EnrollToCourseUseCase(
+    enrollmentRepository,
+    courseRepository,
+    guard,
+    new JoinCodeService(courseRepository, enrollmentRepository),
+    assigner,
+  );
+  const review = new ReviewEnrollmentRequestsUseCase(enrollmentRepository, guard, assigner);
+  return { enrollmentRepository, assigner, enroll, review };
+};
+
+describe("Enrollment approval", () => {
+  it("keeps join requests pending and assigns groups only once a teacher approves", async () => {
+    const { enrollmentRepository, assigner, enroll, review } = build();
+
+    const request = await enroll.execute({ userId: "s1", joinCode: "abcdef" });
+    expect(request).toMatchObject({ status: "pending", isActive: false });
+    expect(await enrollmentRepository.isStudentEnrolledInCourse("s1", "k1")).toBe(false);
+    expect(assigner.assign).not.toHaveBeenCalled();
+    await expect(enroll.execute({ userId: "s1", joinCode: "ABCDEF" })).rejects.toThrow("pendiente");
+
+    await expect(
+      review.execute({ userId: "s1", courseId: "k1", enrollmentIds: [request.id], decision: "approve" }),
+    ).rejects.toThrow();
+
+    const result = await review.execute({
+      userId: "t1",
+      courseId: "k1",
+      enrollmentIds: [request.id, "missing"],
+      decision: "approve",
+    });
+    expect(result.reviewed).toHaveLength(1);
+    expect(result.skipped).toEqual(["missing"]);
+    expect(await enrollmentRepository.isStudentEnrolledInCourse("s1", "k1")).toBe(true);
+    expect(assigner.assign).toHaveBeenCalledWith("k1", "s1");
+  });
+
+  it("rejects requests in bulk and lets the student ask again", async () => {
+    const { enrollmentRepository, assigner, enroll, review } = build();
+    const first = await enroll.execute({ userId: "s1", joinCode: "ABCDEF" });
+    const second = await enroll.execute({ userId: "s2", joinCode: "ABCDEF" });
+
+    const result = await review.execute({
+      userId: "t1",
+      courseId: "k1",
+      enrollmentIds: [first.id, second.id],
+      decision: "reject",
+    });
+
+    expect(result.reviewed.map((enrollment) => enrollment.status)).toEqual(["rejected", "rejected"]);
+    expect(await enrollmentRepository.getEnrollmentsByCourse("k1")).toEqual([]);
+    expect(assigner.assign).not.toHaveBeenCalled();
+    expect(await enroll.execute({ userId: "s1", joinCode: "ABCDEF" })).toMatchObject({ status: "pending" });
+  });
+});
@@ -0,0 +1,23 @@
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+
+export type ArchiveGroupParams = {
+  userId: string | null;
+  groupId: string;
+};
+
+export class ArchiveGroupUseCase {
+  constructor(
+    private readonly repository: GroupRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, groupId }: ArchiveGroupParams): Promise<boolean> {
+    const group = await this.repository.getGroupById(groupId);
+    if (!group) {
+      throw new Error("Grupo no encontrado");
+    }
+    await this.accessGuard.authorize(userId, "group.archive", group.courseId);
+    return this.repository.archiveGroup(groupId);
+  }
+}
@@ -1,5 +1,6 @@
 import { Group } from "@/src/domain/models/Group";
 import { Category } from "@/src/domain/models/Category";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
 import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
 import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
 import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
@@ -18,9 +19,11 @@ export class CreateGroupUseCase {
     private readonly categoryRepository: CategoryRepository,
     private readonly enrollmentRepository: EnrollmentRepository,
     private readonly membershipRepository: MembershipRepository,
+    private readonly accessGuard: CourseAccessGuard,
   ) {}
 
   async execute(params: CreateGroupParams): Promise<Group> {
+    await this.accessGuard.authorize(params.teacherId, "group.create", params.courseId);
     const name = params.name.trim();
 
     const group: Group = {
@@ -37,6 +40,9 @@ export class CreateGroupUseCase {
     if (!category) {
       throw new Error("Categoría no encontrada");
     }
+    if (category.courseId !== params.courseId) {
+      throw new Error("La categoría no pertenece a este curso");
+    }
 
     const created = await this.repository.createGroup(group);
     if (category.groupingMethod.toLowerCase() === "random") {
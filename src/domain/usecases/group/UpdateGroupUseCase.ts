@@ -0,0 +1,30 @@
+import { Group } from "@/src/domain/models/Group";
+import { ForbiddenError } from "@/src/domain/policies/AccessPolicy";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+
+export type UpdateGroupParams = {
+  userId: string | null;
+  group: Group;
+  force?: boolean;
+};
+
+export class UpdateGroupUseCase {
+  constructor(
+    private readonly repository: GroupRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, group, force }: UpdateGroupParams): Promise<Group> {
+    // El permiso se decide con el curso guardado, no con el que traiga el borrador.
+    const stored = await this.repository.getGroupById(group.id);
+    if (!stored) {
+      throw new Error("Grupo no encontrado");
+    }
+    await this.accessGuard.authorize(userId, "group.update", stored.courseId);
+    if (group.courseId !== stored.courseId) {
+      throw new ForbiddenError("group.update", "Un grupo no puede moverse a otro curso");
+    }
+    return this.repository.updateGroup(group, { force });
+  }
+}
@@ -1,4 +1,5 @@
 import { Membership } from "@/src/domain/models/Membership";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
 import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
 import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
 import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
@@ -13,6 +14,7 @@ export class JoinGroupUseCase {
     private readonly membershipRepository: MembershipRepository,
     private readonly groupRepository: GroupRepository,
     private readonly categoryRepository: CategoryRepository,
+    private readonly accessGuard: CourseAccessGuard,
   ) {}
 
   async execute(params: JoinGroupParams): Promise<Membership> {
@@ -26,6 +28,7 @@ export class JoinGroupUseCase {
     if (!group) {
       throw new Error("Grupo no encontrado");
     }
+    await this.accessGuard.authorize(userId, "group.join", group.courseId);
 
     const category = await this.categoryRepository.getCategoryById(group.categoryId);
     if (!category) {
@@ -37,13 +40,14 @@ export class JoinGroupUseCase {
     }
 
     const myMemberships = await this.membershipRepository.getMembershipsByUserId(userId);
-    for (const membership of myMemberships) {
-      const otherGroup = await this.groupRepository.getGroupById(membership.groupId);
-      if (otherGroup && otherGroup.categoryId === category.id) {
-        throw new Error(
-          `Ya perteneces a un grupo de la categoría "${category.name}"`,
-        );
-      }
+    const myGroups = await this.groupRepository.getGroupsByIds(
+      myMemberships.map((membership) => membership.groupId),
+      { courseId: group.courseId },
+    );
+    if (myGroups.some((otherGroup) => otherGroup.categoryId === category.id)) {
+      throw new Error(
+        `Ya perteneces a un grupo de la categoría "${category.name}"`,
+      );
     }
 
     if (
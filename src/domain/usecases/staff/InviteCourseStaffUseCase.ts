@@ -0,0 +1,62 @@
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { User } from "@/src/domain/models/User";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { UserRepository } from "@/src/domain/repositories/UserRepository";
+
+export type InviteCourseStaffParams = {
+  courseId: string;
+  invitedBy: string;
+  // Correo o nombre de usuario de la persona invitada.
+  identifier: string;
+  role: CourseStaffMember["role"];
+};
+
+export class InviteCourseStaffUseCase {
+  constructor(
+    private readonly staffRepository: CourseStaffRepository,
+    private readonly userRepository: UserRepository,
+    private readonly enrollmentRepository: EnrollmentRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute(params: InviteCourseStaffParams): Promise<CourseStaffMember> {
+    const course = await this.accessGuard.authorize(params.invitedBy, "course.manageStaff", params.courseId);
+
+    const invitee = await this.findUser(params.identifier);
+    if (!invitee) {
+      throw new Error("No encontramos un usuario con ese correo o nombre de usuario");
+    }
+    if (invitee.id === course.teacherId) {
+      throw new Error("El docente titular ya forma parte del equipo");
+    }
+    if (await this.staffRepository.getStaffMember(course.id, invitee.id)) {
+      throw new Error("Esta persona ya forma parte del equipo docente");
+    }
+    if (await this.enrollmentRepository.isStudentEnrolledInCourse(invitee.id, course.id)) {
+      throw new Error("Esta persona está inscrita como estudiante en el curso");
+    }
+
+    return this.staffRepository.addStaffMember({
+      id: "",
+      courseId: course.id,
+      userId: invitee.id,
+      role: params.role,
+      invitedBy: params.invitedBy,
+      createdAt: new Date().toISOString(),
+      isActive: true,
+    });
+  }
+
+  private async findUser(identifier: string): Promise<User | null> {
+    const value = identifier.trim();
+    if (!value) {
+      return null;
+    }
+    if (value.includes("@") && !value.startsWith("@")) {
+      return this.userRepository.getUserByEmail(value);
+    }
+    return this.userRepository.getUserByUsername(value.replace(/^@/, ""));
+  }
+}
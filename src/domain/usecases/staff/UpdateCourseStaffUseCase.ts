@@ -0,0 +1,29 @@
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+
+export type UpdateCourseStaffParams = {
+  userId: string;
+  member: CourseStaffMember;
+  // `null` retira a la persona del equipo.
+  role: CourseStaffMember["role"] | null;
+};
+
+export class UpdateCourseStaffUseCase {
+  constructor(
+    private readonly staffRepository: CourseStaffRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute({ userId, member, role }: UpdateCourseStaffParams): Promise<CourseStaffMember | null> {
+    await this.accessGuard.authorize(userId, "course.manageStaff", member.courseId);
+    if (role === null) {
+      await this.staffRepository.archiveStaffMember(member.id);
+      return null;
+    }
+    if (role === member.role) {
+      return member;
+    }
+    return this.staffRepository.updateStaffRole(member.id, role);
+  }
+}
@@ -0,0 +1,85 @@
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { UserRepositoryImpl } from "@/src/data/repositories/UserRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { ForbiddenError } from "@/src/domain/policies/AccessPolicy";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { InviteCourseStaffUseCase } from "../InviteCourseStaffUseCase";
+import { UpdateCourseStaffUseCase } from "../UpdateCourseStaffUseCase";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport
+    .seed("courses", [{ _id: "k1", name: "Algoritmos", teacher_id: "t1", is_active: true }])
+    .seed("enrollments", [{ _id: "e1", student_id: "s1", course_id: "k1", is_active: true }])
+    .seed("users", [
+      { _id: "u2", email: "ana@uni.edu", username: "ana", first_name: "Ana", is_active: true },
+      { _id: "u3", email: "beto@uni.edu", username: "beto", first_name: "Beto", is_active: true },
+      { _id: "s1", email: "sol@uni.edu", username: "sol", first_name: "Sol", is_active: true },
+    ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const staffRepository = new CourseStaffRepositoryImpl(service, deps);
+  const enrollmentRepository = new EnrollmentRepositoryImpl(service, deps);
+  const guard = new CourseAccessGuard(new CourseRepositoryImpl(service, deps), enrollmentRepository, staffRepository);
+  return {
+    transport,
+    guard,
+    invite: new InviteCourseStaffUseCase(
+      staffRepository,
+      new UserRepositoryImpl(service, deps),
+      enrollmentRepository,
+      guard,
+    ),
+    update: new UpdateCourseStaffUseCase(staffRepository, guard),
+  };
+};
+
+describe("InviteCourseStaffUseCase", () => {
+  it("invites by email or username and scopes what each role may do", async () => {
+    const { invite, guard } = build();
+
+    const invitedBy = "t1";
+    const coteacher = await invite.execute({ courseId: "k1", invitedBy, identifier: "ANA@uni.edu", role: "coteacher" });
+    const assistant = await invite.execute({ courseId: "k1", invitedBy, identifier: "@beto", role: "assistant" });
+    expect(coteacher).toMatchObject({ userId: "u2", role: "coteacher", invitedBy: "t1" });
+    expect(assistant).toMatchObject({ userId: "u3", role: "assistant" });
+
+    await expect(guard.authorize("u2", "activity.update", "k1")).resolves.toMatchObject({ id: "k1" });
+    await expect(guard.authorize("u3", "group.create", "k1")).resolves.toMatchObject({ id: "k1" });
+    await expect(guard.authorize("u3", "activity.update", "k1")).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(guard.authorize("u2", "course.archive", "k1")).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(guard.authorize("u2", "enrollment.join", "k1")).rejects.toThrow("enseñas");
+  });
+
+  it("rejects invitations from non-owners, duplicates and enrolled students, and removes members", async () => {
+    const { invite, update, guard, transport } = build();
+    const member = await invite.execute({ courseId: "k1", invitedBy: "t1", identifier: "ana", role: "coteacher" });
+
+    await expect(
+      invite.execute({ courseId: "k1", invitedBy: "u2", identifier: "beto", role: "assistant" }),
+    ).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(
+      invite.execute({ courseId: "k1", invitedBy: "t1", identifier: "ana@uni.edu", role: "assistant" }),
+    ).rejects.toThrow("ya forma parte");
+    await expect(
+      invite.execute({ courseId: "k1", invitedBy: "t1", identifier: "sol", role: "assistant" }),
+    ).rejects.toThrow("inscrita como estudiante");
+    await expect(
+      invite.execute({ courseId: "k1", invitedBy: "t1", identifier: "nadie@uni.edu", role: "assistant" }),
+    ).rejects.toThrow("No encontramos");
+
+    const demoted = await update.execute({ userId: "t1", member, role: "assistant" });
+    expect(demoted?.role).toBe("assistant");
+    await expect(guard.authorize("u2", "category.create", "k1")).rejects.toBeInstanceOf(ForbiddenError);
+
+    await expect(update.execute({ userId: "t1", member, role: null })).resolves.toBeNull();
+    expect(transport.rows("course_staff")[0].is_active).toBe(false);
+    await expect(guard.authorize("u2", "group.create", "k1")).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
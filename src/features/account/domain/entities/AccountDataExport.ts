@@ -0,0 +1,21 @@
+import { Assessment } from "@/src/domain/models/Assessment";
+import { Course } from "@/src/domain/models/Course";
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { Enrollment } from "@/src/domain/models/Enrollment";
+import { Membership } from "@/src/domain/models/Membership";
+import { User } from "@/src/domain/models/User";
+
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+/** Todo lo que la app guarda en ROBLE sobre una persona, tal como se entrega al exportar. */
+export type AccountDataExport = {
+  version: typeof ACCOUNT_EXPORT_VERSION;
+  exportedAt: string;
+  user: User | null;
+  enrollments: Enrollment[];
+  memberships: Membership[];
+  assessmentsGiven: Assessment[];
+  assessmentsReceived: Assessment[];
+  coursesTaught: Course[];
+  staffRoles: CourseStaffMember[];
+};
@@ -0,0 +1,96 @@
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { UserRepository } from "@/src/domain/repositories/UserRepository";
+import { AuthRepository } from "@/src/features/auth/domain/repositories/AuthRepository";
+import { AssessmentRepository } from "@/src/features/peerReview/domain/repositories/AssessmentRepository";
+
+export const DELETE_ACCOUNT_CONFIRMATION = "ELIMINAR";
+
+export type DeleteAccountParams = {
+  userId: string;
+  // Lo que escribió la persona en el paso de confirmación.
+  confirmation: string;
+};
+
+type Dependencies = {
+  userRepository: UserRepository;
+  enrollmentRepository: EnrollmentRepository;
+  membershipRepository: MembershipRepository;
+  assessmentRepository: AssessmentRepository;
+  courseRepository: CourseRepository;
+  courseStaffRepository: CourseStaffRepository;
+  authRepository: AuthRepository;
+  // Borra lo que quedó guardado en el dispositivo para esta cuenta (caché de lecturas).
+  forgetLocalData?: (userId: string) => Promise<void>;
+};
+
+/**
+ * Elimina la cuenta sin romper los cursos de los demás: las evaluaciones se conservan anónimas y
+ * las inscripciones y membresías quedan inactivas antes de borrar la fila de `users`. Quien tiene
+ * cursos activos como titular debe archivarlos primero, porque nadie más podría administrarlos.
+ */
+export class DeleteAccountUseCase {
+  constructor(private readonly deps: Dependencies) {}
+
+  async execute(params: DeleteAccountParams): Promise<void> {
+    const { userId } = params;
+    if (!userId) {
+      throw new Error("No hay una sesión activa");
+    }
+    if (params.confirmation.trim().toUpperCase() !== DELETE_ACCOUNT_CONFIRMATION) {
+      throw new Error(`Escribe ${DELETE_ACCOUNT_CONFIRMATION} para confirmar`);
+    }
+
+    const {
+      userRepository,
+      enrollmentRepository,
+      membershipRepository,
+      assessmentRepository,
+      courseRepository,
+      courseStaffRepository,
+      authRepository,
+      forgetLocalData,
+    } = this.deps;
+
+    const ownedActive = (await courseRepository.getCoursesByTeacher(userId)).filter((course) => course.isActive);
+    if (ownedActive.length > 0) {
+      throw new Error(
+        `Archiva tus cursos activos antes de eliminar la cuenta (${ownedActive.map((course) => course.name).join(", ")})`,
+      );
+    }
+
+    const [given, received] = await Promise.all([
+      assessmentRepository.getAssessmentsGivenBy(userId),
+      assessmentRepository.getAssessmentsReceivedBy(userId),
+    ]);
+    // Una autoevaluación aparece en ambas listas; basta con anonimizarla una vez.
+    const assessments = new Map([...given, ...received].map((assessment) => [assessment.id, assessment]));
+    for (const assessment of assessments.values()) {
+      await assessmentRepository.anonymizeAssessment(assessment, userId);
+    }
+
+    const [enrollments, memberships, staffRoles] = await Promise.all([
+      enrollmentRepository.getEnrollmentsByStudent(userId),
+      membershipRepository.getMembershipsByUserId(userId),
+      courseStaffRepository.getStaffByUser(userId),
+    ]);
+    for (const enrollment of enrollments.filter((item) => item.isActive)) {
+      await enrollmentRepository.archiveEnrollment(enrollment.id);
+    }
+    for (const membership of memberships.filter((item) => item.isActive)) {
+      await membershipRepository.archiveMembership(membership.id);
+    }
+    for (const member of staffRoles.filter((item) => item.isActive)) {
+      await courseStaffRepository.archiveStaffMember(member.id);
+    }
+
+    await userRepository.deleteUser(userId);
+    await forgetLocalData?.(userId);
+    // La fila ya no existe: si ROBLE rechaza el cierre de sesión, basta con olvidar la sesión local.
+    await authRepository.logout().catch((error) => {
+      console.warn("[ACCOUNT] No se pudo cerrar en ROBLE la sesión de la cuenta eliminada", error);
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
+import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
+import { UserRepository } from "@/src/domain/repositories/UserRepository";
+import { AssessmentRepository } from "@/src/features/peerReview/domain/repositories/AssessmentRepository";
+import { ACCOUNT_EXPORT_VERSION, AccountDataExport } from "../entities/AccountDataExport";
+
+type Dependencies = {
+  userRepository: UserRepository;
+  enrollmentRepository: EnrollmentRepository;
+  membershipRepository: MembershipRepository;
+  assessmentRepository: AssessmentRepository;
+  courseRepository: CourseRepository;
+  courseStaffRepository: CourseStaffRepository;
+};
+
+export class ExportAccountDataUseCase {
+  constructor(private readonly deps: Dependencies) {}
+
+  async execute(userId: string): Promise<AccountDataExport> {
+    if (!userId) {
+      throw new Error("No hay una sesión activa");
+    }
+    const {
+      userRepository,
+      enrollmentRepository,
+      membershipRepository,
+      assessmentRepository,
+      courseRepository,
+      courseStaffRepository,
+    } = this.deps;
+
+    const [user, enrollments, memberships, assessmentsGiven, assessmentsReceived, coursesTaught, staffRoles] =
+      await Promise.all([
+        userRepository.getUserById(userId),
+        enrollmentRepository.getEnrollmentsByStudent(userId),
+        membershipRepository.getMembershipsByUserId(userId),
+        assessmentRepository.getAssessmentsGivenBy(userId),
+        assessmentRepository.getAssessmentsReceivedBy(userId),
+        courseRepository.getCoursesByTeacher(userId),
+        courseStaffRepository.getStaffByUser(userId),
+      ]);
+
+    return {
+      version: ACCOUNT_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      user,
+      enrollments,
+      memberships,
+      assessmentsGiven,
+      assessmentsReceived,
+      coursesTaught,
+      staffRoles,
+    };
+  }
+}
+
+export const serializeAccountExport = (data: AccountDataExport) => JSON.stringify(data, null, 2);
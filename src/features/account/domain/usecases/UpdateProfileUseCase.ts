@@ -0,0 +1,69 @@
+import { UserRepository } from "@/src/domain/repositories/UserRepository";
+import { AuthUser } from "@/src/features/auth/domain/entities/AuthUser";
+import { AuthRepository } from "@/src/features/auth/domain/repositories/AuthRepository";
+import { CheckUsernameAvailabilityUseCase } from "@/src/features/auth/domain/usecases/CheckUsernameAvailabilityUseCase";
+
+export type UpdateProfileParams = {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  studentId: string;
+};
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_]{3,}$/;
+
+/**
+ * Actualiza los datos de perfil en la tabla `users` y en la sesión guardada, para que el resto de
+ * pantallas vean el cambio sin volver a iniciar sesión.
+ */
+export class UpdateProfileUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly checkUsernameAvailability: CheckUsernameAvailabilityUseCase,
+    private readonly authRepository: AuthRepository,
+  ) {}
+
+  async execute(params: UpdateProfileParams): Promise<AuthUser | null> {
+    const firstName = params.firstName.trim();
+    const lastName = params.lastName.trim();
+    const username = params.username.trim();
+    const studentId = params.studentId.trim();
+
+    if (!firstName || !lastName) {
+      throw new Error("El nombre y el apellido son obligatorios");
+    }
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error("El usuario debe tener al menos 3 caracteres: letras, números o _");
+    }
+
+    const current = await this.userRepository.getUserById(params.userId);
+    if (!current) {
+      throw new Error("Usuario no encontrado");
+    }
+
+    if (username !== current.username && !(await this.checkUsernameAvailability.execute(username))) {
+      throw new Error("Ese nombre de usuario ya está en uso");
+    }
+    if (studentId && studentId !== current.studentId) {
+      const owner = await this.userRepository.getUserByStudentId(studentId);
+      if (owner && owner.id !== current.id) {
+        throw new Error("Ese código estudiantil ya está registrado");
+      }
+    }
+
+    const updated = await this.userRepository.updateUser({
+      ...current,
+      firstName,
+      lastName,
+      username,
+      studentId,
+    });
+    return this.authRepository.updateSessionUser({
+      firstName: updated.firstName,
+      lastName: updated.lastName,
+      username: updated.username,
+      studentId: updated.studentId,
+    });
+  }
+}
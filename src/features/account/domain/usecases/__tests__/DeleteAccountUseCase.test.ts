@@ -0,0 +1,109 @@
+import { UserRepositoryImpl } from "@/src/data/repositories/UserRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import {
+  FakeAuthLocalDataSource,
+  FakeAuthRemoteDataSource,
+  fakeAuthSession,
+} from "@/src/features/auth/data/datasources/FakeAuthDataSources";
+import { AuthRepositoryImpl } from "@/src/features/auth/data/repositories/AuthRepositoryImpl";
+import { DeleteAccountUseCase } from "../DeleteAccountUseCase";
+import { ExportAccountDataUseCase } from "../ExportAccountDataUseCase";
+
+const build = ({ ownedCourses = [] as any[] } = {}) => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("users", [{ _id: "u1", email: "ana@uni.edu", username: "ana", first_name: "Ana" }]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const getAccessToken = async () => "token";
+
+  const selfReview = { id: "a2", reviewerId: "u1", studentId: "u1" };
+  const assessmentRepository: any = {
+    getAssessmentsGivenBy: async () => [{ id: "a1", reviewerId: "u1", studentId: "u2" }, selfReview],
+    getAssessmentsReceivedBy: async () => [selfReview, { id: "a3", reviewerId: "u3", studentId: "u1" }],
+    anonymizeAssessment: jest.fn(async () => {}),
+  };
+  const enrollmentRepository: any = {
+    getEnrollmentsByStudent: async () => [
+      { id: "e1", isActive: true },
+      { id: "e2", isActive: false },
+    ],
+    archiveEnrollment: jest.fn(async () => true),
+  };
+  const membershipRepository: any = {
+    getMembershipsByUserId: async () => [{ id: "m1", isActive: true }],
+    archiveMembership: jest.fn(async () => true),
+  };
+  const courseStaffRepository: any = {
+    getStaffByUser: async () => [],
+    archiveStaffMember: jest.fn(async () => true),
+  };
+  const courseRepository: any = { getCoursesByTeacher: async () => ownedCourses };
+  const local = new FakeAuthLocalDataSource({
+    session: fakeAuthSession({ id: "u1", email: "ana@uni.edu" }, { accessToken: "token" }),
+    keepLoggedIn: false,
+    startedAt: new Date(),
+  });
+  const authRepository = new AuthRepositoryImpl(new FakeAuthRemoteDataSource(), local);
+  const forgetLocalData = jest.fn(async () => {});
+
+  const deps = {
+    userRepository: new UserRepositoryImpl(service, { getAccessToken }),
+    enrollmentRepository,
+    membershipRepository,
+    assessmentRepository,
+    courseRepository,
+    courseStaffRepository,
+  };
+  return {
+    deleteAccount: new DeleteAccountUseCase({ ...deps, authRepository, forgetLocalData }),
+    exportAccountData: new ExportAccountDataUseCase(deps),
+    transport,
+    assessmentRepository,
+    enrollmentRepository,
+    membershipRepository,
+    local,
+    forgetLocalData,
+  };
+};
+
+describe("DeleteAccountUseCase", () => {
+  it("anonymises assessments, deactivates enrollments and memberships, and removes the users row", async () => {
+    const setup = build();
+    const { transport, assessmentRepository, enrollmentRepository, membershipRepository } = setup;
+
+    const exported = await setup.exportAccountData.execute("u1");
+    expect(exported.user).toMatchObject({ id: "u1", email: "ana@uni.edu" });
+    expect(exported.assessmentsReceived.map((assessment) => assessment.id)).toEqual(["a2", "a3"]);
+
+    await setup.deleteAccount.execute({ userId: "u1", confirmation: " eliminar " });
+
+    expect(assessmentRepository.anonymizeAssessment.mock.calls.map(([assessment]: any[]) => assessment.id)).toEqual([
+      "a1",
+      "a2",
+      "a3",
+    ]);
+    expect(enrollmentRepository.archiveEnrollment.mock.calls).toEqual([["e1"]]);
+    expect(membershipRepository.archiveMembership).toHaveBeenCalledWith("m1");
+    expect(transport.rows("users")).toEqual([]);
+    expect(setup.forgetLocalData).toHaveBeenCalledWith("u1");
+    expect(setup.local.stored).toBeNull();
+  });
+
+  it("requires the typed confirmation and refuses while the user owns active courses", async () => {
+    const unconfirmed = build();
+    await expect(unconfirmed.deleteAccount.execute({ userId: "u1", confirmation: "si" })).rejects.toThrow(
+      "Escribe ELIMINAR",
+    );
+
+    const owner = build({ ownedCourses: [{ id: "c1", name: "Cálculo I", isActive: true }] });
+    await expect(owner.deleteAccount.execute({ userId: "u1", confirmation: "ELIMINAR" })).rejects.toThrow(
+      "Cálculo I",
+    );
+    expect(owner.transport.rows("users")).toHaveLength(1);
+    expect(owner.assessmentRepository.anonymizeAssessment).not.toHaveBeenCalled();
+    expect(owner.local.stored).not.toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { UserRepositoryImpl } from "@/src/data/repositories/UserRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import {
+  FakeAuthLocalDataSource,
+  FakeAuthRemoteDataSource,
+  fakeAuthSession,
+} from "@/src/features/auth/data/datasources/FakeAuthDataSources";
+import { AuthRepositoryImpl } from "@/src/features/auth/data/repositories/AuthRepositoryImpl";
+import { CheckUsernameAvailabilityUseCase } from "@/src/features/auth/domain/usecases/CheckUsernameAvailabilityUseCase";
+import { UpdateProfileUseCase } from "../UpdateProfileUseCase";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("users", [
+    { _id: "u1", email: "ana@uni.edu", username: "ana", first_name: "Ana", last_name: "Ruiz", student_id: "100" },
+    { _id: "u2", email: "beto@uni.edu", username: "beto", first_name: "Beto", last_name: "Paz", student_id: "200" },
+  ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const userRepository = new UserRepositoryImpl(service, { getAccessToken: async () => "token" });
+
+  const local = new FakeAuthLocalDataSource({
+    session: fakeAuthSession(
+      { id: "u1", email: "ana@uni.edu", username: "ana", firstName: "Ana", lastName: "Ruiz", studentId: "100" },
+      { accessToken: "a1" },
+    ),
+    keepLoggedIn: true,
+    startedAt: new Date(),
+  });
+  const remote = new FakeAuthRemoteDataSource({
+    checkUsernameAvailability: async (username) => !transport.rows("users").some((row) => row.username === username),
+  });
+  const authRepository = new AuthRepositoryImpl(remote, local);
+  const useCase = new UpdateProfileUseCase(
+    userRepository,
+    new CheckUsernameAvailabilityUseCase(authRepository),
+    authRepository,
+  );
+  return { useCase, transport, local };
+};
+
+describe("UpdateProfileUseCase", () => {
+  it("updates the users row and the stored session", async () => {
+    const { useCase, transport, local } = build();
+
+    const updated = await useCase.execute({
+      userId: "u1",
+      firstName: " Ana María ",
+      lastName: "Ruiz",
+      username: "anamaria",
+      studentId: "101",
+    });
+
+    expect(updated).toMatchObject({ firstName: "Ana María", username: "anamaria", studentId: "101" });
+    expect(transport.rows("users")[0]).toMatchObject({ first_name: "Ana María", username: "anamaria", student_id: "101" });
+    expect(local.stored?.session.user).toMatchObject({ id: "u1", email: "ana@uni.edu", username: "anamaria" });
+    expect(local.stored?.keepLoggedIn).toBe(true);
+  });
+
+  it("rejects taken usernames or student IDs and invalid names", async () => {
+    const { useCase, transport } = build();
+    const base = { userId: "u1", firstName: "Ana", lastName: "Ruiz", username: "ana", studentId: "100" };
+
+    await expect(useCase.execute({ ...base, username: "beto" })).rejects.toThrow("ya está en uso");
+    await expect(useCase.execute({ ...base, studentId: "200" })).rejects.toThrow("código estudiantil");
+    await expect(useCase.execute({ ...base, username: "a b" })).rejects.toThrow("al menos 3");
+    await expect(useCase.execute({ ...base, lastName: "  " })).rejects.toThrow("obligatorios");
+    expect(transport.rows("users")[0]).toMatchObject({ username: "ana", student_id: "100" });
+  });
+});
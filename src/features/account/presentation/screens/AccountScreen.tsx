@@ -1,31 +1,294 @@
-import React from "react";
-import { SafeAreaView, ScrollView, StyleSheet, View } from "react-native";
-import { Text, useTheme } from "react-native-paper";
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import React, { useCallback, useMemo, useState } from "react";
+import { Alert, RefreshControl, SafeAreaView, ScrollView, Share, StyleSheet, View } from "react-native";
+import { Avatar, Button, Divider, IconButton, List, Text, useTheme } from "react-native-paper";
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { COURSE_STAFF_ROLE_LABELS } from "@/src/domain/models/CourseStaff";
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
+import { useCourseController } from "@/src/features/course/hooks/useCourseController";
+import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
+
+const GOLD = "#FFD700";
+const PREMIUM_BLACK = "#1A1A1A";
+
+type CourseRow = {
+  id: string;
+  name: string;
+  description: string;
+};
 
 export default function AccountScreen() {
   const theme = useTheme();
+  const navigation = useNavigation<any>();
+  const { user } = useAuth();
+  const [courseState, courseController] = useCourseController();
+  const [enrollmentState, enrollmentController] = useEnrollmentController();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadData = useCallback(
+    async (force = false) => {
+      await Promise.all([
+        courseController.loadMyTeachingCourses({ force }),
+        enrollmentController.loadMyEnrollments({ force }),
+      ]);
+    },
+    [courseController, enrollmentController],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      void loadData();
+    }, [loadData]),
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadData(true);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadData]);
+
+  const teaching = useMemo<CourseRow[]>(
+    () => [
+      ...courseState.teacherCourses.map((course) => ({
+        id: course.id,
+        name: course.name,
+        description: course.isActive ? COURSE_STAFF_ROLE_LABELS.owner : "Inactivo",
+      })),
+      ...courseState.staffCourses.map((course) => ({
+        id: course.id,
+        name: course.name,
+        description: COURSE_STAFF_ROLE_LABELS[courseState.staffRoles[course.id] ?? "assistant"],
+      })),
+    ],
+    [courseState.staffCourses, courseState.staffRoles, courseState.teacherCourses],
+  );
+
+  const learning = useMemo<CourseRow[]>(
+    () =>
+      enrollmentState.myEnrollments.map((enrollment) => ({
+        id: enrollment.courseId,
+        name: enrollmentController.getCourseTitle(enrollment.courseId),
+        description: `Docente: ${enrollmentController.getCourseTeacherName(enrollment.courseId)}`,
+      })),
+    [enrollmentController, enrollmentState.myEnrollments],
+  );
+
+  const fullName = [user?.firstName, user?.lastName].filter((part) => part?.trim()).join(" ");
+  const initials = fullName
+    ? fullName
+        .split(" ")
+        .slice(0, 2)
+        .map((part) => part.charAt(0).toUpperCase())
+        .join("")
+    : "?";
+
+  const openCourse = (courseId: string) => navigation.navigate("CourseDetail", { courseId });
 
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
-      <ScrollView contentContainerStyle={styles.content}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
         <View style={styles.header}>
           <Text style={[styles.title, { color: theme.colors.onSurface }]}>
             Cuenta
           </Text>
         </View>
-        <View style={styles.placeholder}>
-          <Text style={[styles.placeholderText, { color: theme.colors.onSurfaceVariant }]}>
-            Funcionalidad próximamente disponible
+
+        <View style={[styles.card, styles.profileCard, { backgroundColor: theme.colors.surface, borderColor: `${theme.colors.outline}1A` }]}>
+          <Avatar.Text
+            size={64}
+            label={initials}
+            style={{ backgroundColor: GOLD }}
+            color={PREMIUM_BLACK}
+          />
+          <Text style={[styles.name, { color: theme.colors.onSurface }]}>{fullName || "Sin nombre"}</Text>
+          <Text style={[styles.detail, { color: theme.colors.onSurfaceVariant }]}>
+            @{user?.username ?? ""} • {user?.email ?? ""}
+          </Text>
+          <Text style={[styles.detail, { color: theme.colors.onSurfaceVariant }]}>
+            {user?.studentId ? `Código estudiantil: ${user.studentId}` : "Sin código estudiantil"}
           </Text>
+          <View style={styles.profileActions}>
+            <Button
+              mode="contained"
+              icon="account-edit"
+              onPress={() => navigation.navigate("EditProfile")}
+              style={[styles.actionButton, { backgroundColor: GOLD }]}
+              labelStyle={{ color: PREMIUM_BLACK }}
+            >
+              Editar perfil
+            </Button>
+            <Button
+              mode="outlined"
+              icon="lock"
+              onPress={() => navigation.navigate("ChangePassword")}
+              style={styles.actionButton}
+            >
+              Contraseña
+            </Button>
+          </View>
         </View>
+
+        <AccountSwitcherCard />
+
+        <CourseListCard
+          title="Cursos que enseño"
+          emptyLabel="Aún no enseñas ningún curso"
+          icon="school"
+          courses={teaching}
+          onPress={openCourse}
+        />
+        <CourseListCard
+          title="Cursos en los que estoy inscrito"
+          emptyLabel="Aún no estás inscrito en cursos"
+          icon="book-open-variant"
+          courses={learning}
+          onPress={openCourse}
+        />
+
+        <PrivacyCard onDelete={() => navigation.navigate("DeleteAccount")} />
       </ScrollView>
       <BottomNavigationDock currentIndex={3} />
     </SafeAreaView>
   );
 }
 
+function AccountSwitcherCard() {
+  const theme = useTheme();
+  const { accounts, switchAccount, removeAccount, startAddingAccount, loading } = useAuth();
+  const others = accounts.filter((account) => !account.isActive);
+
+  const handleSwitch = async (userId: string) => {
+    try {
+      await switchAccount(userId);
+    } catch (error) {
+      Alert.alert("No se pudo cambiar de cuenta", error instanceof Error ? error.message : "Inténtalo de nuevo");
+    }
+  };
+
+  const confirmRemove = (userId: string, email: string) => {
+    Alert.alert("Quitar cuenta", `${email} dejará de estar guardada en este dispositivo.`, [
+      { text: "Cancelar", style: "cancel" },
+      {
+        text: "Quitar",
+        style: "destructive",
+        onPress: () => {
+          removeAccount(userId).catch((error) => {
+            Alert.alert("No se pudo quitar la cuenta", error instanceof Error ? error.message : "Inténtalo de nuevo");
+          });
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: `${theme.colors.outline}1A` }]}>
+      <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Cuentas guardadas</Text>
+      {others.length === 0 ? (
+        <Text style={[styles.detail, { color: theme.colors.onSurfaceVariant }]}>
+          Agrega otra cuenta para cambiar entre ellas sin volver a escribir la contraseña.
+        </Text>
+      ) : (
+        others.map((account, index) => (
+          <View key={account.user.id}>
+            {index > 0 ? <Divider /> : null}
+            <List.Item
+              title={[account.user.firstName, account.user.lastName].filter(Boolean).join(" ") || account.user.email}
+              description={account.user.email}
+              onPress={() => handleSwitch(account.user.id)}
+              disabled={loading}
+              left={(props) => <List.Icon {...props} icon="account-switch" />}
+              right={() => (
+                <IconButton
+                  icon="close"
+                  accessibilityLabel="Quitar cuenta"
+                  onPress={() => confirmRemove(account.user.id, account.user.email)}
+                  disabled={loading}
+                />
+              )}
+            />
+          </View>
+        ))
+      )}
+      <Button mode="outlined" icon="account-plus" onPress={startAddingAccount} style={styles.addAccountButton}>
+        Agregar cuenta
+      </Button>
+    </View>
+  );
+}
+
+function PrivacyCard({ onDelete }: { onDelete: () => void }) {
+  const theme = useTheme();
+  const { exportAccountData, clearError, loading } = useAuth();
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: "Mis datos", message: await exportAccountData() });
+    } catch (error) {
+      Alert.alert("No se pudieron exportar tus datos", error instanceof Error ? error.message : "Inténtalo de nuevo");
+    } finally {
+      clearError();
+    }
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: `${theme.colors.outline}1A` }]}>
+      <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Privacidad</Text>
+      <Text style={[styles.detail, { color: theme.colors.onSurfaceVariant }]}>
+        Descarga en JSON tu perfil, inscripciones, grupos, evaluaciones y cursos, o elimina tu cuenta.
+      </Text>
+      <Button mode="outlined" icon="download" onPress={handleExport} disabled={loading} style={styles.addAccountButton}>
+        Exportar mis datos
+      </Button>
+      <Button mode="text" icon="account-remove" onPress={onDelete} textColor={theme.colors.error}>
+        Eliminar cuenta
+      </Button>
+    </View>
+  );
+}
+
+type CourseListCardProps = {
+  title: string;
+  emptyLabel: string;
+  icon: string;
+  courses: CourseRow[];
+  onPress: (courseId: string) => void;
+};
+
+function CourseListCard({ title, emptyLabel, icon, courses, onPress }: CourseListCardProps) {
+  const theme = useTheme();
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: `${theme.colors.outline}1A` }]}>
+      <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>
+        {title} ({courses.length})
+      </Text>
+      {courses.length === 0 ? (
+        <Text style={[styles.detail, { color: theme.colors.onSurfaceVariant }]}>{emptyLabel}</Text>
+      ) : (
+        courses.map((course, index) => (
+          <View key={`${course.id}-${index}`}>
+            {index > 0 ? <Divider /> : null}
+            <List.Item
+              title={course.name}
+              description={course.description}
+              onPress={() => onPress(course.id)}
+              left={(props) => <List.Icon {...props} icon={icon} />}
+              right={(props) => <List.Icon {...props} icon="chevron-right" />}
+            />
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -42,13 +305,37 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     textAlign: "center",
   },
-  placeholder: {
-    flex: 1,
-    justifyContent: "center",
+  card: {
+    marginBottom: 24,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  profileCard: {
     alignItems: "center",
-    paddingVertical: 60,
   },
-  placeholderText: {
-    fontSize: 16,
+  name: {
+    marginTop: 12,
+    fontSize: 20,
+    fontWeight: "700",
+  },
+  detail: {
+    marginTop: 4,
+    fontSize: 14,
+  },
+  profileActions: {
+    flexDirection: "row",
+    marginTop: 16,
+  },
+  actionButton: {
+    marginHorizontal: 6,
+  },
+  addAccountButton: {
+    marginTop: 12,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
   },
 });
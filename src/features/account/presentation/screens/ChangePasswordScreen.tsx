@@ -0,0 +1,131 @@
+import { useNavigation } from "@react-navigation/native";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+
+import { evaluatePassword } from "@/src/features/auth/domain/entities/PasswordPolicy";
+import { PasswordStrengthMeter } from "@/src/features/auth/presentation/components/PasswordStrengthMeter";
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
+
+export default function ChangePasswordScreen() {
+  const theme = useTheme();
+  const navigation = useNavigation<any>();
+  const { user, loading, changePassword, clearError } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const passwordEvaluation = useMemo(
+    () => evaluatePassword(newPassword, { email: user?.email, username: user?.username }),
+    [newPassword, user?.email, user?.username],
+  );
+  const passwordsMatch = newPassword === confirmPassword && newPassword.length > 0;
+  const canSubmit =
+    currentPassword.length > 0 && passwordEvaluation.isValid && passwordsMatch;
+
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit) return;
+    setError(null);
+    try {
+      const { message } = await changePassword({ currentPassword, newPassword, confirmPassword });
+      clearError();
+      Alert.alert("Contraseña actualizada", message, [{ text: "Aceptar", onPress: () => navigation.goBack() }]);
+    } catch (err) {
+      clearError();
+      setError(err instanceof Error ? err.message : "No se pudo cambiar la contraseña");
+    }
+  }, [canSubmit, changePassword, clearError, confirmPassword, currentPassword, navigation, newPassword]);
+
+  const toggle = (
+    <TextInput.Icon
+      icon={showPasswords ? "eye-off" : "eye"}
+      onPress={() => setShowPasswords((prev) => !prev)}
+    />
+  );
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 64 : 0}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.title, { color: theme.colors.onSurface }]}>Cambiar contraseña</Text>
+          <View style={styles.section}>
+            <TextInput
+              label="Contraseña actual"
+              mode="outlined"
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              secureTextEntry={!showPasswords}
+              autoCapitalize="none"
+              right={toggle}
+            />
+            <TextInput
+              label="Nueva contraseña"
+              mode="outlined"
+              value={newPassword}
+              onChangeText={setNewPassword}
+              secureTextEntry={!showPasswords}
+              autoCapitalize="none"
+            />
+            <TextInput
+              label="Confirmar nueva contraseña"
+              mode="outlined"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry={!showPasswords}
+              autoCapitalize="none"
+            />
+          </View>
+          <PasswordStrengthMeter evaluation={passwordEvaluation} textColor={theme.colors.onSurfaceVariant} />
+          {!passwordsMatch && confirmPassword.length > 0 ? (
+            <HelperText type="error" visible>
+              Las contraseñas no coinciden.
+            </HelperText>
+          ) : null}
+          <HelperText type="error" visible={Boolean(error)}>
+            {error}
+          </HelperText>
+          <Button mode="contained" icon="lock-reset" onPress={handleSubmit} loading={loading} disabled={!canSubmit || loading}>
+            Actualizar contraseña
+          </Button>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  section: {
+    gap: 16,
+  },
+});
@@ -0,0 +1,191 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  Share,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+
+import { Course } from "@/src/domain/models/Course";
+import { DELETE_ACCOUNT_CONFIRMATION } from "@/src/features/account/domain/usecases/DeleteAccountUseCase";
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
+import { useCourseController } from "@/src/features/course/hooks/useCourseController";
+
+export default function DeleteAccountScreen() {
+  const theme = useTheme();
+  const { user, loading, exportAccountData, deleteAccount, clearError } = useAuth();
+  const [courseState, courseController] = useCourseController();
+
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const confirmed = confirmation.trim().toUpperCase() === DELETE_ACCOUNT_CONFIRMATION;
+  // La cuenta no se puede eliminar mientras sea titular de cursos activos; se archivan desde aquí.
+  const ownedActive = courseState.teacherCourses.filter((course) => course.isActive);
+  const blocked = ownedActive.length > 0 || courseState.isLoading;
+
+  useEffect(() => {
+    void courseController.loadMyTeachingCourses({ force: true });
+  }, [courseController]);
+
+  const handleArchiveCourse = useCallback(
+    (course: Course) => {
+      const pending = courseController.pendingArchiveFor(course.id);
+      if (pending) {
+        void courseController.resumeArchive(course.id);
+        return;
+      }
+      Alert.alert(
+        "Archivar curso",
+        `Se archivarán ${course.name} y sus categorías, grupos, actividades e inscripciones.`,
+        [
+          { text: "Cancelar", style: "cancel" },
+          {
+            text: "Archivar",
+            style: "destructive",
+            onPress: () => void courseController.setCourseActive(course.id, false),
+          },
+        ],
+      );
+    },
+    [courseController],
+  );
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    try {
+      await Share.share({ title: "Mis datos", message: await exportAccountData() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudieron exportar los datos");
+    } finally {
+      clearError();
+    }
+  }, [clearError, exportAccountData]);
+
+  // Al terminar la sesión queda cerrada y el navegador vuelve solo a la pantalla de inicio.
+  const handleDelete = useCallback(async () => {
+    if (!confirmed) return;
+    setError(null);
+    try {
+      await deleteAccount(confirmation);
+    } catch (err) {
+      clearError();
+      setError(err instanceof Error ? err.message : "No se pudo eliminar la cuenta");
+    }
+  }, [clearError, confirmation, confirmed, deleteAccount]);
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 64 : 0}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.title, { color: theme.colors.onSurface }]}>Eliminar cuenta</Text>
+          <Text style={[styles.helper, { color: theme.colors.onSurfaceVariant }]}>
+            Se borrará la cuenta {user?.email ?? ""}. Tus inscripciones y grupos quedarán inactivos y las
+            evaluaciones que diste o recibiste se conservarán sin tu nombre para no alterar las notas de tus
+            compañeros. Esta acción no se puede deshacer.
+          </Text>
+          {ownedActive.length > 0 ? (
+            <View style={[styles.coursesCard, { borderColor: theme.colors.outlineVariant }]}>
+              <Text style={[styles.coursesTitle, { color: theme.colors.onSurface }]}>Cursos a tu cargo</Text>
+              <Text style={[styles.helper, { color: theme.colors.onSurfaceVariant }]}>
+                Nadie más podría administrarlos, así que debes archivarlos antes de eliminar la cuenta.
+              </Text>
+              {ownedActive.map((course) => (
+                <View key={course.id} style={styles.courseRow}>
+                  <Text style={[styles.courseName, { color: theme.colors.onSurface }]} numberOfLines={1}>
+                    {course.name}
+                  </Text>
+                  <Button
+                    mode="text"
+                    compact
+                    onPress={() => handleArchiveCourse(course)}
+                    disabled={courseState.isLoading}
+                  >
+                    {courseState.pendingArchives[course.id] ? "Reanudar" : "Archivar"}
+                  </Button>
+                </View>
+              ))}
+              <HelperText type="error" visible={Boolean(courseState.error)}>
+                {courseState.error}
+              </HelperText>
+            </View>
+          ) : null}
+          <Button mode="outlined" icon="download" onPress={handleExport} disabled={loading}>
+            Exportar mis datos primero
+          </Button>
+          <TextInput
+            label={`Escribe ${DELETE_ACCOUNT_CONFIRMATION} para confirmar`}
+            mode="outlined"
+            value={confirmation}
+            onChangeText={setConfirmation}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <HelperText type="error" visible={Boolean(error)}>
+            {error}
+          </HelperText>
+          <Button
+            mode="contained"
+            icon="account-remove"
+            onPress={handleDelete}
+            loading={loading}
+            disabled={!confirmed || loading || blocked}
+            buttonColor={theme.colors.error}
+            textColor={theme.colors.onError}
+          >
+            Eliminar definitivamente
+          </Button>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  helper: {
+    fontSize: 14,
+  },
+  coursesCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  coursesTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  courseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  courseName: {
+    flex: 1,
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,161 @@
+import { useNavigation } from "@react-navigation/native";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
+
+type AvailabilityState = "idle" | "checking" | "available" | "taken";
+
+const usernameRegex = /^[a-zA-Z0-9_]+$/;
+
+const AVAILABILITY_LABELS: Record<AvailabilityState, string> = {
+  idle: "Letras, números o guion bajo; mínimo 3 caracteres",
+  checking: "Verificando disponibilidad…",
+  available: "Nombre de usuario disponible",
+  taken: "Ese nombre de usuario ya está en uso",
+};
+
+export default function EditProfileScreen() {
+  const theme = useTheme();
+  const navigation = useNavigation<any>();
+  const { user, loading, updateProfile, checkUsernameAvailability, clearError } = useAuth();
+
+  const [firstName, setFirstName] = useState(user?.firstName ?? "");
+  const [lastName, setLastName] = useState(user?.lastName ?? "");
+  const [username, setUsername] = useState(user?.username ?? "");
+  const [studentId, setStudentId] = useState(user?.studentId ?? "");
+  const [availability, setAvailability] = useState<AvailabilityState>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const candidate = username.trim();
+    if (candidate === user?.username || candidate.length < 3 || !usernameRegex.test(candidate)) {
+      setAvailability("idle");
+      return;
+    }
+    setAvailability("checking");
+    const timeout = setTimeout(async () => {
+      try {
+        const available = await checkUsernameAvailability(candidate);
+        setAvailability(available ? "available" : "taken");
+      } catch {
+        setAvailability("idle");
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [checkUsernameAvailability, user?.username, username]);
+
+  const hasChanges = useMemo(
+    () =>
+      firstName.trim() !== (user?.firstName ?? "") ||
+      lastName.trim() !== (user?.lastName ?? "") ||
+      username.trim() !== (user?.username ?? "") ||
+      studentId.trim() !== (user?.studentId ?? ""),
+    [firstName, lastName, studentId, user, username],
+  );
+
+  const canSubmit =
+    hasChanges &&
+    firstName.trim().length > 0 &&
+    lastName.trim().length > 0 &&
+    availability !== "taken" &&
+    availability !== "checking";
+
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit) return;
+    setError(null);
+    try {
+      await updateProfile({ firstName, lastName, username, studentId });
+      clearError();
+      Alert.alert("Perfil actualizado", "Tus datos se guardaron correctamente.", [
+        { text: "Aceptar", onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      clearError();
+      setError(err instanceof Error ? err.message : "No se pudo actualizar el perfil");
+    }
+  }, [canSubmit, clearError, firstName, lastName, navigation, studentId, updateProfile, username]);
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 64 : 0}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.title, { color: theme.colors.onSurface }]}>Editar perfil</Text>
+          <View style={styles.section}>
+            <TextInput label="Nombre" mode="outlined" value={firstName} onChangeText={setFirstName} />
+            <TextInput label="Apellido" mode="outlined" value={lastName} onChangeText={setLastName} />
+            <View>
+              <TextInput
+                label="Usuario"
+                mode="outlined"
+                value={username}
+                onChangeText={setUsername}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <HelperText type={availability === "taken" ? "error" : "info"} visible>
+                {AVAILABILITY_LABELS[availability]}
+              </HelperText>
+            </View>
+            <TextInput
+              label="Código estudiantil"
+              mode="outlined"
+              value={studentId}
+              onChangeText={setStudentId}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput label="Correo" mode="outlined" value={user?.email ?? ""} disabled />
+          </View>
+          <HelperText type="error" visible={Boolean(error)}>
+            {error}
+          </HelperText>
+          <Button
+            mode="contained"
+            icon="content-save"
+            onPress={handleSubmit}
+            loading={loading}
+            disabled={!canSubmit || loading}
+          >
+            Guardar cambios
+          </Button>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  section: {
+    gap: 16,
+  },
+});
@@ -1,7 +1,12 @@
 import { AppEventBus } from "@/src/core/events/AppEventBus";
 import { RefreshManager } from "@/src/core/utils/RefreshManager";
+import { OUTBOX_KINDS, UpdateActivityPayload } from "@/src/data/outbox/outboxHandlers";
+import { WriteOutbox } from "@/src/data/outbox/WriteOutbox";
+import { ConflictError, describeError } from "@/src/data/services/RobleErrors";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
 import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+import { ArchiveActivityUseCase } from "@/src/domain/usecases/activity/ArchiveActivityUseCase";
+import { CreateActivityUseCase } from "@/src/domain/usecases/activity/CreateActivityUseCase";
 import { GetCourseActivitiesForStudentUseCase } from "@/src/domain/usecases/activity/GetCourseActivitiesForStudentUseCase";
 
 const STUDENT_REFRESH_TTL_MS = 60_000;
@@ -45,27 +50,34 @@ const removeActivityFromList = (
 export type ActivityControllerState = {
   isLoading: boolean;
   error: string | null;
+  notice: string | null;
   activitiesByCourse: Record<string, CourseActivity[]>;
   activitiesByCategory: Record<string, CourseActivity[]>;
   studentActivitiesByCourse: Record<string, CourseActivity[]>;
   createdActivity: CourseActivity | null;
+  conflict: CourseActivity | null;
 };
 
 type Dependencies = {
   activityRepository: CourseActivityRepository;
   getCourseActivitiesForStudentUseCase: GetCourseActivitiesForStudentUseCase;
+  createActivityUseCase: CreateActivityUseCase;
+  archiveActivityUseCase: ArchiveActivityUseCase;
   appEventBus: AppEventBus;
   refreshManager: RefreshManager;
+  outbox: WriteOutbox;
   getCurrentUserId: () => Promise<string | null>;
 };
 
 const INITIAL_STATE: ActivityControllerState = {
   isLoading: false,
   error: null,
+  notice: null,
   activitiesByCourse: {},
   activitiesByCategory: {},
   studentActivitiesByCourse: {},
   createdActivity: null,
+  conflict: null,
 };
 
 const studentKey = (courseId: string) => `activities:student:${courseId}`;
@@ -79,21 +91,30 @@ export class ActivityController {
 
   private readonly activityRepository: CourseActivityRepository;
   private readonly getCourseActivitiesForStudentUseCase: GetCourseActivitiesForStudentUseCase;
+  private readonly createActivityUseCase: CreateActivityUseCase;
+  private readonly archiveActivityUseCase: ArchiveActivityUseCase;
   private readonly appEventBus: AppEventBus;
   private readonly refreshManager: RefreshManager;
+  private readonly outbox: WriteOutbox;
   private readonly getCurrentUserId: () => Promise<string | null>;
 
   constructor({
     activityRepository,
     getCourseActivitiesForStudentUseCase,
+    createActivityUseCase,
+    archiveActivityUseCase,
     appEventBus,
     refreshManager,
+    outbox,
     getCurrentUserId,
   }: Dependencies) {
     this.activityRepository = activityRepository;
     this.getCourseActivitiesForStudentUseCase = getCourseActivitiesForStudentUseCase;
+    this.createActivityUseCase = createActivityUseCase;
+    this.archiveActivityUseCase = archiveActivityUseCase;
     this.appEventBus = appEventBus;
     this.refreshManager = refreshManager;
+    this.outbox = outbox;
     this.getCurrentUserId = getCurrentUserId;
   }
 
@@ -259,28 +280,10 @@ export class ActivityController {
       return null;
     }
 
-    const title = params.title.trim();
-    const descriptionRaw = params.description ?? null;
-    const description = typeof descriptionRaw === "string" ? descriptionRaw.trim() : null;
-
-    const activity: CourseActivity = {
-      id: "",
-      title,
-      description,
-      courseId: params.courseId,
-      categoryId: params.categoryId,
-      createdBy: userId,
-      dueDate: params.dueDate ?? null,
-      createdAt: new Date().toISOString(),
-      isActive: true,
-      reviewing: params.reviewing ?? false,
-      privateReview: params.privateReview ?? false,
-    };
-
     this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const created = await this.activityRepository.createActivity(activity);
+      const created = await this.createActivityUseCase.execute({ ...params, createdBy: userId });
       this.applyActivityUpdate(created, { setCreated: true });
       this.invalidateStudentCache(created.courseId);
       this.publishActivityChanged(created.courseId);
@@ -293,16 +296,33 @@ export class ActivityController {
     }
   }
 
-  async updateActivity(activity: CourseActivity): Promise<CourseActivity | null> {
-    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+  async updateActivity(
+    activity: CourseActivity,
+    options: { force?: boolean } = {},
+  ): Promise<CourseActivity | null> {
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null, notice: null, conflict: null }));
 
     try {
-      const updated = await this.activityRepository.updateActivity(activity);
+      const userId = await this.getCurrentUserId();
+      const payload: UpdateActivityPayload = { userId, activity, force: options.force };
+      const submitted = await this.outbox.submit<CourseActivity>(OUTBOX_KINDS.updateActivity, payload);
+      if (submitted.status === "queued") {
+        this.setState((prev) => ({
+          ...prev,
+          notice: "Sin conexión. Los cambios de la actividad quedaron guardados y se enviarán automáticamente.",
+        }));
+        return null;
+      }
+      const updated = submitted.result;
       this.applyActivityUpdate(updated);
       this.invalidateStudentCache(updated.courseId);
       this.publishActivityChanged(updated.courseId);
       return updated;
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const latest = await this.activityRepository.getActivityById(activity.id).catch(() => null);
+        this.setState((prev) => ({ ...prev, conflict: latest }));
+      }
       this.setError(error);
       return null;
     } finally {
@@ -318,7 +338,8 @@ export class ActivityController {
     this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      await this.activityRepository.deleteActivity(params.activityId);
+      const userId = await this.getCurrentUserId();
+      await this.archiveActivityUseCase.execute({ userId, activityId: params.activityId });
       this.removeActivityFromState(params.activityId, params.courseId, params.categoryId);
       this.invalidateStudentCache(params.courseId);
       this.publishActivityChanged(params.courseId);
@@ -332,13 +353,25 @@ export class ActivityController {
   }
 
   clearError() {
-    this.setState((prev) => ({ ...prev, error: null }));
+    this.setState((prev) => ({ ...prev, error: null, notice: null }));
+  }
+
+  clearConflict() {
+    this.setState((prev) => ({ ...prev, conflict: null }));
   }
 
   clearCreatedActivity() {
     this.setState((prev) => ({ ...prev, createdActivity: null }));
   }
 
+  reset() {
+    this.loadingCourseIds.clear();
+    this.loadingCategoryIds.clear();
+    this.loadingStudentCourseIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
   private applyActivityUpdate(activity: CourseActivity, options: { setCreated?: boolean } = {}) {
     this.setState((prev) => {
       const previous = this.findActivity(activity.id, prev);
@@ -473,7 +506,7 @@ export class ActivityController {
   }
 
   private setError(error: unknown, options: { silent?: boolean } = {}) {
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     if (options.silent) {
       return;
     }
@@ -6,10 +6,12 @@ import { ActivityIndicator, Button, Chip, IconButton, Text, useTheme } from "rea
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
 import { Course } from "@/src/domain/models/Course";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { can } from "@/src/domain/policies/AccessPolicy";
 import { useAuth } from "@/src/features/auth/presentation/context/authContext";
 import { useActivityController } from "@/src/features/activity/hooks/useActivityController";
 import { useCategoryController } from "@/src/features/category/hooks/useCategoryController";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
+import { useCourseStaffController } from "@/src/features/staff/hooks/useCourseStaffController";
 
 type RouteParams = {
   courseId: string;
@@ -52,6 +54,7 @@ export const ActivityDetailScreen: React.FC = () => {
   const [activityState, activityController] = useActivityController();
   const [categoryState, categoryController] = useCategoryController();
   const [, courseController] = useCourseController();
+  const [staffState, courseStaffController] = useCourseStaffController();
 
   const [activity, setActivity] = useState<CourseActivity | null>(null);
   const [course, setCourse] = useState<Course | null>(null);
@@ -118,7 +121,8 @@ export const ActivityDetailScreen: React.FC = () => {
         setCourse(data);
       }
     });
-  }, [courseController, courseId]);
+    void courseStaffController.loadMyRole(courseId);
+  }, [courseController, courseId, courseStaffController]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -155,6 +159,11 @@ export const ActivityDetailScreen: React.FC = () => {
           "Peer Review activado",
           "Los estudiantes ya pueden evaluarse en esta actividad.",
         );
+        return;
+      }
+      const { notice } = activityController.getSnapshot();
+      if (notice) {
+        Alert.alert("Guardado sin conexión", notice);
       }
     } catch (error) {
       Alert.alert("Error", "No se pudo activar el Peer Review. Intenta nuevamente.");
@@ -182,10 +191,12 @@ export const ActivityDetailScreen: React.FC = () => {
   const isActive = activity.isActive;
   const description = activity.description?.trim() || "No tiene descripción";
   const hasPeerReview = activity.reviewing ?? false;
-  const isTeacher = course?.teacherId && user?.id ? course.teacherId === user.id : false;
+  // Quien no es docente solo llega a esta actividad a través de un curso en el que está inscrito.
+  const policyResource = { course, staffRole: staffState.myRoles[courseId] ?? null, isEnrolled: true };
+  const canManageActivity = can(user, "activity.update", policyResource);
   const peerReviewStatus = hasPeerReview ? "Activo" : "Inactivo";
   const peerReviewColor = hasPeerReview ? "#4CAF50" : "#F44336";
-  const canCalificar = hasPeerReview && !isTeacher;
+  const canCalificar = hasPeerReview && can(user, "assessment.submit", policyResource);
 
 
   return (
@@ -289,7 +300,7 @@ export const ActivityDetailScreen: React.FC = () => {
           )}
 
           {/* Mis Resultados */}
-          {!isTeacher && hasPeerReview && (
+          {canCalificar && (
             <View style={styles.section}>
               <Button
                 mode="contained-tonal"
@@ -303,7 +314,7 @@ export const ActivityDetailScreen: React.FC = () => {
             </View>
           )}
 
-          {isTeacher && (
+          {canManageActivity && (
             <View style={styles.section}>
               <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>Peer Review</Text>
               <Text style={[styles.descriptionText, { color: theme.colors.onSurfaceVariant, marginBottom: 12 }]}>
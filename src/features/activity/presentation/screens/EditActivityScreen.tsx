@@ -8,6 +8,7 @@ import { Alert, Platform, SafeAreaView, ScrollView, StyleSheet, View } from "rea
 import { Button, Switch, Text, TextInput, useTheme } from "react-native-paper";
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { promptConflictResolution } from "@/src/components/ConflictAlert";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
 import { useActivityController } from "@/src/features/activity/hooks/useActivityController";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
@@ -62,7 +63,19 @@ export const EditActivityScreen: React.FC = () => {
         });
     }, [courseId, activityController, courseController]);
 
+    const fillForm = (source: CourseActivity) => {
+        setActivity(source);
+        setTitle(source.title);
+        setDescription(source.description || "");
+        setDueDate(source.dueDate ? new Date(source.dueDate) : null);
+        setIsActive(source.isActive);
+        setReviewing(source.reviewing || false);
+        setPrivateReview(source.privateReview || false);
+    };
+
+    // `activity` es la versión con la que se abrió el formulario; una recarga de la lista no la pisa.
     useEffect(() => {
+        if (activity) return;
         const activities = activityState.activitiesByCourse[courseId] || [];
         const foundActivity = activities.find((a: CourseActivity) => a.id === activityId);
         if (foundActivity) {
@@ -74,7 +87,7 @@ export const EditActivityScreen: React.FC = () => {
             setReviewing(foundActivity.reviewing || false);
             setPrivateReview(foundActivity.privateReview || false);
         }
-    }, [activityState.activitiesByCourse, courseId, activityId]);
+    }, [activityState.activitiesByCourse, courseId, activityId, activity]);
 
     const handleDatePick = () => {
         const baseDate = dueDate ?? new Date();
@@ -105,6 +118,43 @@ export const EditActivityScreen: React.FC = () => {
         setShowIOSPicker(false);
     };
 
+    const save = async (base: CourseActivity, draft: CourseActivity) => {
+        const result = await activityController.updateActivity(draft);
+        if (result) {
+            Alert.alert("Guardado", "Cambios aplicados correctamente");
+            navigation.goBack();
+            return;
+        }
+        const { notice, conflict: latest } = activityController.getSnapshot();
+        if (notice) {
+            Alert.alert("Guardado sin conexión", notice);
+            navigation.goBack();
+            return;
+        }
+        if (!latest) return;
+        activityController.clearConflict();
+        promptConflictResolution({
+            entityLabel: "esta actividad",
+            base,
+            local: draft,
+            latest,
+            fieldLabels: {
+                title: "Título",
+                description: "Descripción",
+                dueDate: "Fecha límite",
+                isActive: "Estado",
+                reviewing: "Evaluación entre pares",
+                privateReview: "Evaluación privada",
+            },
+            onReload: fillForm,
+            onMerge: (merged) => {
+                fillForm(merged);
+                setActivity(latest);
+                void save(latest, merged);
+            },
+        });
+    };
+
     const handleSubmit = async () => {
         if (!activity) return;
         if (!title.trim()) {
@@ -124,11 +174,7 @@ export const EditActivityScreen: React.FC = () => {
                 privateReview: reviewing ? privateReview : false,
             };
 
-            const result = await activityController.updateActivity(updated);
-            if (result) {
-                Alert.alert("Guardado", "Cambios aplicados correctamente");
-                navigation.goBack();
-            }
+            await save(activity, updated);
         } catch {
             Alert.alert("Error", "No se pudieron guardar los cambios");
         } finally {
@@ -1,9 +1,12 @@
 import { useFocusEffect, useNavigation, useRoute } from "@react-navigation/native";
-import React, { useCallback, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Alert, Dimensions, RefreshControl, SafeAreaView, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
 import { ActivityIndicator, Button, Card, Chip, IconButton, ProgressBar, Text, useTheme } from "react-native-paper";
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { useWriteOutbox } from "@/src/data/outbox/hooks/useWriteOutbox";
+import { OUTBOX_KINDS } from "@/src/data/outbox/outboxHandlers";
+import { isRetryableRobleError } from "@/src/data/services/RobleErrors";
 import { Assessment } from "@/src/domain/models/Assessment";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
 import { useActivityController } from "@/src/features/activity/hooks/useActivityController";
@@ -80,6 +83,7 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
   const [activityState, activityController] = useActivityController();
   const [enrollmentState, enrollmentController] = useEnrollmentController();
   const assessmentRepository = useAssessmentRepository();
+  const [outboxState, outbox] = useWriteOutbox();
 
   const [activity, setActivity] = useState<CourseActivity | null>(null);
   const [existingAssessment, setExistingAssessment] = useState<Assessment | null>(null);
@@ -95,7 +99,19 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
   const [commitment, setCommitment] = useState<number | null>(null);
   const [attitude, setAttitude] = useState<number | null>(null);
 
-  const isReadOnly = existingAssessment !== null;
+  // Evaluación de este compañero que quedó guardada sin conexión y aún no llega al servidor.
+  const queuedEntry = useMemo(
+    () =>
+      outboxState.entries.find((entry) => {
+        if (entry.kind !== OUTBOX_KINDS.createAssessment) return false;
+        const payload = entry.payload as Assessment;
+        return payload.activityId === activityId && payload.reviewerId === user?.id && payload.studentId === userId;
+      }) ?? null,
+    [outboxState.entries, activityId, user?.id, userId],
+  );
+  const queuedAssessment = (queuedEntry?.payload as Assessment | undefined) ?? null;
+
+  const isReadOnly = existingAssessment !== null || queuedAssessment !== null;
 
   const loadData = useCallback(
     async ({ force = false }: { force?: boolean } = {}) => {
@@ -121,6 +137,8 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
         setPeerName(userName || userId);
         setPeerEmail(userEmail || "");
 
+        await outbox.load();
+
         // Cargar evaluación existente si existe
         const assessments = await assessmentRepository.getAssessmentsByReviewer(activityId, user.id);
         const existing = assessments.find((a) => a.studentId === userId);
@@ -138,9 +156,27 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
         setLoading(false);
       }
     },
-    [activityController, assessmentRepository, courseId, enrollmentController, activityId, userId, user?.id],
+    [activityController, assessmentRepository, outbox, courseId, enrollmentController, activityId, userId, user?.id],
   );
 
+  useEffect(() => {
+    if (!queuedAssessment) return;
+    setPunctuality(queuedAssessment.punctualityScore);
+    setContributions(queuedAssessment.contributionsScore);
+    setCommitment(queuedAssessment.commitmentScore);
+    setAttitude(queuedAssessment.attitudeScore);
+  }, [queuedAssessment]);
+
+  // Cuando la cola termina de enviar la evaluación se recarga para mostrarla como enviada.
+  const previousQueuedId = useRef<string | null>(null);
+  useEffect(() => {
+    const currentId = queuedEntry?.id ?? null;
+    if (previousQueuedId.current && !currentId) {
+      void loadData();
+    }
+    previousQueuedId.current = currentId;
+  }, [queuedEntry?.id, loadData]);
+
   useFocusEffect(
     useCallback(() => {
       let cancelled = false;
@@ -233,12 +269,17 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
     setError(null);
 
     try {
-      // Verificar si ya existe una evaluación
-      const exists = await assessmentRepository.existsAssessment({
-        activityId,
-        reviewerId: user.id,
-        studentId: userId,
-      });
+      // Verificar si ya existe una evaluación; sin conexión la cola lo comprueba al reenviar
+      let exists = false;
+      try {
+        exists = await assessmentRepository.existsAssessment({
+          activityId,
+          reviewerId: user.id,
+          studentId: userId,
+        });
+      } catch (checkError) {
+        if (!isRetryableRobleError(checkError)) throw checkError;
+      }
 
       if (exists) {
         Alert.alert("Error", "Ya evaluaste a este compañero.");
@@ -262,7 +303,16 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
         updatedAt: null,
       };
 
-      await assessmentRepository.createAssessment(assessment);
+      // La cola envía con CreateAssessmentUseCase, que valida los permisos ahora y al reenviar.
+      const submitted = await outbox.submit<Assessment>(OUTBOX_KINDS.createAssessment, assessment);
+      if (submitted.status === "queued") {
+        Alert.alert(
+          "Guardada sin conexión",
+          "Tu evaluación se enviará automáticamente cuando vuelva la conexión.",
+          [{ text: "OK", onPress: () => navigation.goBack() }],
+        );
+        return;
+      }
 
       Alert.alert("¡Éxito!", "Tu evaluación ha sido enviada correctamente.", [
         {
@@ -286,6 +336,7 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
     userId,
     activityId,
     assessmentRepository,
+    outbox,
     punctuality,
     contributions,
     commitment,
@@ -437,7 +488,7 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
                 fontWeight: "600",
               }}
             >
-              {isReadOnly ? "Enviada" : "Pendiente"}
+              {queuedAssessment ? "Sin enviar" : isReadOnly ? "Enviada" : "Pendiente"}
             </Chip>
           </View>
 
@@ -449,6 +500,51 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
             </Card>
           ) : null}
 
+          {queuedEntry ? (
+            <Card
+              style={[
+                styles.sectionCard,
+                {
+                  backgroundColor:
+                    queuedEntry.status === "failed" ? theme.colors.errorContainer : theme.colors.secondaryContainer,
+                },
+              ]}
+            >
+              <Card.Content>
+                <View style={styles.sectionHeader}>
+                  <IconButton
+                    icon={queuedEntry.status === "failed" ? "alert-circle-outline" : "cloud-upload-outline"}
+                    size={24}
+                    iconColor={GOLD}
+                  />
+                  <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                    {queuedEntry.status === "failed" ? "No se pudo enviar" : "Pendiente de envío"}
+                  </Text>
+                </View>
+                <Text style={[styles.instructionsText, { color: theme.colors.onSurface }]}>
+                  {queuedEntry.status === "failed"
+                    ? queuedEntry.lastError ?? "El servidor rechazó la evaluación."
+                    : "Guardamos tu evaluación en este dispositivo y la enviaremos en cuanto haya conexión."}
+                </Text>
+                <View style={styles.queueActions}>
+                  <Button
+                    mode="contained-tonal"
+                    onPress={() => void outbox.retry(queuedEntry.id)}
+                    loading={outboxState.isReplaying}
+                    disabled={outboxState.isReplaying}
+                  >
+                    Reintentar ahora
+                  </Button>
+                  {queuedEntry.status === "failed" ? (
+                    <Button mode="text" onPress={() => void outbox.discard(queuedEntry.id)}>
+                      Descartar
+                    </Button>
+                  ) : null}
+                </View>
+              </Card.Content>
+            </Card>
+          ) : null}
+
           {/* Instrucciones */}
           <Card style={[styles.sectionCard, { backgroundColor: theme.colors.surface }]}>
             <Card.Content>
@@ -574,7 +670,7 @@ export const PeerReviewEvaluateScreen: React.FC = () => {
                 },
               ]}
             >
-              {isReadOnly ? "EVALUACIÓN ENVIADA" : "ENVIAR EVALUACIÓN"}
+              {queuedAssessment ? "PENDIENTE DE ENVÍO" : isReadOnly ? "EVALUACIÓN ENVIADA" : "ENVIAR EVALUACIÓN"}
             </Button>
           </View>
         </ScrollView>
@@ -777,6 +873,10 @@ const styles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
   },
+  queueActions: {
+    flexDirection: "row",
+    gap: 8,
+  },
   actionsContainer: {
     marginTop: 24,
     marginBottom: 20,
@@ -0,0 +1,140 @@
+import { describeError } from "@/src/data/services/RobleErrors";
+import { Activity } from "@/src/domain/models/Activity";
+import { AuditLogRepository } from "@/src/domain/repositories/AuditLogRepository";
+import { UserRepository } from "@/src/domain/repositories/UserRepository";
+
+export type AuditLogControllerState = {
+  isLoading: boolean;
+  error: string | null;
+  historyByCourse: Record<string, Activity[]>;
+  actorNames: Record<string, string>;
+};
+
+export type AuditHistoryFilters = {
+  entityType?: string | null;
+  userId?: string | null;
+};
+
+type Dependencies = {
+  auditLogRepository: AuditLogRepository;
+  userRepository: UserRepository;
+};
+
+const INITIAL_STATE: AuditLogControllerState = {
+  isLoading: false,
+  error: null,
+  historyByCourse: {},
+  actorNames: {},
+};
+
+export class AuditLogController {
+  private state: AuditLogControllerState = INITIAL_STATE;
+  private readonly listeners = new Set<() => void>();
+  private readonly loadingCourseIds = new Set<string>();
+
+  private readonly auditLogRepository: AuditLogRepository;
+  private readonly userRepository: UserRepository;
+
+  constructor({ auditLogRepository, userRepository }: Dependencies) {
+    this.auditLogRepository = auditLogRepository;
+    this.userRepository = userRepository;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): AuditLogControllerState {
+    return this.state;
+  }
+
+  // Los filtros se aplican en memoria para que cambiar de filtro no vuelva a consultar el servidor.
+  historyFor(courseId: string, filters: AuditHistoryFilters = {}): Activity[] {
+    return (this.state.historyByCourse[courseId] ?? []).filter(
+      (entry) =>
+        (!filters.entityType || entry.entityType === filters.entityType) &&
+        (!filters.userId || entry.userId === filters.userId),
+    );
+  }
+
+  actorsFor(courseId: string): string[] {
+    return Array.from(new Set((this.state.historyByCourse[courseId] ?? []).map((entry) => entry.userId)));
+  }
+
+  actorName(userId: string): string {
+    return this.state.actorNames[userId] ?? "Usuario";
+  }
+
+  async loadCourseHistory(courseId: string, options: { force?: boolean; signal?: AbortSignal } = {}) {
+    if (!courseId) return;
+    if (this.loadingCourseIds.has(courseId) && !options.force) {
+      return;
+    }
+
+    this.loadingCourseIds.add(courseId);
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const history = await this.auditLogRepository.getCourseHistory(courseId, { signal: options.signal });
+      this.setState((prev) => ({
+        ...prev,
+        historyByCourse: { ...prev.historyByCourse, [courseId]: history },
+      }));
+      await this.loadActorNames(history.map((entry) => entry.userId));
+    } catch (error) {
+      // La pantalla canceló la lectura al cerrarse; no hay nada que mostrar.
+      if (options.signal?.aborted) return;
+      this.setError(error);
+    } finally {
+      this.loadingCourseIds.delete(courseId);
+      this.setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }
+
+  clearError() {
+    this.setState((prev) => ({ ...prev, error: null }));
+  }
+
+  reset() {
+    this.loadingCourseIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
+  private async loadActorNames(userIds: string[]) {
+    const missing = Array.from(new Set(userIds)).filter((id) => id && !(id in this.state.actorNames));
+    if (!missing.length) return;
+
+    const users = await Promise.all(
+      missing.map((id) => this.userRepository.getUserById(id).catch(() => null)),
+    );
+    const names: Record<string, string> = {};
+    users.forEach((user, index) => {
+      const fullName = user ? [user.firstName, user.lastName].filter((part) => part.trim()).join(" ") : "";
+      names[missing[index]] = fullName || user?.email || "Usuario";
+    });
+    this.setState((prev) => ({ ...prev, actorNames: { ...prev.actorNames, ...names } }));
+  }
+
+  private setState(updater: (prev: AuditLogControllerState) => AuditLogControllerState) {
+    const next = updater(this.state);
+    this.state = next;
+    this.notify();
+  }
+
+  private setError(error: unknown) {
+    const message = describeError(error);
+    this.setState((prev) => ({ ...prev, error: message }));
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("AuditLogController listener error", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { TOKENS } from "@/src/core/di/tokens";
+import { useController } from "@/src/core/hooks/useController";
+import {
+  AuditLogController,
+  AuditLogControllerState,
+} from "@/src/features/audit/controllers/AuditLogController";
+
+export function useAuditLogController() {
+  return useController<AuditLogController, AuditLogControllerState>(TOKENS.AuditLogController);
+}
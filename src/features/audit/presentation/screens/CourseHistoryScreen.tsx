@@ -0,0 +1,347 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect, useNavigation, useRoute } from "@react-navigation/native";
+import React, { useCallback, useState } from "react";
+import { RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Chip,
+  IconButton,
+  Text,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { Activity, AuditEntityType } from "@/src/domain/models/Activity";
+import { useAuditLogController } from "@/src/features/audit/hooks/useAuditLogController";
+import { useCourseController } from "@/src/features/course/hooks/useCourseController";
+
+type RouteParams = {
+  courseId: string;
+};
+
+const ENTITY_FILTERS: { value: AuditEntityType; label: string }[] = [
+  { value: "course", label: "Curso" },
+  { value: "category", label: "Categorías" },
+  { value: "group", label: "Grupos" },
+  { value: "activity", label: "Actividades" },
+  { value: "enrollment", label: "Inscripciones" },
+  { value: "membership", label: "Membresías" },
+  { value: "staff", label: "Equipo docente" },
+];
+
+const ENTITY_LABELS: Record<string, string> = {
+  course: "el curso",
+  category: "la categoría",
+  group: "el grupo",
+  activity: "la actividad",
+  enrollment: "una inscripción",
+  membership: "una membresía en",
+  staff: "un rol del equipo docente",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "creó",
+  update: "editó",
+  archive: "archivó",
+  restore: "restauró",
+  purge: "eliminó",
+};
+
+const ENTITY_ICONS: Record<string, keyof typeof MaterialIcons.glyphMap> = {
+  course: "school",
+  category: "category",
+  group: "groups",
+  activity: "task-alt",
+  enrollment: "how-to-reg",
+  membership: "group-add",
+  staff: "supervisor-account",
+};
+
+const CourseHistoryScreen = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute();
+  const { courseId } = (route.params ?? {}) as RouteParams;
+
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const [, courseController] = useCourseController();
+  const [auditState, auditController] = useAuditLogController();
+
+  const [courseTitle, setCourseTitle] = useState("Curso");
+  const [entityType, setEntityType] = useState<AuditEntityType | null>(null);
+  const [actorId, setActorId] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const history = courseId ? auditController.historyFor(courseId, { entityType, userId: actorId }) : [];
+  const actors = courseId ? auditController.actorsFor(courseId) : [];
+
+  const loadData = useCallback(
+    async ({ force = false, signal }: { force?: boolean; signal?: AbortSignal } = {}) => {
+      if (!courseId) return;
+      const course = await courseController.getCourseById(courseId);
+      if (course) {
+        setCourseTitle(course.name);
+      }
+      await auditController.loadCourseHistory(courseId, { force, signal });
+    },
+    [auditController, courseController, courseId],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      const controller = new AbortController();
+      void loadData({ signal: controller.signal });
+      return () => controller.abort();
+    }, [loadData]),
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadData({ force: true });
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadData]);
+
+  const loading = auditState.isLoading && history.length === 0;
+  const filtered = entityType !== null || actorId !== null;
+
+  const describeEntry = (entry: Activity) => {
+    const action = ACTION_LABELS[entry.action] ?? entry.action;
+    const entity = ENTITY_LABELS[entry.entityType ?? ""] ?? "un registro";
+    return entry.details ? `${action} ${entity} «${entry.details}»` : `${action} ${entity}`;
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.page}>
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: Math.max(insets.top, 20) + 12,
+              paddingBottom: 120 + insets.bottom,
+            },
+          ]}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={theme.colors.primary}
+              colors={[theme.colors.primary]}
+              progressBackgroundColor={theme.colors.surface}
+            />
+          }
+        >
+          <View style={styles.headerRow}>
+            <IconButton icon="arrow-left" onPress={() => navigation.goBack()} />
+            <View style={styles.headerTexts}>
+              <Text style={[styles.headerSubtitle, { color: theme.colors.onSurfaceVariant }]}>Historial de cambios</Text>
+              <Text style={[styles.headerTitle, { color: theme.colors.onSurface }]}>
+                {courseTitle}
+              </Text>
+            </View>
+          </View>
+
+          <Text style={[styles.filterLabel, { color: theme.colors.onSurfaceVariant }]}>Elemento</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            <Chip style={styles.chip} selected={entityType === null} onPress={() => setEntityType(null)}>
+              Todos
+            </Chip>
+            {ENTITY_FILTERS.map((option) => (
+              <Chip
+                key={option.value}
+                style={styles.chip}
+                selected={entityType === option.value}
+                onPress={() => setEntityType(entityType === option.value ? null : option.value)}
+              >
+                {option.label}
+              </Chip>
+            ))}
+          </ScrollView>
+
+          {actors.length > 1 ? (
+            <>
+              <Text style={[styles.filterLabel, { color: theme.colors.onSurfaceVariant }]}>Autor</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                <Chip style={styles.chip} selected={actorId === null} onPress={() => setActorId(null)}>
+                  Todos
+                </Chip>
+                {actors.map((id) => (
+                  <Chip
+                    key={id}
+                    style={styles.chip}
+                    selected={actorId === id}
+                    onPress={() => setActorId(actorId === id ? null : id)}
+                  >
+                    {auditController.actorName(id)}
+                  </Chip>
+                ))}
+              </ScrollView>
+            </>
+          ) : null}
+
+          {auditState.error ? (
+            <Text style={[styles.errorText, { color: theme.colors.error }]}>{auditState.error}</Text>
+          ) : null}
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" />
+              <Text style={[styles.loadingText, { color: theme.colors.onSurfaceVariant }]}>Cargando historial…</Text>
+            </View>
+          ) : history.length === 0 ? (
+            <View
+              style={[
+                styles.emptyCard,
+                {
+                  borderColor: theme.colors.outlineVariant ?? "#00000012",
+                  backgroundColor: theme.colors.surface,
+                },
+              ]}
+            >
+              <MaterialIcons
+                name="history"
+                size={42}
+                color={theme.colors.primary}
+                style={styles.emptyIcon}
+              />
+              <Text style={[styles.emptyTitle, { color: theme.colors.onSurface }]}>
+                {filtered ? "Ningún cambio coincide con los filtros" : "Aún no hay cambios registrados"}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.listContainer}>
+              {history.map((entry) => (
+                <View
+                  key={entry.id}
+                  style={[
+                    styles.entryItem,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      borderColor: theme.colors.outlineVariant ?? "#00000012",
+                    },
+                  ]}
+                >
+                  <MaterialIcons
+                    name={ENTITY_ICONS[entry.entityType ?? ""] ?? "history"}
+                    size={20}
+                    color={theme.colors.primary}
+                    style={styles.entryIcon}
+                  />
+                  <View style={styles.entryContent}>
+                    <Text style={[styles.entryTitle, { color: theme.colors.onSurface }]}>
+                      {auditController.actorName(entry.userId)} {describeEntry(entry)}
+                    </Text>
+                    <Text style={[styles.entrySubtitle, { color: theme.colors.onSurfaceVariant }]}>
+                      {new Date(entry.createdAt).toLocaleString("es-ES")}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+        <BottomNavigationDock currentIndex={-1} />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default CourseHistoryScreen;
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  page: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  headerTexts: {
+    flex: 1,
+    marginRight: 12,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: "700",
+    marginTop: 6,
+  },
+  filterLabel: {
+    marginTop: 18,
+    marginBottom: 8,
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  chipRow: {
+    paddingRight: 20,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 14,
+  },
+  loadingContainer: {
+    paddingVertical: 48,
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+  },
+  emptyCard: {
+    marginTop: 28,
+    padding: 28,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: "center",
+  },
+  emptyIcon: {
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    textAlign: "center",
+  },
+  listContainer: {
+    marginTop: 20,
+  },
+  entryItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  entryIcon: {
+    marginRight: 12,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  entrySubtitle: {
+    marginTop: 4,
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,78 @@
+import { AuthLocalDataSource } from "./datasources/AuthLocalDataSource";
+import { AuthRemoteDataSource } from "./datasources/AuthRemoteDataSource";
+
+type Dependencies = {
+  local: AuthLocalDataSource;
+  remote: Pick<AuthRemoteDataSource, "refreshToken">;
+  onSessionExpired?: () => void;
+};
+
+/**
+ * Punto único para obtener el token de acceso de la sesión y renovarlo cuando ROBLE responde 401.
+ * Las renovaciones concurrentes comparten una sola petición a `/refresh-token`.
+ */
+export class AccessTokenProvider {
+  private readonly local: AuthLocalDataSource;
+  private readonly remote: Pick<AuthRemoteDataSource, "refreshToken">;
+  private readonly onSessionExpired?: () => void;
+  private pendingRefresh?: Promise<string | null>;
+
+  constructor({ local, remote, onSessionExpired }: Dependencies) {
+    this.local = local;
+    this.remote = remote;
+    this.onSessionExpired = onSessionExpired;
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    const stored = await this.local.getSession();
+    return stored?.session.tokens.accessToken ?? null;
+  }
+
+  async refreshAccessToken(rejectedToken?: string): Promise<string | null> {
+    if (this.pendingRefresh) {
+      return this.pendingRefresh;
+    }
+
+    this.pendingRefresh = this.performRefresh(rejectedToken).finally(() => {
+      this.pendingRefresh = undefined;
+    });
+
+    return this.pendingRefresh;
+  }
+
+  private async performRefresh(rejectedToken?: string): Promise<string | null> {
+    const stored = await this.local.getSession();
+    if (!stored) {
+      return null;
+    }
+
+    const { accessToken, refreshToken } = stored.session.tokens;
+    // Otra llamada ya renovó el token mientras esta esperaba respuesta.
+    if (rejectedToken && accessToken !== rejectedToken) {
+      return accessToken;
+    }
+
+    let refreshed: { accessToken: string; refreshToken?: string } | null = null;
+    if (refreshToken) {
+      try {
+        refreshed = await this.remote.refreshToken(refreshToken);
+      } catch (error) {
+        // Sin conexión o con ROBLE caído no se sabe si el token sigue vigente: la sesión se conserva.
+        console.warn("[AUTH] Falló la renovación del token", error);
+        return null;
+      }
+    }
+
+    if (!refreshed?.accessToken) {
+      await this.local.clearSession();
+      this.onSessionExpired?.();
+      return null;
+    }
+
+    await this.local.updateTokens({
+      accessToken: refreshed.accessToken,
+      refreshToken: refreshed.refreshToken ?? refreshToken,
+    });
+    return refreshed.accessToken;
+  }
+}
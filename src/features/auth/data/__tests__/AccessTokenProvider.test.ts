@@ -0,0 +1,69 @@
+import { AccessTokenProvider } from "../AccessTokenProvider";
+
+const createLocal = (tokens: { accessToken: string; refreshToken?: string } | null) => {
+  let current = tokens;
+  return {
+    getSession: async () =>
+      current ? { session: { user: { id: "u1" }, tokens: current }, keepLoggedIn: true } : null,
+    updateTokens: jest.fn(async (next: { accessToken: string; refreshToken?: string }) => {
+      current = next;
+    }),
+    clearSession: jest.fn(async () => {
+      current = null;
+    }),
+    saveSession: async () => {},
+  } as any;
+};
+
+describe("AccessTokenProvider", () => {
+  it("shares a single refresh between concurrent callers and persists the tokens", async () => {
+    const local = createLocal({ accessToken: "old", refreshToken: "r1" });
+    const remote = {
+      refreshToken: jest.fn(async () => ({ accessToken: "new", refreshToken: "r2" })),
+    };
+    const provider = new AccessTokenProvider({ local, remote });
+
+    const results = await Promise.all([
+      provider.refreshAccessToken("old"),
+      provider.refreshAccessToken("old"),
+    ]);
+
+    expect(results).toEqual(["new", "new"]);
+    expect(remote.refreshToken).toHaveBeenCalledTimes(1);
+    expect(local.updateTokens).toHaveBeenCalledWith({ accessToken: "new", refreshToken: "r2" });
+    expect(await provider.refreshAccessToken("old")).toBe("new");
+    expect(remote.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears the session and reports expiry when the refresh fails", async () => {
+    const local = createLocal({ accessToken: "old", refreshToken: "r1" });
+    const onSessionExpired = jest.fn();
+    const provider = new AccessTokenProvider({
+      local,
+      remote: { refreshToken: async () => null },
+      onSessionExpired,
+    });
+
+    expect(await provider.refreshAccessToken("old")).toBeNull();
+    expect(local.clearSession).toHaveBeenCalled();
+    expect(onSessionExpired).toHaveBeenCalledTimes(1);
+    expect(await provider.getAccessToken()).toBeNull();
+  });
+
+  it("keeps the session when ROBLE cannot answer the refresh", async () => {
+    const local = createLocal({ accessToken: "old", refreshToken: "r1" });
+    const onSessionExpired = jest.fn();
+    const provider = new AccessTokenProvider({
+      local,
+      remote: { refreshToken: async () => Promise.reject(new Error("503")) },
+      onSessionExpired,
+    });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await provider.refreshAccessToken("old")).toBeNull();
+    expect(local.clearSession).not.toHaveBeenCalled();
+    expect(onSessionExpired).not.toHaveBeenCalled();
+    expect(await provider.getAccessToken()).toBe("old");
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,70 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { AuthSession } from "../../domain/entities/AuthSession";
+import { AuthLocalDataSourceImpl } from "../datasources/AuthLocalDataSource";
+
+const session = (id: string, accessToken = `token-${id}`): AuthSession => ({
+  user: {
+    id,
+    studentId: "",
+    email: `${id}@uninorte.edu.co`,
+    firstName: id,
+    lastName: "",
+    username: id,
+    createdAt: new Date("2025-01-01T00:00:00.000Z"),
+    isActive: true,
+  },
+  tokens: { accessToken, refreshToken: `refresh-${id}` },
+});
+
+describe("AuthLocalDataSourceImpl", () => {
+  it("keeps every account and scopes token updates and sign-out to the active one", async () => {
+    const local = new AuthLocalDataSourceImpl(new InMemoryLocalPreferences());
+    await local.saveSession(session("ana"), true);
+    await local.saveSession(session("luis"), false);
+
+    await local.updateTokens({ accessToken: "renewed", refreshToken: "renewed-refresh" });
+    expect((await local.getSession())?.session.tokens.accessToken).toBe("renewed");
+
+    const ana = await local.activateAccount("ana");
+    expect(ana?.session.tokens.accessToken).toBe("token-ana");
+    expect((await local.listAccounts()).map((record) => record.session.user.id)).toEqual(["ana", "luis"]);
+
+    await local.clearSession();
+    expect(await local.getSession()).toBeNull();
+    expect((await local.listAccounts()).map((record) => record.session.user.id)).toEqual(["luis"]);
+    expect(await local.activateAccount("ana")).toBeNull();
+  });
+
+  it("keeps the start of a saved account's session unless the save renews it", async () => {
+    const preferences = new InMemoryLocalPreferences();
+    const local = new AuthLocalDataSourceImpl(preferences);
+    await local.saveSession(session("ana"), true);
+    const [stored] = (await preferences.retrieveData<{ startedAt: string }[]>("auth:accounts")) ?? [];
+    await preferences.storeData("auth:accounts", [{ ...stored, startedAt: "2025-01-01T00:00:00.000Z" }]);
+
+    await local.saveSession(session("ana", "refreshed"), true);
+    expect((await local.getSession())?.startedAt).toEqual(new Date("2025-01-01T00:00:00.000Z"));
+
+    await local.saveSession(session("ana", "signed-in"), true, { renew: true });
+    expect((await local.getSession())?.startedAt?.getFullYear()).toBeGreaterThan(2025);
+  });
+
+  it("moves a session stored by the single-account version into the account list", async () => {
+    const preferences = new InMemoryLocalPreferences({
+      "auth:accessToken": "legacy-token",
+      "auth:refreshToken": "legacy-refresh",
+      "auth:user": JSON.stringify(session("ana").user),
+      "auth:keepLoggedIn": true,
+      "auth:sessionStartedAt": "2025-02-01T00:00:00.000Z",
+    });
+    const local = new AuthLocalDataSourceImpl(preferences);
+
+    const restored = await local.getSession();
+    expect(restored).toMatchObject({
+      session: { user: { id: "ana" }, tokens: { accessToken: "legacy-token", refreshToken: "legacy-refresh" } },
+      keepLoggedIn: true,
+      startedAt: new Date("2025-02-01T00:00:00.000Z"),
+    });
+    expect(preferences.has("auth:accessToken")).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { RobleServerError } from "@/src/data/services/RobleErrors";
+import { AuthRemoteDataSourceImpl } from "../datasources/AuthRemoteDataSourceImp";
+
+const respondWith = (status: number, body: unknown = {}) =>
+  jest.spyOn(global, "fetch").mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe("AuthRemoteDataSourceImpl token checks", () => {
+  const remote = new AuthRemoteDataSourceImpl({
+    authBaseUrl: "https://roble.test/auth",
+    databaseBaseUrl: "https://roble.test/database",
+    databaseName: "testdb",
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("treats only 401 and 403 as a revoked token", async () => {
+    respondWith(401);
+    expect(await remote.verifyToken("a1")).toBe(false);
+    respondWith(403);
+    expect(await remote.refreshToken("r1")).toBeNull();
+    respondWith(200, { accessToken: "a2" });
+    expect(await remote.refreshToken("r1")).toEqual({ accessToken: "a2", refreshToken: undefined });
+  });
+
+  it("throws on server errors so the session is kept", async () => {
+    respondWith(503);
+    await expect(remote.verifyToken("a1")).rejects.toBeInstanceOf(RobleServerError);
+    respondWith(500);
+    await expect(remote.refreshToken("r1")).rejects.toBeInstanceOf(RobleServerError);
+  });
+});
@@ -0,0 +1,146 @@
+import { InMemoryLocalPreferences } from "@/src/core/InMemoryLocalPreferences";
+import { RobleServerError } from "@/src/data/services/RobleErrors";
+import { MAX_PIN_ATTEMPTS } from "../../domain/entities/SessionPolicy";
+import { UnlockAppUseCase } from "../../domain/usecases/UnlockAppUseCase";
+import { AuthLocalDataSourceImpl } from "../datasources/AuthLocalDataSource";
+import {
+  FakeAuthLocalDataSource,
+  FakeAuthRemoteDataSource,
+  fakeAuthSession,
+} from "../datasources/FakeAuthDataSources";
+import { AuthRepositoryImpl } from "../repositories/AuthRepositoryImpl";
+import { SessionPolicyRepositoryImpl } from "../repositories/SessionPolicyRepositoryImpl";
+
+const HOUR = 60 * 60 * 1000;
+
+const build = ({ startedHoursAgo = 1, keepLoggedIn = true } = {}) => {
+  const local = new FakeAuthLocalDataSource({
+    session: fakeAuthSession({ id: "u1" }, { accessToken: "a1", refreshToken: "r1" }),
+    keepLoggedIn,
+    startedAt: new Date(Date.now() - startedHoursAgo * HOUR),
+  });
+  const remote = new FakeAuthRemoteDataSource();
+  const verifyToken = jest.spyOn(remote, "verifyToken");
+  const policies = new SessionPolicyRepositoryImpl(new InMemoryLocalPreferences());
+  return { repository: new AuthRepositoryImpl(remote, local, policies), remote, local, verifyToken, policies };
+};
+
+describe("AuthRepositoryImpl session policies", () => {
+  it("drops non-persistent and over-age sessions on cold start", async () => {
+    const transient = build({ keepLoggedIn: false });
+    expect(await transient.repository.getCurrentSession()).toBeNull();
+    expect(transient.local.stored).toBeNull();
+
+    const old = build({ startedHoursAgo: 24 * 31 });
+    expect(await old.repository.getCurrentSession()).toBeNull();
+    expect(old.verifyToken).not.toHaveBeenCalled();
+
+    const unlimited = build({ startedHoursAgo: 24 * 31 });
+    await unlimited.policies.savePolicy({ maxSessionAgeHours: null, lockAfterMinutes: 5 });
+    expect(await unlimited.repository.getCurrentSession()).toMatchObject({ user: { id: "u1" } });
+  });
+
+  it("restarts the session age on a password login but not on profile updates", async () => {
+    const { repository, remote, local } = build({ startedHoursAgo: 24 * 29 });
+    const firstStart = local.stored?.startedAt;
+    await repository.updateSessionUser({ studentId: "", firstName: "Ana", lastName: "", username: "ana" });
+    expect(local.stored?.startedAt).toBe(firstStart);
+
+    jest.spyOn(remote, "login").mockResolvedValue({ accessToken: "a2", refreshToken: "r2", user: { _id: "u1" } });
+    await repository.login({ identifier: "ana@uni.edu", password: "Secreta#1", keepLoggedIn: true });
+
+    expect(Date.now() - (local.stored?.startedAt?.getTime() ?? 0)).toBeLessThan(HOUR);
+    expect(await repository.getCurrentSession()).toMatchObject({ tokens: { accessToken: "a2" } });
+  });
+
+  it("reports revoked tokens on resume but keeps the session when ROBLE is unreachable", async () => {
+    const revoked = build();
+    revoked.verifyToken.mockResolvedValue(false);
+    expect(await revoked.repository.validateSession()).toBe("revoked");
+    expect(revoked.local.stored).toBeNull();
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const offline = build();
+    offline.verifyToken.mockRejectedValue(new Error("Network request failed"));
+    expect(await offline.repository.validateSession()).toBe("valid");
+    expect(offline.local.stored).not.toBeNull();
+
+    const unavailable = build();
+    unavailable.verifyToken.mockRejectedValue(new RobleServerError("Servicio no disponible", { status: 503 }));
+    expect(await unavailable.repository.validateSession()).toBe("valid");
+    expect(await unavailable.repository.getCurrentSession()).toMatchObject({ user: { id: "u1" } });
+    warn.mockRestore();
+  });
+
+  it("stores a PIN that survives policy updates and is cleared on logout", async () => {
+    const { repository, policies } = build();
+
+    await policies.setPin("1234");
+    await policies.savePolicy({ maxSessionAgeHours: 24, lockAfterMinutes: 1 });
+    expect(await policies.getPolicy()).toEqual({ maxSessionAgeHours: 24, lockAfterMinutes: 1, pinEnabled: true });
+    expect(await policies.verifyPin("0000")).toBe(false);
+    expect(await policies.verifyPin("1234")).toBe(true);
+
+    await repository.logout();
+    expect((await policies.getPolicy()).pinEnabled).toBe(false);
+  });
+
+  it("counts consecutive wrong PINs and reports when the attempts run out", async () => {
+    const { policies } = build();
+    const unlock = new UnlockAppUseCase(policies);
+    await policies.setPin("1234");
+
+    expect(await unlock.execute("0000")).toEqual({ status: "invalid", remainingAttempts: MAX_PIN_ATTEMPTS - 1 });
+    expect(await unlock.execute("1234")).toEqual({ status: "unlocked" });
+
+    for (let attempt = 1; attempt < MAX_PIN_ATTEMPTS; attempt++) {
+      expect((await unlock.execute("0000")).status).toBe("invalid");
+    }
+    expect(await unlock.execute("0000")).toEqual({ status: "exhausted" });
+    expect(await unlock.execute("0000")).toEqual({ status: "invalid", remainingAttempts: MAX_PIN_ATTEMPTS - 1 });
+  });
+});
+
+describe("AuthRepositoryImpl saved accounts", () => {
+  const buildWithAccounts = () => {
+    const local = new AuthLocalDataSourceImpl(new InMemoryLocalPreferences());
+    const remote = new FakeAuthRemoteDataSource();
+    const verifyToken = jest.spyOn(remote, "verifyToken");
+    const policies = new SessionPolicyRepositoryImpl(new InMemoryLocalPreferences());
+    return { repository: new AuthRepositoryImpl(remote, local, policies), local, verifyToken, policies };
+  };
+
+  const session = (id: string) =>
+    fakeAuthSession({ id, email: `${id}@uninorte.edu.co` }, { accessToken: `token-${id}`, refreshToken: `refresh-${id}` });
+
+  it("switches to another saved account and falls back to the current one when its token was revoked", async () => {
+    const { repository, local, verifyToken } = buildWithAccounts();
+    await local.saveSession(session("ana"), true);
+    await local.saveSession(session("luis"), true);
+
+    expect((await repository.switchAccount("ana")).user.id).toBe("ana");
+    expect(await repository.listAccounts()).toEqual([
+      expect.objectContaining({ user: expect.objectContaining({ id: "ana" }), isActive: true }),
+      expect.objectContaining({ user: expect.objectContaining({ id: "luis" }), isActive: false }),
+    ]);
+
+    verifyToken.mockResolvedValue(false);
+    await expect(repository.switchAccount("luis")).rejects.toThrow("luis@uninorte.edu.co");
+    expect((await local.getSession())?.session.user.id).toBe("ana");
+    expect((await repository.listAccounts()).map((account) => account.user.id)).toEqual(["ana"]);
+  });
+
+  it("keeps the PIN until the last saved account signs out", async () => {
+    const { repository, local, policies } = buildWithAccounts();
+    await local.saveSession(session("ana"), true);
+    await local.saveSession(session("luis"), true);
+    await policies.setPin("1234");
+
+    await repository.logout();
+    expect((await policies.getPolicy()).pinEnabled).toBe(true);
+
+    await repository.switchAccount("ana");
+    await repository.logout();
+    expect((await policies.getPolicy()).pinEnabled).toBe(false);
+  });
+});
@@ -4,79 +4,218 @@ import { AuthSession } from "../../domain/entities/AuthSession";
 import { AuthTokens } from "../../domain/entities/AuthTokens";
 import { AuthUser } from "../../domain/entities/AuthUser";
 
-const TOKEN_KEY = "auth:accessToken";
-const REFRESH_TOKEN_KEY = "auth:refreshToken";
-const USER_KEY = "auth:user";
-const KEEP_LOGGED_KEY = "auth:keepLoggedIn";
+const ACCOUNTS_KEY = "auth:accounts";
+const ACTIVE_ACCOUNT_KEY = "auth:activeAccount";
+
+// Claves de la versión con una sola sesión; se migran al almacén de cuentas en la primera lectura.
+const LEGACY_TOKEN_KEY = "auth:accessToken";
+const LEGACY_REFRESH_TOKEN_KEY = "auth:refreshToken";
+const LEGACY_USER_KEY = "auth:user";
+const LEGACY_KEEP_LOGGED_KEY = "auth:keepLoggedIn";
+const LEGACY_STARTED_AT_KEY = "auth:sessionStartedAt";
 
 export type StoredSessionRecord = {
   session: AuthSession;
   keepLoggedIn: boolean;
+  // Momento del inicio de sesión; renovar tokens o actualizar el perfil no lo reinicia.
+  startedAt: Date | null;
 };
 
+type StoredAccount = {
+  userId: string;
+  accessToken: string;
+  refreshToken: string | null;
+  user: string;
+  keepLoggedIn: boolean;
+  startedAt: string | null;
+  lastUsedAt: string;
+};
+
+/**
+ * Guarda una sesión por cuenta. Las operaciones sin `userId` actúan sobre la cuenta activa,
+ * que es la que usan el proveedor de tokens y los repositorios.
+ */
 export interface AuthLocalDataSource {
-  saveSession(session: AuthSession, keepLoggedIn: boolean): Promise<void>;
+  // Guarda la sesión y la deja como cuenta activa. Conserva el inicio de sesión de la cuenta salvo con
+  // `renew`, que lo reinicia: es lo que corresponde a un inicio con contraseña.
+  saveSession(session: AuthSession, keepLoggedIn: boolean, options?: { renew?: boolean }): Promise<void>;
   getSession(): Promise<StoredSessionRecord | null>;
+  // Olvida la cuenta activa; las demás siguen guardadas.
   clearSession(): Promise<void>;
   updateTokens(tokens: AuthTokens): Promise<void>;
+  listAccounts(): Promise<StoredSessionRecord[]>;
+  activateAccount(userId: string): Promise<StoredSessionRecord | null>;
+  removeAccount(userId: string): Promise<void>;
+  clearAllSessions(): Promise<void>;
 }
 
 export class AuthLocalDataSourceImpl implements AuthLocalDataSource {
   private readonly storage: ILocalPreferences;
+  private writes: Promise<void> = Promise.resolve();
+  private migration?: Promise<void>;
 
   constructor(storage: ILocalPreferences = LocalPreferencesAsyncStorage.getInstance()) {
     this.storage = storage;
   }
 
-  async saveSession(session: AuthSession, keepLoggedIn: boolean): Promise<void> {
-    await Promise.all([
-      this.storage.storeData(TOKEN_KEY, session.tokens.accessToken),
-      this.storage.storeData(REFRESH_TOKEN_KEY, session.tokens.refreshToken ?? null),
-      this.storage.storeData(USER_KEY, this.serializeUser(session.user)),
-      this.storage.storeData(KEEP_LOGGED_KEY, keepLoggedIn),
-    ]);
+  async saveSession(session: AuthSession, keepLoggedIn: boolean, options: { renew?: boolean } = {}): Promise<void> {
+    const userId = session.user.id;
+    await this.mutate(async (accounts) => {
+      const existing = accounts.find((account) => account.userId === userId);
+      const next: StoredAccount = {
+        userId,
+        accessToken: session.tokens.accessToken,
+        refreshToken: session.tokens.refreshToken ?? null,
+        user: this.serializeUser(session.user),
+        keepLoggedIn,
+        startedAt: (!options.renew && existing?.startedAt) || new Date().toISOString(),
+        lastUsedAt: new Date().toISOString(),
+      };
+      return { accounts: [...accounts.filter((account) => account.userId !== userId), next], activeId: userId };
+    });
   }
 
   async getSession(): Promise<StoredSessionRecord | null> {
-    const [accessToken, refreshToken, userRaw, keepLoggedIn] = await Promise.all([
-      this.storage.retrieveData<string | null>(TOKEN_KEY),
-      this.storage.retrieveData<string | null>(REFRESH_TOKEN_KEY),
-      this.storage.retrieveData<string | null>(USER_KEY),
-      this.storage.retrieveData<boolean | null>(KEEP_LOGGED_KEY),
-    ]);
+    const { accounts, activeId } = await this.read();
+    const active = accounts.find((account) => account.userId === activeId);
+    return active ? this.toRecord(active) : null;
+  }
 
-    if (!accessToken || !userRaw) {
-      return null;
-    }
+  async clearSession(): Promise<void> {
+    await this.mutate(async (accounts, activeId) => ({
+      accounts: accounts.filter((account) => account.userId !== activeId),
+      activeId: null,
+    }));
+  }
 
-    const keep = keepLoggedIn ?? false;
-    const parsedUser = this.deserializeUser(userRaw);
+  async updateTokens(tokens: AuthTokens): Promise<void> {
+    await this.mutate(async (accounts, activeId) => ({
+      accounts: accounts.map((account) =>
+        account.userId === activeId
+          ? { ...account, accessToken: tokens.accessToken, refreshToken: tokens.refreshToken ?? null }
+          : account,
+      ),
+      activeId,
+    }));
+  }
 
-    const session: AuthSession = {
-      user: parsedUser,
-      tokens: {
-        accessToken,
-        refreshToken: refreshToken ?? undefined,
-      },
-    };
+  async listAccounts(): Promise<StoredSessionRecord[]> {
+    const { accounts } = await this.read();
+    return [...accounts]
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .map((account) => this.toRecord(account));
+  }
+
+  async activateAccount(userId: string): Promise<StoredSessionRecord | null> {
+    await this.mutate(async (accounts, activeId) => {
+      if (!accounts.some((account) => account.userId === userId)) {
+        return { accounts, activeId };
+      }
+      const lastUsedAt = new Date().toISOString();
+      return {
+        accounts: accounts.map((account) => (account.userId === userId ? { ...account, lastUsedAt } : account)),
+        activeId: userId,
+      };
+    });
+    const active = await this.getSession();
+    return active?.session.user.id === userId ? active : null;
+  }
 
-    return { session, keepLoggedIn: keep };
+  async removeAccount(userId: string): Promise<void> {
+    await this.mutate(async (accounts, activeId) => ({
+      accounts: accounts.filter((account) => account.userId !== userId),
+      activeId: activeId === userId ? null : activeId,
+    }));
   }
 
-  async clearSession(): Promise<void> {
-    await Promise.all([
-      this.storage.removeData(TOKEN_KEY),
-      this.storage.removeData(REFRESH_TOKEN_KEY),
-      this.storage.removeData(USER_KEY),
-      this.storage.removeData(KEEP_LOGGED_KEY),
+  async clearAllSessions(): Promise<void> {
+    await this.mutate(async () => ({ accounts: [], activeId: null }));
+  }
+
+  private async read(): Promise<{ accounts: StoredAccount[]; activeId: string | null }> {
+    await this.writes;
+    await this.migrateLegacySession();
+    const [accounts, activeId] = await Promise.all([
+      this.storage.retrieveData<StoredAccount[]>(ACCOUNTS_KEY),
+      this.storage.retrieveData<string>(ACTIVE_ACCOUNT_KEY),
     ]);
+    return { accounts: accounts ?? [], activeId: activeId ?? null };
   }
 
-  async updateTokens(tokens: AuthTokens): Promise<void> {
-    await Promise.all([
-      this.storage.storeData(TOKEN_KEY, tokens.accessToken),
-      this.storage.storeData(REFRESH_TOKEN_KEY, tokens.refreshToken ?? null),
+  // La lista se reescribe completa; encadenar las escrituras evita que una pise a otra.
+  private mutate(
+    update: (
+      accounts: StoredAccount[],
+      activeId: string | null,
+    ) => Promise<{ accounts: StoredAccount[]; activeId: string | null }>,
+  ): Promise<void> {
+    const next = this.writes.then(async () => {
+      await this.migrateLegacySession();
+      const [accounts, activeId] = await Promise.all([
+        this.storage.retrieveData<StoredAccount[]>(ACCOUNTS_KEY),
+        this.storage.retrieveData<string>(ACTIVE_ACCOUNT_KEY),
+      ]);
+      const result = await update(accounts ?? [], activeId ?? null);
+      await Promise.all([
+        this.storage.storeData(ACCOUNTS_KEY, result.accounts),
+        result.activeId
+          ? this.storage.storeData(ACTIVE_ACCOUNT_KEY, result.activeId)
+          : this.storage.removeData(ACTIVE_ACCOUNT_KEY),
+      ]);
+    });
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+
+  private migrateLegacySession(): Promise<void> {
+    this.migration ??= this.performMigration();
+    return this.migration;
+  }
+
+  private async performMigration(): Promise<void> {
+    const [accessToken, refreshToken, userRaw, keepLoggedIn, startedAt] = await Promise.all([
+      this.storage.retrieveData<string | null>(LEGACY_TOKEN_KEY),
+      this.storage.retrieveData<string | null>(LEGACY_REFRESH_TOKEN_KEY),
+      this.storage.retrieveData<string | null>(LEGACY_USER_KEY),
+      this.storage.retrieveData<boolean | null>(LEGACY_KEEP_LOGGED_KEY),
+      this.storage.retrieveData<string | null>(LEGACY_STARTED_AT_KEY),
     ]);
+    if (accessToken && userRaw) {
+      const userId = this.deserializeUser(userRaw).id;
+      const accounts = (await this.storage.retrieveData<StoredAccount[]>(ACCOUNTS_KEY)) ?? [];
+      const legacy: StoredAccount = {
+        userId,
+        accessToken,
+        refreshToken: refreshToken ?? null,
+        user: userRaw,
+        keepLoggedIn: keepLoggedIn ?? false,
+        startedAt: startedAt ?? null,
+        lastUsedAt: new Date().toISOString(),
+      };
+      await Promise.all([
+        this.storage.storeData(ACCOUNTS_KEY, [...accounts.filter((account) => account.userId !== userId), legacy]),
+        this.storage.storeData(ACTIVE_ACCOUNT_KEY, userId),
+      ]);
+    }
+    await Promise.all(
+      [LEGACY_TOKEN_KEY, LEGACY_REFRESH_TOKEN_KEY, LEGACY_USER_KEY, LEGACY_KEEP_LOGGED_KEY, LEGACY_STARTED_AT_KEY].map(
+        (key) => this.storage.removeData(key),
+      ),
+    );
+  }
+
+  private toRecord(account: StoredAccount): StoredSessionRecord {
+    return {
+      session: {
+        user: this.deserializeUser(account.user),
+        tokens: {
+          accessToken: account.accessToken,
+          refreshToken: account.refreshToken ?? undefined,
+        },
+      },
+      keepLoggedIn: account.keepLoggedIn,
+      startedAt: account.startedAt ? new Date(account.startedAt) : null,
+    };
   }
 
   private serializeUser(user: AuthUser): string {
@@ -45,8 +45,14 @@ export interface AuthRemoteDataSource {
   requestPasswordReset(email: string): Promise<{ message: string }>;
   validateResetToken(token: string): Promise<boolean>;
   resetPassword(params: { token: string; newPassword: string }): Promise<ResetPasswordRemoteResponse>;
+  changePassword(params: {
+    accessToken: string;
+    currentPassword: string;
+    newPassword: string;
+  }): Promise<ResetPasswordRemoteResponse>;
   checkEmailAvailability(email: string): Promise<boolean>;
   checkUsernameAvailability(username: string): Promise<boolean>;
+  // Devuelven null/false solo si ROBLE rechaza el token (401/403); ante fallos del servidor lanzan.
   refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken?: string } | null>;
   verifyToken(accessToken: string): Promise<boolean>;
   logout(accessToken: string): Promise<void>;
@@ -1,3 +1,6 @@
+import { PRODUCTION_ROBLE_DEFAULTS } from "@/src/core/environment/robleEnvironments";
+import { robleErrorForStatus } from "@/src/data/services/RobleErrors";
+import { RobleRequestLog } from "@/src/data/services/RobleRequestLog";
 import {
     AuthRemoteDataSource,
     LoginRemoteResponse,
@@ -15,9 +18,8 @@ type RobleConfig = {
   readonlyPassword?: string;
 };
 
-const DEFAULT_AUTH_URL = "https://roble-api.openlab.uninorte.edu.co/auth";
-const DEFAULT_DATABASE_URL = "https://roble-api.openlab.uninorte.edu.co/database";
-const DEFAULT_DB_NAME = "courseven_66a52df881";
+// Solo estas respuestas dicen que el token ya no sirve; un 5xx no permite saberlo.
+const isRevokedStatus = (status: number) => status === 401 || status === 403;
 
 const ensureNoTrailingSlash = (value: string) =>
   value.endsWith("/") ? value.slice(0, -1) : value;
@@ -49,25 +51,20 @@ const parseJson = async <T>(response: Response): Promise<T> => {
 export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   private readonly config: RobleConfig;
 
-  constructor(config: Partial<RobleConfig> = {}) {
-    const envAuth = process.env.EXPO_PUBLIC_ROBLE_AUTH_BASE_URL;
-    const envDbUrl = process.env.EXPO_PUBLIC_ROBLE_DB_BASE_URL;
-    const envDbName =
-      process.env.EXPO_PUBLIC_ROBLE_DB_NAME ??
-      process.env.EXPO_PUBLIC_ROBLE_PROJECT_ID;
-    const envReadonlyEmail = process.env.EXPO_PUBLIC_ROBLE_READONLY_EMAIL;
-    const envReadonlyPassword = process.env.EXPO_PUBLIC_ROBLE_READONLY_PASSWORD;
-
+  constructor(
+    config: Partial<RobleConfig> = {},
+    private readonly requestLog?: RobleRequestLog,
+  ) {
     const merged: RobleConfig = {
       authBaseUrl: ensureNoTrailingSlash(
-        config.authBaseUrl ?? envAuth ?? DEFAULT_AUTH_URL,
+        config.authBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.authBaseUrl,
       ),
       databaseBaseUrl: normaliseDatabaseUrl(
-        config.databaseBaseUrl ?? envDbUrl ?? DEFAULT_DATABASE_URL,
+        config.databaseBaseUrl ?? PRODUCTION_ROBLE_DEFAULTS.databaseBaseUrl,
       ),
-      databaseName: config.databaseName ?? envDbName ?? DEFAULT_DB_NAME,
-      readonlyEmail: config.readonlyEmail ?? envReadonlyEmail,
-      readonlyPassword: config.readonlyPassword ?? envReadonlyPassword,
+      databaseName: config.databaseName ?? PRODUCTION_ROBLE_DEFAULTS.databaseName,
+      readonlyEmail: config.readonlyEmail,
+      readonlyPassword: config.readonlyPassword,
     };
 
     if (!merged.databaseName) {
@@ -107,7 +104,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async signup({ email, password, name }: { email: string; password: string; name: string }): Promise<SignupRemoteResponse> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/signup`,
       {
         method: "POST",
@@ -128,7 +125,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async verifyEmail({ email, code }: { email: string; code: string }): Promise<VerifyEmailRemoteResponse> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/verify-email`,
       {
         method: "POST",
@@ -152,7 +149,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async loginAuth({ email, password }: { email: string; password: string }): Promise<{ accessToken: string; refreshToken?: string; user?: RawRobleUser }> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/login`,
       {
         method: "POST",
@@ -199,7 +196,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
     username: string;
     studentId?: string;
   }): Promise<void> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.databaseBaseUrl}/${this.config.databaseName}/insert`,
       {
         method: "POST",
@@ -233,7 +230,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async getUserByEmail({ accessToken, email }: { accessToken: string; email: string }): Promise<RawRobleUser | null> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.databaseBaseUrl}/${this.config.databaseName}/read?tableName=users&email=${encodeURIComponent(email)}`,
       {
         method: "GET",
@@ -260,7 +257,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async requestPasswordReset(email: string): Promise<{ message: string }> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/forgot-password`,
       {
         method: "POST",
@@ -281,7 +278,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async validateResetToken(token: string): Promise<boolean> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/reset-password`,
       {
         method: "POST",
@@ -311,7 +308,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async resetPassword({ token, newPassword }: { token: string; newPassword: string }): Promise<ResetPasswordRemoteResponse> {
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/reset-password`,
       {
         method: "POST",
@@ -331,9 +328,39 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
     throw new Error(data.message ?? "Error restableciendo la contraseña");
   }
 
+  async changePassword({
+    accessToken,
+    currentPassword,
+    newPassword,
+  }: {
+    accessToken: string;
+    currentPassword: string;
+    newPassword: string;
+  }): Promise<ResetPasswordRemoteResponse> {
+    const response = await this.send(
+      `${this.config.authBaseUrl}/${this.config.databaseName}/change-password`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      },
+    );
+
+    const data = await parseJson<{ message?: string }>(response);
+
+    if (response.status === 200 || response.status === 201) {
+      return { message: data.message ?? "Contraseña actualizada correctamente" };
+    }
+
+    throw new Error(data.message ?? "Error cambiando la contraseña");
+  }
+
   async checkEmailAvailability(email: string): Promise<boolean> {
     const token = await this.getTempAccessToken();
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.databaseBaseUrl}/${this.config.databaseName}/read?tableName=users&email=${encodeURIComponent(
         email.trim().toLowerCase(),
       )}`,
@@ -358,7 +385,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
 
   async checkUsernameAvailability(username: string): Promise<boolean> {
     const token = await this.getTempAccessToken();
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.databaseBaseUrl}/${this.config.databaseName}/read?tableName=users&username=${encodeURIComponent(
         username.trim(),
       )}`,
@@ -382,7 +409,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
   }
 
   async refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken?: string } | null> {
-    const response = await fetch(`${this.config.authBaseUrl}/refresh-token`, {
+    const response = await this.send(`${this.config.authBaseUrl}/refresh-token`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -398,9 +425,13 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
           refreshToken: data.refreshToken,
         };
       }
+      return null;
     }
 
-    return null;
+    if (isRevokedStatus(response.status)) {
+      return null;
+    }
+    throw robleErrorForStatus("No se pudo renovar la sesión", { status: response.status });
   }
 
   async verifyToken(accessToken: string): Promise<boolean> {
@@ -408,7 +439,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
       return false;
     }
 
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.authBaseUrl}/${this.config.databaseName}/verify-token`,
       {
         method: "GET",
@@ -422,7 +453,10 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
       return true;
     }
 
-    return false;
+    if (isRevokedStatus(response.status)) {
+      return false;
+    }
+    throw robleErrorForStatus("No se pudo verificar la sesión", { status: response.status });
   }
 
   async logout(accessToken: string): Promise<void> {
@@ -430,7 +464,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
       return;
     }
 
-    await fetch(`${this.config.authBaseUrl}/${this.config.databaseName}/logout`, {
+    await this.send(`${this.config.authBaseUrl}/${this.config.databaseName}/logout`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${accessToken}`,
@@ -438,10 +472,28 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
     });
   }
 
+  private send(url: string, init: RequestInit): Promise<Response> {
+    if (!this.requestLog) {
+      return fetch(url, init);
+    }
+    const source = url.startsWith(this.config.authBaseUrl) ? "auth" : "database";
+    return this.requestLog.track({ source, url, init }, () => fetch(url, init), async (response) => {
+      // Se lee una copia para no consumir el cuerpo que procesa parseJson.
+      const text = await response.clone().text();
+      let body: unknown = text || null;
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        // Cuerpo que no es JSON: se registra como texto.
+      }
+      return { status: response.status, body };
+    });
+  }
+
   private async getTempAccessToken(): Promise<string> {
     if (!this.config.readonlyEmail || !this.config.readonlyPassword) {
       throw new Error(
-        "Faltan las credenciales de solo lectura (EXPO_PUBLIC_ROBLE_READONLY_EMAIL / PASSWORD)",
+        "Faltan las credenciales de solo lectura en el perfil de entorno activo",
       );
     }
 
@@ -459,7 +511,7 @@ export class AuthRemoteDataSourceImpl implements AuthRemoteDataSource {
 
   private async getEmailFromUsername(username: string): Promise<string | null> {
     const token = await this.getTempAccessToken();
-    const response = await fetch(
+    const response = await this.send(
       `${this.config.databaseBaseUrl}/${this.config.databaseName}/read?tableName=users&username=${encodeURIComponent(
         username,
       )}`,
@@ -0,0 +1,85 @@
+import { AuthSession } from "../../domain/entities/AuthSession";
+import { AuthTokens } from "../../domain/entities/AuthTokens";
+import { AuthUser, createEmptyAuthUser } from "../../domain/entities/AuthUser";
+import { AuthLocalDataSource, StoredSessionRecord } from "./AuthLocalDataSource";
+import { AuthRemoteDataSource } from "./AuthRemoteDataSource";
+
+// Dobles en memoria de las fuentes de datos de autenticación para las pruebas de repositorios y casos de uso.
+
+export const fakeAuthSession = (user: Partial<AuthUser> & { id: string }, tokens: AuthTokens): AuthSession => ({
+  user: { ...createEmptyAuthUser(), ...user },
+  tokens,
+});
+
+/** Guarda una sola cuenta, que es siempre la activa. */
+export class FakeAuthLocalDataSource implements AuthLocalDataSource {
+  constructor(public stored: StoredSessionRecord | null = null) {}
+
+  async saveSession(session: AuthSession, keepLoggedIn: boolean, options: { renew?: boolean } = {}): Promise<void> {
+    // Como el almacén real, volver a guardar la misma cuenta solo reinicia el inicio de sesión con `renew`.
+    const keepStart = !options.renew && this.stored?.session.user.id === session.user.id;
+    this.stored = { session, keepLoggedIn, startedAt: keepStart ? (this.stored?.startedAt ?? null) : new Date() };
+  }
+
+  async getSession(): Promise<StoredSessionRecord | null> {
+    return this.stored;
+  }
+
+  async clearSession(): Promise<void> {
+    this.stored = null;
+  }
+
+  async updateTokens(tokens: AuthTokens): Promise<void> {
+    if (this.stored) {
+      this.stored = { ...this.stored, session: { ...this.stored.session, tokens } };
+    }
+  }
+
+  async listAccounts(): Promise<StoredSessionRecord[]> {
+    return this.stored ? [this.stored] : [];
+  }
+
+  async activateAccount(userId: string): Promise<StoredSessionRecord | null> {
+    return this.stored?.session.user.id === userId ? this.stored : null;
+  }
+
+  async removeAccount(userId: string): Promise<void> {
+    if (this.stored?.session.user.id === userId) {
+      this.stored = null;
+    }
+  }
+
+  async clearAllSessions(): Promise<void> {
+    this.stored = null;
+  }
+}
+
+const unsupported = (method: string) => async (): Promise<never> => {
+  throw new Error(`${method} no está disponible en el doble de ROBLE`);
+};
+
+/**
+ * Tokens siempre válidos y sin renovación. Las pruebas reemplazan solo los métodos que usan,
+ * pasándolos al constructor o con `jest.spyOn`.
+ */
+export class FakeAuthRemoteDataSource implements AuthRemoteDataSource {
+  login: AuthRemoteDataSource["login"] = unsupported("login");
+  signup: AuthRemoteDataSource["signup"] = unsupported("signup");
+  verifyEmail: AuthRemoteDataSource["verifyEmail"] = unsupported("verifyEmail");
+  loginAuth: AuthRemoteDataSource["loginAuth"] = unsupported("loginAuth");
+  createUserInDatabase: AuthRemoteDataSource["createUserInDatabase"] = unsupported("createUserInDatabase");
+  getUserByEmail: AuthRemoteDataSource["getUserByEmail"] = unsupported("getUserByEmail");
+  requestPasswordReset: AuthRemoteDataSource["requestPasswordReset"] = unsupported("requestPasswordReset");
+  validateResetToken: AuthRemoteDataSource["validateResetToken"] = unsupported("validateResetToken");
+  resetPassword: AuthRemoteDataSource["resetPassword"] = unsupported("resetPassword");
+  changePassword: AuthRemoteDataSource["changePassword"] = unsupported("changePassword");
+  checkEmailAvailability: AuthRemoteDataSource["checkEmailAvailability"] = async () => true;
+  checkUsernameAvailability: AuthRemoteDataSource["checkUsernameAvailability"] = async () => true;
+  refreshToken: AuthRemoteDataSource["refreshToken"] = async () => null;
+  verifyToken: AuthRemoteDataSource["verifyToken"] = async () => true;
+  logout: AuthRemoteDataSource["logout"] = async () => {};
+
+  constructor(overrides: Partial<AuthRemoteDataSource> = {}) {
+    Object.assign(this, overrides);
+  }
+}
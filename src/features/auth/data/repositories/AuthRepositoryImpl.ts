@@ -1,12 +1,17 @@
 import { AuthSession } from "../../domain/entities/AuthSession";
 import { AuthUser } from "../../domain/entities/AuthUser";
+import { SavedAccount } from "../../domain/entities/SavedAccount";
+import { isSessionExpired } from "../../domain/entities/SessionPolicy";
 import {
     AuthRepository,
     LoginParams,
+    ProfileChanges,
+    SessionValidation,
     SignupParams,
     VerifyEmailParams,
 } from "../../domain/repositories/AuthRepository";
-import { AuthLocalDataSource } from "../datasources/AuthLocalDataSource";
+import { SessionPolicyRepository } from "../../domain/repositories/SessionPolicyRepository";
+import { AuthLocalDataSource, StoredSessionRecord } from "../datasources/AuthLocalDataSource";
 import {
     AuthRemoteDataSource,
     LoginRemoteResponse,
@@ -24,6 +29,7 @@ export class AuthRepositoryImpl implements AuthRepository {
   constructor(
     private readonly remote: AuthRemoteDataSource,
     private readonly local: AuthLocalDataSource,
+    private readonly policies?: SessionPolicyRepository,
   ) {}
 
   async login(params: LoginParams): Promise<AuthSession> {
@@ -33,7 +39,7 @@ export class AuthRepositoryImpl implements AuthRepository {
     });
 
     const session = this.toSession(loginResponse);
-    await this.local.saveSession(session, params.keepLoggedIn);
+    await this.local.saveSession(session, params.keepLoggedIn, { renew: true });
     return session;
   }
 
@@ -56,6 +62,10 @@ export class AuthRepositoryImpl implements AuthRepository {
   async logout(): Promise<void> {
     const existing = await this.local.getSession();
     await this.local.clearSession();
+    // El PIN protege el dispositivo mientras quede alguna cuenta guardada; con la última se descarta.
+    if ((await this.local.listAccounts()).length === 0) {
+      await this.policies?.clearPin();
+    }
 
     if (existing?.session.tokens.accessToken) {
       await this.remote.logout(existing.session.tokens.accessToken);
@@ -64,37 +74,94 @@ export class AuthRepositoryImpl implements AuthRepository {
 
   async getCurrentSession(): Promise<AuthSession | null> {
     const stored = await this.local.getSession();
+    await this.pruneSavedAccounts(stored?.session.user.id ?? null);
     if (!stored) {
       return null;
     }
 
-    if (!stored.keepLoggedIn) {
+    if (!stored.keepLoggedIn || (await this.hasExpired(stored))) {
       await this.local.clearSession();
       return null;
     }
 
-    const valid = await this.remote.verifyToken(stored.session.tokens.accessToken);
-    if (valid) {
+    return this.restoreSession(stored).catch((error) => {
+      // Sin conexión o con ROBLE caído se arranca con la sesión guardada.
+      console.warn("[AUTH] No se pudo verificar la sesión guardada", error);
       return stored.session;
+    });
+  }
+
+  async validateSession(): Promise<SessionValidation> {
+    const stored = await this.local.getSession();
+    if (!stored) {
+      return "expired";
     }
 
-    if (stored.session.tokens.refreshToken) {
-      const refreshed = await this.remote.refreshToken(stored.session.tokens.refreshToken);
-      if (refreshed?.accessToken) {
-        const updatedSession: AuthSession = {
-          user: stored.session.user,
-          tokens: {
-            accessToken: refreshed.accessToken,
-            refreshToken: refreshed.refreshToken ?? stored.session.tokens.refreshToken,
-          },
-        };
-        await this.local.saveSession(updatedSession, stored.keepLoggedIn);
-        return updatedSession;
-      }
+    if (await this.hasExpired(stored)) {
+      await this.local.clearSession();
+      return "expired";
     }
 
-    await this.local.clearSession();
-    return null;
+    try {
+      return (await this.restoreSession(stored)) ? "valid" : "revoked";
+    } catch (error) {
+      // Sin conexión no se puede saber si el token fue revocado; se mantiene la sesión.
+      console.warn("[AUTH] No se pudo verificar la sesión", error);
+      return "valid";
+    }
+  }
+
+  async listAccounts(): Promise<SavedAccount[]> {
+    const [accounts, active] = await Promise.all([this.local.listAccounts(), this.local.getSession()]);
+    const activeId = active?.session.user.id ?? null;
+    return accounts.map((account) => ({
+      user: account.session.user,
+      isActive: account.session.user.id === activeId,
+    }));
+  }
+
+  async switchAccount(userId: string): Promise<AuthSession> {
+    const previous = await this.local.getSession();
+    const target = await this.local.activateAccount(userId);
+    if (!target) {
+      throw new Error("La cuenta ya no está guardada en este dispositivo");
+    }
+
+    let session: AuthSession | null = null;
+    if (await this.hasExpired(target)) {
+      await this.local.removeAccount(userId);
+    } else {
+      session = await this.restoreSession(target).catch((error) => {
+        // Igual que al volver a la app: sin conexión se confía en la sesión guardada.
+        console.warn("[AUTH] No se pudo verificar la cuenta elegida", error);
+        return target.session;
+      });
+    }
+    if (session) {
+      return session;
+    }
+
+    // Si la cuenta elegida ya no sirve, se vuelve a la que estaba activa.
+    if (previous && previous.session.user.id !== userId) {
+      await this.local.activateAccount(previous.session.user.id);
+    }
+    throw new Error(`La sesión de ${target.session.user.email} se cerró. Inicia sesión de nuevo con esa cuenta.`);
+  }
+
+  async removeAccount(userId: string): Promise<void> {
+    const [accounts, active] = await Promise.all([this.local.listAccounts(), this.local.getSession()]);
+    if (active?.session.user.id === userId) {
+      throw new Error("Para quitar la cuenta activa cierra sesión");
+    }
+    const account = accounts.find((record) => record.session.user.id === userId);
+    if (!account) {
+      return;
+    }
+
+    await this.local.removeAccount(userId);
+    await this.remote.logout(account.session.tokens.accessToken).catch((error) => {
+      console.warn("[AUTH] No se pudo cerrar en ROBLE la sesión de la cuenta quitada", error);
+    });
   }
 
   async requestPasswordReset(email: string): Promise<{ message: string }> {
@@ -105,6 +172,47 @@ export class AuthRepositoryImpl implements AuthRepository {
     return this.remote.resetPassword({ token, newPassword });
   }
 
+  async changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }> {
+    const stored = await this.local.getSession();
+    if (!stored) {
+      throw new Error("No hay una sesión activa");
+    }
+    const email = stored.session.user.email;
+
+    // Se vuelve a autenticar con la contraseña actual antes de permitir el cambio.
+    const reauth = await this.remote.loginAuth({ email, password: currentPassword }).catch(() => null);
+    if (!reauth?.accessToken) {
+      throw new Error("La contraseña actual no es correcta");
+    }
+
+    const result = await this.remote.changePassword({
+      accessToken: reauth.accessToken,
+      currentPassword,
+      newPassword,
+    });
+
+    // Los tokens anteriores pueden quedar revocados; se renuevan con la contraseña nueva.
+    const renewed = await this.remote.loginAuth({ email, password: newPassword }).catch(() => reauth);
+    await this.local.saveSession(
+      {
+        user: stored.session.user,
+        tokens: { accessToken: renewed.accessToken, refreshToken: renewed.refreshToken },
+      },
+      stored.keepLoggedIn,
+    );
+    return result;
+  }
+
+  async updateSessionUser(changes: ProfileChanges): Promise<AuthUser | null> {
+    const stored = await this.local.getSession();
+    if (!stored) {
+      return null;
+    }
+    const user: AuthUser = { ...stored.session.user, ...changes };
+    await this.local.saveSession({ ...stored.session, user }, stored.keepLoggedIn);
+    return user;
+  }
+
   async validateResetToken(token: string): Promise<boolean> {
     return this.remote.validateResetToken(token);
   }
@@ -133,6 +241,51 @@ export class AuthRepositoryImpl implements AuthRepository {
     }
   }
 
+  // Las cuentas sin "Mantener sesión iniciada" o vencidas no sobreviven a un arranque en frío.
+  private async pruneSavedAccounts(activeId: string | null): Promise<void> {
+    const accounts = await this.local.listAccounts();
+    for (const account of accounts) {
+      const userId = account.session.user.id;
+      if (userId === activeId) continue;
+      if (!account.keepLoggedIn || (await this.hasExpired(account))) {
+        await this.local.removeAccount(userId);
+      }
+    }
+  }
+
+  private async hasExpired(stored: StoredSessionRecord): Promise<boolean> {
+    if (!this.policies) {
+      return false;
+    }
+    const policy = await this.policies.getPolicy();
+    return isSessionExpired(stored.startedAt, policy);
+  }
+
+  private async restoreSession(stored: StoredSessionRecord): Promise<AuthSession | null> {
+    const valid = await this.remote.verifyToken(stored.session.tokens.accessToken);
+    if (valid) {
+      return stored.session;
+    }
+
+    if (stored.session.tokens.refreshToken) {
+      const refreshed = await this.remote.refreshToken(stored.session.tokens.refreshToken);
+      if (refreshed?.accessToken) {
+        const updatedSession: AuthSession = {
+          user: stored.session.user,
+          tokens: {
+            accessToken: refreshed.accessToken,
+            refreshToken: refreshed.refreshToken ?? stored.session.tokens.refreshToken,
+          },
+        };
+        await this.local.saveSession(updatedSession, stored.keepLoggedIn);
+        return updatedSession;
+      }
+    }
+
+    await this.local.clearSession();
+    return null;
+  }
+
   private toSession(response: LoginRemoteResponse): AuthSession {
     return {
       user: this.mapUser(response.user),
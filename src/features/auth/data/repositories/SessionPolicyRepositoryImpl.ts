@@ -0,0 +1,83 @@
+import { ILocalPreferences } from "@/src/core/iLocalPreferences";
+import { DEFAULT_SESSION_POLICY, SessionPolicy } from "../../domain/entities/SessionPolicy";
+import { SessionPolicyRepository } from "../../domain/repositories/SessionPolicyRepository";
+
+const POLICY_KEY = "auth:sessionPolicy";
+const PIN_KEY = "auth:appPin";
+// Se guarda para que cerrar y reabrir la app no reinicie la cuenta de intentos.
+const PIN_ATTEMPTS_KEY = "auth:pinFailedAttempts";
+
+type StoredPin = {
+  salt: string;
+  hash: string;
+};
+
+// cyrb53: evita guardar el PIN en claro. El PIN solo bloquea la interfaz; no cifra los tokens guardados.
+const digest = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export class SessionPolicyRepositoryImpl implements SessionPolicyRepository {
+  constructor(private readonly storage: ILocalPreferences) {}
+
+  async getPolicy(): Promise<SessionPolicy> {
+    const [stored, pin] = await Promise.all([
+      this.storage.retrieveData<Partial<SessionPolicy>>(POLICY_KEY),
+      this.storage.retrieveData<StoredPin>(PIN_KEY),
+    ]);
+    return {
+      maxSessionAgeHours:
+        stored?.maxSessionAgeHours === undefined
+          ? DEFAULT_SESSION_POLICY.maxSessionAgeHours
+          : stored.maxSessionAgeHours,
+      lockAfterMinutes: stored?.lockAfterMinutes ?? DEFAULT_SESSION_POLICY.lockAfterMinutes,
+      pinEnabled: Boolean(pin?.hash),
+    };
+  }
+
+  async savePolicy(policy: Omit<SessionPolicy, "pinEnabled">): Promise<SessionPolicy> {
+    await this.storage.storeData(POLICY_KEY, {
+      maxSessionAgeHours: policy.maxSessionAgeHours,
+      lockAfterMinutes: policy.lockAfterMinutes,
+    });
+    return this.getPolicy();
+  }
+
+  async setPin(pin: string): Promise<void> {
+    const salt = Math.random().toString(36).slice(2, 10);
+    await this.storage.storeData<StoredPin>(PIN_KEY, { salt, hash: digest(`${salt}:${pin}`) });
+    await this.resetPinAttempts();
+  }
+
+  async clearPin(): Promise<void> {
+    await this.storage.removeData(PIN_KEY);
+    await this.resetPinAttempts();
+  }
+
+  async recordFailedPinAttempt(): Promise<number> {
+    const failures = ((await this.storage.retrieveData<number>(PIN_ATTEMPTS_KEY)) ?? 0) + 1;
+    await this.storage.storeData(PIN_ATTEMPTS_KEY, failures);
+    return failures;
+  }
+
+  async resetPinAttempts(): Promise<void> {
+    await this.storage.removeData(PIN_ATTEMPTS_KEY);
+  }
+
+  async verifyPin(pin: string): Promise<boolean> {
+    const stored = await this.storage.retrieveData<StoredPin>(PIN_KEY);
+    if (!stored?.hash) {
+      return true;
+    }
+    return digest(`${stored.salt}:${pin}`) === stored.hash;
+  }
+}
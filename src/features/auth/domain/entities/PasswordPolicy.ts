@@ -0,0 +1,105 @@
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Datos de la cuenta que no pueden aparecer dentro de la contraseña.
+export type PasswordIdentity = {
+  email?: string | null;
+  username?: string | null;
+};
+
+export type PasswordRuleId = "length" | "uppercase" | "lowercase" | "number" | "symbol" | "identity" | "common";
+
+export type PasswordCheck = {
+  id: PasswordRuleId;
+  label: string;
+  valid: boolean;
+};
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordEvaluation = {
+  checks: PasswordCheck[];
+  isValid: boolean;
+  strength: PasswordStrength;
+};
+
+export const PASSWORD_STRENGTH_LABELS: Record<PasswordStrength, string> = {
+  0: "Muy débil",
+  1: "Débil",
+  2: "Aceptable",
+  3: "Buena",
+  4: "Fuerte",
+};
+
+// Mensaje que ve el usuario cuando la regla se incumple al enviar.
+const RULE_ERRORS: Record<PasswordRuleId, string> = {
+  length: `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres`,
+  uppercase: "La contraseña debe incluir al menos una mayúscula",
+  lowercase: "La contraseña debe incluir al menos una minúscula",
+  number: "La contraseña debe incluir al menos un número",
+  symbol: "La contraseña debe incluir al menos un símbolo",
+  identity: "La contraseña no puede contener tu correo ni tu nombre de usuario",
+  common: "Esa contraseña es demasiado común; elige otra",
+};
+
+const COMMON_SET = new Set(COMMON_PASSWORDS);
+
+// "Password123!" y "password" cuentan como la misma contraseña común.
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9ñ@]+$/u, "")
+    .replace(/\d+$/, "")
+    .replace(/^[^a-z0-9ñ]+/u, "");
+
+const identityParts = (identity: PasswordIdentity): string[] => {
+  const parts = [identity.username, identity.email, identity.email?.split("@")[0]];
+  return parts
+    .map((part) => part?.trim().toLowerCase() ?? "")
+    .filter((part) => part.length >= 3);
+};
+
+const isCommon = (password: string) => {
+  const lowered = password.toLowerCase();
+  return COMMON_SET.has(lowered) || COMMON_SET.has(normalize(password));
+};
+
+export const evaluatePassword = (password: string, identity: PasswordIdentity = {}): PasswordEvaluation => {
+  const lowered = password.toLowerCase();
+  const checks: PasswordCheck[] = [
+    { id: "length", label: `Mínimo ${MIN_PASSWORD_LENGTH} caracteres`, valid: password.length >= MIN_PASSWORD_LENGTH },
+    { id: "uppercase", label: "Al menos una mayúscula", valid: /[A-Z]/.test(password) },
+    { id: "lowercase", label: "Al menos una minúscula", valid: /[a-z]/.test(password) },
+    { id: "number", label: "Al menos un número", valid: /\d/.test(password) },
+    { id: "symbol", label: "Incluye un símbolo", valid: /[^A-Za-z0-9]/.test(password) },
+    {
+      id: "identity",
+      label: "No contiene tu correo ni tu usuario",
+      valid: password.length > 0 && !identityParts(identity).some((part) => lowered.includes(part)),
+    },
+    { id: "common", label: "No es una contraseña común", valid: password.length > 0 && !isCommon(password) },
+  ];
+  const isValid = checks.every((check) => check.valid);
+  return { checks, isValid, strength: scoreStrength(password, checks, isValid) };
+};
+
+/** Lanza el error de la primera regla incumplida; los casos de uso lo llaman antes de ir a ROBLE. */
+export const assertPasswordAllowed = (password: string, identity: PasswordIdentity = {}) => {
+  const failed = evaluatePassword(password, identity).checks.find((check) => !check.valid);
+  if (failed) {
+    throw new Error(RULE_ERRORS[failed.id]);
+  }
+};
+
+// Una contraseña que incumple la política nunca pasa de "Débil"; por encima, premia la longitud.
+const scoreStrength = (password: string, checks: PasswordCheck[], isValid: boolean): PasswordStrength => {
+  if (!password) return 0;
+  if (!isValid) {
+    const passed = checks.filter((check) => check.valid).length;
+    return passed >= checks.length - 2 ? 1 : 0;
+  }
+  if (password.length >= 16) return 4;
+  if (password.length >= 12) return 3;
+  return 2;
+};
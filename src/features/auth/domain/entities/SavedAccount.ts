@@ -0,0 +1,7 @@
+import { AuthUser } from "./AuthUser";
+
+export type SavedAccount = {
+  user: AuthUser;
+  // La cuenta con la que trabajan ahora los repositorios y el proveedor de tokens.
+  isActive: boolean;
+};
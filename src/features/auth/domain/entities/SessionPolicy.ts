@@ -0,0 +1,42 @@
+export type SessionPolicy = {
+  // Horas desde el inicio de sesión tras las cuales se vuelve a pedir la contraseña; `null` = sin límite.
+  maxSessionAgeHours: number | null;
+  // Minutos fuera de la app tras los cuales se pide el PIN, si hay uno configurado.
+  lockAfterMinutes: number;
+  pinEnabled: boolean;
+};
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = {
+  maxSessionAgeHours: 24 * 30,
+  lockAfterMinutes: 5,
+  pinEnabled: false,
+};
+
+export const SESSION_AGE_OPTIONS: (number | null)[] = [24, 24 * 7, 24 * 30, null];
+export const LOCK_AFTER_OPTIONS = [1, 5, 15, 60];
+
+export const PIN_LENGTH = 4;
+// Intentos fallidos seguidos tras los cuales se cierra la sesión en lugar de seguir pidiendo el PIN.
+export const MAX_PIN_ATTEMPTS = 5;
+
+export const isSessionExpired = (
+  startedAt: Date | null,
+  policy: Pick<SessionPolicy, "maxSessionAgeHours">,
+  now: Date = new Date(),
+): boolean => {
+  if (!startedAt || policy.maxSessionAgeHours === null) {
+    return false;
+  }
+  return now.getTime() - startedAt.getTime() >= policy.maxSessionAgeHours * 60 * 60 * 1000;
+};
+
+export const shouldLockAfterIdle = (
+  policy: SessionPolicy,
+  backgroundedAt: number | null,
+  now: number = Date.now(),
+): boolean => {
+  if (!policy.pinEnabled || backgroundedAt === null) {
+    return false;
+  }
+  return now - backgroundedAt >= policy.lockAfterMinutes * 60 * 1000;
+};
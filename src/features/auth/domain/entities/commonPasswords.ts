@@ -0,0 +1,99 @@
+/**
+ * Contraseñas más usadas según listas públicas de filtraciones, más variantes locales. Se guardan
+ * normalizadas (minúsculas, sin símbolos ni dígitos finales), que es como se comparan.
+ */
+export const COMMON_PASSWORDS: readonly string[] = [
+  "123456",
+  "12345678",
+  "123456789",
+  "1234567890",
+  "111111",
+  "000000",
+  "654321",
+  "123123",
+  "abc123",
+  "abcd1234",
+  "qwerty",
+  "qwertyuiop",
+  "asdfgh",
+  "asdfghjkl",
+  "zxcvbnm",
+  "password",
+  "passw0rd",
+  "contrasena",
+  "contraseña",
+  "clave",
+  "secreto",
+  "admin",
+  "administrador",
+  "welcome",
+  "bienvenido",
+  "letmein",
+  "iloveyou",
+  "teamo",
+  "tequiero",
+  "monkey",
+  "dragon",
+  "master",
+  "shadow",
+  "sunshine",
+  "princess",
+  "princesa",
+  "football",
+  "futbol",
+  "baseball",
+  "superman",
+  "batman",
+  "starwars",
+  "pokemon",
+  "naruto",
+  "trustno",
+  "whatever",
+  "freedom",
+  "charlie",
+  "michael",
+  "jennifer",
+  "jessica",
+  "daniel",
+  "andrea",
+  "carlos",
+  "alejandro",
+  "mariposa",
+  "estrella",
+  "corazon",
+  "colombia",
+  "barranquilla",
+  "junior",
+  "millonarios",
+  "nacional",
+  "america",
+  "uninorte",
+  "universidad",
+  "estudiante",
+  "profesor",
+  "courseven",
+  "roble",
+  "openlab",
+  "google",
+  "facebook",
+  "instagram",
+  "samsung",
+  "iphone",
+  "computer",
+  "internet",
+  "login",
+  "hello",
+  "hola",
+  "holamundo",
+  "qazwsx",
+  "1q2w3e4r",
+  "1qaz2wsx",
+  "zaq1zaq1",
+  "aa123456",
+  "a123456",
+  "p@ssw0rd",
+  "changeme",
+  "default",
+  "test",
+  "prueba",
+];
@@ -1,4 +1,6 @@
 import { AuthSession } from "../entities/AuthSession";
+import { AuthUser } from "../entities/AuthUser";
+import { SavedAccount } from "../entities/SavedAccount";
 
 export type LoginParams = {
   identifier: string;
@@ -18,14 +20,28 @@ export type VerifyEmailParams = SignupParams & {
   code: string;
 };
 
+// `expired`: no hay sesión o superó la edad máxima; `revoked`: ROBLE rechazó el token y no se pudo renovar.
+export type SessionValidation = "valid" | "expired" | "revoked";
+
+export type ProfileChanges = Pick<AuthUser, "firstName" | "lastName" | "username" | "studentId">;
+
 export interface AuthRepository {
   login(params: LoginParams): Promise<AuthSession>;
   signup(params: SignupParams): Promise<{ message: string }>;
   verifyEmail(params: VerifyEmailParams): Promise<AuthSession>;
   logout(): Promise<void>;
   getCurrentSession(): Promise<AuthSession | null>;
+  // Al volver a la app: aplica la edad máxima y confirma con ROBLE que el token no fue revocado.
+  validateSession(): Promise<SessionValidation>;
+  listAccounts(): Promise<SavedAccount[]>;
+  // Activa otra cuenta guardada y confirma su token; si ya no sirve, la olvida y lanza un error.
+  switchAccount(userId: string): Promise<AuthSession>;
+  // Olvida una cuenta guardada que no es la activa; la activa se cierra con `logout`.
+  removeAccount(userId: string): Promise<void>;
   requestPasswordReset(email: string): Promise<{ message: string }>;
   resetPassword(token: string, newPassword: string): Promise<{ message: string }>;
+  changePassword(currentPassword: string, newPassword: string): Promise<{ message: string }>;
+  updateSessionUser(changes: ProfileChanges): Promise<AuthUser | null>;
   validateResetToken(token: string): Promise<boolean>;
   checkEmailAvailability(email: string): Promise<boolean>;
   checkUsernameAvailability(username: string): Promise<boolean>;
@@ -0,0 +1,12 @@
+import { SessionPolicy } from "../entities/SessionPolicy";
+
+export interface SessionPolicyRepository {
+  getPolicy(): Promise<SessionPolicy>;
+  savePolicy(policy: Omit<SessionPolicy, "pinEnabled">): Promise<SessionPolicy>;
+  setPin(pin: string): Promise<void>;
+  clearPin(): Promise<void>;
+  verifyPin(pin: string): Promise<boolean>;
+  // Suma un intento fallido de desbloqueo y devuelve cuántos van seguidos.
+  recordFailedPinAttempt(): Promise<number>;
+  resetPinAttempts(): Promise<void>;
+}
@@ -0,0 +1,27 @@
+import { assertPasswordAllowed, PasswordIdentity } from "../entities/PasswordPolicy";
+import { AuthRepository } from "../repositories/AuthRepository";
+
+export type ChangePasswordParams = {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+  identity?: PasswordIdentity;
+};
+
+export class ChangePasswordUseCase {
+  constructor(private readonly repository: AuthRepository) {}
+
+  async execute(params: ChangePasswordParams): Promise<{ message: string }> {
+    if (!params.currentPassword) {
+      throw new Error("Ingresa tu contraseña actual");
+    }
+    assertPasswordAllowed(params.newPassword, params.identity);
+    if (params.newPassword !== params.confirmPassword) {
+      throw new Error("Las contraseñas no coinciden");
+    }
+    if (params.newPassword === params.currentPassword) {
+      throw new Error("La nueva contraseña debe ser distinta de la actual");
+    }
+    return this.repository.changePassword(params.currentPassword, params.newPassword);
+  }
+}
@@ -0,0 +1,10 @@
+import { SessionPolicy } from "../entities/SessionPolicy";
+import { SessionPolicyRepository } from "../repositories/SessionPolicyRepository";
+
+export class GetSessionPolicyUseCase {
+  constructor(private readonly repository: SessionPolicyRepository) {}
+
+  async execute(): Promise<SessionPolicy> {
+    return this.repository.getPolicy();
+  }
+}
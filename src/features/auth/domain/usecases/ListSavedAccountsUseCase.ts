@@ -0,0 +1,10 @@
+import { SavedAccount } from "../entities/SavedAccount";
+import { AuthRepository } from "../repositories/AuthRepository";
+
+export class ListSavedAccountsUseCase {
+  constructor(private readonly repository: AuthRepository) {}
+
+  async execute(): Promise<SavedAccount[]> {
+    return this.repository.listAccounts();
+  }
+}
@@ -0,0 +1,13 @@
+import { SessionPolicyRepository } from "../repositories/SessionPolicyRepository";
+
+export class RemoveAppPinUseCase {
+  constructor(private readonly repository: SessionPolicyRepository) {}
+
+  async execute(currentPin: string): Promise<void> {
+    const valid = await this.repository.verifyPin(currentPin);
+    if (!valid) {
+      throw new Error("El PIN actual no es correcto");
+    }
+    await this.repository.clearPin();
+  }
+}
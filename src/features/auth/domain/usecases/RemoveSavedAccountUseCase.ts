@@ -0,0 +1,9 @@
+import { AuthRepository } from "../repositories/AuthRepository";
+
+export class RemoveSavedAccountUseCase {
+  constructor(private readonly repository: AuthRepository) {}
+
+  async execute(userId: string): Promise<void> {
+    return this.repository.removeAccount(userId);
+  }
+}
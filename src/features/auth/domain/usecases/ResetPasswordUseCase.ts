@@ -1,14 +1,18 @@
+import { assertPasswordAllowed } from "../entities/PasswordPolicy";
 import { AuthRepository } from "../repositories/AuthRepository";
 
 export type ResetPasswordParams = {
   token: string;
   newPassword: string;
+  // Correo con el que se pidió el enlace, si se conoce; no puede aparecer en la contraseña nueva.
+  email?: string;
 };
 
 export class ResetPasswordUseCase {
   constructor(private readonly repository: AuthRepository) {}
 
   async execute(params: ResetPasswordParams): Promise<{ message: string }> {
+    assertPasswordAllowed(params.newPassword, { email: params.email });
     return this.repository.resetPassword(params.token, params.newPassword);
   }
 }
@@ -0,0 +1,21 @@
+import { PIN_LENGTH } from "../entities/SessionPolicy";
+import { SessionPolicyRepository } from "../repositories/SessionPolicyRepository";
+
+export type SetAppPinParams = {
+  pin: string;
+  confirmPin: string;
+};
+
+export class SetAppPinUseCase {
+  constructor(private readonly repository: SessionPolicyRepository) {}
+
+  async execute({ pin, confirmPin }: SetAppPinParams): Promise<void> {
+    if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+      throw new Error(`El PIN debe tener ${PIN_LENGTH} dígitos`);
+    }
+    if (pin !== confirmPin) {
+      throw new Error("Los PIN no coinciden");
+    }
+    await this.repository.setPin(pin);
+  }
+}
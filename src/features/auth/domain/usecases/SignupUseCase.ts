@@ -1,9 +1,11 @@
+import { assertPasswordAllowed } from "../entities/PasswordPolicy";
 import { AuthRepository, SignupParams } from "../repositories/AuthRepository";
 
 export class SignupUseCase {
   constructor(private readonly repository: AuthRepository) {}
 
   async execute(params: SignupParams): Promise<{ message: string }> {
+    assertPasswordAllowed(params.password, { email: params.email, username: params.username });
     return this.repository.signup(params);
   }
 }
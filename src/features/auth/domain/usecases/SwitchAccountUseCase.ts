@@ -0,0 +1,13 @@
+import { AuthSession } from "../entities/AuthSession";
+import { AuthRepository } from "../repositories/AuthRepository";
+
+export class SwitchAccountUseCase {
+  constructor(private readonly repository: AuthRepository) {}
+
+  async execute(userId: string): Promise<AuthSession> {
+    if (!userId) {
+      throw new Error("Selecciona una cuenta");
+    }
+    return this.repository.switchAccount(userId);
+  }
+}
@@ -0,0 +1,26 @@
+import { MAX_PIN_ATTEMPTS } from "../entities/SessionPolicy";
+import { SessionPolicyRepository } from "../repositories/SessionPolicyRepository";
+
+export type UnlockResult =
+  | { status: "unlocked" }
+  | { status: "invalid"; remainingAttempts: number }
+  // Se agotaron los intentos: quien llama debe cerrar la sesión.
+  | { status: "exhausted" };
+
+export class UnlockAppUseCase {
+  constructor(private readonly repository: SessionPolicyRepository) {}
+
+  async execute(pin: string): Promise<UnlockResult> {
+    if (await this.repository.verifyPin(pin)) {
+      await this.repository.resetPinAttempts();
+      return { status: "unlocked" };
+    }
+
+    const failures = await this.repository.recordFailedPinAttempt();
+    if (failures >= MAX_PIN_ATTEMPTS) {
+      await this.repository.resetPinAttempts();
+      return { status: "exhausted" };
+    }
+    return { status: "invalid", remainingAttempts: MAX_PIN_ATTEMPTS - failures };
+  }
+}
@@ -0,0 +1,18 @@
+import { LOCK_AFTER_OPTIONS, SESSION_AGE_OPTIONS, SessionPolicy } from "../entities/SessionPolicy";
+import { SessionPolicyRepository } from "../repositories/SessionPolicyRepository";
+
+export type UpdateSessionPolicyParams = Omit<SessionPolicy, "pinEnabled">;
+
+export class UpdateSessionPolicyUseCase {
+  constructor(private readonly repository: SessionPolicyRepository) {}
+
+  async execute(params: UpdateSessionPolicyParams): Promise<SessionPolicy> {
+    if (!SESSION_AGE_OPTIONS.includes(params.maxSessionAgeHours)) {
+      throw new Error("Duración de sesión no soportada");
+    }
+    if (!LOCK_AFTER_OPTIONS.includes(params.lockAfterMinutes)) {
+      throw new Error("Tiempo de bloqueo no soportado");
+    }
+    return this.repository.savePolicy(params);
+  }
+}
@@ -0,0 +1,9 @@
+import { AuthRepository, SessionValidation } from "../repositories/AuthRepository";
+
+export class ValidateSessionUseCase {
+  constructor(private readonly repository: AuthRepository) {}
+
+  async execute(): Promise<SessionValidation> {
+    return this.repository.validateSession();
+  }
+}
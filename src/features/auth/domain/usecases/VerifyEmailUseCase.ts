@@ -68,7 +68,7 @@ export class VerifyEmailUseCase {
       },
     } as AuthSession;
 
-    await this.local.saveSession(session, true);
+    await this.local.saveSession(session, true, { renew: true });
     return session;
   }
 }
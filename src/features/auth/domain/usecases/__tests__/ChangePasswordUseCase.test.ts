@@ -0,0 +1,65 @@
+import {
+  FakeAuthLocalDataSource,
+  FakeAuthRemoteDataSource,
+  fakeAuthSession,
+} from "../../../data/datasources/FakeAuthDataSources";
+import { AuthRepositoryImpl } from "../../../data/repositories/AuthRepositoryImpl";
+import { ChangePasswordUseCase } from "../ChangePasswordUseCase";
+
+const build = () => {
+  let password = "Actual#123";
+  const changes: string[] = [];
+  const remote = new FakeAuthRemoteDataSource({
+    loginAuth: async ({ password: candidate }) => {
+      if (candidate !== password) throw new Error("Credenciales inválidas");
+      return { accessToken: `token-${candidate}`, refreshToken: "r2" };
+    },
+    changePassword: async ({ accessToken, newPassword }) => {
+      changes.push(accessToken);
+      password = newPassword;
+      return { message: "ok" };
+    },
+  });
+  const local = new FakeAuthLocalDataSource({
+    session: fakeAuthSession({ id: "u1", email: "ana@uni.edu" }, { accessToken: "old" }),
+    keepLoggedIn: false,
+    startedAt: new Date(),
+  });
+  return {
+    useCase: new ChangePasswordUseCase(new AuthRepositoryImpl(remote, local)),
+    changes,
+    local,
+  };
+};
+
+describe("ChangePasswordUseCase", () => {
+  it("re-authenticates with the current password before changing it", async () => {
+    const { useCase, changes, local } = build();
+
+    await expect(
+      useCase.execute({ currentPassword: "Otra#123", newPassword: "Nueva#456", confirmPassword: "Nueva#456" }),
+    ).rejects.toThrow("contraseña actual no es correcta");
+    expect(changes).toEqual([]);
+
+    await useCase.execute({ currentPassword: "Actual#123", newPassword: "Nueva#456", confirmPassword: "Nueva#456" });
+    expect(changes).toEqual(["token-Actual#123"]);
+    expect(local.stored?.session.tokens.accessToken).toBe("token-Nueva#456");
+    expect(local.stored?.keepLoggedIn).toBe(false);
+  });
+
+  it("validates the new password locally", async () => {
+    const { useCase, changes } = build();
+    const currentPassword = "Actual#123";
+
+    await expect(useCase.execute({ currentPassword, newPassword: "corta", confirmPassword: "corta" })).rejects.toThrow(
+      "al menos 8",
+    );
+    await expect(
+      useCase.execute({ currentPassword, newPassword: "Nueva#456", confirmPassword: "Nueva#457" }),
+    ).rejects.toThrow("no coinciden");
+    await expect(
+      useCase.execute({ currentPassword, newPassword: currentPassword, confirmPassword: currentPassword }),
+    ).rejects.toThrow("distinta");
+    expect(changes).toEqual([]);
+  });
+});
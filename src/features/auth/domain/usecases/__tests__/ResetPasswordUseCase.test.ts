@@ -0,0 +1,17 @@
+import { ResetPasswordUseCase } from "../ResetPasswordUseCase";
+
+describe("ResetPasswordUseCase", () => {
+  it("applies the password policy, including the requesting email, before resetting", async () => {
+    const repository: any = { resetPassword: jest.fn(async () => ({ message: "ok" })) };
+    const useCase = new ResetPasswordUseCase(repository);
+
+    await expect(useCase.execute({ token: "t", newPassword: "qwerty" })).rejects.toThrow("al menos 8");
+    await expect(
+      useCase.execute({ token: "t", newPassword: "Luisgomez#99", email: "luisgomez@uninorte.edu.co" }),
+    ).rejects.toThrow("correo");
+    expect(repository.resetPassword).not.toHaveBeenCalled();
+
+    await useCase.execute({ token: "t", newPassword: "Luisgomez#99" });
+    expect(repository.resetPassword).toHaveBeenCalledWith("t", "Luisgomez#99");
+  });
+});
@@ -0,0 +1,37 @@
+import { evaluatePassword } from "../../entities/PasswordPolicy";
+import { SignupUseCase } from "../SignupUseCase";
+
+const build = () => {
+  const repository: any = { signup: jest.fn(async () => ({ message: "ok" })) };
+  return { useCase: new SignupUseCase(repository), repository };
+};
+
+const params = (password: string) => ({
+  email: "ana.perez@uninorte.edu.co",
+  username: "anaperez",
+  firstName: "Ana",
+  lastName: "Pérez",
+  password,
+});
+
+describe("SignupUseCase", () => {
+  it("rejects passwords that break the policy before calling ROBLE", async () => {
+    const { useCase, repository } = build();
+
+    await expect(useCase.execute(params("Corta#1"))).rejects.toThrow("al menos 8");
+    await expect(useCase.execute(params("sinmayuscula#1"))).rejects.toThrow("mayúscula");
+    await expect(useCase.execute(params("Anaperez#2024"))).rejects.toThrow("correo ni tu nombre de usuario");
+    await expect(useCase.execute(params("Password123!"))).rejects.toThrow("demasiado común");
+    expect(repository.signup).not.toHaveBeenCalled();
+
+    await useCase.execute(params("Nubes#Altas42"));
+    expect(repository.signup).toHaveBeenCalledTimes(1);
+  });
+
+  it("rates strength so that policy violations never look strong", () => {
+    expect(evaluatePassword("").strength).toBe(0);
+    expect(evaluatePassword("Password123!").strength).toBe(1);
+    expect(evaluatePassword("Nubes#Altas42")).toMatchObject({ isValid: true, strength: 3 });
+    expect(evaluatePassword("Nubes#Altas#Del#Caribe42").strength).toBe(4);
+  });
+});
@@ -0,0 +1,87 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { ProgressBar, Text } from "react-native-paper";
+
+import {
+  PASSWORD_STRENGTH_LABELS,
+  PasswordEvaluation,
+  PasswordStrength,
+} from "../../domain/entities/PasswordPolicy";
+
+const STRENGTH_COLORS: Record<PasswordStrength, string> = {
+  0: "#C62828",
+  1: "#EF6C00",
+  2: "#F9A825",
+  3: "#7CB342",
+  4: "#2E7D32",
+};
+
+type Props = {
+  evaluation: PasswordEvaluation;
+  textColor: string;
+  // Color del ícono de las reglas aún sin cumplir; por defecto el del texto.
+  pendingColor?: string;
+};
+
+export function PasswordStrengthMeter({ evaluation, textColor, pendingColor = textColor }: Props) {
+  const { strength, checks } = evaluation;
+  const color = STRENGTH_COLORS[strength];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.strengthRow}>
+        <View style={styles.barTrack}>
+          <ProgressBar progress={strength / 4} color={color} style={styles.bar} />
+        </View>
+        <Text style={[styles.strengthLabel, { color }]}>{PASSWORD_STRENGTH_LABELS[strength]}</Text>
+      </View>
+      {checks.map((check) => (
+        <View key={check.id} style={styles.requirementRow}>
+          <MaterialCommunityIcons
+            name={check.valid ? "check-circle" : "checkbox-blank-circle-outline"}
+            size={18}
+            color={check.valid ? STRENGTH_COLORS[4] : pendingColor}
+          />
+          <Text style={[styles.requirementText, { color: textColor }]}>{check.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    marginBottom: 18,
+  },
+  strengthRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  barTrack: {
+    flex: 1,
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  strengthLabel: {
+    width: 84,
+    marginLeft: 12,
+    fontSize: 13,
+    fontWeight: "700",
+    textAlign: "right",
+  },
+  requirementRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  requirementText: {
+    marginLeft: 10,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
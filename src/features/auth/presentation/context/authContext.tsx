@@ -4,21 +4,37 @@ import React, {
     useContext,
     useEffect,
     useMemo,
+    useRef,
     useState,
 } from "react";
 
 import { useDI } from "@/src/core/di/DIProvider";
 import { TOKENS } from "@/src/core/di/tokens";
+import { AppEventBus } from "@/src/core/events/AppEventBus";
+import { DeleteAccountUseCase } from "@/src/features/account/domain/usecases/DeleteAccountUseCase";
+import {
+  ExportAccountDataUseCase,
+  serializeAccountExport,
+} from "@/src/features/account/domain/usecases/ExportAccountDataUseCase";
+import {
+  UpdateProfileParams,
+  UpdateProfileUseCase,
+} from "@/src/features/account/domain/usecases/UpdateProfileUseCase";
 import { AuthUser } from "../../domain/entities/AuthUser";
+import { SavedAccount } from "../../domain/entities/SavedAccount";
+import { ChangePasswordParams, ChangePasswordUseCase } from "../../domain/usecases/ChangePasswordUseCase";
 import { CheckEmailAvailabilityUseCase } from "../../domain/usecases/CheckEmailAvailabilityUseCase";
 import { CheckUsernameAvailabilityUseCase } from "../../domain/usecases/CheckUsernameAvailabilityUseCase";
 import { ExtractResetTokenUseCase } from "../../domain/usecases/ExtractResetTokenUseCase";
 import { GetCurrentUserUseCase } from "../../domain/usecases/GetCurrentUserUseCase";
+import { ListSavedAccountsUseCase } from "../../domain/usecases/ListSavedAccountsUseCase";
 import { LoginUseCase } from "../../domain/usecases/LoginUseCase";
 import { LogoutUseCase } from "../../domain/usecases/LogoutUseCase";
+import { RemoveSavedAccountUseCase } from "../../domain/usecases/RemoveSavedAccountUseCase";
 import { RequestPasswordResetUseCase } from "../../domain/usecases/RequestPasswordResetUseCase";
-import { ResetPasswordUseCase } from "../../domain/usecases/ResetPasswordUseCase";
+import { ResetPasswordParams, ResetPasswordUseCase } from "../../domain/usecases/ResetPasswordUseCase";
 import { SignupUseCase } from "../../domain/usecases/SignupUseCase";
+import { SwitchAccountUseCase } from "../../domain/usecases/SwitchAccountUseCase";
 import { ValidateResetTokenUseCase } from "../../domain/usecases/ValidateResetTokenUseCase";
 import { VerifyEmailUseCase } from "../../domain/usecases/VerifyEmailUseCase";
 
@@ -47,10 +63,22 @@ type AuthContextType = {
   }) => Promise<void>;
   requestPasswordReset: (email: string) => Promise<{ message: string }>;
   validateResetToken: (token: string) => Promise<boolean>;
-  resetPassword: (params: { token: string; newPassword: string }) => Promise<{ message: string }>;
+  resetPassword: (params: ResetPasswordParams) => Promise<{ message: string }>;
   extractResetToken: (url: string) => string | null;
   checkEmailAvailability: (email: string) => Promise<boolean>;
   checkUsernameAvailability: (username: string) => Promise<boolean>;
+  updateProfile: (params: Omit<UpdateProfileParams, "userId">) => Promise<void>;
+  changePassword: (params: ChangePasswordParams) => Promise<{ message: string }>;
+  // JSON con los datos de la cuenta activa, listo para compartir.
+  exportAccountData: () => Promise<string>;
+  deleteAccount: (confirmation: string) => Promise<void>;
+  // Cuentas guardadas en el dispositivo, empezando por la usada más recientemente.
+  accounts: SavedAccount[];
+  // `true` mientras se inicia sesión con otra cuenta sin cerrar la actual.
+  addingAccount: boolean;
+  switchAccount: (userId: string) => Promise<void>;
+  removeAccount: (userId: string) => Promise<void>;
+  startAddingAccount: () => void;
   logout: () => Promise<void>;
   clearError: () => void;
 };
@@ -72,6 +100,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     extractResetTokenUseCase,
     checkEmailAvailabilityUseCase,
     checkUsernameAvailabilityUseCase,
+    updateProfileUseCase,
+    changePasswordUseCase,
+    exportAccountDataUseCase,
+    deleteAccountUseCase,
+    listSavedAccountsUseCase,
+    switchAccountUseCase,
+    removeSavedAccountUseCase,
+    appEventBus,
   } = useMemo(() => ({
     loginUseCase: di.resolve<LoginUseCase>(TOKENS.LoginUC),
     signupUseCase: di.resolve<SignupUseCase>(TOKENS.SignupUC),
@@ -84,18 +120,38 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     extractResetTokenUseCase: di.resolve<ExtractResetTokenUseCase>(TOKENS.ExtractResetTokenUC),
     checkEmailAvailabilityUseCase: di.resolve<CheckEmailAvailabilityUseCase>(TOKENS.CheckEmailAvailabilityUC),
     checkUsernameAvailabilityUseCase: di.resolve<CheckUsernameAvailabilityUseCase>(TOKENS.CheckUsernameAvailabilityUC),
+    updateProfileUseCase: di.resolve<UpdateProfileUseCase>(TOKENS.UpdateProfileUC),
+    changePasswordUseCase: di.resolve<ChangePasswordUseCase>(TOKENS.ChangePasswordUC),
+    exportAccountDataUseCase: di.resolve<ExportAccountDataUseCase>(TOKENS.ExportAccountDataUC),
+    deleteAccountUseCase: di.resolve<DeleteAccountUseCase>(TOKENS.DeleteAccountUC),
+    listSavedAccountsUseCase: di.resolve<ListSavedAccountsUseCase>(TOKENS.ListSavedAccountsUC),
+    switchAccountUseCase: di.resolve<SwitchAccountUseCase>(TOKENS.SwitchAccountUC),
+    removeSavedAccountUseCase: di.resolve<RemoveSavedAccountUseCase>(TOKENS.RemoveSavedAccountUC),
+    appEventBus: di.resolve<AppEventBus>(TOKENS.AppEventBus),
   }), [di]);
 
   const [status, setStatus] = useState<AuthStatus>("checking");
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<SavedAccount[]>([]);
+  const [addingAccount, setAddingAccount] = useState(false);
+  const activeUserId = useRef<string | null | undefined>(undefined);
+
+  const reloadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await listSavedAccountsUseCase.execute());
+    } catch (err) {
+      console.warn("[AUTH] No se pudieron cargar las cuentas guardadas", err);
+    }
+  }, [listSavedAccountsUseCase]);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       try {
         const session = await getCurrentSessionUseCase.execute();
+        await reloadAccounts();
         if (!mounted) return;
         if (session) {
           setUser(session.user);
@@ -113,7 +169,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => {
       mounted = false;
     };
-  }, [getCurrentSessionUseCase]);
+  }, [getCurrentSessionUseCase, reloadAccounts]);
+
+  // La restauración inicial no cuenta como cambio: los controladores aún no cargaron nada.
+  useEffect(() => {
+    if (status === "checking") return;
+    const userId = user?.id ?? null;
+    if (activeUserId.current !== undefined && activeUserId.current !== userId) {
+      appEventBus.publish({ type: "ActiveAccountChangedEvent", userId });
+    }
+    activeUserId.current = userId;
+  }, [appEventBus, status, user?.id]);
+
+  useEffect(() => {
+    // El proveedor de tokens ya limpió la sesión local al fallar la renovación.
+    return appEventBus.subscribe((event) => {
+      if (event.type !== "SessionExpiredEvent") return;
+      setUser(null);
+      setStatus("unauthenticated");
+      setAddingAccount(false);
+      void reloadAccounts();
+      setError(
+        event.reason === "revoked"
+          ? "Tu sesión fue cerrada desde otro lugar. Inicia sesión nuevamente."
+          : "Tu sesión expiró. Inicia sesión nuevamente.",
+      );
+    });
+  }, [appEventBus, reloadAccounts]);
 
   const runWithLoading = useCallback(async <T,>(fn: () => Promise<T>): Promise<T> => {
     setLoading(true);
@@ -136,8 +218,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       );
       setUser(session.user);
       setStatus("authenticated");
+      setAddingAccount(false);
+      await reloadAccounts();
     },
-    [loginUseCase, runWithLoading],
+    [loginUseCase, reloadAccounts, runWithLoading],
   );
 
   const signup = useCallback((params: {
@@ -179,7 +263,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     );
     setUser(session.user);
     setStatus("authenticated");
-  }, [runWithLoading, verifyEmailUseCase]);
+    setAddingAccount(false);
+    await reloadAccounts();
+  }, [reloadAccounts, runWithLoading, verifyEmailUseCase]);
 
   const requestPasswordReset = useCallback(
     (email: string) => runWithLoading(() => requestPasswordResetUseCase.execute(email)),
@@ -192,8 +278,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   );
 
   const resetPassword = useCallback(
-    (params: { token: string; newPassword: string }) =>
-      runWithLoading(() => resetPasswordUseCase.execute(params)),
+    (params: ResetPasswordParams) => runWithLoading(() => resetPasswordUseCase.execute(params)),
     [resetPasswordUseCase, runWithLoading],
   );
 
@@ -212,11 +297,88 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     [checkUsernameAvailabilityUseCase],
   );
 
+  const updateProfile = useCallback(
+    async (params: Omit<UpdateProfileParams, "userId">) => {
+      if (!user) {
+        throw new Error("No hay una sesión activa");
+      }
+      const updated = await runWithLoading(() => updateProfileUseCase.execute({ ...params, userId: user.id }));
+      if (updated) {
+        setUser(updated);
+      }
+    },
+    [runWithLoading, updateProfileUseCase, user],
+  );
+
+  const changePassword = useCallback(
+    (params: ChangePasswordParams) =>
+      runWithLoading(() =>
+        changePasswordUseCase.execute({
+          ...params,
+          identity: params.identity ?? { email: user?.email, username: user?.username },
+        }),
+      ),
+    [changePasswordUseCase, runWithLoading, user?.email, user?.username],
+  );
+
+  const exportAccountData = useCallback(async () => {
+    if (!user) {
+      throw new Error("No hay una sesión activa");
+    }
+    const data = await runWithLoading(() => exportAccountDataUseCase.execute(user.id));
+    return serializeAccountExport(data);
+  }, [exportAccountDataUseCase, runWithLoading, user]);
+
+  const deleteAccount = useCallback(
+    async (confirmation: string) => {
+      if (!user) {
+        throw new Error("No hay una sesión activa");
+      }
+      await runWithLoading(() => deleteAccountUseCase.execute({ userId: user.id, confirmation }));
+      setUser(null);
+      setStatus("unauthenticated");
+      setAddingAccount(false);
+      await reloadAccounts();
+    },
+    [deleteAccountUseCase, reloadAccounts, runWithLoading, user],
+  );
+
+  const switchAccount = useCallback(
+    async (userId: string) => {
+      try {
+        const session = await runWithLoading(() => switchAccountUseCase.execute(userId));
+        setUser(session.user);
+        setStatus("authenticated");
+        setAddingAccount(false);
+      } finally {
+        await reloadAccounts();
+      }
+    },
+    [reloadAccounts, runWithLoading, switchAccountUseCase],
+  );
+
+  const removeAccount = useCallback(
+    async (userId: string) => {
+      await runWithLoading(() => removeSavedAccountUseCase.execute(userId));
+      await reloadAccounts();
+    },
+    [reloadAccounts, removeSavedAccountUseCase, runWithLoading],
+  );
+
+  // Lleva al login sin cerrar la sesión actual; desde ahí se puede volver a cualquier cuenta guardada.
+  const startAddingAccount = useCallback(() => {
+    setError(null);
+    setAddingAccount(true);
+    setStatus("unauthenticated");
+  }, []);
+
   const logout = useCallback(async () => {
     await runWithLoading(() => logoutUseCase.execute());
     setUser(null);
     setStatus("unauthenticated");
-  }, [logoutUseCase, runWithLoading]);
+    setAddingAccount(false);
+    await reloadAccounts();
+  }, [logoutUseCase, reloadAccounts, runWithLoading]);
 
   const clearError = useCallback(() => setError(null), []);
 
@@ -235,6 +397,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       extractResetToken,
       checkEmailAvailability,
       checkUsernameAvailability,
+      updateProfile,
+      changePassword,
+      exportAccountData,
+      deleteAccount,
+      accounts,
+      addingAccount,
+      switchAccount,
+      removeAccount,
+      startAddingAccount,
       logout,
       clearError,
     }),
@@ -252,6 +423,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       extractResetToken,
       checkEmailAvailability,
       checkUsernameAvailability,
+      updateProfile,
+      changePassword,
+      exportAccountData,
+      deleteAccount,
+      accounts,
+      addingAccount,
+      switchAccount,
+      removeAccount,
+      startAddingAccount,
       logout,
       clearError,
     ],
@@ -0,0 +1,168 @@
+import React, {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
+import { AppState } from "react-native";
+
+import { useDI } from "@/src/core/di/DIProvider";
+import { TOKENS } from "@/src/core/di/tokens";
+import { AppEventBus } from "@/src/core/events/AppEventBus";
+import { DEFAULT_SESSION_POLICY, SessionPolicy, shouldLockAfterIdle } from "../../domain/entities/SessionPolicy";
+import { GetSessionPolicyUseCase } from "../../domain/usecases/GetSessionPolicyUseCase";
+import { RemoveAppPinUseCase } from "../../domain/usecases/RemoveAppPinUseCase";
+import { SetAppPinParams, SetAppPinUseCase } from "../../domain/usecases/SetAppPinUseCase";
+import { UnlockAppUseCase, UnlockResult } from "../../domain/usecases/UnlockAppUseCase";
+import {
+    UpdateSessionPolicyParams,
+    UpdateSessionPolicyUseCase,
+} from "../../domain/usecases/UpdateSessionPolicyUseCase";
+import { ValidateSessionUseCase } from "../../domain/usecases/ValidateSessionUseCase";
+import { useAuth } from "./authContext";
+
+type SessionLockContextType = {
+  policy: SessionPolicy;
+  locked: boolean;
+  unlock: (pin: string) => Promise<UnlockResult>;
+  updatePolicy: (params: UpdateSessionPolicyParams) => Promise<void>;
+  setPin: (params: SetAppPinParams) => Promise<void>;
+  removePin: (currentPin: string) => Promise<void>;
+};
+
+const SessionLockContext = createContext<SessionLockContextType | undefined>(undefined);
+
+/**
+ * Aplica las políticas de sesión mientras hay usuario: al volver a primer plano confirma con ROBLE
+ * que el token sigue vigente y, si hay PIN, bloquea la app tras el tiempo de inactividad configurado.
+ */
+export function SessionLockProvider({ children }: { children: React.ReactNode }) {
+  const di = useDI();
+  const { status, logout } = useAuth();
+
+  const {
+    validateSessionUseCase,
+    getSessionPolicyUseCase,
+    updateSessionPolicyUseCase,
+    setAppPinUseCase,
+    removeAppPinUseCase,
+    unlockAppUseCase,
+    appEventBus,
+  } = useMemo(() => ({
+    validateSessionUseCase: di.resolve<ValidateSessionUseCase>(TOKENS.ValidateSessionUC),
+    getSessionPolicyUseCase: di.resolve<GetSessionPolicyUseCase>(TOKENS.GetSessionPolicyUC),
+    updateSessionPolicyUseCase: di.resolve<UpdateSessionPolicyUseCase>(TOKENS.UpdateSessionPolicyUC),
+    setAppPinUseCase: di.resolve<SetAppPinUseCase>(TOKENS.SetAppPinUC),
+    removeAppPinUseCase: di.resolve<RemoveAppPinUseCase>(TOKENS.RemoveAppPinUC),
+    unlockAppUseCase: di.resolve<UnlockAppUseCase>(TOKENS.UnlockAppUC),
+    appEventBus: di.resolve<AppEventBus>(TOKENS.AppEventBus),
+  }), [di]);
+
+  const [policy, setPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [locked, setLocked] = useState(false);
+  const policyRef = useRef(policy);
+  const previousStatus = useRef(status);
+
+  const reloadPolicy = useCallback(async () => {
+    const next = await getSessionPolicyUseCase.execute();
+    policyRef.current = next;
+    setPolicy(next);
+    return next;
+  }, [getSessionPolicyUseCase]);
+
+  useEffect(() => {
+    const from = previousStatus.current;
+    previousStatus.current = status;
+    if (status !== "authenticated") {
+      setLocked(false);
+      return;
+    }
+    // Una sesión restaurada al abrir la app cuenta como inactividad; un inicio de sesión no.
+    void reloadPolicy().then((next) => {
+      if (from === "checking" && next.pinEnabled) setLocked(true);
+    });
+  }, [reloadPolicy, status]);
+
+  useEffect(() => {
+    if (status !== "authenticated") return;
+
+    let backgroundedAt: number | null = null;
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "background") {
+        backgroundedAt = Date.now();
+        return;
+      }
+      if (state !== "active") return;
+
+      if (shouldLockAfterIdle(policyRef.current, backgroundedAt)) {
+        setLocked(true);
+      }
+      backgroundedAt = null;
+      void validateSessionUseCase
+        .execute()
+        .then((result) => {
+          if (result === "valid") return;
+          appEventBus.publish({ type: "SessionExpiredEvent", reason: result });
+        })
+        .catch((error) => {
+          console.warn("[AUTH] No se pudo validar la sesión al volver a la app", error);
+        });
+    });
+
+    return () => subscription.remove();
+  }, [appEventBus, status, validateSessionUseCase]);
+
+  const unlock = useCallback(
+    async (pin: string) => {
+      const result = await unlockAppUseCase.execute(pin);
+      if (result.status === "unlocked") {
+        setLocked(false);
+      } else if (result.status === "exhausted") {
+        await logout();
+      }
+      return result;
+    },
+    [logout, unlockAppUseCase],
+  );
+
+  const updatePolicy = useCallback(
+    async (params: UpdateSessionPolicyParams) => {
+      const next = await updateSessionPolicyUseCase.execute(params);
+      policyRef.current = next;
+      setPolicy(next);
+    },
+    [updateSessionPolicyUseCase],
+  );
+
+  const setPin = useCallback(
+    async (params: SetAppPinParams) => {
+      await setAppPinUseCase.execute(params);
+      await reloadPolicy();
+    },
+    [reloadPolicy, setAppPinUseCase],
+  );
+
+  const removePin = useCallback(
+    async (currentPin: string) => {
+      await removeAppPinUseCase.execute(currentPin);
+      await reloadPolicy();
+    },
+    [reloadPolicy, removeAppPinUseCase],
+  );
+
+  const value = useMemo<SessionLockContextType>(
+    () => ({ policy, locked, unlock, updatePolicy, setPin, removePin }),
+    [policy, locked, unlock, updatePolicy, setPin, removePin],
+  );
+
+  return <SessionLockContext.Provider value={value}>{children}</SessionLockContext.Provider>;
+}
+
+export function useSessionLock() {
+  const ctx = useContext(SessionLockContext);
+  if (!ctx) throw new Error("useSessionLock must be used inside SessionLockProvider");
+  return ctx;
+}
@@ -7,8 +7,13 @@ export type AuthStackParamList = {
     firstName: string;
     lastName: string;
     username?: string;
+    // Código recibido en un enlace de verificación; se usa para prellenar los dígitos.
+    code?: string;
   };
   ForgotPassword: undefined;
-  ResetPassword: undefined;
+  // `email`: el correo con el que se pidió el enlace, para validar la contraseña nueva contra él.
+  ResetPassword: { token?: string; email?: string } | undefined;
   PasswordResetSuccess: undefined;
+  Developer: undefined;
+  NetworkInspector: undefined;
 };
@@ -0,0 +1,119 @@
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import React, { useCallback, useState } from "react";
+import { KeyboardAvoidingView, Platform, StyleSheet, View } from "react-native";
+import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+
+import { PIN_LENGTH } from "../../domain/entities/SessionPolicy";
+import { useAuth } from "../context/authContext";
+import { useSessionLock } from "../context/sessionLockContext";
+
+const GOLD = "#FFD700";
+const PREMIUM_BLACK = "#1A1A1A";
+
+/**
+ * Se dibuja encima del navegador para que, al desbloquear, el usuario siga en la misma pantalla.
+ */
+export default function AppLockScreen() {
+  const theme = useTheme();
+  const { user, logout } = useAuth();
+  const { unlock } = useSessionLock();
+
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleUnlock = useCallback(async () => {
+    if (pin.length !== PIN_LENGTH) return;
+    setSubmitting(true);
+    try {
+      const result = await unlock(pin);
+      if (result.status === "invalid") {
+        setError(
+          result.remainingAttempts === 1
+            ? "PIN incorrecto. Te queda 1 intento antes de cerrar la sesión."
+            : `PIN incorrecto. Te quedan ${result.remainingAttempts} intentos.`,
+        );
+        setPin("");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [pin, unlock]);
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.overlay, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <MaterialCommunityIcons name="lock" size={56} color={GOLD} />
+        <Text style={[styles.title, { color: theme.colors.onSurface }]}>App bloqueada</Text>
+        <Text style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}>
+          {user?.firstName ? `Hola, ${user.firstName}. ` : ""}Ingresa tu PIN para continuar.
+        </Text>
+        <TextInput
+          mode="outlined"
+          label="PIN"
+          value={pin}
+          onChangeText={(value) => {
+            setPin(value.replace(/[^0-9]/g, "").slice(0, PIN_LENGTH));
+            setError(null);
+          }}
+          onSubmitEditing={handleUnlock}
+          keyboardType="number-pad"
+          secureTextEntry
+          autoFocus
+          style={styles.input}
+        />
+        <HelperText type="error" visible={Boolean(error)}>
+          {error}
+        </HelperText>
+        <Button
+          mode="contained"
+          onPress={handleUnlock}
+          loading={submitting}
+          disabled={pin.length !== PIN_LENGTH || submitting}
+          style={[styles.button, { backgroundColor: GOLD }]}
+          labelStyle={{ color: PREMIUM_BLACK }}
+        >
+          Desbloquear
+        </Button>
+        <Button mode="text" onPress={logout} style={styles.button}>
+          Cerrar sesión
+        </Button>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    zIndex: 10,
+  },
+  content: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 32,
+  },
+  title: {
+    marginTop: 16,
+    fontSize: 24,
+    fontWeight: "700",
+  },
+  subtitle: {
+    marginTop: 8,
+    marginBottom: 24,
+    fontSize: 15,
+    textAlign: "center",
+  },
+  input: {
+    alignSelf: "stretch",
+    textAlign: "center",
+    letterSpacing: 8,
+  },
+  button: {
+    alignSelf: "stretch",
+    marginTop: 8,
+  },
+});
@@ -36,7 +36,13 @@ export default function EmailVerificationScreen() {
   const { verifyEmail, signup, loading, error, clearError } = useAuth();
   const theme = useTheme();
 
-  const { email, password, firstName, lastName, username } = route.params;
+  // Un enlace de verificación reemplaza los parámetros de la ruta; los datos del registro
+  // se conservan desde el montaje para no perder la contraseña.
+  const [registration] = useState(() => route.params);
+  const { email, password, firstName, lastName, username } = registration;
+  const linkedEmail = route.params?.email;
+  const linkedCode = route.params?.code;
+  const hasSignup = Boolean(password);
 
   const [digits, setDigits] = useState<string[]>(Array(CODE_LENGTH).fill(""));
   const [timeLeft, setTimeLeft] = useState(TOTAL_SECONDS);
@@ -45,6 +51,23 @@ export default function EmailVerificationScreen() {
 
   const inputsRef = useRef<(TextInput | null)[]>([]);
 
+  useEffect(() => {
+    if (hasSignup) return;
+    Alert.alert(
+      "Registro no encontrado",
+      "Abre el enlace en el dispositivo donde iniciaste el registro o regístrate nuevamente.",
+      [{ text: "Aceptar", onPress: () => navigation.navigate("Signup") }],
+    );
+  }, [hasSignup, navigation]);
+
+  useEffect(() => {
+    if (!hasSignup || !linkedCode) return;
+    if (linkedEmail && linkedEmail.trim().toLowerCase() !== email.trim().toLowerCase()) return;
+    const sanitized = linkedCode.replace(/[^0-9]/g, "");
+    if (sanitized.length !== CODE_LENGTH) return;
+    setDigits(sanitized.split(""));
+  }, [email, hasSignup, linkedCode, linkedEmail]);
+
   useEffect(() => {
     const timer = setInterval(() => {
       setTimeLeft((prev) => {
@@ -50,9 +50,10 @@ export default function ForgotPasswordScreen() {
       clearError();
       setInfoMessage(null);
       setSubmitting(true);
-      const result = await requestPasswordReset(email.trim().toLowerCase());
+      const requestedEmail = email.trim().toLowerCase();
+      const result = await requestPasswordReset(requestedEmail);
       setInfoMessage(result.message);
-      navigation.navigate("ResetPassword");
+      navigation.navigate("ResetPassword", { email: requestedEmail });
     } catch (err) {
       console.error("Forgot password error", err);
     } finally {
@@ -32,7 +32,7 @@ const GOLD = "#FFD700";
 
 export default function LoginScreen() {
   const navigation = useNavigation<Navigation>();
-  const { login, loading, error, clearError } = useAuth();
+  const { login, loading, error, clearError, accounts, addingAccount, switchAccount } = useAuth();
   const theme = useTheme();
   const { isDarkMode } = useThemeMode();
 
@@ -54,6 +54,17 @@ export default function LoginScreen() {
     [isDarkMode],
   );
 
+  const handleContinueAs = async (userId: string) => {
+    try {
+      setSubmitting(true);
+      await switchAccount(userId);
+    } catch (err) {
+      console.warn("Switch account failed", err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     const cleanedIdentifier = identifier.trim();
     const cleanedPassword = password.trim();
@@ -97,8 +108,12 @@ export default function LoginScreen() {
                 resizeMode="contain"
               />
 
-              <Text style={styles.title}>Ingresar</Text>
-              <Text style={[styles.subtitle, { color: subtitleColor }]}>Accede a tu cuenta de CourSEVEN</Text>
+              <Text style={styles.title}>{addingAccount ? "Agregar cuenta" : "Ingresar"}</Text>
+              <Text style={[styles.subtitle, { color: subtitleColor }]}>
+                {addingAccount
+                  ? "Tus otras cuentas seguirán guardadas en este dispositivo"
+                  : "Accede a tu cuenta de CourSEVEN"}
+              </Text>
 
               <TextInput
                 mode="outlined"
@@ -182,6 +197,33 @@ export default function LoginScreen() {
               >
                 ¿Olvidaste tu contraseña?
               </Text>
+
+              {accounts.length > 0 ? (
+                <View style={styles.savedAccounts}>
+                  <Text style={[styles.savedAccountsTitle, { color: helperColor }]}>Cuentas guardadas</Text>
+                  {accounts.map((account) => (
+                    <Button
+                      key={account.user.id}
+                      mode="outlined"
+                      icon="account-switch"
+                      onPress={() => handleContinueAs(account.user.id)}
+                      disabled={disableAction}
+                      style={styles.savedAccountButton}
+                    >
+                      {`Continuar como ${account.user.firstName || account.user.email}`}
+                    </Button>
+                  ))}
+                </View>
+              ) : null}
+
+              {__DEV__ ? (
+                <Text
+                  style={[styles.forgotLink, { color: helperColor }]}
+                  onPress={() => navigation.navigate("Developer")}
+                >
+                  Entorno de desarrollo
+                </Text>
+              ) : null}
             </View>
           </ScrollView>
         </KeyboardAvoidingView>
@@ -277,6 +319,20 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: "600",
   },
+  savedAccounts: {
+    marginTop: 28,
+  },
+  savedAccountsTitle: {
+    textAlign: "center",
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 4,
+  },
+  savedAccountButton: {
+    borderRadius: 14,
+    marginTop: 8,
+    borderColor: GOLD,
+  },
   overlay: {
     ...StyleSheet.absoluteFillObject,
     alignItems: "center",
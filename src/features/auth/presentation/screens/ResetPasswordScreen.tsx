@@ -1,5 +1,5 @@
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { useNavigation } from "@react-navigation/native";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import React, { useEffect, useMemo, useState } from "react";
 import {
@@ -24,23 +24,18 @@ import {
 import { StarryBackground } from "../../../../theme/StarryBackground";
 import { useThemeMode } from "../../../../theme/ThemeProvider";
 import { ThemeToggle } from "../../../../theme/ThemeToggle";
+import { evaluatePassword } from "../../domain/entities/PasswordPolicy";
+import { PasswordStrengthMeter } from "../components/PasswordStrengthMeter";
 import { useAuth } from "../context/authContext";
 import { AuthStackParamList } from "../navigation/types";
 
 type Navigation = NativeStackNavigationProp<AuthStackParamList, "ResetPassword">;
+type Route = RouteProp<AuthStackParamList, "ResetPassword">;
 
 const GOLD = "#FFD700";
 const TOKEN_DURATION_SECONDS = 15 * 60;
 const RESEND_COOLDOWN_SECONDS = 60;
 
-const REQUIREMENTS = [
-  { label: "Mínimo 8 caracteres", test: (value: string) => value.length >= 8 },
-  { label: "Al menos una mayúscula", test: (value: string) => /[A-Z]/.test(value) },
-  { label: "Al menos una minúscula", test: (value: string) => /[a-z]/.test(value) },
-  { label: "Al menos un número", test: (value: string) => /\d/.test(value) },
-  { label: "Incluye un símbolo", test: (value: string) => /[^A-Za-z0-9]/.test(value) },
-];
-
 const INSTRUCTIONS = [
   "1. Abre el correo de ROBLE en tu bandeja",
   '2. Busca el botón "Restablecer Contraseña"',
@@ -51,6 +46,10 @@ const INSTRUCTIONS = [
 
 export default function ResetPasswordScreen() {
   const navigation = useNavigation<Navigation>();
+  const route = useRoute<Route>();
+  // Llega cuando la pantalla se abre desde el enlace del correo; no hace falta pegar la URL.
+  const linkedToken = route.params?.token;
+  const requestedEmail = route.params?.email;
   const {
     resetPassword,
     validateResetToken,
@@ -82,12 +81,12 @@ export default function ResetPasswordScreen() {
 
   const disableAction = loading || submitting;
 
-  const requirementStatus = useMemo(
-    () => REQUIREMENTS.map((req) => ({ label: req.label, valid: req.test(password) })),
-    [password],
+  const passwordEvaluation = useMemo(
+    () => evaluatePassword(password.trim(), { email: requestedEmail }),
+    [password, requestedEmail],
   );
 
-  const passwordValid = requirementStatus.every((item) => item.valid);
+  const passwordValid = passwordEvaluation.isValid;
   const passwordsMatch = password === confirmPassword && password.length > 0;
 
   const tokenProgress = tokenSecondsRemaining / TOKEN_DURATION_SECONDS;
@@ -110,7 +109,7 @@ export default function ResetPasswordScreen() {
       setLocalError(null);
       setSubmitting(true);
 
-      const token = extractResetToken(resetUrl.trim());
+      const token = linkedToken ?? extractResetToken(resetUrl.trim());
       if (!token) {
         setLocalError("El enlace no es válido. Copia el enlace completo del correo.");
         return;
@@ -122,7 +121,7 @@ export default function ResetPasswordScreen() {
         return;
       }
 
-      await resetPassword({ token, newPassword: password.trim() });
+      await resetPassword({ token, newPassword: password.trim(), email: requestedEmail });
       navigation.navigate("PasswordResetSuccess");
     } catch (err) {
       console.error("Reset password error", err);
@@ -158,10 +157,21 @@ export default function ResetPasswordScreen() {
                 <MaterialCommunityIcons name="link-variant" size={64} color={GOLD} />
               </View>
 
-              <Text style={[styles.title, { color: theme.colors.onBackground }]}>Pega tu enlace de recuperación</Text>
-              <Text style={[styles.subtitle, { color: helperColor }]}>
-                Ve al correo que recibiste de ROBLE, busca el botón {"\"Restablecer Contraseña\""}, mantén presionado sobre él y selecciona {"\"Copiar enlace\""}. Luego pega aquí la URL completa.
-              </Text>
+              {linkedToken ? (
+                <>
+                  <Text style={[styles.title, { color: theme.colors.onBackground }]}>Crea tu nueva contraseña</Text>
+                  <Text style={[styles.subtitle, { color: helperColor }]}>
+                    Abriste el enlace de recuperación de ROBLE. Elige una contraseña nueva antes de que expire.
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Text style={[styles.title, { color: theme.colors.onBackground }]}>Pega tu enlace de recuperación</Text>
+                  <Text style={[styles.subtitle, { color: helperColor }]}>
+                    Ve al correo que recibiste de ROBLE, busca el botón {"\"Restablecer Contraseña\""}, mantén presionado sobre él y selecciona {"\"Copiar enlace\""}. Luego pega aquí la URL completa.
+                  </Text>
+                </>
+              )}
 
               <View
                 style={[
@@ -180,48 +190,52 @@ export default function ResetPasswordScreen() {
                 <ProgressBar progress={tokenProgress} color={GOLD} style={styles.progressBar} />
               </View>
 
-              <View
-                style={[
-                  styles.instructionsCard,
-                  {
-                    backgroundColor: isDarkMode ? "rgba(60,48,18,0.65)" : "rgba(255,244,214,0.85)",
-                    borderColor: isDarkMode ? "rgba(255,215,0,0.35)" : "rgba(184,134,11,0.35)",
-                  },
-                ]}
-              >
-                <Text style={styles.instructionsTitle}>📧 Pasos a seguir:</Text>
-                {INSTRUCTIONS.map((step) => {
-                  const segments = step.split("\"");
-                  return (
-                    <Text key={step} style={[styles.instructionsText, { color: helperColor }]}>
-                      {segments.map((segment, index) => (
-                        <React.Fragment key={`${step}-${index}`}>
-                          {segment}
-                          {index < segments.length - 1 ? "\"" : null}
-                        </React.Fragment>
-                      ))}
-                    </Text>
-                  );
-                })}
-              </View>
+              {linkedToken ? null : (
+                <>
+                  <View
+                    style={[
+                      styles.instructionsCard,
+                      {
+                        backgroundColor: isDarkMode ? "rgba(60,48,18,0.65)" : "rgba(255,244,214,0.85)",
+                        borderColor: isDarkMode ? "rgba(255,215,0,0.35)" : "rgba(184,134,11,0.35)",
+                      },
+                    ]}
+                  >
+                    <Text style={styles.instructionsTitle}>📧 Pasos a seguir:</Text>
+                    {INSTRUCTIONS.map((step) => {
+                      const segments = step.split("\"");
+                      return (
+                        <Text key={step} style={[styles.instructionsText, { color: helperColor }]}>
+                          {segments.map((segment, index) => (
+                            <React.Fragment key={`${step}-${index}`}>
+                              {segment}
+                              {index < segments.length - 1 ? "\"" : null}
+                            </React.Fragment>
+                          ))}
+                        </Text>
+                      );
+                    })}
+                  </View>
 
-              <TextInput
-                mode="outlined"
-                label="Enlace de recuperación"
-                value={resetUrl}
-                onChangeText={(value) => {
-                  setResetUrl(value);
-                  clearError();
-                  setLocalError(null);
-                }}
-                autoCapitalize="none"
-                keyboardType="url"
-                multiline
-                left={<TextInput.Icon icon="link" color={GOLD} />}
-                style={styles.input}
-                outlineStyle={styles.outline}
-                textColor={theme.colors.onSurface}
-              />
+                  <TextInput
+                    mode="outlined"
+                    label="Enlace de recuperación"
+                    value={resetUrl}
+                    onChangeText={(value) => {
+                      setResetUrl(value);
+                      clearError();
+                      setLocalError(null);
+                    }}
+                    autoCapitalize="none"
+                    keyboardType="url"
+                    multiline
+                    left={<TextInput.Icon icon="link" color={GOLD} />}
+                    style={styles.input}
+                    outlineStyle={styles.outline}
+                    textColor={theme.colors.onSurface}
+                  />
+                </>
+              )}
 
               <TextInput
                 mode="outlined"
@@ -267,18 +281,7 @@ export default function ResetPasswordScreen() {
                 textColor={theme.colors.onSurface}
               />
 
-              <View style={styles.requirements}>
-                {requirementStatus.map((req) => (
-                  <View key={req.label} style={styles.requirementRow}>
-                    <MaterialCommunityIcons
-                      name={req.valid ? "check-circle" : "checkbox-blank-circle-outline"}
-                      size={20}
-                      color={req.valid ? "#2E7D32" : helperColor}
-                    />
-                    <Text style={[styles.requirementText, { color: helperColor }]}>{req.label}</Text>
-                  </View>
-                ))}
-              </View>
+              <PasswordStrengthMeter evaluation={passwordEvaluation} textColor={helperColor} />
 
               {!passwordsMatch && confirmPassword.length > 0 ? (
                 <HelperText type="error" visible style={styles.helper}>
@@ -454,20 +457,6 @@ const styles = StyleSheet.create({
   outline: {
     borderRadius: 14,
   },
-  requirements: {
-    marginTop: 12,
-    marginBottom: 16,
-  },
-  requirementRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginBottom: 8,
-  },
-  requirementText: {
-    marginLeft: 10,
-    fontSize: 14,
-    fontWeight: "600",
-  },
   helper: {
     marginBottom: 8,
     fontSize: 13,
@@ -0,0 +1,198 @@
+import React, { useCallback, useState } from "react";
+import {
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  View,
+} from "react-native";
+import { Button, Chip, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+
+import {
+  LOCK_AFTER_OPTIONS,
+  PIN_LENGTH,
+  SESSION_AGE_OPTIONS,
+} from "../../domain/entities/SessionPolicy";
+import { useSessionLock } from "../context/sessionLockContext";
+
+const sessionAgeLabel = (hours: number | null) => {
+  if (hours === null) return "Sin límite";
+  const days = hours / 24;
+  return `${days} ${days === 1 ? "día" : "días"}`;
+};
+
+const lockAfterLabel = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${minutes / 60} h`);
+
+const onlyDigits = (value: string) => value.replace(/[^0-9]/g, "").slice(0, PIN_LENGTH);
+
+export default function SessionSecurityScreen() {
+  const theme = useTheme();
+  const { policy, updatePolicy, setPin, removePin } = useSessionLock();
+
+  const [pin, setPinValue] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [currentPin, setCurrentPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const run = useCallback(async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo guardar la configuración");
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const handleSetPin = () =>
+    run(async () => {
+      await setPin({ pin, confirmPin });
+      setPinValue("");
+      setConfirmPin("");
+    });
+
+  const handleRemovePin = () =>
+    run(async () => {
+      await removePin(currentPin);
+      setCurrentPin("");
+    });
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 64 : 0}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.title, { color: theme.colors.onSurface }]}>Seguridad de la sesión</Text>
+
+          <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>Duración máxima</Text>
+          <Text style={[styles.helper, { color: theme.colors.onSurfaceVariant }]}>
+            Pasado este tiempo desde que iniciaste sesión se te pedirá la contraseña de nuevo. Si no marcaste
+            “Mantener sesión iniciada”, la sesión se cierra cada vez que cierras la app.
+          </Text>
+          <View style={styles.chipRow}>
+            {SESSION_AGE_OPTIONS.map((hours) => (
+              <Chip
+                key={String(hours)}
+                selected={policy.maxSessionAgeHours === hours}
+                disabled={saving}
+                onPress={() => run(() => updatePolicy({ ...policy, maxSessionAgeHours: hours }))}
+              >
+                {sessionAgeLabel(hours)}
+              </Chip>
+            ))}
+          </View>
+
+          <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>Bloqueo con PIN</Text>
+          {policy.pinEnabled ? (
+            <>
+              <Text style={[styles.helper, { color: theme.colors.onSurfaceVariant }]}>
+                La app pedirá tu PIN al abrirse y al volver tras este tiempo fuera de ella.
+              </Text>
+              <View style={styles.chipRow}>
+                {LOCK_AFTER_OPTIONS.map((minutes) => (
+                  <Chip
+                    key={minutes}
+                    selected={policy.lockAfterMinutes === minutes}
+                    disabled={saving}
+                    onPress={() => run(() => updatePolicy({ ...policy, lockAfterMinutes: minutes }))}
+                  >
+                    {lockAfterLabel(minutes)}
+                  </Chip>
+                ))}
+              </View>
+              <TextInput
+                label="PIN actual"
+                mode="outlined"
+                value={currentPin}
+                onChangeText={(value) => setCurrentPin(onlyDigits(value))}
+                keyboardType="number-pad"
+                secureTextEntry
+              />
+              <Button
+                mode="outlined"
+                icon="lock-open-variant"
+                onPress={handleRemovePin}
+                disabled={saving || currentPin.length !== PIN_LENGTH}
+              >
+                Quitar PIN
+              </Button>
+            </>
+          ) : (
+            <>
+              <Text style={[styles.helper, { color: theme.colors.onSurfaceVariant }]}>
+                Define un PIN de {PIN_LENGTH} dígitos para bloquear la app cuando la dejes de usar.
+              </Text>
+              <TextInput
+                label="Nuevo PIN"
+                mode="outlined"
+                value={pin}
+                onChangeText={(value) => setPinValue(onlyDigits(value))}
+                keyboardType="number-pad"
+                secureTextEntry
+              />
+              <TextInput
+                label="Confirmar PIN"
+                mode="outlined"
+                value={confirmPin}
+                onChangeText={(value) => setConfirmPin(onlyDigits(value))}
+                keyboardType="number-pad"
+                secureTextEntry
+              />
+              <Button
+                mode="contained"
+                icon="lock"
+                onPress={handleSetPin}
+                loading={saving}
+                disabled={saving || pin.length !== PIN_LENGTH || confirmPin.length !== PIN_LENGTH}
+              >
+                Activar PIN
+              </Button>
+            </>
+          )}
+          <HelperText type="error" visible={Boolean(error)}>
+            {error}
+          </HelperText>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingVertical: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+  helper: {
+    fontSize: 14,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+});
@@ -23,6 +23,8 @@ import {
 import { StarryBackground } from "../../../../theme/StarryBackground";
 import { useThemeMode } from "../../../../theme/ThemeProvider";
 import { ThemeToggle } from "../../../../theme/ThemeToggle";
+import { evaluatePassword } from "../../domain/entities/PasswordPolicy";
+import { PasswordStrengthMeter } from "../components/PasswordStrengthMeter";
 import { useAuth } from "../context/authContext";
 import { AuthStackParamList } from "../navigation/types";
 
@@ -34,14 +36,6 @@ const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const usernameRegex = /^[a-zA-Z0-9_]+$/;
 const GOLD = "#FFD700";
 
-const PASSWORD_REQUIREMENTS = [
-	{ label: "Mínimo 8 caracteres", test: (value: string) => value.length >= 8 },
-	{ label: "Incluye al menos una mayúscula", test: (value: string) => /[A-Z]/.test(value) },
-	{ label: "Incluye al menos una minúscula", test: (value: string) => /[a-z]/.test(value) },
-	{ label: "Incluye al menos un número", test: (value: string) => /\d/.test(value) },
-	{ label: "Incluye al menos un símbolo", test: (value: string) => /[^A-Za-z0-9]/.test(value) },
-];
-
 export default function SignupScreen() {
 	const navigation = useNavigation<Navigation>();
 	const {
@@ -103,9 +97,9 @@ export default function SignupScreen() {
 		return () => clearTimeout(timeout);
 	}, [username, checkUsernameAvailability]);
 
-	const passwordStatuses = useMemo(
-		() => PASSWORD_REQUIREMENTS.map((req) => ({ label: req.label, valid: req.test(password) })),
-		[password],
+	const passwordEvaluation = useMemo(
+		() => evaluatePassword(password, { email, username }),
+		[email, password, username],
 	);
 	const subtitleColor = isDarkMode ? "rgba(250,250,250,0.7)" : "rgba(13,13,13,0.7)";
 	const helperColor = isDarkMode ? "rgba(250,250,250,0.75)" : "rgba(13,13,13,0.7)";
@@ -118,7 +112,7 @@ export default function SignupScreen() {
 		username.trim().length >= 3 &&
 		firstName.trim().length > 0 &&
 		lastName.trim().length > 0 &&
-		passwordStatuses.every((item) => item.valid) &&
+		passwordEvaluation.isValid &&
 		passwordsMatch &&
 		emailAvailability === "available" &&
 		usernameAvailability === "available";
@@ -294,18 +288,7 @@ export default function SignupScreen() {
 								textColor={theme.colors.onSurface}
 							/>
 
-							<View style={styles.requirements}>
-								{passwordStatuses.map((item) => (
-									<View key={item.label} style={styles.requirementRow}>
-										<MaterialCommunityIcons
-											size={18}
-											name={item.valid ? "check-circle" : "checkbox-blank-circle-outline"}
-											color={item.valid ? "#2E7D32" : GOLD}
-										/>
-										<Text style={[styles.requirementText, { color: helperColor }]}>{item.label}</Text>
-									</View>
-								))}
-							</View>
+							<PasswordStrengthMeter evaluation={passwordEvaluation} textColor={helperColor} pendingColor={GOLD} />
 
 							{!passwordsMatch && confirmPassword.length > 0 ? (
 								<HelperText type="error" visible style={styles.errorText}>
@@ -445,20 +428,6 @@ const styles = StyleSheet.create({
 	gap: {
 		width: 12,
 	},
-	requirements: {
-		marginTop: 8,
-		marginBottom: 18,
-	},
-	requirementRow: {
-		flexDirection: "row",
-		alignItems: "center",
-		marginBottom: 8,
-	},
-	requirementText: {
-		marginLeft: 10,
-		fontSize: 14,
-		fontWeight: "600",
-	},
 	errorText: {
 		marginBottom: 16,
 		fontWeight: "600",
@@ -1,17 +1,23 @@
+import { ConflictError, describeError } from "@/src/data/services/RobleErrors";
 import { Category } from "@/src/domain/models/Category";
 import { CategoryRepository } from "@/src/domain/repositories/CategoryRepository";
+import { ArchiveCategoryUseCase } from "@/src/domain/usecases/category/ArchiveCategoryUseCase";
 import { CreateCategoryUseCase } from "@/src/domain/usecases/category/CreateCategoryUseCase";
+import { UpdateCategoryUseCase } from "@/src/domain/usecases/category/UpdateCategoryUseCase";
 
 export type CategoryControllerState = {
   isLoading: boolean;
   error: string | null;
   categoriesByCourse: Record<string, Category[]>;
   createdCategory: Category | null;
+  conflict: Category | null;
 };
 
 type Dependencies = {
   categoryRepository: CategoryRepository;
   createCategoryUseCase: CreateCategoryUseCase;
+  updateCategoryUseCase: UpdateCategoryUseCase;
+  archiveCategoryUseCase: ArchiveCategoryUseCase;
   getCurrentUserId: () => Promise<string | null>;
 };
 
@@ -20,6 +26,7 @@ const INITIAL_STATE: CategoryControllerState = {
   error: null,
   categoriesByCourse: {},
   createdCategory: null,
+  conflict: null,
 };
 
 export class CategoryController {
@@ -29,11 +36,21 @@ export class CategoryController {
 
   private readonly categoryRepository: CategoryRepository;
   private readonly createCategoryUseCase: CreateCategoryUseCase;
+  private readonly updateCategoryUseCase: UpdateCategoryUseCase;
+  private readonly archiveCategoryUseCase: ArchiveCategoryUseCase;
   private readonly getCurrentUserId: () => Promise<string | null>;
 
-  constructor({ categoryRepository, createCategoryUseCase, getCurrentUserId }: Dependencies) {
+  constructor({
+    categoryRepository,
+    createCategoryUseCase,
+    updateCategoryUseCase,
+    archiveCategoryUseCase,
+    getCurrentUserId,
+  }: Dependencies) {
     this.categoryRepository = categoryRepository;
     this.createCategoryUseCase = createCategoryUseCase;
+    this.updateCategoryUseCase = updateCategoryUseCase;
+    this.archiveCategoryUseCase = archiveCategoryUseCase;
     this.getCurrentUserId = getCurrentUserId;
   }
 
@@ -120,10 +137,14 @@ export class CategoryController {
     }
   }
 
-  async updateCategory(category: Category): Promise<Category | null> {
-    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+  async updateCategory(
+    category: Category,
+    options: { force?: boolean } = {},
+  ): Promise<Category | null> {
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null, conflict: null }));
     try {
-      const updated = await this.categoryRepository.updateCategory(category);
+      const userId = await this.getCurrentUserId();
+      const updated = await this.updateCategoryUseCase.execute({ userId, category, force: options.force });
       this.setState((prev) => ({
         ...prev,
         categoriesByCourse: {
@@ -135,6 +156,10 @@ export class CategoryController {
       }));
       return updated;
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const latest = await this.categoryRepository.getCategoryById(category.id).catch(() => null);
+        this.setState((prev) => ({ ...prev, conflict: latest }));
+      }
       this.setError(error);
       return null;
     } finally {
@@ -145,7 +170,8 @@ export class CategoryController {
   async deleteCategory(categoryId: string, courseId: string): Promise<boolean> {
     this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
     try {
-      await this.categoryRepository.deleteCategory(categoryId);
+      const userId = await this.getCurrentUserId();
+      await this.archiveCategoryUseCase.execute({ userId, categoryId });
       this.setState((prev) => ({
         ...prev,
         categoriesByCourse: {
@@ -168,10 +194,20 @@ export class CategoryController {
     this.setState((prev) => ({ ...prev, error: null }));
   }
 
+  clearConflict() {
+    this.setState((prev) => ({ ...prev, conflict: null }));
+  }
+
   clearCreatedCategory() {
     this.setState((prev) => ({ ...prev, createdCategory: null }));
   }
 
+  reset() {
+    this.loadingCourseIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
   private setState(updater: (prev: CategoryControllerState) => CategoryControllerState) {
     const next = updater(this.state);
     this.state = next;
@@ -179,7 +215,7 @@ export class CategoryController {
   }
 
   private setError(error: unknown) {
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     this.setState((prev) => ({ ...prev, error: message }));
   }
 
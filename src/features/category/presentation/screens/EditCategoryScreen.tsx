@@ -4,6 +4,8 @@ import { Alert, SafeAreaView, ScrollView, StyleSheet, View } from "react-native"
 import { Button, Chip, HelperText, Text, TextInput, useTheme } from "react-native-paper";
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { promptConflictResolution } from "@/src/components/ConflictAlert";
+import { Category } from "@/src/domain/models/Category";
 import { useCategoryController } from "@/src/features/category/hooks/useCategoryController";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
 
@@ -24,6 +26,7 @@ export const EditCategoryScreen: React.FC = () => {
     const [categoryState, categoryController] = useCategoryController();
     const [, courseController] = useCourseController();
 
+    const [original, setOriginal] = useState<Category | null>(null);
     const [name, setName] = useState("");
     const [description, setDescription] = useState("");
     const [isActive, setIsActive] = useState(true);
@@ -40,15 +43,53 @@ export const EditCategoryScreen: React.FC = () => {
         });
     }, [courseId, categoryController, courseController]);
 
+    // Solo se llena una vez: una recarga de la lista no debe pisar lo que se está editando.
     useEffect(() => {
+        if (original) return;
         const categories = categoryState.categoriesByCourse[courseId] || [];
         const category = categories.find((c) => c.id === categoryId);
         if (category) {
+            setOriginal(category);
             setName(category.name);
             setDescription(category.description || "");
             setIsActive(category.isActive);
         }
-    }, [categoryState.categoriesByCourse, courseId, categoryId]);
+    }, [categoryState.categoriesByCourse, courseId, categoryId, original]);
+
+    const fillForm = (category: Category) => {
+        setOriginal(category);
+        setName(category.name);
+        setDescription(category.description || "");
+        setIsActive(category.isActive);
+    };
+
+    const save = async (base: Category, draft: Category) => {
+        const updated = await categoryController.updateCategory(draft);
+        if (updated) {
+            Alert.alert("Guardado", "Cambios aplicados correctamente");
+            navigation.goBack();
+            return;
+        }
+        const { conflict: latest, error } = categoryController.getSnapshot();
+        if (!latest) {
+            Alert.alert("Error", error ?? "No se pudieron guardar los cambios");
+            return;
+        }
+        categoryController.clearConflict();
+        promptConflictResolution({
+            entityLabel: "esta categoría",
+            base,
+            local: draft,
+            latest,
+            fieldLabels: { name: "Nombre", description: "Descripción", isActive: "Estado" },
+            onReload: fillForm,
+            onMerge: (merged) => {
+                fillForm(merged);
+                setOriginal(latest);
+                void save(latest, merged);
+            },
+        });
+    };
 
     const handleSubmit = async () => {
         setNameError("");
@@ -60,22 +101,17 @@ export const EditCategoryScreen: React.FC = () => {
 
         setLoading(true);
         try {
-            const categories = categoryState.categoriesByCourse[courseId] || [];
-            const category = categories.find((c) => c.id === categoryId);
-            if (!category) {
+            if (!original) {
                 Alert.alert("Error", "Categoría no encontrada");
                 return;
             }
 
-            await categoryController.updateCategory({
-                ...category,
+            await save(original, {
+                ...original,
                 name: name.trim(),
                 description: description.trim() || null,
                 isActive,
             });
-
-            Alert.alert("Guardado", "Cambios aplicados correctamente");
-            navigation.goBack();
         } catch {
             Alert.alert("Error", "No se pudieron guardar los cambios");
         } finally {
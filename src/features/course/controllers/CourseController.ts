@@ -1,25 +1,54 @@
-import { Course } from "@/src/domain/models/Course";
+import { ConflictError, describeError } from "@/src/data/services/RobleErrors";
+import { Course, JoinCodeSettings } from "@/src/domain/models/Course";
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { can } from "@/src/domain/policies/AccessPolicy";
 import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { JoinCodeService } from "@/src/domain/services/JoinCodeService";
+import {
+  ArchiveCourseInterruptedError,
+  ArchiveCourseMode,
+  ArchiveCourseSummary,
+  ArchiveCourseUseCase,
+} from "@/src/domain/usecases/course/ArchiveCourseUseCase";
 import { CreateCourseUseCase } from "@/src/domain/usecases/course/CreateCourseUseCase";
+import { RegenerateJoinCodeUseCase } from "@/src/domain/usecases/course/RegenerateJoinCodeUseCase";
+import { UpdateJoinCodeSettingsUseCase } from "@/src/domain/usecases/course/UpdateJoinCodeSettingsUseCase";
 import type { EnrollmentController } from "@/src/features/enrollment/controllers/EnrollmentController";
 
 export type CourseControllerState = {
   isLoading: boolean;
   error: string | null;
   teacherCourses: Course[];
+  // Cursos de otros docentes en los que el usuario es co-docente o asistente; no cuentan para el límite.
+  staffCourses: Course[];
+  staffRoles: Record<string, CourseStaffMember["role"]>;
   createdCourse: Course | null;
+  // Versión guardada más reciente cuando la última edición chocó con un cambio de otra persona.
+  conflict: Course | null;
+  // Archivados o borrados que quedaron a medias; se reanudan desde lo ya procesado.
+  pendingArchives: Record<string, ArchiveCourseSummary>;
 };
 
 const INITIAL_STATE: CourseControllerState = {
   isLoading: false,
   error: null,
   teacherCourses: [],
+  staffCourses: [],
+  staffRoles: {},
   createdCourse: null,
+  conflict: null,
+  pendingArchives: {},
 };
 
 type Dependencies = {
   createCourseUseCase: CreateCourseUseCase;
+  archiveCourseUseCase: ArchiveCourseUseCase;
+  regenerateJoinCodeUseCase: RegenerateJoinCodeUseCase;
+  updateJoinCodeSettingsUseCase: UpdateJoinCodeSettingsUseCase;
+  joinCodeService: JoinCodeService;
   courseRepository: CourseRepository;
+  courseStaffRepository: CourseStaffRepository;
   getCurrentUserId: () => Promise<string | null>;
   enrollmentController?: EnrollmentController;
 };
@@ -31,18 +60,33 @@ export class CourseController {
   private bootstrapPromise: Promise<void> | null = null;
 
   private readonly createCourseUseCase: CreateCourseUseCase;
+  private readonly archiveCourseUseCase: ArchiveCourseUseCase;
+  private readonly regenerateJoinCodeUseCase: RegenerateJoinCodeUseCase;
+  private readonly updateJoinCodeSettingsUseCase: UpdateJoinCodeSettingsUseCase;
+  private readonly joinCodeService: JoinCodeService;
   private readonly courseRepository: CourseRepository;
+  private readonly courseStaffRepository: CourseStaffRepository;
   private readonly getCurrentUserId: () => Promise<string | null>;
   private readonly enrollmentController?: EnrollmentController;
 
   constructor({
     createCourseUseCase,
+    archiveCourseUseCase,
+    regenerateJoinCodeUseCase,
+    updateJoinCodeSettingsUseCase,
+    joinCodeService,
     courseRepository,
+    courseStaffRepository,
     getCurrentUserId,
     enrollmentController,
   }: Dependencies) {
     this.createCourseUseCase = createCourseUseCase;
+    this.archiveCourseUseCase = archiveCourseUseCase;
+    this.regenerateJoinCodeUseCase = regenerateJoinCodeUseCase;
+    this.updateJoinCodeSettingsUseCase = updateJoinCodeSettingsUseCase;
+    this.joinCodeService = joinCodeService;
     this.courseRepository = courseRepository;
+    this.courseStaffRepository = courseStaffRepository;
     this.getCurrentUserId = getCurrentUserId;
     this.enrollmentController = enrollmentController;
 
@@ -89,11 +133,19 @@ export class CourseController {
     }));
 
     try {
-      const list = await this.courseRepository.getCoursesByTeacher(teacherId);
-      this.syncCourseCache(list);
+      const [list, staff] = await Promise.all([
+        this.courseRepository.getCoursesByTeacher(teacherId),
+        this.courseStaffRepository.getStaffByUser(teacherId),
+      ]);
+      const staffCourses = (
+        await Promise.all(staff.map((member) => this.courseRepository.getCourseById(member.courseId)))
+      ).filter((course): course is Course => course !== null);
+      this.syncCourseCache([...list, ...staffCourses]);
       this.setState((prev) => ({
         ...prev,
         teacherCourses: list,
+        staffCourses,
+        staffRoles: Object.fromEntries(staff.map((member) => [member.courseId, member.role])),
         createdCourse: prev.createdCourse,
       }));
     } catch (error) {
@@ -182,9 +234,12 @@ export class CourseController {
     }
   }
 
-  async updateCourse(course: Course): Promise<Course | null> {
-    const teacherId = await this.getCurrentUserId();
-    if (!teacherId || teacherId !== course.teacherId) {
+  async updateCourse(course: Course, options: { force?: boolean } = {}): Promise<Course | null> {
+    const userId = await this.getCurrentUserId();
+    // Se evalúa contra el curso guardado: el borrador editado no decide quién es su docente.
+    const stored = await this.getCourseById(course.id);
+    const staffRole = this.state.staffRoles[course.id] ?? null;
+    if (!can(userId ? { id: userId } : null, "course.update", { course: stored, staffRole })) {
       this.setError("No tienes permisos para editar este curso");
       return null;
     }
@@ -192,13 +247,22 @@ export class CourseController {
     this.setState((prev) => ({
       ...prev,
       isLoading: true,
+      conflict: null,
     }));
 
     try {
-      const updated = await this.courseRepository.updateCourse(course, { partial: true });
+      const updated = await this.courseRepository.updateCourse(course, {
+        partial: true,
+        force: options.force,
+      });
       this.notifyCourseChanged(updated);
       return updated;
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const latest = await this.courseRepository.getCourseById(course.id);
+        if (latest) this.upsertCourse(latest);
+        this.setState((prev) => ({ ...prev, conflict: latest }));
+      }
       this.setError(error);
       return null;
     } finally {
@@ -209,12 +273,16 @@ export class CourseController {
     }
   }
 
-  async deleteCourse(courseId: string): Promise<boolean> {
+  async deleteCourse(
+    courseId: string,
+    mode: ArchiveCourseMode = "archive",
+  ): Promise<ArchiveCourseSummary | null> {
     const course = await this.getCourseById(courseId);
-    const teacherId = await this.getCurrentUserId();
-    if (!course || !teacherId || course.teacherId !== teacherId) {
+    const userId = await this.getCurrentUserId();
+    const action = mode === "purge" ? "course.purge" : "course.archive";
+    if (!userId || !can({ id: userId }, action, { course })) {
       this.setError("No tienes permisos para eliminar este curso");
-      return false;
+      return null;
     }
 
     this.setState((prev) => ({
@@ -223,18 +291,38 @@ export class CourseController {
     }));
 
     try {
-      const ok = await this.courseRepository.deleteCourse(courseId);
-      if (ok) {
-        this.coursesById.delete(courseId);
+      // Si un intento anterior quedó a medias se reanuda desde lo ya procesado.
+      const pending = this.state.pendingArchives[courseId];
+      const summary = await this.archiveCourseUseCase.execute({
+        courseId,
+        userId,
+        mode,
+        resumeFrom: pending?.mode === mode ? pending : null,
+      });
+      this.coursesById.delete(courseId);
+      this.setState((prev) => {
+        const pendingArchives = { ...prev.pendingArchives };
+        delete pendingArchives[courseId];
+        return {
+          ...prev,
+          pendingArchives,
+          // Un curso archivado sigue en la lista como inhabilitado; uno purgado desaparece.
+          teacherCourses:
+            mode === "purge"
+              ? prev.teacherCourses.filter((c) => c.id !== courseId)
+              : prev.teacherCourses.map((c) => (c.id === courseId ? { ...c, isActive: false } : c)),
+        };
+      });
+      return summary;
+    } catch (error) {
+      if (error instanceof ArchiveCourseInterruptedError) {
         this.setState((prev) => ({
           ...prev,
-          teacherCourses: prev.teacherCourses.filter((c) => c.id !== courseId),
+          pendingArchives: { ...prev.pendingArchives, [courseId]: error.summary },
         }));
       }
-      return ok;
-    } catch (error) {
       this.setError(error);
-      return false;
+      return null;
     } finally {
       this.setState((prev) => ({
         ...prev,
@@ -243,22 +331,40 @@ export class CourseController {
     }
   }
 
+  /** Vuelve a ejecutar el archivado o borrado interrumpido del curso, con su mismo modo. */
+  async resumeArchive(courseId: string): Promise<ArchiveCourseSummary | null> {
+    const pending = this.state.pendingArchives[courseId];
+    if (!pending) {
+      return null;
+    }
+    return this.deleteCourse(courseId, pending.mode);
+  }
+
+  pendingArchiveFor(courseId: string): ArchiveCourseSummary | null {
+    return this.state.pendingArchives[courseId] ?? null;
+  }
+
   async setCourseActive(courseId: string, active: boolean): Promise<Course | null> {
-    const teacherId = await this.getCurrentUserId();
+    const userId = await this.getCurrentUserId();
     const course = await this.getCourseById(courseId);
-    if (!course || !teacherId || course.teacherId !== teacherId) {
+    // Habilitar o deshabilitar cuenta para el límite de cursos del titular: solo él puede hacerlo.
+    if (!can(userId ? { id: userId } : null, "course.archive", { course })) {
       this.setError("No puedes modificar este curso");
       return null;
     }
 
-    if (active) {
-      const activeCount = this.state.teacherCourses.filter((c) => c.isActive).length;
-      if (activeCount >= CreateCourseUseCase.maxCoursesPerTeacher) {
-        this.setError(
-          `Ya tienes ${activeCount} cursos activos (máx ${CreateCourseUseCase.maxCoursesPerTeacher}). Deshabilita otro para continuar.`,
-        );
-        return null;
-      }
+    // Deshabilitar archiva también categorías, grupos, actividades e inscripciones del curso.
+    if (!active) {
+      const summary = await this.deleteCourse(courseId, "archive");
+      return summary ? this.getCourseById(courseId) : null;
+    }
+
+    const activeCount = this.state.teacherCourses.filter((c) => c.isActive).length;
+    if (activeCount >= CreateCourseUseCase.maxCoursesPerTeacher) {
+      this.setError(
+        `Ya tienes ${activeCount} cursos activos (máx ${CreateCourseUseCase.maxCoursesPerTeacher}). Deshabilita otro para continuar.`,
+      );
+      return null;
     }
 
     this.setState((prev) => ({
@@ -282,6 +388,25 @@ export class CourseController {
     }
   }
 
+  async regenerateJoinCode(courseId: string): Promise<Course | null> {
+    return this.runJoinCodeChange((userId) => this.regenerateJoinCodeUseCase.execute({ userId, courseId }));
+  }
+
+  async updateJoinCodeSettings(courseId: string, settings: JoinCodeSettings): Promise<Course | null> {
+    return this.runJoinCodeChange((userId) =>
+      this.updateJoinCodeSettingsUseCase.execute({ userId, courseId, settings }),
+    );
+  }
+
+  async countJoinCodeUses(course: Course): Promise<number | null> {
+    try {
+      return await this.joinCodeService.countUses(course);
+    } catch (error) {
+      this.setError(error, { silent: true });
+      return null;
+    }
+  }
+
   async ensureCourseActiveOrWarn(courseId: string, entityLabel: string): Promise<boolean> {
     const course = await this.getCourseById(courseId);
     if (course && !course.isActive) {
@@ -298,6 +423,13 @@ export class CourseController {
     }));
   }
 
+  clearConflict() {
+    this.setState((prev) => ({
+      ...prev,
+      conflict: null,
+    }));
+  }
+
   clearCreatedCourse() {
     this.setState((prev) => ({
       ...prev,
@@ -305,6 +437,13 @@ export class CourseController {
     }));
   }
 
+  reset() {
+    this.coursesById.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+    this.bootstrapPromise = this.bootstrap();
+  }
+
   private notifyCourseChanged(course: Course) {
     this.upsertCourse(course);
     this.setState((prev) => ({
@@ -312,6 +451,7 @@ export class CourseController {
       teacherCourses: prev.teacherCourses.map((item) =>
         item.id === course.id ? course : item,
       ),
+      staffCourses: prev.staffCourses.map((item) => (item.id === course.id ? course : item)),
     }));
     this.enrollmentController?.overrideCourseTitle(course.id, course.name);
   }
@@ -327,6 +467,34 @@ export class CourseController {
     }
   }
 
+  private async runJoinCodeChange(change: (userId: string) => Promise<Course>): Promise<Course | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) {
+      this.setError("Usuario no autenticado");
+      return null;
+    }
+
+    this.setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const updated = await change(userId);
+      this.notifyCourseChanged(updated);
+      return updated;
+    } catch (error) {
+      this.setError(error);
+      return null;
+    } finally {
+      this.setState((prev) => ({
+        ...prev,
+        isLoading: false,
+      }));
+    }
+  }
+
   private setState(updater: (prev: CourseControllerState) => CourseControllerState) {
     const next = updater(this.state);
     this.state = next;
@@ -334,7 +502,7 @@ export class CourseController {
   }
 
   private setError(error: unknown, options: { silent?: boolean } = {}) {
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     if (options.silent) {
       return;
     }
@@ -17,6 +17,7 @@ import {
 } from "react-native-paper";
 
 import { Course } from "@/src/domain/models/Course";
+import { COURSE_STAFF_ROLE_LABELS } from "@/src/domain/models/CourseStaff";
 import { Enrollment } from "@/src/domain/models/Enrollment";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
 import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
@@ -85,6 +86,13 @@ export default function AllCoursesScreen() {
       });
   }, [courseState.teacherCourses, mode]);
 
+  const staffActiveCourses = useMemo(() => {
+    if (mode !== "teaching") {
+      return [] as Course[];
+    }
+    return courseState.staffCourses.filter((course) => course.isActive);
+  }, [courseState.staffCourses, mode]);
+
   const learningEnrollments = useMemo(() => {
     if (mode !== "learning") {
       return [] as Enrollment[];
@@ -150,7 +158,11 @@ export default function AllCoursesScreen() {
       return <ActivityIndicator style={styles.loader} />;
     }
 
-    if (teachingActiveCourses.length === 0 && teachingInactiveCourses.length === 0) {
+    if (
+      teachingActiveCourses.length === 0 &&
+      teachingInactiveCourses.length === 0 &&
+      staffActiveCourses.length === 0
+    ) {
       return (
         <EmptyState
           message="No tienes cursos creados aún"
@@ -188,10 +200,37 @@ export default function AllCoursesScreen() {
           />
         ))}
 
-        {teachingActiveCourses.length > 0 && teachingInactiveCourses.length > 0 && (
-          <View style={styles.divider} />
+        {staffActiveCourses.length > 0 && (
+          <SectionLabel
+            label={`Como equipo docente (${staffActiveCourses.length})`}
+            color={theme.colors.onSurface}
+            style={{ marginTop: teachingActiveCourses.length > 0 ? 16 : 4, marginBottom: 12 }}
+          />
         )}
 
+        {staffActiveCourses.map((course) => (
+          <CourseListCard
+            key={course.id}
+            title={course.name}
+            outlineColor={`${GOLD}73`}
+            iconColor={GOLD}
+            iconName="supervisor-account"
+            onPress={() => handleCoursePress(course.id)}
+            cardColor={theme.colors.surface}
+            onSurface={theme.colors.onSurface}
+            pills={[
+              {
+                icon: "badge",
+                text: COURSE_STAFF_ROLE_LABELS[courseState.staffRoles[course.id] ?? "assistant"],
+              },
+              { icon: "qr-code-2", text: `Código: ${course.joinCode}` },
+            ]}
+          />
+        ))}
+
+        {(teachingActiveCourses.length > 0 || staffActiveCourses.length > 0) &&
+          teachingInactiveCourses.length > 0 && <View style={styles.divider} />}
+
         {teachingInactiveCourses.length > 0 && (
           <View>
             <InactiveToggle
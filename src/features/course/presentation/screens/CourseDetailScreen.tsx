@@ -9,7 +9,9 @@ import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
 import { Category } from "@/src/domain/models/Category";
 import { Course } from "@/src/domain/models/Course";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
+import { COURSE_STAFF_ROLE_LABELS } from "@/src/domain/models/CourseStaff";
 import { Group } from "@/src/domain/models/Group";
+import { can, courseRoleOf, isCourseStaffRole } from "@/src/domain/policies/AccessPolicy";
 import { useActivityController } from "@/src/features/activity/hooks/useActivityController";
 import { useAuth } from "@/src/features/auth/presentation/context/authContext";
 import { useCategoryController } from "@/src/features/category/hooks/useCategoryController";
@@ -17,6 +19,7 @@ import { useCourseController } from "@/src/features/course/hooks/useCourseContro
 import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
 import { useGroupController } from "@/src/features/group/hooks/useGroupController";
 import { useMembershipController } from "@/src/features/membership/hooks/useMembershipController";
+import { useCourseStaffController } from "@/src/features/staff/hooks/useCourseStaffController";
 
 const PREVIEW_LIMIT = 3;
 
@@ -51,7 +54,7 @@ type FullWidthButtonProps = {
 	label: string;
 	icon: keyof typeof MaterialIcons.glyphMap;
 	onPress: () => void;
-	mode?: "contained" | "contained-tonal";
+	mode?: "contained" | "contained-tonal" | "outlined";
 	style?: object;
 	disabled?: boolean;
 };
@@ -92,7 +95,7 @@ type MetaPillProps = {
 
 type InactiveBannerProps = {
 	isTeacher: boolean;
-	onEnable: () => void;
+	onEnable?: () => void;
 };
 
 type EmptyCardProps = {
@@ -116,6 +119,7 @@ export default function CourseDetailScreen() {
 	const [membershipState, membershipController] = useMembershipController();
 	const [activityState, activityController] = useActivityController();
 	const [enrollmentState, enrollmentController] = useEnrollmentController();
+	const [staffState, courseStaffController] = useCourseStaffController();
 
 	const [course, setCourse] = useState<Course | null>(null);
 	const [refreshing, setRefreshing] = useState(false);
@@ -155,14 +159,17 @@ export default function CourseDetailScreen() {
 				}
 				setCourse(fetched);
 
-				await enrollmentController.ensureUserLoaded(fetched.teacherId);
+				const [staffRole] = await Promise.all([
+					courseStaffController.loadMyRole(courseId),
+					enrollmentController.ensureUserLoaded(fetched.teacherId),
+				]);
 
-				const isTeacherUser = user?.id === fetched.teacherId;
+				const canSeeAllActivities = can(user, "activity.viewAll", { course: fetched, staffRole });
 
 				await Promise.all([
 					categoryController.loadByCourse(courseId, { force }),
 					groupController.loadByCourse(courseId, { force }),
-					isTeacherUser
+					canSeeAllActivities
 						? activityController.loadByCourse(courseId, { force })
 						: activityController.loadForStudent(courseId, { force }),
 				]);
@@ -186,10 +193,11 @@ export default function CourseDetailScreen() {
 			categoryController,
 			courseController,
 			courseId,
+			courseStaffController,
 			enrollmentController,
 			groupController,
 			membershipController,
-			user?.id,
+			user,
 		],
 	);
 
@@ -220,16 +228,35 @@ export default function CourseDetailScreen() {
 		}
 	}, [loadEverything]);
 
-	const isTeacher = useMemo(() => {
-		if (!course || !user?.id) {
-			return false;
-		}
-		return course.teacherId === user.id;
-	}, [course, user?.id]);
+	const staffRole = courseId ? staffState.myRoles[courseId] ?? null : null;
+	const role = courseRoleOf(user, { course, staffRole, isEnrolled: true });
+	// Co-docentes y asistentes ven el curso como el titular; cada acción se filtra con `permissions`.
+	const isTeacher = isCourseStaffRole(role);
+
+	// La pantalla solo se abre para cursos en los que el usuario enseña o está inscrito.
+	const permissions = useMemo(() => {
+		const resource = { course, staffRole, isEnrolled: true };
+		return {
+			editCourse: can(user, "course.update", resource),
+			enableCourse: can(user, "course.archive", resource),
+			purgeCourse: can(user, "course.purge", resource),
+			createActivity: can(user, "activity.create", resource),
+			createCategory: can(user, "category.create", resource),
+			createGroup: can(user, "group.create", resource),
+			viewHistory: can(user, "course.viewHistory", resource),
+			viewStaff: can(user, "course.viewStaff", resource),
+			viewResults: can(user, "assessment.viewResults", resource),
+		};
+	}, [course, staffRole, user]);
 
 	const cachedTitle = courseId ? enrollmentController.getCourseTitle(courseId) : "";
 	const displayTitle = course?.name?.trim() ? course.name : cachedTitle || "Curso";
-	const subtitle = isTeacher ? "Continúa enseñando" : "Continúa tu aprendizaje en";
+	const subtitle =
+		role === "coteacher" || role === "assistant"
+			? `Apoyas como ${COURSE_STAFF_ROLE_LABELS[role]} en`
+			: isTeacher
+				? "Continúa enseñando"
+				: "Continúa tu aprendizaje en";
 	const joinCode = course?.joinCode ?? "";
 	const isInactive = course ? !course.isActive : false;
 
@@ -345,7 +372,7 @@ export default function CourseDetailScreen() {
 		[activities],
 	);
 
-	const showPeerReviewSection = isTeacher || reviewActivityIds.length > 0;
+	const showPeerReviewSection = permissions.viewResults || reviewActivityIds.length > 0;
 	const myPeerReviewGroup = useMemo(() => {
 		if (isTeacher) return null;
 		return groups.find((group) => joinedGroupIds.has(group.id)) ?? null;
@@ -381,7 +408,7 @@ export default function CourseDetailScreen() {
   }, [course, courseId, navigation]);
 
 	const handleEnableCourse = useCallback(() => {
-		if (!courseId || !isTeacher) return;
+		if (!courseId || !permissions.enableCourse) return;
 		Alert.alert("Habilitar curso", "¿Deseas habilitar este curso ahora?", [
 			{ text: "Cancelar", style: "cancel" },
 			{
@@ -396,7 +423,64 @@ export default function CourseDetailScreen() {
 				},
 			},
 		]);
-	}, [courseController, courseId, isTeacher, loadEverything]);
+	}, [courseController, courseId, loadEverything, permissions.enableCourse]);
+
+	const pendingArchive = courseId ? courseState.pendingArchives[courseId] ?? null : null;
+
+	const handleArchiveCourse = useCallback(() => {
+		if (!courseId || !permissions.enableCourse) return;
+		Alert.alert(
+			"Deshabilitar curso",
+			"Se archivarán sus categorías, grupos, actividades e inscripciones. Al habilitarlo de nuevo tendrás que volver a crearlos o invitar a los estudiantes.",
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Deshabilitar",
+					style: "destructive",
+					onPress: () => {
+						void (async () => {
+							await courseController.setCourseActive(courseId, false);
+							await loadEverything({ force: true });
+						})();
+					},
+				},
+			],
+		);
+	}, [courseController, courseId, loadEverything, permissions.enableCourse]);
+
+	const handlePurgeCourse = useCallback(() => {
+		if (!courseId || !permissions.purgeCourse) return;
+		Alert.alert(
+			"Eliminar curso",
+			"Se borrarán el curso y todo su contenido, incluidas las evaluaciones. Esta acción no se puede deshacer.",
+			[
+				{ text: "Cancelar", style: "cancel" },
+				{
+					text: "Eliminar",
+					style: "destructive",
+					onPress: () => {
+						void (async () => {
+							const summary = await courseController.deleteCourse(courseId, "purge");
+							if (summary) {
+								navigation.goBack();
+							}
+						})();
+					},
+				},
+			],
+		);
+	}, [courseController, courseId, navigation, permissions.purgeCourse]);
+
+	const handleResumeArchive = useCallback(async () => {
+		if (!courseId) return;
+		const summary = await courseController.resumeArchive(courseId);
+		if (!summary) return;
+		if (summary.mode === "purge") {
+			navigation.goBack();
+			return;
+		}
+		await loadEverything({ force: true });
+	}, [courseController, courseId, loadEverything, navigation]);
 
 	const handleCreateActivity = useCallback(() => {
 		if (!courseId) return;
@@ -430,7 +514,17 @@ export default function CourseDetailScreen() {
 
 	const handleSeeAllStudents = useCallback(() => {
 		if (!courseId) return;
-		navigation.navigate("CourseStudents", { courseId });
+		navigation.navigate("CourseStudents", { courseId, isTeacher });
+	}, [courseId, isTeacher, navigation]);
+
+	const handleSeeHistory = useCallback(() => {
+		if (!courseId) return;
+		navigation.navigate("CourseHistory", { courseId });
+	}, [courseId, navigation]);
+
+	const handleSeeStaff = useCallback(() => {
+		if (!courseId) return;
+		navigation.navigate("CourseStaff", { courseId });
 	}, [courseId, navigation]);
 
 	const handleDismissError = useCallback(() => {
@@ -549,13 +643,16 @@ export default function CourseDetailScreen() {
 				<CourseHeader
 					title={displayTitle}
 					subtitle={subtitle}
-					showEdit={isTeacher}
+					showEdit={permissions.editCourse}
 					onEdit={handleEditCourse}
 					onBack={handleBack}
 				/>
 				<MetaRow items={metaItems} />
 				{isInactive ? (
-					<InactiveBanner isTeacher={isTeacher} onEnable={handleEnableCourse} />
+					<InactiveBanner
+						isTeacher={isTeacher}
+						onEnable={permissions.enableCourse ? handleEnableCourse : undefined}
+					/>
 				) : null}
 				{aggregatedError ? (
 					<Chip
@@ -576,7 +673,7 @@ export default function CourseDetailScreen() {
 						count={reviewCount > 0 ? reviewCount : undefined}
 					>
 						<PeerReviewSection
-							isTeacher={isTeacher}
+							isTeacher={permissions.viewResults}
 							reviewCount={reviewCount}
 							myGroupName={myPeerReviewGroup?.name}
 							onViewCourse={handleViewPeerReviewCourse}
@@ -587,7 +684,7 @@ export default function CourseDetailScreen() {
 				) : null}
 
 				<SectionCard title="Actividades" icon="task-alt" count={activities.length}>
-					{isTeacher ? (
+					{permissions.createActivity ? (
 						<DualActionButtons
 							primaryLabel="NUEVA"
 							primaryIcon="add-task"
@@ -640,7 +737,7 @@ export default function CourseDetailScreen() {
 				</SectionCard>
 
 				<SectionCard title="Categorías" icon="category" count={categories.length}>
-					{isTeacher ? (
+					{permissions.createCategory ? (
 						<DualActionButtons
 							primaryLabel="NUEVA"
 							primaryIcon="playlist-add"
@@ -694,7 +791,7 @@ export default function CourseDetailScreen() {
 				</SectionCard>
 
 				<SectionCard title="Grupos" icon="groups" count={groups.length}>
-					{isTeacher ? (
+					{permissions.createGroup ? (
 						<DualActionButtons
 							primaryLabel="NUEVO"
 							primaryIcon="group-add"
@@ -757,8 +854,64 @@ export default function CourseDetailScreen() {
 						mode="contained"
 						style={{ marginTop: 16 }}
 					/>
+					{permissions.viewStaff ? (
+						<FullWidthButton
+							label="EQUIPO DOCENTE"
+							icon="supervisor-account"
+							onPress={handleSeeStaff}
+							mode="contained-tonal"
+							style={{ marginTop: 12 }}
+						/>
+					) : null}
+					{permissions.viewHistory ? (
+						<FullWidthButton
+							label="HISTORIAL DE CAMBIOS"
+							icon="history"
+							onPress={handleSeeHistory}
+							mode="contained-tonal"
+							style={{ marginTop: 12 }}
+						/>
+					) : null}
 				</SectionCard>
 
+				{permissions.enableCourse ? (
+					<SectionCard title="Estado del curso" icon="settings">
+						{pendingArchive ? (
+							<>
+								<Text style={[styles.lifecycleText, { color: theme.colors.error }]}>
+									{pendingArchive.mode === "purge" ? "El borrado" : "El archivado"} del curso quedó a medias.
+									Reanúdalo para terminar con lo que falta.
+								</Text>
+								<FullWidthButton
+									label="REANUDAR"
+									icon="replay"
+									onPress={() => void handleResumeArchive()}
+									disabled={courseState.isLoading}
+								/>
+							</>
+						) : null}
+						{!isInactive && !pendingArchive ? (
+							<FullWidthButton
+								label="DESHABILITAR Y ARCHIVAR"
+								icon="archive"
+								onPress={handleArchiveCourse}
+								mode="outlined"
+								disabled={courseState.isLoading}
+							/>
+						) : null}
+						{permissions.purgeCourse && !pendingArchive ? (
+							<FullWidthButton
+								label="ELIMINAR DEFINITIVAMENTE"
+								icon="delete-forever"
+								onPress={handlePurgeCourse}
+								mode="outlined"
+								style={{ marginTop: 12 }}
+								disabled={courseState.isLoading}
+							/>
+						) : null}
+					</SectionCard>
+				) : null}
+
 				{isLoadingAny ? (
 					<View style={styles.loadingMoreContainer}>
 						<ActivityIndicator size="small" />
@@ -885,7 +1038,7 @@ const InactiveBanner = ({ isTeacher, onEnable }: InactiveBannerProps) => {
 			/>
 			<View style={styles.inactiveBannerContent}>
 				<Text style={[styles.inactiveBannerText, { color: textColor }]}>{message}</Text>
-				{isTeacher ? (
+				{onEnable ? (
 					<Button
 						mode="text"
 						onPress={onEnable}
@@ -1237,6 +1390,11 @@ const styles = StyleSheet.create({
 		fontSize: 13,
 		lineHeight: 19,
 	},
+	lifecycleText: {
+		fontSize: 13,
+		lineHeight: 19,
+		marginBottom: 12,
+	},
 	inactiveBannerButton: {
 		marginTop: 8,
 		alignSelf: "flex-start",
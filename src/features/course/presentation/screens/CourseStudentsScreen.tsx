@@ -1,9 +1,11 @@
 import { MaterialIcons } from "@expo/vector-icons";
 import { useFocusEffect, useNavigation, useRoute } from "@react-navigation/native";
 import React, { useCallback, useMemo, useState } from "react";
-import { RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from "react-native";
 import {
     ActivityIndicator,
+    Button,
+    Checkbox,
     IconButton,
     Text,
     useTheme,
@@ -12,17 +14,19 @@ import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context"
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
 import { Enrollment } from "@/src/domain/models/Enrollment";
+import { EnrollmentDecision } from "@/src/domain/usecases/enrollment/ReviewEnrollmentRequestsUseCase";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
 import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
 
 type RouteParams = {
   courseId: string;
+  isTeacher?: boolean;
 };
 
 const CourseStudentsScreen = () => {
   const navigation = useNavigation<any>();
   const route = useRoute();
-  const { courseId } = (route.params ?? {}) as RouteParams;
+  const { courseId, isTeacher = false } = (route.params ?? {}) as RouteParams;
 
   const theme = useTheme();
   const insets = useSafeAreaInsets();
@@ -32,6 +36,7 @@ const CourseStudentsScreen = () => {
   const [courseTitle, setCourseTitle] = useState("Curso");
   const [joinCode, setJoinCode] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [selectedRequestIds, setSelectedRequestIds] = useState<string[]>([]);
 
   const enrollments = useMemo(() => {
     if (!courseId) return [] as Enrollment[];
@@ -41,33 +46,34 @@ const CourseStudentsScreen = () => {
       .sort((a, b) => new Date(b.enrolledAt).getTime() - new Date(a.enrolledAt).getTime());
   }, [courseId, enrollmentController]);
 
+  const requests = useMemo(
+    () => (courseId && isTeacher ? enrollmentController.requestsFor(courseId) : []),
+    [courseId, enrollmentController, isTeacher],
+  );
+
   const loadData = useCallback(
-    async ({ force = false }: { force?: boolean } = {}) => {
+    async ({ force = false, signal }: { force?: boolean; signal?: AbortSignal } = {}) => {
       if (!courseId) return;
       const course = await courseController.getCourseById(courseId);
-      if (course) {
+      if (course && !signal?.aborted) {
         setCourseTitle(course.name);
         setJoinCode(course.joinCode);
       }
       await Promise.all([
-        enrollmentController.loadEnrollmentsForCourse(courseId, { force }),
+        enrollmentController.loadEnrollmentsForCourse(courseId, { force, signal }),
         enrollmentController.loadEnrollmentCountForCourse(courseId, { force }),
+        isTeacher ? enrollmentController.loadEnrollmentRequests(courseId, { signal }) : Promise.resolve(),
       ]);
     },
-    [courseController, courseId, enrollmentController],
+    [courseController, courseId, enrollmentController, isTeacher],
   );
 
   useFocusEffect(
     useCallback(() => {
-      let cancelled = false;
-      (async () => {
-        if (!cancelled) {
-          await loadData();
-        }
-      })();
-      return () => {
-        cancelled = true;
-      };
+      // Al salir de la pantalla se cancelan las lecturas que sigan en curso.
+      const controller = new AbortController();
+      void loadData({ signal: controller.signal });
+      return () => controller.abort();
     }, [loadData]),
   );
 
@@ -80,6 +86,44 @@ const CourseStudentsScreen = () => {
     }
   }, [loadData]);
 
+  const toggleRequest = useCallback((enrollmentId: string) => {
+    setSelectedRequestIds((prev) =>
+      prev.includes(enrollmentId) ? prev.filter((id) => id !== enrollmentId) : [...prev, enrollmentId],
+    );
+  }, []);
+
+  const review = useCallback(
+    async (enrollmentIds: string[], decision: EnrollmentDecision) => {
+      if (!courseId || enrollmentIds.length === 0) return;
+      const result = await enrollmentController.reviewEnrollmentRequests(courseId, enrollmentIds, decision);
+      if (!result) return;
+      setSelectedRequestIds((prev) => prev.filter((id) => !enrollmentIds.includes(id)));
+      const skipped = result.skipped.length;
+      if (skipped > 0) {
+        Alert.alert(
+          "Solicitudes",
+          `${skipped} solicitud${skipped === 1 ? " ya había sido revisada" : "es ya habían sido revisadas"}.`,
+        );
+      }
+    },
+    [courseId, enrollmentController],
+  );
+
+  const confirmReject = useCallback(
+    (enrollmentIds: string[]) => {
+      const count = enrollmentIds.length;
+      Alert.alert(
+        "Rechazar solicitudes",
+        `Se rechazará${count === 1 ? " 1 solicitud" : `n ${count} solicitudes`}. El estudiante podrá volver a solicitar con el código.`,
+        [
+          { text: "Cancelar", style: "cancel" },
+          { text: "Rechazar", style: "destructive", onPress: () => void review(enrollmentIds, "reject") },
+        ],
+      );
+    },
+    [review],
+  );
+
   const loading = enrollmentState.isLoading && enrollments.length === 0;
   const total = enrollmentController.enrollmentCountFor(courseId);
 
@@ -161,6 +205,82 @@ const CourseStudentsScreen = () => {
             <Text style={[styles.errorText, { color: theme.colors.error }]}>{enrollmentState.error}</Text>
           ) : null}
 
+          {requests.length > 0 ? (
+            <View style={styles.requestsContainer}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>
+                Solicitudes pendientes ({requests.length})
+              </Text>
+              {requests.map((request) => (
+                <View
+                  key={request.id}
+                  style={[
+                    styles.studentItem,
+                    {
+                      backgroundColor: theme.colors.surface,
+                      borderColor: theme.colors.outlineVariant ?? "#00000012",
+                    },
+                  ]}
+                >
+                  <Checkbox
+                    status={selectedRequestIds.includes(request.id) ? "checked" : "unchecked"}
+                    onPress={() => toggleRequest(request.id)}
+                  />
+                  <View style={styles.studentContent}>
+                    <Text style={[styles.studentName, { color: theme.colors.onSurface }]}>
+                      {enrollmentController.userName(request.studentId)}
+                    </Text>
+                    <Text style={[styles.studentSubtitle, { color: theme.colors.onSurfaceVariant }]}>
+                      Solicitado: {formatShortDate(request.enrolledAt)}
+                    </Text>
+                  </View>
+                  <IconButton
+                    icon="check"
+                    iconColor={theme.colors.primary}
+                    disabled={enrollmentState.isLoading}
+                    onPress={() => void review([request.id], "approve")}
+                  />
+                  <IconButton
+                    icon="close"
+                    iconColor={theme.colors.error}
+                    disabled={enrollmentState.isLoading}
+                    onPress={() => confirmReject([request.id])}
+                  />
+                </View>
+              ))}
+              <View style={styles.requestActions}>
+                {selectedRequestIds.length > 0 ? (
+                  <>
+                    <Button
+                      mode="contained"
+                      icon="check-all"
+                      disabled={enrollmentState.isLoading}
+                      onPress={() => void review(selectedRequestIds, "approve")}
+                    >
+                      Aprobar seleccionadas
+                    </Button>
+                    <Button
+                      mode="outlined"
+                      icon="close"
+                      disabled={enrollmentState.isLoading}
+                      onPress={() => confirmReject(selectedRequestIds)}
+                    >
+                      Rechazar
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    mode="contained-tonal"
+                    icon="check-all"
+                    disabled={enrollmentState.isLoading}
+                    onPress={() => void review(requests.map((request) => request.id), "approve")}
+                  >
+                    Aprobar todas
+                  </Button>
+                )}
+              </View>
+            </View>
+          ) : null}
+
           {loading ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" />
@@ -310,6 +430,19 @@ const styles = StyleSheet.create({
   listContainer: {
     marginTop: 20,
   },
+  requestsContainer: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    marginBottom: 12,
+  },
+  requestActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
   studentItem: {
     flexDirection: "row",
     alignItems: "center",
@@ -1,3 +1,4 @@
+import DateTimePicker, { DateTimePickerAndroid } from "@react-native-community/datetimepicker";
 import { useNavigation, useRoute } from "@react-navigation/native";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
@@ -9,8 +10,10 @@ import {
   StyleSheet,
   View,
 } from "react-native";
-import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
+import { Button, HelperText, Switch, Text, TextInput, useTheme } from "react-native-paper";
 
+import { promptConflictResolution } from "@/src/components/ConflictAlert";
+import { Course } from "@/src/domain/models/Course";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
 
 type RouteParams = {
@@ -19,6 +22,13 @@ type RouteParams = {
 
 const MIN_NAME_LENGTH = 3;
 
+// La fecha elegida vale completa: el código deja de servir al terminar ese día.
+const endOfDay = (date: Date) => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
 export default function EditCourseScreen() {
   const theme = useTheme();
   const navigation = useNavigation<any>();
@@ -26,6 +36,8 @@ export default function EditCourseScreen() {
   const { courseId } = (route.params ?? {}) as RouteParams;
   const [courseState, courseController] = useCourseController();
 
+  // Versión con la que se abrió el formulario; sirve de base para detectar y combinar conflictos.
+  const [original, setOriginal] = useState<Course | null>(null);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [touched, setTouched] = useState(false);
@@ -37,6 +49,7 @@ export default function EditCourseScreen() {
       if (courseId) {
         const existing = await courseController.getCourseById(courseId);
         if (existing) {
+          setOriginal(existing);
           setName(existing.name);
           setDescription(existing.description ?? "");
         }
@@ -54,6 +67,47 @@ export default function EditCourseScreen() {
     return null;
   }, [name, description]);
 
+  const save = useCallback(async (base: Course, draft: Course) => {
+    const updated = await courseController.updateCourse(draft);
+    const snapshot = courseController.getSnapshot();
+    if (updated) {
+      Alert.alert("Curso actualizado", "El curso se actualizó correctamente.", [
+        {
+          text: "Aceptar",
+          onPress: () => navigation.goBack(),
+        },
+      ]);
+      return;
+    }
+    const latest = snapshot.conflict;
+    if (!latest) {
+      setError(snapshot.error ?? "No se pudo actualizar el curso");
+      return;
+    }
+    courseController.clearConflict();
+    setError(snapshot.error);
+    promptConflictResolution({
+      entityLabel: "este curso",
+      base,
+      local: draft,
+      latest,
+      fieldLabels: { name: "Nombre", description: "Descripción" },
+      onReload: (stored) => {
+        setOriginal(stored);
+        setName(stored.name);
+        setDescription(stored.description ?? "");
+        setError(null);
+      },
+      onMerge: (merged) => {
+        setOriginal(latest);
+        setName(merged.name);
+        setDescription(merged.description ?? "");
+        setError(null);
+        void save(latest, merged);
+      },
+    });
+  }, [courseController, navigation]);
+
   const handleSubmit = useCallback(async () => {
     setTouched(true);
     setError(null);
@@ -66,28 +120,17 @@ export default function EditCourseScreen() {
       setError("Identificador de curso inválido");
       return;
     }
-    const existing = await courseController.getCourseById(courseId);
-    if (!existing) {
+    const base = original ?? (await courseController.getCourseById(courseId));
+    if (!base) {
       setError("No se pudo obtener el curso");
       return;
     }
-    const updated = await courseController.updateCourse({
-      ...existing,
+    await save(base, {
+      ...base,
       name: name.trim(),
       description: description.trim(),
     });
-    const snapshot = courseController.getSnapshot();
-    if (updated) {
-      Alert.alert("Curso actualizado", "El curso se actualizó correctamente.", [
-        {
-          text: "Aceptar",
-          onPress: () => navigation.goBack(),
-        },
-      ]);
-    } else {
-      setError(snapshot.error ?? "No se pudo actualizar el curso");
-    }
-  }, [courseController, courseId, name, description, navigation, validate]);
+  }, [courseController, courseId, name, description, original, save, validate]);
 
   const helperText = useMemo(() => {
     if (!touched) {
@@ -139,12 +182,168 @@ export default function EditCourseScreen() {
           >
             Guardar cambios
           </Button>
+          {original ? <JoinCodeCard course={original} onChange={setOriginal} /> : null}
         </ScrollView>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
 }
 
+function JoinCodeCard({ course, onChange }: { course: Course; onChange: (course: Course) => void }) {
+  const theme = useTheme();
+  const [courseState, courseController] = useCourseController();
+
+  const [enabled, setEnabled] = useState(course.joinCodeEnabled ?? true);
+  const [requiresApproval, setRequiresApproval] = useState(course.requiresApproval ?? false);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(
+    course.joinCodeExpiresAt ? new Date(course.joinCodeExpiresAt) : null,
+  );
+  const [maxUses, setMaxUses] = useState(course.joinCodeMaxUses ? String(course.joinCodeMaxUses) : "");
+  const [uses, setUses] = useState<number | null>(null);
+  const [showIOSPicker, setShowIOSPicker] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    void courseController.countJoinCodeUses(course).then((count) => {
+      if (mounted) setUses(count);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [course, courseController]);
+
+  const apply = (updated: Course | null) => {
+    if (!updated) {
+      setError(courseController.getSnapshot().error ?? "No se pudo actualizar el código de ingreso");
+      return false;
+    }
+    setError(null);
+    onChange(updated);
+    return true;
+  };
+
+  const handleSave = async () => {
+    const trimmed = maxUses.trim();
+    const parsed = trimmed ? Number(trimmed) : null;
+    const updated = await courseController.updateJoinCodeSettings(course.id, {
+      enabled,
+      expiresAt: expiresAt ? endOfDay(expiresAt).toISOString() : null,
+      maxUses: parsed,
+      requiresApproval,
+    });
+    if (apply(updated)) {
+      Alert.alert("Código de ingreso", "La configuración del código se guardó.");
+    }
+  };
+
+  const confirmRegenerate = () => {
+    Alert.alert(
+      "Generar código nuevo",
+      `El código ${course.joinCode} dejará de funcionar y el contador de usos volverá a cero.`,
+      [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Generar",
+          onPress: async () => {
+            const updated = await courseController.regenerateJoinCode(course.id);
+            if (apply(updated)) {
+              setEnabled(true);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const pickDate = () => {
+    const minimumDate = new Date();
+    if (Platform.OS === "android") {
+      DateTimePickerAndroid.open({
+        mode: "date",
+        value: expiresAt ?? minimumDate,
+        minimumDate,
+        onChange: (_event, selected) => {
+          if (selected) setExpiresAt(selected);
+        },
+      });
+      return;
+    }
+    setShowIOSPicker(true);
+  };
+
+  const usesLabel =
+    uses === null
+      ? "Usos: —"
+      : `Usos: ${uses}${course.joinCodeMaxUses ? ` de ${course.joinCodeMaxUses}` : ""}`;
+
+  return (
+    <View style={[styles.joinCodeCard, { borderColor: `${theme.colors.outline}33` }]}>
+      <Text style={[styles.sectionTitle, { color: theme.colors.onSurface }]}>Código de ingreso</Text>
+      <View style={styles.row}>
+        <Text style={[styles.joinCode, { color: theme.colors.onSurface }]}>{course.joinCode || "—"}</Text>
+        <Text style={{ color: theme.colors.onSurfaceVariant }}>{usesLabel}</Text>
+      </View>
+      <View style={styles.row}>
+        <Text style={{ color: theme.colors.onSurface, flex: 1 }}>Permitir inscripciones con el código</Text>
+        <Switch value={enabled} onValueChange={setEnabled} />
+      </View>
+      <View style={styles.row}>
+        <Text style={{ color: theme.colors.onSurface, flex: 1 }}>Requiere aprobación del docente</Text>
+        <Switch value={requiresApproval} onValueChange={setRequiresApproval} />
+      </View>
+      <View style={styles.row}>
+        <Text style={{ color: theme.colors.onSurface, flex: 1 }}>
+          {expiresAt
+            ? `Expira el ${expiresAt.toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" })}`
+            : "Sin fecha de expiración"}
+        </Text>
+        {expiresAt ? (
+          <Button mode="text" onPress={() => setExpiresAt(null)}>
+            Quitar
+          </Button>
+        ) : null}
+        <Button mode="text" icon="calendar" onPress={pickDate}>
+          Elegir
+        </Button>
+      </View>
+      {Platform.OS === "ios" && showIOSPicker ? (
+        <DateTimePicker
+          mode="date"
+          display="spinner"
+          value={expiresAt ?? new Date()}
+          minimumDate={new Date()}
+          onChange={(event, selected) => {
+            if (event.type !== "dismissed" && selected) setExpiresAt(selected);
+            setShowIOSPicker(false);
+          }}
+        />
+      ) : null}
+      <TextInput
+        label="Límite de usos (opcional)"
+        mode="outlined"
+        value={maxUses}
+        onChangeText={(value) => setMaxUses(value.replace(/[^0-9]/g, ""))}
+        keyboardType="number-pad"
+      />
+      <HelperText type="error" visible={Boolean(error)}>
+        {error}
+      </HelperText>
+      <Button
+        mode="contained-tonal"
+        icon="content-save"
+        onPress={handleSave}
+        disabled={courseState.isLoading}
+      >
+        Guardar código
+      </Button>
+      <Button mode="outlined" icon="refresh" onPress={confirmRegenerate} disabled={courseState.isLoading}>
+        Generar código nuevo
+      </Button>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
@@ -165,4 +364,25 @@ const styles = StyleSheet.create({
   section: {
     gap: 16,
   },
+  joinCodeCard: {
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+  },
+  joinCode: {
+    fontSize: 22,
+    fontWeight: "700",
+    letterSpacing: 4,
+  },
 });
\ No newline at end of file
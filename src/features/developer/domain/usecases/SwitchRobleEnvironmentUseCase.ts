@@ -0,0 +1,33 @@
+import { RobleEnvironmentRegistry } from "@/src/core/environment/RobleEnvironmentRegistry";
+import { RobleReadCache } from "@/src/data/services/RobleReadCache";
+import { AuthLocalDataSource } from "@/src/features/auth/data/datasources/AuthLocalDataSource";
+
+type Dependencies = {
+  environmentRegistry: RobleEnvironmentRegistry;
+  authLocal: AuthLocalDataSource;
+  readCache: RobleReadCache;
+};
+
+// Los tokens y las lecturas guardadas de todas las cuentas pertenecen al servidor anterior: se
+// descartan antes de activar el nuevo perfil para que la app arranque sin sesión.
+export class SwitchRobleEnvironmentUseCase {
+  constructor(private readonly deps: Dependencies) {}
+
+  async execute(profileId: string): Promise<boolean> {
+    const { environmentRegistry, authLocal, readCache } = this.deps;
+    if (environmentRegistry.current.id === profileId) {
+      return false;
+    }
+    if (!environmentRegistry.getSnapshot().profiles.some((profile) => profile.id === profileId)) {
+      throw new Error(`No existe el perfil de entorno "${profileId}"`);
+    }
+
+    const accounts = await authLocal.listAccounts();
+    for (const account of accounts) {
+      await readCache.clearUser(account.session.user.id);
+    }
+    await authLocal.clearAllSessions();
+    await environmentRegistry.select(profileId);
+    return true;
+  }
+}
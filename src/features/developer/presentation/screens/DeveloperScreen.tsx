@@ -0,0 +1,251 @@
+import { useFocusEffect, useNavigation } from "@react-navigation/native";
+import React, { useCallback, useMemo, useState } from "react";
+import { Alert, ScrollView, StyleSheet, View } from "react-native";
+import { Button, Divider, IconButton, List, Text, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useDI } from "@/src/core/di/DIProvider";
+import { TOKENS } from "@/src/core/di/tokens";
+import { RobleEnvironmentRegistry } from "@/src/core/environment/RobleEnvironmentRegistry";
+import { RobleEnvironmentProfile } from "@/src/core/environment/robleEnvironments";
+import { useRobleEnvironment } from "@/src/core/environment/useRobleEnvironment";
+import { RecordDecodeReport, RecordDecodeSummary } from "@/src/data/models/roble/RecordDecodeReport";
+import { SwitchRobleEnvironmentUseCase } from "@/src/features/developer/domain/usecases/SwitchRobleEnvironmentUseCase";
+
+const GOLD = "#FFD700";
+
+export default function DeveloperScreen() {
+  const theme = useTheme();
+  const navigation = useNavigation<any>();
+  const di = useDI();
+  const { environmentRegistry, switchEnvironment, decodeReport } = useMemo(
+    () => ({
+      environmentRegistry: di.resolve<RobleEnvironmentRegistry>(TOKENS.RobleEnvironmentRegistry),
+      switchEnvironment: di.resolve<SwitchRobleEnvironmentUseCase>(TOKENS.SwitchRobleEnvironmentUC),
+      decodeReport: di.resolve<RecordDecodeReport>(TOKENS.RecordDecodeReport),
+    }),
+    [di],
+  );
+  const { profiles, current } = useRobleEnvironment(environmentRegistry);
+  const [switching, setSwitching] = useState(false);
+  // El reporte no avisa de cambios: se toma una foto al entrar y al pulsar "Actualizar".
+  const [decodeSummary, setDecodeSummary] = useState<RecordDecodeSummary>(() => decodeReport.summary());
+
+  const refreshDecodeSummary = useCallback(() => {
+    setDecodeSummary(decodeReport.summary());
+  }, [decodeReport]);
+
+  useFocusEffect(refreshDecodeSummary);
+
+  const handleClearDecodeReport = () => {
+    decodeReport.clear();
+    refreshDecodeSummary();
+  };
+
+  const applyProfile = async (profile: RobleEnvironmentProfile) => {
+    setSwitching(true);
+    try {
+      // Al cambiar de perfil la app se vuelve a montar y vuelve al inicio de sesión.
+      await switchEnvironment.execute(profile.id);
+    } catch (error) {
+      setSwitching(false);
+      Alert.alert("No se pudo cambiar de entorno", error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSelect = (profile: RobleEnvironmentProfile) => {
+    if (switching || profile.id === current.id) return;
+    Alert.alert(
+      `Cambiar a ${profile.label}`,
+      "Se cerrará la sesión y se borrarán los datos guardados de este entorno.",
+      [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Cambiar", style: "destructive", onPress: () => void applyProfile(profile) },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.headerRow}>
+          <IconButton icon="arrow-left" onPress={() => navigation.goBack()} />
+          <Text style={[styles.title, { color: theme.colors.onSurface }]}>Entorno de desarrollo</Text>
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.colors.surface,
+              borderColor: `${theme.colors.outline}1A`,
+            },
+          ]}
+        >
+          <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Perfil activo</Text>
+          <ProfileDetail label="Autenticación" value={current.authBaseUrl} />
+          <ProfileDetail label="Base de datos" value={current.databaseBaseUrl} />
+          <ProfileDetail label="Nombre de la base" value={current.databaseName} />
+          <ProfileDetail
+            label="Transporte"
+            value={current.transport === "memory" ? "En memoria" : "HTTP"}
+          />
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.colors.surface,
+              borderColor: `${theme.colors.outline}1A`,
+            },
+          ]}
+        >
+          <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Perfiles</Text>
+          {profiles.map((profile, index) => (
+            <React.Fragment key={profile.id}>
+              {index > 0 ? <Divider /> : null}
+              <List.Item
+                title={profile.label}
+                description={`${profile.description}\n${profile.databaseName}`}
+                descriptionNumberOfLines={2}
+                disabled={switching}
+                onPress={() => handleSelect(profile)}
+                left={(props) => <List.Icon {...props} icon="server" />}
+                right={(props) =>
+                  profile.id === current.id ? <List.Icon {...props} icon="check-circle" color={GOLD} /> : null
+                }
+              />
+            </React.Fragment>
+          ))}
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.colors.surface,
+              borderColor: `${theme.colors.outline}1A`,
+            },
+          ]}
+        >
+          <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Herramientas</Text>
+          <List.Item
+            title="Inspector de red"
+            description="Peticiones recientes a ROBLE con sus tiempos y respuestas"
+            onPress={() => navigation.navigate("NetworkInspector")}
+            left={(props) => <List.Icon {...props} icon="lan" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          />
+        </View>
+
+        <View
+          style={[
+            styles.card,
+            {
+              backgroundColor: theme.colors.surface,
+              borderColor: `${theme.colors.outline}1A`,
+            },
+          ]}
+        >
+          <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Filas decodificadas</Text>
+          {decodeSummary.tables.length === 0 ? (
+            <Text style={[styles.detailValue, { color: theme.colors.onSurfaceVariant }]}>
+              Todavía no se ha leído ninguna tabla.
+            </Text>
+          ) : (
+            decodeSummary.tables.map((stats) => (
+              <ProfileDetail
+                key={stats.table}
+                label={stats.table}
+                value={`${stats.decoded} leídas · ${stats.withIssues} con avisos · ${stats.rejected} descartadas`}
+              />
+            ))
+          )}
+          {decodeSummary.samples.length > 0 ? (
+            <>
+              <Divider style={styles.divider} />
+              <Text style={[styles.detailLabel, { color: theme.colors.onSurfaceVariant }]}>Últimas filas con problemas</Text>
+              {decodeSummary.samples.map((sample, index) => (
+                <ProfileDetail
+                  key={`${sample.at}-${index}`}
+                  label={`${sample.table} · ${sample.rowId ?? "sin _id"}${sample.rejected ? " · descartada" : ""}`}
+                  value={sample.issues.map((issue) => `${issue.field}: ${issue.message}`).join("\n")}
+                />
+              ))}
+            </>
+          ) : null}
+          <View style={styles.actionsRow}>
+            <Button mode="text" onPress={refreshDecodeSummary}>
+              Actualizar
+            </Button>
+            <Button mode="text" disabled={decodeSummary.tables.length === 0} onPress={handleClearDecodeReport}>
+              Limpiar
+            </Button>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function ProfileDetail({ label, value }: { label: string; value: string }) {
+  const theme = useTheme();
+  return (
+    <View style={styles.detailRow}>
+      <Text style={[styles.detailLabel, { color: theme.colors.onSurfaceVariant }]}>{label}</Text>
+      <Text style={[styles.detailValue, { color: theme.colors.onSurface }]} selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+  },
+  card: {
+    marginBottom: 24,
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  detailRow: {
+    marginBottom: 10,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  detailValue: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  actionsRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,248 @@
+import { useNavigation } from "@react-navigation/native";
+import React, { useMemo, useState, useSyncExternalStore } from "react";
+import { Alert, ScrollView, Share, StyleSheet, View } from "react-native";
+import { Chip, Divider, IconButton, Text, TextInput, useTheme } from "react-native-paper";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { useDI } from "@/src/core/di/DIProvider";
+import { TOKENS } from "@/src/core/di/tokens";
+import {
+  exportRequestLog,
+  filterRequestLog,
+  RobleRequestLog,
+  RobleRequestLogEntry,
+  RobleRequestSource,
+} from "@/src/data/services/RobleRequestLog";
+
+const GOLD = "#FFD700";
+
+const SOURCE_FILTERS: { value: RobleRequestSource; label: string }[] = [
+  { value: "database", label: "Base de datos" },
+  { value: "auth", label: "Autenticación" },
+];
+
+const isFailure = (entry: RobleRequestLogEntry) =>
+  entry.error !== null || entry.status === null || entry.status >= 400;
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+};
+
+export default function NetworkInspectorScreen() {
+  const theme = useTheme();
+  const navigation = useNavigation<any>();
+  const di = useDI();
+  const requestLog = useMemo(() => di.resolve<RobleRequestLog>(TOKENS.RobleRequestLog), [di]);
+  const { entries } = useSyncExternalStore(
+    requestLog.subscribe.bind(requestLog),
+    requestLog.getSnapshot.bind(requestLog),
+  );
+
+  const [source, setSource] = useState<RobleRequestSource | null>(null);
+  const [onlyFailures, setOnlyFailures] = useState(false);
+  const [search, setSearch] = useState("");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const filtered = filterRequestLog(entries, { source, onlyFailures, search });
+
+  const handleExport = async () => {
+    if (!filtered.length) return;
+    try {
+      await Share.share({ title: "Registro de red ROBLE", message: exportRequestLog(filtered) });
+    } catch (error) {
+      Alert.alert("No se pudo exportar", error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert("Limpiar registro", "Se borrarán todas las peticiones registradas.", [
+      { text: "Cancelar", style: "cancel" },
+      { text: "Limpiar", style: "destructive", onPress: () => requestLog.clear() },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.headerRow}>
+        <IconButton icon="arrow-left" onPress={() => navigation.goBack()} />
+        <Text style={[styles.title, { color: theme.colors.onSurface }]}>Inspector de red</Text>
+        <View style={styles.headerActions}>
+          <IconButton icon="export-variant" disabled={!filtered.length} onPress={() => void handleExport()} />
+          <IconButton icon="delete-outline" disabled={!entries.length} onPress={handleClear} />
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <TextInput
+          mode="outlined"
+          dense
+          placeholder="Buscar por tabla, ruta o estado"
+          value={search}
+          onChangeText={setSearch}
+          left={<TextInput.Icon icon="magnify" />}
+        />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {SOURCE_FILTERS.map((filter) => (
+            <Chip
+              key={filter.value}
+              selected={source === filter.value}
+              onPress={() => setSource((prev) => (prev === filter.value ? null : filter.value))}
+              style={styles.chip}
+            >
+              {filter.label}
+            </Chip>
+          ))}
+          <Chip selected={onlyFailures} onPress={() => setOnlyFailures((prev) => !prev)} style={styles.chip}>
+            Solo errores
+          </Chip>
+        </ScrollView>
+        <Text style={[styles.counter, { color: theme.colors.onSurfaceVariant }]}>
+          {filtered.length} de {entries.length} peticiones
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {filtered.length === 0 ? (
+          <Text style={[styles.empty, { color: theme.colors.onSurfaceVariant }]}>
+            {entries.length ? "Ninguna petición coincide con los filtros." : "Todavía no hay peticiones registradas."}
+          </Text>
+        ) : (
+          filtered.map((entry, index) => (
+            <React.Fragment key={entry.id}>
+              {index > 0 ? <Divider /> : null}
+              <RequestRow
+                entry={entry}
+                expanded={expandedId === entry.id}
+                onToggle={() => setExpandedId((prev) => (prev === entry.id ? null : entry.id))}
+              />
+            </React.Fragment>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function RequestRow({
+  entry,
+  expanded,
+  onToggle,
+}: {
+  entry: RobleRequestLogEntry;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const theme = useTheme();
+  const failed = isFailure(entry);
+  const statusColor = failed ? theme.colors.error : GOLD;
+
+  return (
+    <View style={styles.row}>
+      <Text onPress={onToggle} style={[styles.rowTitle, { color: theme.colors.onSurface }]}>
+        <Text style={{ color: statusColor, fontWeight: "700" }}>{entry.status ?? "ERR"}</Text>
+        {`  ${entry.method} ${entry.operation}`}
+        {entry.table ? <Text style={{ color: theme.colors.onSurfaceVariant }}>{` · ${entry.table}`}</Text> : null}
+      </Text>
+      <Text style={[styles.rowMeta, { color: theme.colors.onSurfaceVariant }]}>
+        {`${formatTime(entry.startedAt)} · ${entry.durationMs} ms · ${entry.source}`}
+      </Text>
+      {expanded ? (
+        <View style={[styles.details, { backgroundColor: theme.colors.surfaceVariant }]}>
+          <Detail label="URL" value={entry.url} />
+          {Object.keys(entry.query).length ? (
+            <Detail label="Parámetros" value={JSON.stringify(entry.query, null, 2)} />
+          ) : null}
+          {entry.requestBody !== null ? (
+            <Detail label="Cuerpo enviado" value={JSON.stringify(entry.requestBody, null, 2)} />
+          ) : null}
+          {entry.error ? <Detail label="Error" value={entry.error} /> : null}
+          {entry.responseBody !== null ? (
+            <Detail label="Respuesta" value={JSON.stringify(entry.responseBody, null, 2)} />
+          ) : null}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  const theme = useTheme();
+  return (
+    <View style={styles.detailBlock}>
+      <Text style={[styles.detailLabel, { color: theme.colors.onSurfaceVariant }]}>{label}</Text>
+      <Text style={[styles.detailValue, { color: theme.colors.onSurface }]} selectable>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  headerActions: {
+    flexDirection: "row",
+    marginLeft: "auto",
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+  },
+  filters: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  chipRow: {
+    paddingVertical: 10,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  counter: {
+    fontSize: 12,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 60,
+  },
+  empty: {
+    textAlign: "center",
+    marginTop: 40,
+  },
+  row: {
+    paddingVertical: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  details: {
+    marginTop: 10,
+    padding: 12,
+    borderRadius: 12,
+  },
+  detailBlock: {
+    marginBottom: 10,
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  detailValue: {
+    fontFamily: "monospace",
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -1,19 +1,30 @@
 import { AppEventBus, EnrollmentJoinedEvent } from "@/src/core/events/AppEventBus";
+import { JoinCoursePayload, OUTBOX_KINDS } from "@/src/data/outbox/outboxHandlers";
+import { WriteOutbox } from "@/src/data/outbox/WriteOutbox";
+import { describeError } from "@/src/data/services/RobleErrors";
 import { Course } from "@/src/domain/models/Course";
-import { Enrollment } from "@/src/domain/models/Enrollment";
+import { Enrollment, enrollmentStatusOf } from "@/src/domain/models/Enrollment";
 import { User } from "@/src/domain/models/User";
 import { CourseRepository } from "@/src/domain/repositories/CourseRepository";
 import { EnrollmentRepository } from "@/src/domain/repositories/EnrollmentRepository";
 import { UserRepository } from "@/src/domain/repositories/UserRepository";
-import { EnrollToCourseUseCase } from "@/src/domain/usecases/enrollment/EnrollToCourseUseCase";
 import { GetMyEnrollmentsUseCase } from "@/src/domain/usecases/enrollment/GetMyEnrollmentsUseCase";
+import {
+  EnrollmentDecision,
+  ReviewEnrollmentRequestsResult,
+  ReviewEnrollmentRequestsUseCase,
+} from "@/src/domain/usecases/enrollment/ReviewEnrollmentRequestsUseCase";
 
 export type EnrollmentControllerState = {
   isLoading: boolean;
   error: string | null;
+  notice: string | null;
   myEnrollments: Enrollment[];
+  // Solicitudes propias que esperan la aprobación de un docente.
+  myPendingEnrollments: Enrollment[];
   enrollmentCounts: Record<string, number>;
   enrollmentsByCourse: Record<string, Enrollment[]>;
+  requestsByCourse: Record<string, Enrollment[]>;
   loadingCourseIds: string[];
   loadingCountCourseIds: string[];
 };
@@ -21,20 +32,24 @@ export type EnrollmentControllerState = {
 const INITIAL_STATE: EnrollmentControllerState = {
   isLoading: false,
   error: null,
+  notice: null,
   myEnrollments: [],
+  myPendingEnrollments: [],
   enrollmentCounts: {},
   enrollmentsByCourse: {},
+  requestsByCourse: {},
   loadingCourseIds: [],
   loadingCountCourseIds: [],
 };
 
 type Dependencies = {
-  enrollToCourseUseCase: EnrollToCourseUseCase;
   getMyEnrollmentsUseCase: GetMyEnrollmentsUseCase;
+  reviewEnrollmentRequestsUseCase: ReviewEnrollmentRequestsUseCase;
   enrollmentRepository: EnrollmentRepository;
   courseRepository: CourseRepository;
   userRepository: UserRepository;
   appEventBus: AppEventBus;
+  outbox: WriteOutbox;
   getCurrentUserId: () => Promise<string | null>;
 };
 
@@ -42,12 +57,13 @@ export class EnrollmentController {
   private state: EnrollmentControllerState = INITIAL_STATE;
   private readonly listeners = new Set<() => void>();
 
-  private readonly enrollToCourseUseCase: EnrollToCourseUseCase;
   private readonly getMyEnrollmentsUseCase: GetMyEnrollmentsUseCase;
+  private readonly reviewEnrollmentRequestsUseCase: ReviewEnrollmentRequestsUseCase;
   private readonly enrollmentRepository: EnrollmentRepository;
   private readonly courseRepository: CourseRepository;
   private readonly userRepository: UserRepository;
   private readonly appEventBus: AppEventBus;
+  private readonly outbox: WriteOutbox;
   private readonly getCurrentUserId: () => Promise<string | null>;
 
   private readonly coursesById = new Map<string, Course>();
@@ -56,20 +72,22 @@ export class EnrollmentController {
   private readonly loadingCountCourseIds = new Set<string>();
 
   constructor({
-    enrollToCourseUseCase,
     getMyEnrollmentsUseCase,
+    reviewEnrollmentRequestsUseCase,
     enrollmentRepository,
     courseRepository,
     userRepository,
     appEventBus,
+    outbox,
     getCurrentUserId,
   }: Dependencies) {
-    this.enrollToCourseUseCase = enrollToCourseUseCase;
     this.getMyEnrollmentsUseCase = getMyEnrollmentsUseCase;
+    this.reviewEnrollmentRequestsUseCase = reviewEnrollmentRequestsUseCase;
     this.enrollmentRepository = enrollmentRepository;
     this.courseRepository = courseRepository;
     this.userRepository = userRepository;
     this.appEventBus = appEventBus;
+    this.outbox = outbox;
     this.getCurrentUserId = getCurrentUserId;
   }
 
@@ -112,9 +130,11 @@ export class EnrollmentController {
 
     try {
       const enrollments = await this.getMyEnrollmentsUseCase.execute(userId);
+      const pending = enrollments.filter((enrollment) => enrollmentStatusOf(enrollment) === "pending");
       this.setState((prev) => ({
         ...prev,
-        myEnrollments: enrollments,
+        myEnrollments: enrollments.filter((enrollment) => enrollmentStatusOf(enrollment) === "active"),
+        myPendingEnrollments: pending,
       }));
 
       await Promise.all(
@@ -147,16 +167,31 @@ export class EnrollmentController {
       ...prev,
       isLoading: true,
       error: null,
+      notice: null,
     }));
 
     try {
-      const enrollment = await this.enrollToCourseUseCase.execute({
-        userId,
-        joinCode: joinCode.trim(),
-      });
+      const payload: JoinCoursePayload = { userId, joinCode: joinCode.trim() };
+      const submitted = await this.outbox.submit<Enrollment>(OUTBOX_KINDS.joinCourse, payload);
+      if (submitted.status === "queued") {
+        this.setState((prev) => ({
+          ...prev,
+          notice: "Sin conexión. Tu inscripción quedó guardada y se enviará automáticamente.",
+        }));
+        return null;
+      }
+      const enrollment = submitted.result;
 
       await this.loadMyEnrollments({ force: true });
 
+      if (enrollmentStatusOf(enrollment) === "pending") {
+        this.setState((prev) => ({
+          ...prev,
+          notice: "Tu solicitud quedó pendiente hasta que el docente la apruebe.",
+        }));
+        return enrollment;
+      }
+
       this.appEventBus.publish({
         type: "EnrollmentJoinedEvent",
         courseId: enrollment.courseId,
@@ -245,7 +280,7 @@ export class EnrollmentController {
     }
   }
 
-  async loadEnrollmentsForCourse(courseId: string, options: { force?: boolean } = {}) {
+  async loadEnrollmentsForCourse(courseId: string, options: { force?: boolean; signal?: AbortSignal } = {}) {
     if (!courseId) return;
     if (!options.force && this.state.enrollmentsByCourse[courseId]) return;
     if (this.loadingCourseIds.has(courseId)) return;
@@ -254,7 +289,7 @@ export class EnrollmentController {
     this.syncLoadingSets();
 
     try {
-      const list = await this.enrollmentRepository.getEnrollmentsByCourse(courseId);
+      const list = await this.enrollmentRepository.getEnrollmentsByCourse(courseId, { signal: options.signal });
       this.setState((prev) => ({
         ...prev,
         enrollmentsByCourse: { ...prev.enrollmentsByCourse, [courseId]: list },
@@ -267,6 +302,7 @@ export class EnrollmentController {
         }),
       );
     } catch (error) {
+      if (options.signal?.aborted) return;
       this.setError(error);
     } finally {
       this.loadingCourseIds.delete(courseId);
@@ -274,6 +310,69 @@ export class EnrollmentController {
     }
   }
 
+  requestsFor(courseId: string): Enrollment[] {
+    return this.state.requestsByCourse[courseId] ?? [];
+  }
+
+  async loadEnrollmentRequests(courseId: string, options: { signal?: AbortSignal } = {}) {
+    if (!courseId) return;
+    try {
+      const list = await this.enrollmentRepository.getEnrollmentsByCourse(courseId, {
+        includeInactive: true,
+        signal: options.signal,
+      });
+      const pending = list.filter((enrollment) => enrollmentStatusOf(enrollment) === "pending");
+      await Promise.all(pending.map((enrollment) => this.ensureUserLoaded(enrollment.studentId)));
+      this.setState((prev) => ({
+        ...prev,
+        requestsByCourse: { ...prev.requestsByCourse, [courseId]: pending },
+      }));
+    } catch (error) {
+      if (options.signal?.aborted) return;
+      this.setError(error);
+    }
+  }
+
+  async reviewEnrollmentRequests(
+    courseId: string,
+    enrollmentIds: string[],
+    decision: EnrollmentDecision,
+  ): Promise<ReviewEnrollmentRequestsResult | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) {
+      this.setError("Usuario no autenticado");
+      return null;
+    }
+
+    this.setState((prev) => ({
+      ...prev,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const result = await this.reviewEnrollmentRequestsUseCase.execute({
+        userId,
+        courseId,
+        enrollmentIds,
+        decision,
+      });
+      await Promise.all([
+        this.loadEnrollmentRequests(courseId),
+        decision === "approve" ? this.loadEnrollmentsForCourse(courseId, { force: true }) : Promise.resolve(),
+      ]);
+      return result;
+    } catch (error) {
+      this.setError(error);
+      return null;
+    } finally {
+      this.setState((prev) => ({
+        ...prev,
+        isLoading: false,
+      }));
+    }
+  }
+
   userName(userId: string): string {
     const user = this.usersById.get(userId);
     if (!user) {
@@ -315,9 +414,19 @@ export class EnrollmentController {
     this.setState((prev) => ({
       ...prev,
       error: null,
+      notice: null,
     }));
   }
 
+  reset() {
+    this.coursesById.clear();
+    this.usersById.clear();
+    this.loadingCourseIds.clear();
+    this.loadingCountCourseIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
   private async ensureCourseLoaded(courseId: string): Promise<Course | null> {
     if (!courseId) {
       return null;
@@ -348,7 +457,7 @@ export class EnrollmentController {
     if (options.silent) {
       return;
     }
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     this.setState((prev) => ({
       ...prev,
       error: message,
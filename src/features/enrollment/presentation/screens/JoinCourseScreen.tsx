@@ -1,5 +1,5 @@
-import { useNavigation } from "@react-navigation/native";
-import React, { useCallback, useMemo, useState } from "react";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
     Alert,
     KeyboardAvoidingView,
@@ -11,19 +11,33 @@ import {
 } from "react-native";
 import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
 
+import { enrollmentStatusOf } from "@/src/domain/models/Enrollment";
 import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
 
 const MIN_CODE_LENGTH = 4;
 
+type RouteParams = {
+  code?: string;
+};
+
 export default function JoinCourseScreen() {
   const theme = useTheme();
   const navigation = useNavigation<any>();
+  const route = useRoute();
+  const { code: linkedCode } = (route.params ?? {}) as RouteParams;
   const [state, controller] = useEnrollmentController();
 
-  const [code, setCode] = useState("");
+  const [code, setCode] = useState(linkedCode ?? "");
   const [fieldError, setFieldError] = useState<string | null>(null);
   const [touched, setTouched] = useState(false);
 
+  // Un enlace `courseven://join/<código>` puede llegar con la pantalla ya abierta.
+  useEffect(() => {
+    if (!linkedCode) return;
+    setCode(linkedCode);
+    setFieldError(null);
+  }, [linkedCode]);
+
   const validateCode = useCallback((value: string): string | null => {
     const trimmed = value.trim();
     if (trimmed.length === 0) {
@@ -60,7 +74,15 @@ export default function JoinCourseScreen() {
     const result = await controller.joinByCode(normalizedCode);
     const snapshot = controller.getSnapshot();
 
-    if (result) {
+    if (result && enrollmentStatusOf(result) === "pending") {
+      Alert.alert("Solicitud enviada", snapshot.notice ?? "El docente debe aprobar tu inscripción.", [
+        {
+          text: "Aceptar",
+          onPress: () => navigation.navigate("Home"),
+        },
+      ]);
+      setCode("");
+    } else if (result) {
       Alert.alert("¡Te uniste al curso!", "Inscripción creada correctamente", [
         {
           text: "Aceptar",
@@ -68,6 +90,14 @@ export default function JoinCourseScreen() {
         },
       ]);
       setCode("");
+    } else if (snapshot.notice) {
+      Alert.alert("Guardado sin conexión", snapshot.notice, [
+        {
+          text: "Aceptar",
+          onPress: () => navigation.navigate("Home"),
+        },
+      ]);
+      setCode("");
     } else if (snapshot.error) {
       setFieldError(snapshot.error);
     } else {
@@ -1,6 +1,9 @@
+import { ConflictError, describeError } from "@/src/data/services/RobleErrors";
 import { Group } from "@/src/domain/models/Group";
 import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
+import { ArchiveGroupUseCase } from "@/src/domain/usecases/group/ArchiveGroupUseCase";
 import { CreateGroupUseCase } from "@/src/domain/usecases/group/CreateGroupUseCase";
+import { UpdateGroupUseCase } from "@/src/domain/usecases/group/UpdateGroupUseCase";
 
 export type GroupControllerState = {
   isLoading: boolean;
@@ -8,11 +11,14 @@ export type GroupControllerState = {
   groupsByCourse: Record<string, Group[]>;
   groupsByCategory: Record<string, Group[]>;
   createdGroup: Group | null;
+  conflict: Group | null;
 };
 
 type Dependencies = {
   groupRepository: GroupRepository;
   createGroupUseCase: CreateGroupUseCase;
+  updateGroupUseCase: UpdateGroupUseCase;
+  archiveGroupUseCase: ArchiveGroupUseCase;
   getCurrentUserId: () => Promise<string | null>;
 };
 
@@ -22,6 +28,7 @@ const INITIAL_STATE: GroupControllerState = {
   groupsByCourse: {},
   groupsByCategory: {},
   createdGroup: null,
+  conflict: null,
 };
 
 export class GroupController {
@@ -32,11 +39,21 @@ export class GroupController {
 
   private readonly groupRepository: GroupRepository;
   private readonly createGroupUseCase: CreateGroupUseCase;
+  private readonly updateGroupUseCase: UpdateGroupUseCase;
+  private readonly archiveGroupUseCase: ArchiveGroupUseCase;
   private readonly getCurrentUserId: () => Promise<string | null>;
 
-  constructor({ groupRepository, createGroupUseCase, getCurrentUserId }: Dependencies) {
+  constructor({
+    groupRepository,
+    createGroupUseCase,
+    updateGroupUseCase,
+    archiveGroupUseCase,
+    getCurrentUserId,
+  }: Dependencies) {
     this.groupRepository = groupRepository;
     this.createGroupUseCase = createGroupUseCase;
+    this.updateGroupUseCase = updateGroupUseCase;
+    this.archiveGroupUseCase = archiveGroupUseCase;
     this.getCurrentUserId = getCurrentUserId;
   }
 
@@ -143,10 +160,11 @@ export class GroupController {
     }
   }
 
-  async updateGroup(group: Group): Promise<Group | null> {
-    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+  async updateGroup(group: Group, options: { force?: boolean } = {}): Promise<Group | null> {
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null, conflict: null }));
     try {
-      const updated = await this.groupRepository.updateGroup(group);
+      const userId = await this.getCurrentUserId();
+      const updated = await this.updateGroupUseCase.execute({ userId, group, force: options.force });
       this.setState((prev) => ({
         ...prev,
         groupsByCourse: {
@@ -164,6 +182,10 @@ export class GroupController {
       }));
       return updated;
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const latest = await this.groupRepository.getGroupById(group.id).catch(() => null);
+        this.setState((prev) => ({ ...prev, conflict: latest }));
+      }
       this.setError(error);
       return null;
     } finally {
@@ -174,7 +196,8 @@ export class GroupController {
   async deleteGroup(groupId: string, courseId: string, categoryId: string): Promise<boolean> {
     this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
     try {
-      await this.groupRepository.deleteGroup(groupId);
+      const userId = await this.getCurrentUserId();
+      await this.archiveGroupUseCase.execute({ userId, groupId });
       this.setState((prev) => ({
         ...prev,
         groupsByCourse: {
@@ -201,10 +224,21 @@ export class GroupController {
     this.setState((prev) => ({ ...prev, error: null }));
   }
 
+  clearConflict() {
+    this.setState((prev) => ({ ...prev, conflict: null }));
+  }
+
   clearCreatedGroup() {
     this.setState((prev) => ({ ...prev, createdGroup: null }));
   }
 
+  reset() {
+    this.loadingCourseIds.clear();
+    this.loadingCategoryIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
   private setState(updater: (prev: GroupControllerState) => GroupControllerState) {
     const next = updater(this.state);
     this.state = next;
@@ -212,7 +246,7 @@ export class GroupController {
   }
 
   private setError(error: unknown) {
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     this.setState((prev) => ({ ...prev, error: message }));
   }
 
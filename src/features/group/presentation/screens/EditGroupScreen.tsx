@@ -11,6 +11,8 @@ import {
 } from "react-native";
 import { Button, HelperText, Text, TextInput, useTheme } from "react-native-paper";
 
+import { promptConflictResolution } from "@/src/components/ConflictAlert";
+import { Group } from "@/src/domain/models/Group";
 import { useGroupController } from "@/src/features/group/hooks/useGroupController";
 
 type RouteParams = {
@@ -28,6 +30,7 @@ export default function EditGroupScreen() {
   const { groupId, courseId, categoryId } = (route.params ?? {}) as RouteParams;
   const [groupState, groupController] = useGroupController();
 
+  const [original, setOriginal] = useState<Group | null>(null);
   const [name, setName] = useState("");
   const [touched, setTouched] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -40,6 +43,7 @@ export default function EditGroupScreen() {
       const groups = groupController.groupsForCourse(courseId);
       const found = groups.find((g) => g.id === groupId);
       if (found) {
+        setOriginal(found);
         setName(found.name);
       } else {
         
@@ -54,6 +58,45 @@ export default function EditGroupScreen() {
     return null;
   }, [name]);
 
+  const save = useCallback(async (base: Group, draft: Group) => {
+    const updated = await groupController.updateGroup(draft);
+    const snapshot = groupController.getSnapshot();
+    if (updated) {
+      Alert.alert("Grupo actualizado", "El grupo se actualizó correctamente.", [
+        {
+          text: "Aceptar",
+          onPress: () => navigation.goBack(),
+        },
+      ]);
+      return;
+    }
+    const latest = snapshot.conflict;
+    if (!latest) {
+      setError(snapshot.error ?? "No se pudo actualizar el grupo");
+      return;
+    }
+    groupController.clearConflict();
+    setError(snapshot.error);
+    promptConflictResolution({
+      entityLabel: "este grupo",
+      base,
+      local: draft,
+      latest,
+      fieldLabels: { name: "Nombre" },
+      onReload: (stored) => {
+        setOriginal(stored);
+        setName(stored.name);
+        setError(null);
+      },
+      onMerge: (merged) => {
+        setOriginal(latest);
+        setName(merged.name);
+        setError(null);
+        void save(latest, merged);
+      },
+    });
+  }, [groupController, navigation]);
+
   const handleSubmit = useCallback(async () => {
     setTouched(true);
     setError(null);
@@ -67,28 +110,17 @@ export default function EditGroupScreen() {
       return;
     }
     
-    const groups = groupController.groupsForCourse(courseId);
-    const existing = groups.find((g) => g.id === groupId);
+    const existing =
+      original ?? groupController.groupsForCourse(courseId).find((g) => g.id === groupId);
     if (!existing) {
       setError("No se pudo obtener el grupo");
       return;
     }
-    const updated = await groupController.updateGroup({
+    await save(existing, {
       ...existing,
       name: name.trim(),
     });
-    const snapshot = groupController.getSnapshot();
-    if (updated) {
-      Alert.alert("Grupo actualizado", "El grupo se actualizó correctamente.", [
-        {
-          text: "Aceptar",
-          onPress: () => navigation.goBack(),
-        },
-      ]);
-    } else {
-      setError(snapshot.error ?? "No se pudo actualizar el grupo");
-    }
-  }, [groupController, groupId, courseId, categoryId, name, navigation, validate]);
+  }, [groupController, groupId, courseId, categoryId, name, original, save, validate]);
 
   const helperText = useMemo(() => {
     if (!touched) {
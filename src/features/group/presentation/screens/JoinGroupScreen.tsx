@@ -169,6 +169,10 @@ export default function JoinGroupScreen() {
         Alert.alert("Te uniste al grupo", "Ahora haces parte de este grupo.");
         return;
       }
+      if (snapshot.notice) {
+        Alert.alert("Guardado sin conexión", snapshot.notice);
+        return;
+      }
       const message = snapshot.error ?? "No fue posible unirse al grupo";
       setError(message);
     },
@@ -1,15 +1,17 @@
 import { useFocusEffect } from "@react-navigation/native";
-import { useCallback, useEffect, useMemo } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 
 import { useDI } from "@/src/core/di/DIProvider";
 import { TOKENS } from "@/src/core/di/tokens";
 import { AppEvent, AppEventBus } from "@/src/core/events/AppEventBus";
 import { RefreshManager } from "@/src/core/utils/RefreshManager";
+import { RobleReadCache } from "@/src/data/services/RobleReadCache";
 import { CourseController } from "@/src/features/course/controllers/CourseController";
 import { EnrollmentController } from "@/src/features/enrollment/controllers/EnrollmentController";
 
 const TTL_MS = 45_000;
 const POLLING_INTERVAL_MS = 60_000;
+const HOME_TABLES = ["courses", "enrollments"];
 
 export function useHomeRevalidation(
   courseController: CourseController,
@@ -27,8 +29,18 @@ export function useHomeRevalidation(
     [di],
   );
 
+  const readCache = useMemo(
+    () => di.resolve<RobleReadCache>(TOKENS.RobleReadCache),
+    [di],
+  );
+
+  const [staleSince, setStaleSince] = useState<number | null>(null);
+
   const revalidate = useCallback(
     async (force = false) => {
+      if (force) {
+        readCache.expire();
+      }
       await Promise.all([
         refreshManager.run({
           key: "home:teaching",
@@ -43,8 +55,9 @@ export function useHomeRevalidation(
           force,
         }),
       ]);
+      setStaleSince(readCache.staleSince(HOME_TABLES));
     },
-    [refreshManager, courseController, enrollmentController],
+    [refreshManager, readCache, courseController, enrollmentController],
   );
 
   useFocusEffect(
@@ -72,9 +85,16 @@ export function useHomeRevalidation(
       if (event.type === "EnrollmentJoinedEvent") {
         void revalidate(true);
       }
+      if (event.type === "DataRevalidatedEvent" && HOME_TABLES.includes(event.table)) {
+        // La caché ya tiene los datos nuevos: recargar solo los vuelve a leer de ahí.
+        void Promise.all([
+          courseController.loadMyTeachingCourses(),
+          enrollmentController.loadMyEnrollments(),
+        ]).then(() => setStaleSince(readCache.staleSince(HOME_TABLES)));
+      }
     });
     return unsubscribe;
-  }, [eventBus, revalidate]);
+  }, [eventBus, readCache, revalidate, courseController, enrollmentController]);
 
-  return { revalidate };
+  return { revalidate, staleSince };
 }
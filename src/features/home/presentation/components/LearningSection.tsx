@@ -12,6 +12,8 @@ export type LearningCourseItem = {
   title: string;
   teacherName: string;
   subtitle: string;
+  // La solicitud espera aprobación: se muestra, pero aún no abre el curso.
+  pending?: boolean;
 };
 
 type LearningSectionProps = {
@@ -63,8 +65,9 @@ export function LearningSection({
           <TouchableOpacity
             key={item.id}
             activeOpacity={0.8}
+            disabled={item.pending}
             onPress={() => onCoursePress(item.courseId)}
-            style={{ marginBottom: 12 }}
+            style={{ marginBottom: 12, opacity: item.pending ? 0.7 : 1 }}
           >
             <View
               style={[
@@ -77,7 +80,7 @@ export function LearningSection({
               ]}
             >
               <View style={[styles.iconWrapper, { backgroundColor: "rgba(255,152,0,0.12)" }]}> 
-                <MaterialIcons name="menu-book" size={24} color={ORANGE} />
+                <MaterialIcons name={item.pending ? "hourglass-empty" : "menu-book"} size={24} color={ORANGE} />
               </View>
               <View style={styles.textContent}>
                 <Text
@@ -93,12 +96,14 @@ export function LearningSection({
                   {item.subtitle}
                 </Text>
               </View>
-              <MaterialIcons
-                name="chevron-right"
-                size={20}
-                color={onSurfaceColor}
-                style={{ opacity: 0.3 }}
-              />
+              {item.pending ? null : (
+                <MaterialIcons
+                  name="chevron-right"
+                  size={20}
+                  color={onSurfaceColor}
+                  style={{ opacity: 0.3 }}
+                />
+              )}
             </View>
           </TouchableOpacity>
         ))
@@ -0,0 +1,138 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import { Button, Text } from "react-native-paper";
+
+import { OutboxEntry } from "@/src/data/outbox/WriteOutbox";
+
+const ORANGE = "#FF9800";
+
+type OutboxSectionProps = {
+  entries: OutboxEntry[];
+  isReplaying: boolean;
+  cardColor: string;
+  outlineColor: string;
+  onSurfaceColor: string;
+  errorColor: string;
+  shadowColor: string;
+  onRetryAll: () => void;
+  onRetry: (entryId: string) => void;
+  onDiscard: (entry: OutboxEntry) => void;
+};
+
+/** Escrituras hechas sin conexión que siguen en la cola: las pendientes y las que el servidor rechazó. */
+export function OutboxSection({
+  entries,
+  isReplaying,
+  cardColor,
+  outlineColor,
+  onSurfaceColor,
+  errorColor,
+  shadowColor,
+  onRetryAll,
+  onRetry,
+  onDiscard,
+}: OutboxSectionProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const pendingCount = entries.filter((entry) => entry.status === "pending").length;
+
+  return (
+    <View style={[styles.card, { backgroundColor: cardColor, borderColor: outlineColor, shadowColor }]}>
+      <View style={styles.headerRow}>
+        <MaterialIcons name="cloud-upload" size={22} color={ORANGE} style={styles.headerIcon} />
+        <Text style={[styles.title, { color: onSurfaceColor }]}>Cambios sin enviar</Text>
+        {pendingCount > 0 ? (
+          <Button mode="text" compact onPress={onRetryAll} loading={isReplaying} disabled={isReplaying}>
+            Enviar ahora
+          </Button>
+        ) : null}
+      </View>
+
+      {entries.map((entry) => {
+        const failed = entry.status === "failed";
+        return (
+          <View key={entry.id} style={[styles.entry, { borderTopColor: outlineColor }]}>
+            <MaterialIcons
+              name={failed ? "error-outline" : "schedule"}
+              size={18}
+              color={failed ? errorColor : onSurfaceColor}
+              style={styles.entryIcon}
+            />
+            <View style={styles.entryContent}>
+              <Text style={[styles.entryLabel, { color: onSurfaceColor }]} numberOfLines={1}>
+                {entry.label}
+              </Text>
+              <Text style={[styles.entryStatus, { color: failed ? errorColor : onSurfaceColor }]} numberOfLines={2}>
+                {failed
+                  ? `No se pudo enviar: ${entry.lastError ?? "error desconocido"}`
+                  : "Se enviará cuando vuelva la conexión"}
+              </Text>
+            </View>
+            {failed ? (
+              <Button mode="text" compact onPress={() => onRetry(entry.id)} disabled={isReplaying}>
+                Reintentar
+              </Button>
+            ) : null}
+            <Button mode="text" compact textColor={errorColor} onPress={() => onDiscard(entry)} disabled={isReplaying}>
+              Descartar
+            </Button>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowOpacity: 0.05,
+    shadowRadius: 10,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    elevation: 1,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  headerIcon: {
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderTopWidth: 1,
+    paddingVertical: 8,
+  },
+  entryIcon: {
+    marginRight: 10,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  entryStatus: {
+    marginTop: 2,
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
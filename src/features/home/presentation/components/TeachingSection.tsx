@@ -11,6 +11,8 @@ export type TeachingCourseItem = {
   id: string;
   name: string;
   joinCode: string;
+  // Solo para cursos en los que el usuario es co-docente o asistente.
+  roleLabel?: string;
 };
 
 type TeachingSectionProps = {
@@ -40,13 +42,15 @@ export function TeachingSection({
   onSeeAll,
   maxCourses,
 }: TeachingSectionProps) {
+  // El límite de cursos activos aplica a los cursos propios, no a los que se apoyan como equipo.
+  const ownedActiveCount = activeCourses.filter((course) => !course.roleLabel).length;
   return (
     <View>
       <View style={styles.headerRow}>
         <Text style={[styles.sectionTitle, { color: onSurfaceColor }]}>Mi enseñanza</Text>
         <View style={styles.badge}>
           <Text style={styles.badgeText}>
-            {activeCourses.length}/{maxCourses} activos
+            {ownedActiveCount}/{maxCourses} activos
           </Text>
         </View>
       </View>
@@ -89,7 +93,9 @@ export function TeachingSection({
                 >
                   {course.name}
                 </Text>
-                <Text style={[styles.courseSubtitle, { color: onSurfaceColor }]}>Código: {course.joinCode}</Text>
+                <Text style={[styles.courseSubtitle, { color: onSurfaceColor }]}>
+                  {course.roleLabel ? `${course.roleLabel} • ` : ""}Código: {course.joinCode}
+                </Text>
               </View>
               <MaterialIcons
                 name="chevron-right"
@@ -1,15 +1,19 @@
 import { useNavigation } from "@react-navigation/native";
-import React, { useCallback, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
+    Alert,
     RefreshControl,
     SafeAreaView,
     ScrollView,
     StyleSheet,
     View,
 } from "react-native";
-import { FAB, useTheme } from "react-native-paper";
+import { FAB, Text, useTheme } from "react-native-paper";
 
 import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { useWriteOutbox } from "@/src/data/outbox/hooks/useWriteOutbox";
+import { OutboxEntry } from "@/src/data/outbox/WriteOutbox";
+import { COURSE_STAFF_ROLE_LABELS } from "@/src/domain/models/CourseStaff";
 import { CreateCourseUseCase } from "@/src/domain/usecases/course/CreateCourseUseCase";
 import { useAuth } from "@/src/features/auth/presentation/context/authContext";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
@@ -17,6 +21,7 @@ import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnro
 import { useHomeRevalidation } from "@/src/features/home/hooks/useHomeRevalidation";
 import { InformationSection } from "../components/InformationSection";
 import { LearningCourseItem, LearningSection } from "../components/LearningSection";
+import { OutboxSection } from "../components/OutboxSection";
 import { TeachingCourseItem, TeachingSection } from "../components/TeachingSection";
 import { WelcomeCard } from "../components/WelcomeCard";
 
@@ -32,7 +37,12 @@ export default function HomeScreen() {
   const [courseState, courseController] = useCourseController();
   const [enrollmentState, enrollmentController] = useEnrollmentController();
 
-  const { revalidate } = useHomeRevalidation(courseController, enrollmentController);
+  const { revalidate, staleSince } = useHomeRevalidation(courseController, enrollmentController);
+  const [outboxState, outbox] = useWriteOutbox();
+
+  useEffect(() => {
+    void outbox.load();
+  }, [outbox]);
 
   const [refreshing, setRefreshing] = useState(false);
 
@@ -46,15 +56,24 @@ export default function HomeScreen() {
   }, [revalidate]);
 
   const teachingCourses: TeachingCourseItem[] = useMemo(
-    () =>
-      courseState.teacherCourses
+    () => [
+      ...courseState.teacherCourses
         .filter((course) => course.isActive)
         .map((course) => ({
           id: course.id,
           name: course.name,
           joinCode: course.joinCode,
         })),
-    [courseState.teacherCourses],
+      ...courseState.staffCourses
+        .filter((course) => course.isActive)
+        .map((course) => ({
+          id: course.id,
+          name: course.name,
+          joinCode: course.joinCode,
+          roleLabel: COURSE_STAFF_ROLE_LABELS[courseState.staffRoles[course.id] ?? "assistant"],
+        })),
+    ],
+    [courseState.staffCourses, courseState.staffRoles, courseState.teacherCourses],
   );
 
   const inactiveTeachingCount = useMemo(
@@ -71,7 +90,19 @@ export default function HomeScreen() {
       minute: "2-digit",
     });
 
-    return enrollmentState.myEnrollments
+    const pendingItems = enrollmentState.myPendingEnrollments.map(
+      (enrollment) =>
+        ({
+          id: enrollment.id,
+          courseId: enrollment.courseId,
+          title: enrollmentController.getCourseTitle(enrollment.courseId),
+          teacherName: enrollmentController.getCourseTeacherName(enrollment.courseId),
+          subtitle: "Pendiente de aprobación del docente",
+          pending: true,
+        }) satisfies LearningCourseItem,
+    );
+
+    const activeItems = enrollmentState.myEnrollments
       .filter((enrollment) => enrollmentController.isCourseActive(enrollment.courseId) !== false)
       .map((enrollment) => {
         const courseTitle = enrollmentController.getCourseTitle(enrollment.courseId);
@@ -103,7 +134,17 @@ export default function HomeScreen() {
           subtitle: subtitleParts.join(" • "),
         } satisfies LearningCourseItem;
       });
-  }, [enrollmentState.myEnrollments, enrollmentController]);
+
+    return [...pendingItems, ...activeItems];
+  }, [enrollmentState.myEnrollments, enrollmentState.myPendingEnrollments, enrollmentController]);
+
+  const staleLabel = useMemo(() => {
+    if (staleSince === null) return null;
+    const time = new Intl.DateTimeFormat("es-CO", { hour: "2-digit", minute: "2-digit" }).format(
+      new Date(staleSince),
+    );
+    return `Mostrando datos guardados a las ${time}`;
+  }, [staleSince]);
 
   const backgroundColor = theme.colors.background;
   const cardColor = theme.colors.surface;
@@ -139,6 +180,26 @@ export default function HomeScreen() {
     navigation.navigate("AllCourses", { mode: "learning" });
   }, [navigation]);
 
+  const handleRetryOutbox = useCallback(
+    (entryId?: string) => {
+      const run = entryId ? outbox.retry(entryId) : outbox.replay();
+      void run.catch((error) => {
+        console.debug("[OUTBOX] Reenvío interrumpido", error);
+      });
+    },
+    [outbox],
+  );
+
+  const handleDiscardOutbox = useCallback(
+    (entry: OutboxEntry) => {
+      Alert.alert("Descartar cambio", `«${entry.label}» no se enviará. ¿Deseas descartarlo?`, [
+        { text: "Cancelar", style: "cancel" },
+        { text: "Descartar", style: "destructive", onPress: () => void outbox.discard(entry.id) },
+      ]);
+    },
+    [outbox],
+  );
+
   const handleActivitiesPress = useCallback(() => {
     // TODO: Navigate to activities screen when implemented
   }, []);
@@ -172,6 +233,23 @@ export default function HomeScreen() {
             email={user?.email ?? ""}
           />
 
+          {staleLabel ? (
+            <Text style={[styles.staleNotice, { color: onSurface }]}>{staleLabel}</Text>
+          ) : null}
+
+          <OutboxSection
+            entries={outboxState.entries}
+            isReplaying={outboxState.isReplaying}
+            cardColor={cardColor}
+            outlineColor={`${outlineColor}33`}
+            onSurfaceColor={onSurface}
+            errorColor={theme.colors.error}
+            shadowColor={shadowColor}
+            onRetryAll={() => handleRetryOutbox()}
+            onRetry={handleRetryOutbox}
+            onDiscard={handleDiscardOutbox}
+          />
+
           <View style={{ height: SECTION_SPACING }} />
 
           <TeachingSection
@@ -238,6 +316,12 @@ const styles = StyleSheet.create({
     paddingBottom: 120,
     paddingTop: 36,
   },
+  staleNotice: {
+    marginTop: 12,
+    fontSize: 12,
+    opacity: 0.7,
+    textAlign: "center",
+  },
   fab: {
     position: "absolute",
     right: 24,
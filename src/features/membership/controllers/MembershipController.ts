@@ -1,27 +1,31 @@
 import { AppEventBus, MembershipJoinedEvent } from "@/src/core/events/AppEventBus";
+import { JoinGroupPayload, OUTBOX_KINDS } from "@/src/data/outbox/outboxHandlers";
+import { WriteOutbox } from "@/src/data/outbox/WriteOutbox";
+import { describeError } from "@/src/data/services/RobleErrors";
 import { Membership } from "@/src/domain/models/Membership";
 import { GroupRepository } from "@/src/domain/repositories/GroupRepository";
 import { MembershipRepository } from "@/src/domain/repositories/MembershipRepository";
-import { JoinGroupUseCase } from "@/src/domain/usecases/membership/JoinGroupUseCase";
 
 export type MembershipControllerState = {
   isLoading: boolean;
   error: string | null;
+  notice: string | null;
   myGroupIds: string[];
   groupMemberCounts: Record<string, number>;
 };
 
 type Dependencies = {
-  joinGroupUseCase: JoinGroupUseCase;
   membershipRepository: MembershipRepository;
   groupRepository: GroupRepository;
   appEventBus: AppEventBus;
+  outbox: WriteOutbox;
   getCurrentUserId: () => Promise<string | null>;
 };
 
 const INITIAL_STATE: MembershipControllerState = {
   isLoading: false,
   error: null,
+  notice: null,
   myGroupIds: [],
   groupMemberCounts: {},
 };
@@ -32,23 +36,23 @@ export class MembershipController {
   private readonly myGroupIdsSet = new Set<string>();
   private readonly loadingCounts = new Set<string>();
 
-  private readonly joinGroupUseCase: JoinGroupUseCase;
   private readonly membershipRepository: MembershipRepository;
   private readonly groupRepository: GroupRepository;
   private readonly appEventBus: AppEventBus;
+  private readonly outbox: WriteOutbox;
   private readonly getCurrentUserId: () => Promise<string | null>;
 
   constructor({
-    joinGroupUseCase,
     membershipRepository,
     groupRepository,
     appEventBus,
+    outbox,
     getCurrentUserId,
   }: Dependencies) {
-    this.joinGroupUseCase = joinGroupUseCase;
     this.membershipRepository = membershipRepository;
     this.groupRepository = groupRepository;
     this.appEventBus = appEventBus;
+    this.outbox = outbox;
     this.getCurrentUserId = getCurrentUserId;
   }
 
@@ -108,17 +112,16 @@ export class MembershipController {
     this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const entries = await Promise.all(
-        targetIds.map(async (groupId) => {
-          const members = await this.membershipRepository.getMembershipsByGroupId(groupId);
-          return [groupId, members.length] as const;
-        }),
-      );
+      const members = await this.membershipRepository.getMembershipsByGroupIds(targetIds);
+      const counts: Record<string, number> = Object.fromEntries(targetIds.map((id) => [id, 0]));
+      for (const member of members) {
+        counts[member.groupId] = (counts[member.groupId] ?? 0) + 1;
+      }
       this.setState((prev) => ({
         ...prev,
         groupMemberCounts: {
           ...prev.groupMemberCounts,
-          ...Object.fromEntries(entries),
+          ...counts,
         },
       }));
     } catch (error) {
@@ -156,10 +159,19 @@ export class MembershipController {
       return null;
     }
 
-    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null, notice: null }));
 
     try {
-      const membership = await this.joinGroupUseCase.execute({ userId, groupId });
+      const payload: JoinGroupPayload = { userId, groupId };
+      const submitted = await this.outbox.submit<Membership>(OUTBOX_KINDS.joinGroup, payload);
+      if (submitted.status === "queued") {
+        this.setState((prev) => ({
+          ...prev,
+          notice: "Sin conexión. Tu solicitud para unirte quedó guardada y se enviará automáticamente.",
+        }));
+        return null;
+      }
+      const membership = submitted.result;
       this.myGroupIdsSet.add(groupId);
       this.syncGroupIds();
 
@@ -184,7 +196,14 @@ export class MembershipController {
   }
 
   clearError() {
-    this.setState((prev) => ({ ...prev, error: null }));
+    this.setState((prev) => ({ ...prev, error: null, notice: null }));
+  }
+
+  reset() {
+    this.myGroupIdsSet.clear();
+    this.loadingCounts.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
   }
 
   private syncGroupIds() {
@@ -201,7 +220,7 @@ export class MembershipController {
   }
 
   private setError(error: unknown) {
-    const message = error instanceof Error ? error.message : String(error ?? "Error desconocido");
+    const message = describeError(error);
     this.setState((prev) => ({ ...prev, error: message }));
   }
 
@@ -1,5 +1,14 @@
+import {
+  AssessmentRecord,
+  assessmentRecordSchema,
+  ASSESSMENTS_TABLE,
+  mapAssessmentRecordToEntity,
+} from "@/src/data/models/roble/AssessmentRecord";
+import { RecordDecodeMode, RecordDecoder } from "@/src/data/models/roble/RecordDecoder";
+import { RecordDecodeReport } from "@/src/data/models/roble/RecordDecodeReport";
+import { RobleServerError } from "@/src/data/services/RobleErrors";
 import { RobleService } from "@/src/data/services/RobleService";
-import { Assessment } from "@/src/domain/models/Assessment";
+import { ANONYMIZED_USER_ID, Assessment } from "@/src/domain/models/Assessment";
 import {
   ActivityPeerReviewSummary,
   CoursePeerReviewSummary,
@@ -12,13 +21,24 @@ import {
 import ComputeCourseSummaryUseCase from "@/src/features/peerReview/domain/usecases/ComputeCourseSummaryUseCase";
 import ComputeActivitySummaryUseCase from "@/src/features/peerReview/domain/usecases/ComputeActivitySummaryUseCase";
 
+type Dependencies = {
+  getAccessToken?: () => Promise<string | null>;
+  decodeMode?: RecordDecodeMode;
+  decodeReport?: RecordDecodeReport;
+};
+
 export class AssessmentRepositoryImpl {
   private robleService: RobleService;
   private getAccessToken?: () => Promise<string | null>;
+  private readonly records: RecordDecoder<AssessmentRecord>;
 
-  constructor(robleService: RobleService, deps: { getAccessToken?: () => Promise<string | null> } = {}) {
+  constructor(robleService: RobleService, deps: Dependencies = {}) {
     this.robleService = robleService;
     this.getAccessToken = deps.getAccessToken;
+    this.records = new RecordDecoder(assessmentRecordSchema, {
+      mode: deps.decodeMode,
+      report: deps.decodeReport,
+    });
   }
 
   private async requireToken(): Promise<string> {
@@ -44,13 +64,12 @@ export class AssessmentRepositoryImpl {
     try {
       const rows = await this.robleService.readTable({
         accessToken: token,
-        table: "assestments",
+        table: ASSESSMENTS_TABLE,
         query,
       });
-      return rows.map((row: any) => this._fromMap(row));
+      return this.records.many(rows).map(mapAssessmentRecordToEntity);
     } catch (error) {
-      const message = String(error);
-      if (message.includes("DB read assessments failed: 500")) {
+      if (error instanceof RobleServerError && error.status === 500) {
         console.warn(`[ASSESSMENTS][READ] Backend devolvió 500 para query=${JSON.stringify(query)}, asumiendo lista vacía.`);
         return [];
       }
@@ -58,37 +77,6 @@ export class AssessmentRepositoryImpl {
     }
   }
 
-  private _fromMap(row: any): Assessment {
-    // overall_score viene como número (multiplicado por 10), dividir por 10
-    const overallRaw = row.overall_score;
-    let overallScore: number | null = null;
-    if (overallRaw != null) {
-      overallScore = overallRaw / 10;
-    } else {
-      // Si no existe, calcularlo como promedio de los 4 scores
-      const p = row.punctuality_score ?? 0;
-      const c = row.contributions_score ?? 0;
-      const cm = row.commitment_score ?? 0;
-      const a = row.attitude_score ?? 0;
-      overallScore = (p + c + cm + a) / 4.0;
-    }
-    
-    return {
-      id: row._id ?? row.id ?? "",
-      activityId: row.activity_id ?? "",
-      studentId: row.reviewed ?? "",
-      groupId: row.group_id ?? "",
-      reviewerId: row.reviewer ?? "",
-      punctualityScore: row.punctuality_score ?? 0,
-      contributionsScore: row.contributions_score ?? 0,
-      commitmentScore: row.commitment_score ?? 0,
-      attitudeScore: row.attitude_score ?? 0,
-      overallScorePersisted: overallScore,
-      createdAt: row.created_at ?? "",
-      updatedAt: row.updated_at ?? null,
-    };
-  }
-
   async getAssessmentsByActivity(activityId: string): Promise<Assessment[]> {
     return this._readAssessments({ activity_id: activityId });
   }
@@ -147,7 +135,7 @@ export class AssessmentRepositoryImpl {
     
     const response = await this.robleService.insertRecords({
       accessToken: token,
-      table: "assestments",
+      table: ASSESSMENTS_TABLE,
       records: [insertPayload],
     });
 
@@ -177,7 +165,7 @@ export class AssessmentRepositoryImpl {
         console.log(`[ASSESSMENTS][OVERALL][UPDATE] _id=${generatedId} overall_score=${overallRounded} (scaled=${overallStored})`);
         await this.robleService.updateRow({
           accessToken: token,
-          table: "assestments",
+          table: ASSESSMENTS_TABLE,
           id: generatedId,
           updates: { overall_score: overallStored },
         });
@@ -200,7 +188,7 @@ export class AssessmentRepositoryImpl {
       created_at: raw.created_at ?? assessment.createdAt,
     };
 
-    const result = this._fromMap(enriched);
+    const result = mapAssessmentRecordToEntity(this.records.written(enriched));
     // Asegurar que overallScorePersisted esté calculado
     if (result.overallScorePersisted === null) {
       result.overallScorePersisted = overallRounded;
@@ -208,6 +196,16 @@ export class AssessmentRepositoryImpl {
     return result;
   }
 
+  async purgeAssessment(assessmentId: string): Promise<boolean> {
+    const token = await this.requireToken();
+    await this.robleService.deleteRow({
+      accessToken: token,
+      table: ASSESSMENTS_TABLE,
+      id: assessmentId,
+    });
+    return true;
+  }
+
   async getAssessmentsForStudentAcrossActivities(activityIds: string[], studentId: string): Promise<Assessment[]> {
     if (activityIds.length === 0) return [];
 
@@ -222,6 +220,29 @@ export class AssessmentRepositoryImpl {
     return all;
   }
 
+  async getAssessmentsGivenBy(reviewerId: string): Promise<Assessment[]> {
+    return this._readAssessments({ reviewer: reviewerId });
+  }
+
+  async getAssessmentsReceivedBy(studentId: string): Promise<Assessment[]> {
+    return this._readAssessments({ reviewed: studentId });
+  }
+
+  async anonymizeAssessment(assessment: Assessment, userId: string): Promise<void> {
+    const updates: Record<string, string> = {};
+    if (assessment.reviewerId === userId) updates.reviewer = ANONYMIZED_USER_ID;
+    if (assessment.studentId === userId) updates.reviewed = ANONYMIZED_USER_ID;
+    if (Object.keys(updates).length === 0) return;
+
+    const token = await this.requireToken();
+    await this.robleService.updateRow({
+      accessToken: token,
+      table: ASSESSMENTS_TABLE,
+      id: assessment.id,
+      updates,
+    });
+  }
+
   async listPendingPeerIds(params: {
     activityId: string;
     groupId: string;
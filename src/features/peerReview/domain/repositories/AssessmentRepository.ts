@@ -11,7 +11,12 @@ export interface AssessmentRepository {
   getAssessmentsReceivedByStudent(activityId: string, studentId: string): Promise<Assessment[]>;
   existsAssessment(params: { activityId: string; reviewerId: string; studentId: string }): Promise<boolean>;
   createAssessment(assessment: Assessment): Promise<Assessment>;
+  purgeAssessment(assessmentId: string): Promise<boolean>;
   getAssessmentsForStudentAcrossActivities(activityIds: string[], studentId: string): Promise<Assessment[]>;
+  getAssessmentsGivenBy(reviewerId: string): Promise<Assessment[]>;
+  getAssessmentsReceivedBy(studentId: string): Promise<Assessment[]>;
+  // Reemplaza al usuario por `ANONYMIZED_USER_ID` en el papel (evaluador, evaluado o ambos) que ocupe.
+  anonymizeAssessment(assessment: Assessment, userId: string): Promise<void>;
   listPendingPeerIds(params: {
     activityId: string;
     groupId: string;
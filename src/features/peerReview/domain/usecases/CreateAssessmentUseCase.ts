@@ -0,0 +1,29 @@
+import { Assessment } from "@/src/domain/models/Assessment";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CourseActivityRepository } from "@/src/domain/repositories/CourseActivityRepository";
+import { AssessmentRepository } from "../repositories/AssessmentRepository";
+
+export class CreateAssessmentUseCase {
+  constructor(
+    private readonly assessmentRepository: AssessmentRepository,
+    private readonly activityRepository: CourseActivityRepository,
+    private readonly accessGuard: CourseAccessGuard,
+  ) {}
+
+  async execute(assessment: Assessment): Promise<Assessment> {
+    // El curso se toma de la actividad y no del cliente, que solo conoce el id de la actividad.
+    const activity = await this.activityRepository.getActivityById(assessment.activityId);
+    if (!activity) {
+      throw new Error("Actividad no encontrada");
+    }
+    await this.accessGuard.authorize(assessment.reviewerId, "assessment.submit", activity.courseId);
+
+    if (assessment.reviewerId === assessment.studentId) {
+      throw new Error("No puedes evaluarte a ti mismo");
+    }
+
+    return this.assessmentRepository.createAssessment(assessment);
+  }
+}
+
+export default CreateAssessmentUseCase;
@@ -0,0 +1,74 @@
+import { CourseActivityRepositoryImpl } from "@/src/data/repositories/CourseActivityRepositoryImpl";
+import { CourseRepositoryImpl } from "@/src/data/repositories/CourseRepositoryImpl";
+import { CourseStaffRepositoryImpl } from "@/src/data/repositories/CourseStaffRepositoryImpl";
+import { EnrollmentRepositoryImpl } from "@/src/data/repositories/EnrollmentRepositoryImpl";
+import { InMemoryRobleTransport } from "@/src/data/services/InMemoryRobleTransport";
+import { RobleService } from "@/src/data/services/RobleService";
+import { Assessment } from "@/src/domain/models/Assessment";
+import { ForbiddenError } from "@/src/domain/policies/AccessPolicy";
+import { CourseAccessGuard } from "@/src/domain/policies/CourseAccessGuard";
+import { CreateAssessmentUseCase } from "../CreateAssessmentUseCase";
+
+const build = () => {
+  const transport = new InMemoryRobleTransport();
+  transport.seed("courses", [{ _id: "k1", name: "Algoritmos", teacher_id: "t1", is_active: true }]);
+  transport.seed("enrollments", [
+    { _id: "e1", user_id: "s1", course_id: "k1", is_active: true },
+    { _id: "e2", user_id: "s2", course_id: "k1", is_active: true },
+  ]);
+  transport.seed("activities", [
+    { _id: "act1", title: "Entrega 1", category_id: "cat1", course_id: "k1", is_active: true },
+  ]);
+  const service = new RobleService(
+    { databaseBaseUrl: "https://roble.test/database", databaseName: "testdb" },
+    transport,
+  );
+  const deps = { getAccessToken: async () => "token" };
+  const guard = new CourseAccessGuard(
+    new CourseRepositoryImpl(service, deps),
+    new EnrollmentRepositoryImpl(service, deps),
+    new CourseStaffRepositoryImpl(service, deps),
+  );
+  const assessmentRepository: any = {
+    createAssessment: jest.fn(async (assessment: Assessment) => ({ ...assessment, id: "a1" })),
+  };
+  const useCase = new CreateAssessmentUseCase(
+    assessmentRepository,
+    new CourseActivityRepositoryImpl(service, deps),
+    guard,
+  );
+  return { assessmentRepository, useCase };
+};
+
+const assessment = (reviewerId: string, studentId: string): Assessment => ({
+  id: "",
+  activityId: "act1",
+  groupId: "g1",
+  reviewerId,
+  studentId,
+  punctualityScore: 4,
+  contributionsScore: 4,
+  commitmentScore: 4,
+  attitudeScore: 4,
+  overallScorePersisted: 4,
+  createdAt: "2024-03-01T00:00:00.000Z",
+  updatedAt: null,
+});
+
+describe("CreateAssessmentUseCase", () => {
+  it("lets enrolled students review their peers", async () => {
+    const { assessmentRepository, useCase } = build();
+
+    await expect(useCase.execute(assessment("s1", "s2"))).resolves.toMatchObject({ id: "a1" });
+    expect(assessmentRepository.createAssessment).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects reviewers outside the course of the activity", async () => {
+    const { assessmentRepository, useCase } = build();
+
+    await expect(useCase.execute(assessment("t1", "s2"))).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(useCase.execute(assessment("intruso", "s2"))).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(useCase.execute(assessment("s1", "s1"))).rejects.toThrow("ti mismo");
+    expect(assessmentRepository.createAssessment).not.toHaveBeenCalled();
+  });
+});
@@ -9,11 +9,14 @@ import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
 import { CourseActivity } from "@/src/domain/models/CourseActivity";
 import { Group } from "@/src/domain/models/Group";
 import { CoursePeerReviewSummary, GroupCrossActivityStats, ScoreAverages } from "@/src/domain/models/PeerReviewSummaries";
+import { can } from "@/src/domain/policies/AccessPolicy";
 import { useActivityController } from "@/src/features/activity/hooks/useActivityController";
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
 import { useCourseController } from "@/src/features/course/hooks/useCourseController";
 import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
 import { useGroupController } from "@/src/features/group/hooks/useGroupController";
 import { usePeerReviewController } from "@/src/features/peerReview/hooks/usePeerReviewController";
+import { useCourseStaffController } from "@/src/features/staff/hooks/useCourseStaffController";
 
 type RouteParams = {
   courseId: string;
@@ -27,15 +30,19 @@ const CoursePeerReviewSummaryScreen = () => {
 
   const theme = useTheme();
   const insets = useSafeAreaInsets();
+  const { user } = useAuth();
 
   const [, courseController] = useCourseController();
   const [, activityController] = useActivityController();
   const [, groupController] = useGroupController();
   const [, enrollmentController] = useEnrollmentController();
   const [peerReviewState, peerReviewController] = usePeerReviewController();
+  const [, courseStaffController] = useCourseStaffController();
 
   const [refreshing, setRefreshing] = useState(false);
   const [course, setCourse] = useState<any>(null);
+  // `null` mientras no se sabe si el usuario enseña en el curso.
+  const [canViewResults, setCanViewResults] = useState<boolean | null>(null);
 
   const currentActivityIds = useMemo(() => {
     if (activityIds && activityIds.length > 0) return activityIds;
@@ -48,10 +55,18 @@ const CoursePeerReviewSummaryScreen = () => {
   const loadData = useCallback(
     async ({ force = false }: { force?: boolean } = {}) => {
       if (!courseId) return;
-      const fetchedCourse = await courseController.getCourseById(courseId);
+      const [fetchedCourse, staffRole] = await Promise.all([
+        courseController.getCourseById(courseId),
+        courseStaffController.loadMyRole(courseId),
+      ]);
       if (fetchedCourse) {
         setCourse(fetchedCourse);
       }
+      // El resumen expone las notas de todo el curso: solo el equipo docente puede verlo.
+      const allowed = can(user, "assessment.viewResults", { course: fetchedCourse, staffRole });
+      setCanViewResults(allowed);
+      if (!allowed) return;
+
       await groupController.loadByCourse(courseId, { force });
       await enrollmentController.loadEnrollmentsForCourse(courseId, { force });
       
@@ -67,10 +82,12 @@ const CoursePeerReviewSummaryScreen = () => {
       activityController,
       courseController,
       courseId,
+      courseStaffController,
       currentActivityIds,
       enrollmentController,
       groupController,
       peerReviewController,
+      user,
     ],
   );
 
@@ -126,6 +143,14 @@ const CoursePeerReviewSummaryScreen = () => {
   );
 
   const renderContent = () => {
+    if (canViewResults === false) {
+      return (
+        <SectionCard title="Sin acceso" icon="lock-outline" theme={theme}>
+          <Text>Solo el equipo docente del curso puede ver el resumen de peer review.</Text>
+        </SectionCard>
+      );
+    }
+
     if (peerReviewState.error) {
       return (
         <SectionCard title="Error al cargar" icon="error-outline" theme={theme}>
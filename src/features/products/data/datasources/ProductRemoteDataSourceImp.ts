@@ -1,29 +1,22 @@
-import { ILocalPreferences } from "@/src/core/iLocalPreferences";
-import { LocalPreferencesAsyncStorage } from "@/src/core/LocalPreferencesAsyncStorage";
-import { AuthRemoteDataSourceImpl } from "@/src/features/auth/data/datasources/AuthRemoteDataSourceImp";
+import { RobleEnvironmentProfile } from "@/src/core/environment/robleEnvironments";
+import { AccessTokenProvider } from "@/src/features/auth/data/AccessTokenProvider";
 import { NewProduct, Product } from "../../domain/entities/Product";
 import { ProductDataSource } from "./ProductDataSource";
 
-const ACCESS_TOKEN_KEY = "auth:accessToken";
-const REFRESH_TOKEN_KEY = "auth:refreshToken";
-
 export class ProductRemoteDataSourceImp implements ProductDataSource {
   private readonly projectId: string;
   private readonly baseUrl: string;
   private readonly table = "Product";
 
-  private prefs: ILocalPreferences;
-
   constructor(
-    private authService: AuthRemoteDataSourceImpl,
-    projectId = process.env.EXPO_PUBLIC_ROBLE_PROJECT_ID
+    private tokenProvider: AccessTokenProvider,
+    environment: Pick<RobleEnvironmentProfile, "databaseBaseUrl" | "databaseName">
   ) {
-    if (!projectId) {
-      throw new Error("Missing EXPO_PUBLIC_ROBLE_PROJECT_ID env var");
+    if (!environment.databaseName) {
+      throw new Error("Missing ROBLE database name in the active environment");
     }
-    this.prefs = LocalPreferencesAsyncStorage.getInstance();
-    this.projectId = projectId;
-    this.baseUrl = `https://roble-api.openlab.uninorte.edu.co/database/${this.projectId}`;
+    this.projectId = environment.databaseName;
+    this.baseUrl = `${environment.databaseBaseUrl.replace(/\/+$/, "")}/${this.projectId}`;
   }
 
   private async authorizedFetch(
@@ -31,56 +24,36 @@ export class ProductRemoteDataSourceImp implements ProductDataSource {
     options: RequestInit,
     retry = true
   ): Promise<Response> {
-    const token = await this.prefs.retrieveData<string | null>(ACCESS_TOKEN_KEY);
-    const headers = new Headers(options.headers as HeadersInit | undefined);
-    if (token) {
-      headers.set("Authorization", `Bearer ${token}`);
-    } else {
-      headers.delete("Authorization");
-    }
-
+    const token = await this.tokenProvider.getAccessToken();
     const response = await fetch(url, {
       ...options,
-      headers,
+      headers: this.withAuthorization(options.headers, token),
     });
 
-    if (response.status === 401 && retry) {
+    if (response.status === 401 && retry && token) {
       console.warn("401 detected, trying to refresh token…");
-      try {
-        const refreshToken = await this.prefs.retrieveData<string | null>(REFRESH_TOKEN_KEY);
-        if (!refreshToken) {
-          throw new Error("Missing refresh token for retry");
-        }
-        const refreshed = await this.authService.refreshToken(refreshToken);
-        if (refreshed?.accessToken) {
-          await Promise.all([
-            this.prefs.storeData(ACCESS_TOKEN_KEY, refreshed.accessToken),
-            this.prefs.storeData(
-              REFRESH_TOKEN_KEY,
-              refreshed.refreshToken ?? refreshToken
-            ),
-          ]);
-          const newToken = await this.prefs.retrieveData<string | null>(ACCESS_TOKEN_KEY);
-          const retryHeaders = new Headers(options.headers as HeadersInit | undefined);
-          if (newToken) {
-            retryHeaders.set("Authorization", `Bearer ${newToken}`);
-          } else {
-            retryHeaders.delete("Authorization");
-          }
-          return await fetch(url, {
-            ...options,
-            headers: retryHeaders,
-          });
-        }
-      } catch (e) {
-        console.warn("Token refresh failed, forcing logout", e);
-        // Here you might trigger logout context/state
+      const newToken = await this.tokenProvider.refreshAccessToken(token);
+      if (newToken) {
+        return fetch(url, {
+          ...options,
+          headers: this.withAuthorization(options.headers, newToken),
+        });
       }
     }
 
     return response;
   }
 
+  private withAuthorization(base: RequestInit["headers"], token: string | null): Headers {
+    const headers = new Headers(base as HeadersInit | undefined);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    } else {
+      headers.delete("Authorization");
+    }
+    return headers;
+  }
+
 
   async getProducts(): Promise<Product[]> {
     const url = `${this.baseUrl}/read?tableName=${this.table}`;
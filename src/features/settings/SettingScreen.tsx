@@ -1,3 +1,4 @@
+import { useNavigation } from "@react-navigation/native";
 import React from "react";
 import { SafeAreaView, ScrollView, StyleSheet, View } from "react-native";
 import { Button, Divider, List, Switch, Text, useTheme } from "react-native-paper";
@@ -10,6 +11,7 @@ const PREMIUM_BLACK = "#1A1A1A";
 
 export default function SettingScreen() {
   const theme = useTheme();
+  const navigation = useNavigation<any>();
   const { logout } = useAuth();
 
   const [notificationsEnabled, setNotificationsEnabled] = React.useState(true);
@@ -75,6 +77,7 @@ export default function SettingScreen() {
           <List.Item
             title="Editar Perfil"
             description="Cambiar información personal"
+            onPress={() => navigation.navigate("EditProfile")}
             left={(props) => <List.Icon {...props} icon="account-edit" />}
             right={(props) => <List.Icon {...props} icon="chevron-right" />}
           />
@@ -82,10 +85,19 @@ export default function SettingScreen() {
           <List.Item
             title="Cambiar Contraseña"
             description="Actualizar tu contraseña"
+            onPress={() => navigation.navigate("ChangePassword")}
             left={(props) => <List.Icon {...props} icon="lock" />}
             right={(props) => <List.Icon {...props} icon="chevron-right" />}
           />
           <Divider />
+          <List.Item
+            title="Seguridad de la Sesión"
+            description="Duración de la sesión y bloqueo con PIN"
+            onPress={() => navigation.navigate("SessionSecurity")}
+            left={(props) => <List.Icon {...props} icon="shield-lock" />}
+            right={(props) => <List.Icon {...props} icon="chevron-right" />}
+          />
+          <Divider />
           <List.Item
             title="Privacidad"
             description="Configuración de privacidad"
@@ -121,6 +133,18 @@ export default function SettingScreen() {
             left={(props) => <List.Icon {...props} icon="email" />}
             right={(props) => <List.Icon {...props} icon="chevron-right" />}
           />
+          {__DEV__ ? (
+            <>
+              <Divider />
+              <List.Item
+                title="Entorno de desarrollo"
+                description="Cambiar el servidor ROBLE"
+                onPress={() => navigation.navigate("Developer")}
+                left={(props) => <List.Icon {...props} icon="server" />}
+                right={(props) => <List.Icon {...props} icon="chevron-right" />}
+              />
+            </>
+          ) : null}
         </SettingsCard>
 
         <View style={styles.logoutContainer}>
@@ -0,0 +1,191 @@
+import { describeError } from "@/src/data/services/RobleErrors";
+import { CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { CourseStaffRepository } from "@/src/domain/repositories/CourseStaffRepository";
+import { InviteCourseStaffUseCase } from "@/src/domain/usecases/staff/InviteCourseStaffUseCase";
+import { UpdateCourseStaffUseCase } from "@/src/domain/usecases/staff/UpdateCourseStaffUseCase";
+
+export type CourseStaffControllerState = {
+  isLoading: boolean;
+  error: string | null;
+  staffByCourse: Record<string, CourseStaffMember[]>;
+  // Rol del usuario actual por curso; `null` si no forma parte del equipo.
+  myRoles: Record<string, CourseStaffMember["role"] | null>;
+};
+
+type Dependencies = {
+  courseStaffRepository: CourseStaffRepository;
+  inviteCourseStaffUseCase: InviteCourseStaffUseCase;
+  updateCourseStaffUseCase: UpdateCourseStaffUseCase;
+  getCurrentUserId: () => Promise<string | null>;
+};
+
+const INITIAL_STATE: CourseStaffControllerState = {
+  isLoading: false,
+  error: null,
+  staffByCourse: {},
+  myRoles: {},
+};
+
+export class CourseStaffController {
+  private state: CourseStaffControllerState = INITIAL_STATE;
+  private readonly listeners = new Set<() => void>();
+  private readonly loadingCourseIds = new Set<string>();
+
+  private readonly courseStaffRepository: CourseStaffRepository;
+  private readonly inviteCourseStaffUseCase: InviteCourseStaffUseCase;
+  private readonly updateCourseStaffUseCase: UpdateCourseStaffUseCase;
+  private readonly getCurrentUserId: () => Promise<string | null>;
+
+  constructor({
+    courseStaffRepository,
+    inviteCourseStaffUseCase,
+    updateCourseStaffUseCase,
+    getCurrentUserId,
+  }: Dependencies) {
+    this.courseStaffRepository = courseStaffRepository;
+    this.inviteCourseStaffUseCase = inviteCourseStaffUseCase;
+    this.updateCourseStaffUseCase = updateCourseStaffUseCase;
+    this.getCurrentUserId = getCurrentUserId;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): CourseStaffControllerState {
+    return this.state;
+  }
+
+  staffFor(courseId: string): CourseStaffMember[] {
+    return this.state.staffByCourse[courseId] ?? [];
+  }
+
+  myRoleFor(courseId: string): CourseStaffMember["role"] | null {
+    return this.state.myRoles[courseId] ?? null;
+  }
+
+  async loadMyRole(courseId: string): Promise<CourseStaffMember["role"] | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId || !courseId) return null;
+    try {
+      const member = await this.courseStaffRepository.getStaffMember(courseId, userId);
+      const role = member?.role ?? null;
+      this.setState((prev) => ({ ...prev, myRoles: { ...prev.myRoles, [courseId]: role } }));
+      return role;
+    } catch (error) {
+      console.debug("[STAFF] No se pudo consultar el rol en el curso", error);
+      return this.myRoleFor(courseId);
+    }
+  }
+
+  async loadCourseStaff(courseId: string, options: { force?: boolean } = {}) {
+    if (!courseId) return;
+    if (this.loadingCourseIds.has(courseId) && !options.force) {
+      return;
+    }
+
+    this.loadingCourseIds.add(courseId);
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const staff = await this.courseStaffRepository.getStaffByCourse(courseId);
+      this.setState((prev) => ({
+        ...prev,
+        staffByCourse: { ...prev.staffByCourse, [courseId]: staff },
+      }));
+    } catch (error) {
+      this.setError(error);
+    } finally {
+      this.loadingCourseIds.delete(courseId);
+      this.setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }
+
+  async invite(params: {
+    courseId: string;
+    identifier: string;
+    role: CourseStaffMember["role"];
+  }): Promise<CourseStaffMember | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) {
+      this.setError("Usuario no autenticado");
+      return null;
+    }
+
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const member = await this.inviteCourseStaffUseCase.execute({ ...params, invitedBy: userId });
+      this.setState((prev) => ({
+        ...prev,
+        staffByCourse: {
+          ...prev.staffByCourse,
+          [member.courseId]: [...(prev.staffByCourse[member.courseId] ?? []), member],
+        },
+      }));
+      return member;
+    } catch (error) {
+      this.setError(error);
+      return null;
+    } finally {
+      this.setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }
+
+  async changeRole(member: CourseStaffMember, role: CourseStaffMember["role"] | null): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) {
+      this.setError("Usuario no autenticado");
+      return false;
+    }
+
+    this.setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const updated = await this.updateCourseStaffUseCase.execute({ userId, member, role });
+      this.setState((prev) => {
+        const current = prev.staffByCourse[member.courseId] ?? [];
+        const next = updated
+          ? current.map((item) => (item.id === updated.id ? updated : item))
+          : current.filter((item) => item.id !== member.id);
+        return { ...prev, staffByCourse: { ...prev.staffByCourse, [member.courseId]: next } };
+      });
+      return true;
+    } catch (error) {
+      this.setError(error);
+      return false;
+    } finally {
+      this.setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }
+
+  clearError() {
+    this.setState((prev) => ({ ...prev, error: null }));
+  }
+
+  reset() {
+    this.loadingCourseIds.clear();
+    this.state = INITIAL_STATE;
+    this.notify();
+  }
+
+  private setState(updater: (prev: CourseStaffControllerState) => CourseStaffControllerState) {
+    const next = updater(this.state);
+    this.state = next;
+    this.notify();
+  }
+
+  private setError(error: unknown) {
+    const message = describeError(error);
+    this.setState((prev) => ({ ...prev, error: message }));
+  }
+
+  private notify() {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error("CourseStaffController listener error", error);
+      }
+    }
+  }
+}
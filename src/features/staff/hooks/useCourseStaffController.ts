@@ -0,0 +1,10 @@
+import { TOKENS } from "@/src/core/di/tokens";
+import { useController } from "@/src/core/hooks/useController";
+import {
+  CourseStaffController,
+  CourseStaffControllerState,
+} from "@/src/features/staff/controllers/CourseStaffController";
+
+export function useCourseStaffController() {
+  return useController<CourseStaffController, CourseStaffControllerState>(TOKENS.CourseStaffController);
+}
@@ -0,0 +1,401 @@
+import { MaterialIcons } from "@expo/vector-icons";
+import { useFocusEffect, useNavigation, useRoute } from "@react-navigation/native";
+import React, { useCallback, useState } from "react";
+import { Alert, RefreshControl, ScrollView, StyleSheet, View } from "react-native";
+import {
+  ActivityIndicator,
+  Button,
+  Chip,
+  IconButton,
+  Text,
+  TextInput,
+  useTheme,
+} from "react-native-paper";
+import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { BottomNavigationDock } from "@/src/components/BottomNavigationDock";
+import { Course } from "@/src/domain/models/Course";
+import { COURSE_STAFF_ROLE_LABELS, CourseStaffMember } from "@/src/domain/models/CourseStaff";
+import { can } from "@/src/domain/policies/AccessPolicy";
+import { useAuth } from "@/src/features/auth/presentation/context/authContext";
+import { useCourseController } from "@/src/features/course/hooks/useCourseController";
+import { useEnrollmentController } from "@/src/features/enrollment/hooks/useEnrollmentController";
+import { useCourseStaffController } from "@/src/features/staff/hooks/useCourseStaffController";
+
+type RouteParams = {
+  courseId: string;
+};
+
+const INVITE_ROLES: CourseStaffMember["role"][] = ["coteacher", "assistant"];
+
+const ROLE_DESCRIPTIONS: Record<CourseStaffMember["role"], string> = {
+  coteacher: "Gestiona contenido, categorías, grupos y actividades.",
+  assistant: "Gestiona grupos y revisa resultados de peer review.",
+};
+
+const CourseStaffScreen = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute();
+  const { courseId } = (route.params ?? {}) as RouteParams;
+
+  const theme = useTheme();
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const [, courseController] = useCourseController();
+  const [, enrollmentController] = useEnrollmentController();
+  const [staffState, staffController] = useCourseStaffController();
+
+  const [course, setCourse] = useState<Course | null>(null);
+  const [identifier, setIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<CourseStaffMember["role"]>("coteacher");
+  const [refreshing, setRefreshing] = useState(false);
+  // Los nombres viven en la caché de usuarios del controlador de inscripciones, que no notifica.
+  const [, setUsersLoaded] = useState(0);
+
+  const staff = courseId ? staffController.staffFor(courseId) : [];
+  const staffRole = courseId ? staffState.myRoles[courseId] ?? null : null;
+  const canManage = can(user, "course.manageStaff", { course, staffRole });
+
+  const loadUsers = useCallback(
+    async (userIds: string[]) => {
+      await Promise.all(userIds.map((id) => enrollmentController.ensureUserLoaded(id)));
+      setUsersLoaded((prev) => prev + 1);
+    },
+    [enrollmentController],
+  );
+
+  const loadData = useCallback(
+    async ({ force = false }: { force?: boolean } = {}) => {
+      if (!courseId) return;
+      const [fetched] = await Promise.all([
+        courseController.getCourseById(courseId),
+        staffController.loadMyRole(courseId),
+        staffController.loadCourseStaff(courseId, { force }),
+      ]);
+      if (fetched) {
+        setCourse(fetched);
+      }
+      await loadUsers([
+        ...(fetched ? [fetched.teacherId] : []),
+        ...staffController.staffFor(courseId).map((member) => member.userId),
+      ]);
+    },
+    [courseController, courseId, loadUsers, staffController],
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      void loadData();
+    }, [loadData]),
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadData({ force: true });
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadData]);
+
+  const handleInvite = useCallback(async () => {
+    if (!courseId || !identifier.trim()) return;
+    const member = await staffController.invite({ courseId, identifier, role: inviteRole });
+    if (member) {
+      setIdentifier("");
+      await loadUsers([member.userId]);
+    }
+  }, [courseId, identifier, inviteRole, loadUsers, staffController]);
+
+  const handleChangeRole = useCallback(
+    (member: CourseStaffMember) => {
+      const nextRole = member.role === "coteacher" ? "assistant" : "coteacher";
+      Alert.alert(
+        "Cambiar rol",
+        `¿Cambiar a ${enrollmentController.userName(member.userId)} a ${COURSE_STAFF_ROLE_LABELS[nextRole]}?`,
+        [
+          { text: "Cancelar", style: "cancel" },
+          { text: "Cambiar", onPress: () => void staffController.changeRole(member, nextRole) },
+        ],
+      );
+    },
+    [enrollmentController, staffController],
+  );
+
+  const handleRemove = useCallback(
+    (member: CourseStaffMember) => {
+      Alert.alert(
+        "Quitar del equipo",
+        `${enrollmentController.userName(member.userId)} dejará de tener acceso docente al curso.`,
+        [
+          { text: "Cancelar", style: "cancel" },
+          { text: "Quitar", style: "destructive", onPress: () => void staffController.changeRole(member, null) },
+        ],
+      );
+    },
+    [enrollmentController, staffController],
+  );
+
+  const loading = staffState.isLoading && staff.length === 0 && !course;
+  const cardStyle = {
+    backgroundColor: theme.colors.surface,
+    borderColor: theme.colors.outlineVariant ?? "#00000012",
+  };
+
+  return (
+    <SafeAreaView edges={['bottom']} style={[styles.safeArea, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.page}>
+        <ScrollView
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: Math.max(insets.top, 20) + 12,
+              paddingBottom: 120 + insets.bottom,
+            },
+          ]}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={theme.colors.primary}
+              colors={[theme.colors.primary]}
+              progressBackgroundColor={theme.colors.surface}
+            />
+          }
+        >
+          <View style={styles.headerRow}>
+            <IconButton icon="arrow-left" onPress={() => navigation.goBack()} />
+            <View style={styles.headerTexts}>
+              <Text style={[styles.headerSubtitle, { color: theme.colors.onSurfaceVariant }]}>Equipo docente</Text>
+              <Text style={[styles.headerTitle, { color: theme.colors.onSurface }]}>{course?.name ?? "Curso"}</Text>
+            </View>
+          </View>
+
+          {staffState.error ? (
+            <Chip
+              icon="alert-circle-outline"
+              closeIcon="close"
+              style={styles.errorChip}
+              onClose={() => staffController.clearError()}
+            >
+              {staffState.error}
+            </Chip>
+          ) : null}
+
+          {canManage ? (
+            <View style={[styles.card, cardStyle]}>
+              <Text style={[styles.cardTitle, { color: theme.colors.onSurface }]}>Invitar al equipo</Text>
+              <TextInput
+                mode="outlined"
+                label="Correo o @usuario"
+                value={identifier}
+                onChangeText={setIdentifier}
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+              />
+              <View style={styles.chipRow}>
+                {INVITE_ROLES.map((role) => (
+                  <Chip
+                    key={role}
+                    style={styles.chip}
+                    selected={inviteRole === role}
+                    onPress={() => setInviteRole(role)}
+                  >
+                    {COURSE_STAFF_ROLE_LABELS[role]}
+                  </Chip>
+                ))}
+              </View>
+              <Text style={[styles.roleHint, { color: theme.colors.onSurfaceVariant }]}>
+                {ROLE_DESCRIPTIONS[inviteRole]}
+              </Text>
+              <Button
+                mode="contained"
+                icon="account-plus"
+                onPress={handleInvite}
+                disabled={!identifier.trim() || staffState.isLoading}
+                loading={staffState.isLoading}
+                uppercase={false}
+                style={styles.inviteButton}
+              >
+                Invitar
+              </Button>
+            </View>
+          ) : null}
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" />
+              <Text style={[styles.loadingText, { color: theme.colors.onSurfaceVariant }]}>Cargando equipo…</Text>
+            </View>
+          ) : (
+            <View style={styles.listContainer}>
+              {course ? (
+                <View style={[styles.memberItem, cardStyle]}>
+                  <MaterialIcons name="school" size={22} color={theme.colors.primary} style={styles.memberIcon} />
+                  <View style={styles.memberContent}>
+                    <Text style={[styles.memberName, { color: theme.colors.onSurface }]}>
+                      {enrollmentController.userName(course.teacherId)}
+                    </Text>
+                    <Text style={[styles.memberRole, { color: theme.colors.onSurfaceVariant }]}>
+                      {COURSE_STAFF_ROLE_LABELS.owner}
+                    </Text>
+                  </View>
+                </View>
+              ) : null}
+
+              {staff.map((member) => (
+                <View key={member.id} style={[styles.memberItem, cardStyle]}>
+                  <MaterialIcons
+                    name={member.role === "coteacher" ? "co-present" : "support-agent"}
+                    size={22}
+                    color={theme.colors.primary}
+                    style={styles.memberIcon}
+                  />
+                  <View style={styles.memberContent}>
+                    <Text style={[styles.memberName, { color: theme.colors.onSurface }]}>
+                      {enrollmentController.userName(member.userId)}
+                    </Text>
+                    <Text style={[styles.memberRole, { color: theme.colors.onSurfaceVariant }]}>
+                      {COURSE_STAFF_ROLE_LABELS[member.role]}
+                      {enrollmentController.userEmail(member.userId)
+                        ? ` • ${enrollmentController.userEmail(member.userId)}`
+                        : ""}
+                    </Text>
+                  </View>
+                  {canManage ? (
+                    <>
+                      <IconButton
+                        icon="swap-horizontal"
+                        accessibilityLabel="Cambiar rol"
+                        onPress={() => handleChangeRole(member)}
+                      />
+                      <IconButton
+                        icon="account-remove"
+                        accessibilityLabel="Quitar del equipo"
+                        iconColor={theme.colors.error}
+                        onPress={() => handleRemove(member)}
+                      />
+                    </>
+                  ) : null}
+                </View>
+              ))}
+
+              {staff.length === 0 ? (
+                <Text style={[styles.emptyText, { color: theme.colors.onSurfaceVariant }]}>
+                  {canManage
+                    ? "Aún no has invitado co-docentes ni asistentes."
+                    : "Este curso no tiene co-docentes ni asistentes."}
+                </Text>
+              ) : null}
+            </View>
+          )}
+        </ScrollView>
+        <BottomNavigationDock currentIndex={-1} />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+export default CourseStaffScreen;
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  page: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  headerRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+  },
+  headerTexts: {
+    flex: 1,
+    marginRight: 12,
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: "700",
+    marginTop: 6,
+  },
+  errorChip: {
+    marginTop: 16,
+  },
+  card: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 18,
+    borderWidth: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  input: {
+    marginTop: 12,
+  },
+  chipRow: {
+    flexDirection: "row",
+    marginTop: 12,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  roleHint: {
+    marginTop: 8,
+    fontSize: 13,
+  },
+  inviteButton: {
+    marginTop: 14,
+    alignSelf: "flex-start",
+  },
+  loadingContainer: {
+    paddingVertical: 48,
+    alignItems: "center",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+  },
+  listContainer: {
+    marginTop: 20,
+  },
+  memberItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingLeft: 14,
+    paddingRight: 4,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  memberIcon: {
+    marginRight: 12,
+  },
+  memberContent: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  memberRole: {
+    marginTop: 4,
+    fontSize: 13,
+  },
+  emptyText: {
+    marginTop: 4,
+    fontSize: 14,
+    textAlign: "center",
+  },
+});